@@ -9,6 +9,7 @@ import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import SplashPage from './components/SplashPage';
 import KeyboardShortcutsModal from './components/KeyboardShortcutsModal';
 import UserSettingsModal from './components/UserSettingsModal';
+import UsagePanel from './components/UsagePanel';
 import { AppHeader } from './components/AppHeader';
 import { NavigationTabs } from './components/NavigationTabs';
 import { ViewMode } from './types';
@@ -38,6 +39,7 @@ const AppContent: React.FC = () => {
   const [currentView, setCurrentView] = useState<ViewMode>(ViewMode.HOME);
   const [showIntro, setShowIntro] = useState(true);
   const [showShortcuts, setShowShortcuts] = useState(false);
+  const [showUsage, setShowUsage] = useState(false);
 
   const handleNavigate = useCallback((mode: ViewMode) => {
     setCurrentView(mode);
@@ -65,6 +67,7 @@ const AppContent: React.FC = () => {
       // Close Modals: Escape
       if (e.key === 'Escape') {
         setShowShortcuts(false);
+        setShowUsage(false);
       }
     };
 
@@ -88,11 +91,13 @@ const AppContent: React.FC = () => {
       {showIntro && <SplashPage onComplete={handleIntroComplete} />}
       
       {showShortcuts && <KeyboardShortcutsModal onClose={() => setShowShortcuts(false)} />}
+      {showUsage && <UsagePanel onClose={() => setShowUsage(false)} />}
 
       <AppHeader 
         hasApiKey={true} 
         onNavigateHome={() => setCurrentView(ViewMode.HOME)} 
         onShowShortcuts={() => setShowShortcuts(true)} 
+        onShowUsage={() => setShowUsage(true)}
       />
 
       <main className="flex-1 w-full max-w-[1400px] mx-auto px-4 sm:px-6 lg:px-8 py-8 flex flex-col">
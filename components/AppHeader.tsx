@@ -5,7 +5,7 @@
 */
 
 import React, { useState } from 'react';
-import { PenTool, CreditCard, Keyboard, Github, Sun, Moon, Palette, Settings, LogIn, LogOut, User } from 'lucide-react';
+import { PenTool, CreditCard, Keyboard, Github, Sun, Moon, Palette, Settings, LogIn, LogOut, User, Gauge } from 'lucide-react';
 import { ViewMode } from '../types';
 import { useTheme, Theme } from '../contexts/ThemeContext';
 import { useUserSettings } from '../contexts/UserSettingsContext';
@@ -16,6 +16,7 @@ interface AppHeaderProps {
   hasApiKey: boolean;
   onNavigateHome: () => void;
   onShowShortcuts: () => void;
+  onShowUsage: () => void;
 }
 
 const THEMES: { value: Theme; icon: typeof Sun; label: string }[] = [
@@ -27,7 +28,8 @@ const THEMES: { value: Theme; icon: typeof Sun; label: string }[] = [
 export const AppHeader: React.FC<AppHeaderProps> = ({ 
   hasApiKey, 
   onNavigateHome, 
-  onShowShortcuts 
+  onShowShortcuts,
+  onShowUsage
 }) => {
   const { theme, setTheme } = useTheme();
   const { openSettings, hasKey } = useUserSettings();
@@ -108,6 +110,14 @@ export const AppHeader: React.FC<AppHeaderProps> = ({
           >
             <Settings className="w-5 h-5" />
           </button>
+          <button
+            onClick={onShowUsage}
+            className="p-2 md:p-2.5 rounded-xl bg-slate-900/50 border border-white/10 text-slate-400 hover:text-white hover:border-violet-500/50 transition-all hover:shadow-neon-violet"
+            title="AI Usage & Budget"
+            aria-label="AI Usage & Budget"
+          >
+            <Gauge className="w-5 h-5" />
+          </button>
           <button
             onClick={cycleTheme}
             className="p-2 md:p-2.5 rounded-xl bg-slate-900/50 border border-white/10 text-slate-400 hover:text-white hover:border-violet-500/50 transition-all hover:shadow-neon-violet"
@@ -0,0 +1,279 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useMemo, useState } from 'react';
+import { GitCompare, Loader2, XCircle, Sparkles, FilePlus, FileMinus, FileSymlink, Plus, Minus, AlertCircle, Copy } from 'lucide-react';
+import { RepoHost } from '../types';
+import { RepoRefs } from '../services/githubService';
+import { getRepoSource } from '../services/repoSource';
+import { compareRefs, RefGraphProgress } from '../services/architectureDiffService';
+import { summarizeArchitectureDiff } from '../services/geminiService';
+import { isAbortError } from '../services/aiProvider';
+import { logError } from '../services/errorService';
+import { useAbortController } from '../hooks/useAbortController';
+import { ArchitectureDiff as GraphDiff, changedNodeIds } from '../utils/graphDiff';
+import { inducedSubgraph, neighborhood } from '../utils/graphSearch';
+import D3FlowChart from './D3FlowChart';
+
+interface ArchitectureDiffProps {
+  /** Defaults to GitHub. */
+  host?: RepoHost;
+  owner: string;
+  repo: string;
+  /** Ref the analyzer loaded; used as the default "after" side. */
+  gitRef?: string;
+  subdir?: string;
+}
+
+/** Rows listed per change category before "and N more". */
+const MAX_LIST_ITEMS = 50;
+
+const progressLabel = (progress: RefGraphProgress) =>
+  progress.phase === 'tree'
+    ? `LISTING ${progress.ref}${progress.total ? ` ${progress.done}/${progress.total}` : ''}`
+    : `READING ${progress.ref} ${progress.done}/${progress.total}`;
+
+const ChangeList: React.FC<{ title: string; icon: React.ReactNode; items: string[]; color: string }> = ({ title, icon, items, color }) => (
+  <div className="bg-slate-950/40 border border-white/5 rounded-xl p-3 min-w-0">
+    <h4 className={`text-[10px] uppercase tracking-wider font-mono flex items-center gap-1.5 mb-2 ${color}`}>
+      {icon} {title} <span className="text-slate-500">{items.length}</span>
+    </h4>
+    {items.length === 0 && <p className="text-xs text-slate-600 font-mono">None</p>}
+    <ul className="space-y-0.5 max-h-48 overflow-y-auto custom-scrollbar">
+      {items.slice(0, MAX_LIST_ITEMS).map(item => (
+        <li key={item} className="text-xs font-mono text-slate-300 truncate" title={item}>{item}</li>
+      ))}
+      {items.length > MAX_LIST_ITEMS && (
+        <li className="text-[10px] font-mono text-slate-500">and {items.length - MAX_LIST_ITEMS} more</li>
+      )}
+    </ul>
+  </div>
+);
+
+const LEGEND = [
+  { label: 'Added', color: 'bg-emerald-400' },
+  { label: 'Removed', color: 'bg-rose-400' },
+  { label: 'Moved', color: 'bg-amber-400' },
+];
+
+const ArchitectureDiff: React.FC<ArchitectureDiffProps> = ({ host, owner, repo, gitRef, subdir }) => {
+  const [baseRef, setBaseRef] = useState('');
+  const [headRef, setHeadRef] = useState(gitRef || '');
+  const [refs, setRefs] = useState<RepoRefs | null>(null);
+  const [progress, setProgress] = useState<RefGraphProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [diff, setDiff] = useState<GraphDiff | null>(null);
+  const [compared, setCompared] = useState<{ base: string; head: string } | null>(null);
+  const [changesOnly, setChangesOnly] = useState(true);
+  const [summary, setSummary] = useState('');
+  const [summarizing, setSummarizing] = useState(false);
+  const comparison = useAbortController();
+  const summaryRequest = useAbortController();
+
+  const loadRefs = async () => {
+    if (refs) return;
+    try {
+      const result = await getRepoSource(host).listRefs(owner, repo);
+      setRefs(result);
+      if (!baseRef) setBaseRef(result.defaultBranch);
+    } catch (err) {
+      console.warn('Failed to list refs:', err);
+    }
+  };
+
+  const handleCompare = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const base = baseRef.trim();
+    const head = headRef.trim() || refs?.defaultBranch || '';
+    if (!base || !head) {
+      setError('Enter both refs to compare.');
+      return;
+    }
+    setError(null);
+    setDiff(null);
+    setSummary('');
+    const signal = comparison.begin();
+    try {
+      const result = await compareRefs(host || 'github', owner, repo, base, head, subdir, { signal, onProgress: setProgress });
+      setDiff(result.diff);
+      setCompared({ base, head });
+    } catch (err: any) {
+      if (isAbortError(err)) return;
+      logError(err, 'ArchitectureDiff:compare');
+      setError(err.message || 'Failed to compare refs');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const handleSummarize = async () => {
+    if (!diff || !compared) return;
+    setSummarizing(true);
+    setSummary('');
+    try {
+      const text = await summarizeArchitectureDiff(repo, compared.base, compared.head, diff, {
+        signal: summaryRequest.begin(),
+        onDelta: (_delta, partial) => setSummary(partial),
+      });
+      setSummary(text);
+    } catch (err: any) {
+      if (!isAbortError(err)) {
+        logError(err, 'ArchitectureDiff:summary');
+        setError(err.message || 'Failed to summarize the changes');
+      }
+    } finally {
+      setSummarizing(false);
+    }
+  };
+
+  // Changed nodes plus their direct neighbors keep large diffs readable
+  const shownGraph = useMemo(() => {
+    if (!diff) return null;
+    if (!changesOnly) return diff.graph;
+    const changed = changedNodeIds(diff);
+    return changed.size > 0 ? inducedSubgraph(diff.graph, neighborhood(diff.graph, Array.from(changed), 1)) : diff.graph;
+  }, [diff, changesOnly]);
+
+  const unchanged = diff && diff.addedFiles.length + diff.removedFiles.length + diff.movedFiles.length + diff.addedEdges.length + diff.removedEdges.length === 0;
+  const refOptions = refs ? [...refs.branches, ...refs.tags] : [];
+
+  return (
+    <div className="space-y-6">
+      <form onSubmit={handleCompare} className="glass-panel rounded-2xl p-4 flex flex-wrap items-end gap-3 font-mono text-sm">
+        <label className="flex flex-col gap-1 flex-1 min-w-[160px]">
+          <span className="text-[10px] text-slate-500 uppercase tracking-wider">Before</span>
+          <input
+            value={baseRef}
+            onChange={e => setBaseRef(e.target.value)}
+            onFocus={loadRefs}
+            list="arch-diff-refs"
+            placeholder="main, v1.2.0 or a commit SHA"
+            className="bg-slate-900/80 border border-white/10 rounded-lg px-3 py-2 text-slate-200 placeholder-slate-600 focus:outline-none focus:border-violet-500/50"
+          />
+        </label>
+        <label className="flex flex-col gap-1 flex-1 min-w-[160px]">
+          <span className="text-[10px] text-slate-500 uppercase tracking-wider">After</span>
+          <input
+            value={headRef}
+            onChange={e => setHeadRef(e.target.value)}
+            onFocus={loadRefs}
+            list="arch-diff-refs"
+            placeholder="default branch"
+            className="bg-slate-900/80 border border-white/10 rounded-lg px-3 py-2 text-slate-200 placeholder-slate-600 focus:outline-none focus:border-violet-500/50"
+          />
+        </label>
+        <datalist id="arch-diff-refs">
+          {refOptions.map(ref => <option key={ref} value={ref} />)}
+        </datalist>
+        {progress ? (
+          <button
+            type="button"
+            onClick={comparison.cancel}
+            className="px-4 py-2 bg-red-500/10 hover:bg-red-500/20 border border-red-500/30 rounded-lg text-red-300 text-xs font-bold transition-colors flex items-center gap-2"
+          >
+            <Loader2 className="w-4 h-4 animate-spin" /> {progressLabel(progress)} <XCircle className="w-3 h-3" />
+          </button>
+        ) : (
+          <button
+            type="submit"
+            className="px-4 py-2 bg-violet-500/20 hover:bg-violet-500/30 border border-violet-500/40 rounded-lg text-violet-200 text-xs font-bold transition-colors flex items-center gap-2"
+          >
+            <GitCompare className="w-4 h-4" /> COMPARE
+          </button>
+        )}
+      </form>
+
+      {error && (
+        <div className="p-3 glass-panel border-red-500/30 rounded-xl flex items-center gap-3 text-red-400 font-mono text-sm">
+          <AlertCircle className="w-4 h-4 shrink-0" /> {error}
+        </div>
+      )}
+
+      {diff && compared && (
+        <div className="space-y-4 animate-in fade-in">
+          {unchanged && (
+            <p className="text-sm font-mono text-slate-400">No structural changes between {compared.base} and {compared.head}.</p>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-5 gap-3">
+            <ChangeList title="Files added" icon={<FilePlus className="w-3 h-3" />} items={diff.addedFiles} color="text-emerald-400" />
+            <ChangeList title="Files removed" icon={<FileMinus className="w-3 h-3" />} items={diff.removedFiles} color="text-rose-400" />
+            <ChangeList title="Files moved" icon={<FileSymlink className="w-3 h-3" />} items={diff.movedFiles.map(m => `${m.from} → ${m.to}`)} color="text-amber-400" />
+            <ChangeList title="Imports added" icon={<Plus className="w-3 h-3" />} items={diff.addedEdges.map(e => `${e.source} → ${e.target}`)} color="text-emerald-400" />
+            <ChangeList title="Imports removed" icon={<Minus className="w-3 h-3" />} items={diff.removedEdges.map(e => `${e.source} → ${e.target}`)} color="text-rose-400" />
+          </div>
+
+          {/* Merged Graph */}
+          {shownGraph && (
+            <div className="glass-panel rounded-3xl overflow-hidden">
+              <div className="px-4 py-3 bg-slate-950/50 border-b border-white/5 flex flex-wrap items-center justify-between gap-2 font-mono text-xs">
+                <div className="flex items-center gap-3">
+                  <span className="text-slate-300 font-bold uppercase tracking-wider">{compared.base} → {compared.head}</span>
+                  {LEGEND.map(item => (
+                    <span key={item.label} className="flex items-center gap-1 text-slate-500">
+                      <span className={`w-2 h-2 rounded-full ${item.color}`} /> {item.label}
+                    </span>
+                  ))}
+                </div>
+                <label className="flex items-center gap-1.5 text-slate-400 cursor-pointer">
+                  <input type="checkbox" checked={changesOnly} onChange={e => setChangesOnly(e.target.checked)} className="accent-violet-500" />
+                  Changes and neighbors only
+                </label>
+              </div>
+              <div className="h-[520px]">
+                <D3FlowChart data={shownGraph} />
+              </div>
+            </div>
+          )}
+
+          {/* AI Summary */}
+          <div className="glass-panel rounded-2xl p-4">
+            <div className="flex items-center justify-between gap-2 mb-3">
+              <h4 className="text-sm font-bold text-white flex items-center gap-2 font-mono uppercase tracking-wider">
+                <Sparkles className="w-4 h-4 text-violet-400" /> Change_Summary
+              </h4>
+              <div className="flex items-center gap-2">
+                {summary && !summarizing && (
+                  <button
+                    onClick={() => navigator.clipboard.writeText(summary)}
+                    className="p-1.5 rounded-lg text-slate-400 hover:text-white hover:bg-white/10 transition-colors"
+                    title="Copy summary"
+                  >
+                    <Copy className="w-4 h-4" />
+                  </button>
+                )}
+                {summarizing ? (
+                  <button
+                    onClick={summaryRequest.cancel}
+                    className="px-3 py-1 bg-red-500/10 hover:bg-red-500/20 border border-red-500/30 rounded text-red-300 text-xs font-mono font-bold transition-colors flex items-center gap-1"
+                  >
+                    <XCircle className="w-3 h-3" /> CANCEL
+                  </button>
+                ) : (
+                  <button
+                    onClick={handleSummarize}
+                    disabled={!!unchanged}
+                    className="px-3 py-1 bg-violet-500/10 hover:bg-violet-500/20 border border-violet-500/30 rounded text-violet-300 text-xs font-mono font-bold transition-colors disabled:opacity-40 flex items-center gap-1"
+                  >
+                    <Sparkles className="w-3 h-3" /> {summary ? 'REGENERATE' : 'SUMMARIZE'}
+                  </button>
+                )}
+              </div>
+            </div>
+            {summary ? (
+              <div className="whitespace-pre-wrap leading-relaxed text-[13px] text-slate-300">{summary}</div>
+            ) : (
+              <p className="text-xs font-mono text-slate-500">
+                {summarizing ? 'Reading the changes...' : 'Generate a written summary of these structural changes for the review.'}
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ArchitectureDiff;
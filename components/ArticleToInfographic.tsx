@@ -6,10 +6,13 @@
 import React, { useState } from 'react';
 import { generateArticleInfographic, generateComparisonInfographic, extractKeyStats } from '../services/geminiService';
 import { Citation, ArticleHistoryItem } from '../types';
-import { Link, Loader2, Download, Sparkles, AlertCircle, Palette, Globe, ExternalLink, BookOpen, Clock, Maximize, GitCompare, BarChart3, Plus, Minus, TrendingUp } from 'lucide-react';
+import { Link, Loader2, Download, Sparkles, AlertCircle, Palette, Globe, ExternalLink, BookOpen, Clock, Maximize, GitCompare, BarChart3, Plus, Minus, TrendingUp, RefreshCw } from 'lucide-react';
 import { LoadingState } from './LoadingState';
 import ImageViewer from './ImageViewer';
 import { useProjectContext } from '../contexts/ProjectContext';
+import { isAbortError } from '../services/aiProvider';
+import { getPromptVersions } from '../services/promptRegistry';
+import { useAbortController } from '../hooks/useAbortController';
 
 type SiteSketchMode = 'single' | 'compare' | 'stats';
 
@@ -52,6 +55,7 @@ const ArticleToInfographic: React.FC<ArticleToInfographicProps> = () => {
   const [citations, setCitations] = useState<Citation[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [loadingStage, setLoadingStage] = useState('');
+  const generation = useAbortController();
   
   // Mode State
   const [mode, setMode] = useState<SiteSketchMode>('single');
@@ -61,7 +65,7 @@ const ArticleToInfographic: React.FC<ArticleToInfographicProps> = () => {
   // Viewer State
   const [fullScreenImage, setFullScreenImage] = useState<{src: string, alt: string} | null>(null);
 
-  const addToHistory = (url: string, image: string, cites: Citation[]) => {
+  const addToHistory = (url: string, image: string, cites: Citation[], promptVersion: string) => {
       let title = url;
       try { title = new URL(url).hostname; } catch(e) {}
       
@@ -71,7 +75,8 @@ const ArticleToInfographic: React.FC<ArticleToInfographicProps> = () => {
           url,
           imageData: image,
           citations: cites,
-          date: new Date()
+          date: new Date(),
+          promptVersion
       };
       onAddToHistory(newItem);
   };
@@ -101,8 +106,8 @@ const ArticleToInfographic: React.FC<ArticleToInfographicProps> = () => {
     setCompareUrls(updated);
   };
 
-  const handleGenerate = async (e: React.FormEvent) => {
-    e.preventDefault();
+  const handleGenerate = async (e?: React.FormEvent, forceRefresh: boolean = false) => {
+    e?.preventDefault();
     
     // Validate based on mode
     if (mode === 'single' || mode === 'stats') {
@@ -124,6 +129,7 @@ const ArticleToInfographic: React.FC<ArticleToInfographicProps> = () => {
     setCitations([]);
     setKeyStats(null);
     setLoadingStage('INITIALIZING...');
+    const signal = generation.begin();
 
     try {
       const styleToUse = selectedStyle === 'Custom' ? customStyle : selectedStyle;
@@ -134,13 +140,14 @@ const ArticleToInfographic: React.FC<ArticleToInfographicProps> = () => {
           validUrls, 
           styleToUse, 
           (stage) => setLoadingStage(stage), 
-          selectedLanguage
+          selectedLanguage,
+          { signal, forceRefresh }
         );
         
         if (resultImage) {
           setImageData(resultImage);
           setCitations(resultCitations);
-          addToHistory(validUrls.join(' vs '), resultImage, resultCitations);
+          addToHistory(validUrls.join(' vs '), resultImage, resultCitations, getPromptVersions(['comparison-analysis', 'comparison-image']));
         } else {
           throw new Error("Failed to generate comparison infographic.");
         }
@@ -149,14 +156,15 @@ const ArticleToInfographic: React.FC<ArticleToInfographicProps> = () => {
           urlInput, 
           styleToUse, 
           (stage) => setLoadingStage(stage), 
-          selectedLanguage
+          selectedLanguage,
+          { signal, forceRefresh }
         );
         
         if (resultImage) {
           setImageData(resultImage);
           setCitations(resultCitations);
           setKeyStats(stats);
-          addToHistory(urlInput, resultImage, resultCitations);
+          addToHistory(urlInput, resultImage, resultCitations, getPromptVersions(['key-stats-analysis', 'key-stats-image']));
         } else {
           throw new Error("Failed to generate stats infographic.");
         }
@@ -165,19 +173,20 @@ const ArticleToInfographic: React.FC<ArticleToInfographicProps> = () => {
           urlInput, 
           styleToUse, 
           (stage) => setLoadingStage(stage), 
-          selectedLanguage
+          selectedLanguage,
+          { signal, forceRefresh }
         );
         
         if (resultImage) {
           setImageData(resultImage);
           setCitations(resultCitations);
-          addToHistory(urlInput, resultImage, resultCitations);
+          addToHistory(urlInput, resultImage, resultCitations, getPromptVersions(['article-analysis', 'article-image']));
         } else {
           throw new Error("Failed to generate infographic image. The URL might be inaccessible.");
         }
       }
     } catch (err: any) {
-      setError(err.message || "An unexpected error occurred.");
+      if (!isAbortError(err)) setError(err.message || "An unexpected error occurred.");
     } finally {
       setLoading(false);
       setLoadingStage('');
@@ -400,7 +409,7 @@ const ArticleToInfographic: React.FC<ArticleToInfographicProps> = () => {
       )}
 
       {loading && (
-        <LoadingState message={loadingStage || 'READING_CONTENT'} type="article" />
+        <LoadingState message={loadingStage || 'READING_CONTENT'} type="article" onCancel={generation.cancel} />
       )}
 
       {/* Result Section */}
@@ -411,6 +420,13 @@ const ArticleToInfographic: React.FC<ArticleToInfographicProps> = () => {
                   <Sparkles className="w-4 h-4 text-emerald-400" /> Generated_Result
                 </h3>
                 <div className="flex items-center gap-2">
+                    <button
+                        onClick={() => handleGenerate(undefined, true)}
+                        className="text-xs flex items-center gap-2 text-slate-400 hover:text-white transition-colors font-mono p-1.5 rounded-lg hover:bg-white/10"
+                        title="Regenerate (skip cache)"
+                    >
+                        <RefreshCw className="w-4 h-4" />
+                    </button>
                     <button 
                         onClick={() => setFullScreenImage({src: `data:image/png;base64,${imageData}`, alt: "Article Sketch"})}
                         className="text-xs flex items-center gap-2 text-slate-400 hover:text-white transition-colors font-mono p-1.5 rounded-lg hover:bg-white/10"
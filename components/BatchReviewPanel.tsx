@@ -0,0 +1,362 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { Play, Pause, Trash2, Loader2, ChevronRight, AlertTriangle, FileText, XCircle, Download } from 'lucide-react';
+import { DevStudioState } from '../types';
+import {
+  BatchJob, BatchTool, BATCH_TOOLS, createBatchJob, filesInScope, runBatchJob,
+  DEFAULT_BATCH_CONCURRENCY, DEFAULT_REQUESTS_PER_MINUTE
+} from '../services/batchReviewService';
+import { PersistenceService } from '../services/persistence';
+import { logError } from '../services/errorService';
+import { useAbortController } from '../hooks/useAbortController';
+import { getProjectKey } from '../utils/projectKey';
+import { buildBatchReport, groupIssues, IssueGrouping, SEVERITY_ORDER } from '../utils/batchReport';
+import { exportFindings, findingsFromBatchJob, FindingsExportFormat, FINDINGS_EXPORT_FORMATS } from '../utils/findingsExport';
+import { useFileDownload } from '../hooks/useFileDownload';
+
+interface BatchReviewPanelProps {
+  project: DevStudioState;
+  /** Directory to offer as the scope, e.g. that of the selected node. */
+  defaultScope: string;
+  onSelectFile: (path: string) => void;
+}
+
+type ReportView = IssueGrouping | 'gaps' | 'docs' | 'failed';
+
+const REPORT_VIEWS: { id: ReportView; label: string }[] = [
+  { id: 'severity', label: 'Severity' },
+  { id: 'file', label: 'File' },
+  { id: 'category', label: 'Category' },
+  { id: 'gaps', label: 'Gaps' },
+  { id: 'docs', label: 'Docs' },
+  { id: 'failed', label: 'Failed' },
+];
+
+const SEVERITY_COLORS: Record<string, string> = {
+  critical: 'text-red-400',
+  warning: 'text-amber-400',
+  info: 'text-sky-400',
+  suggestion: 'text-slate-400',
+  high: 'text-red-400',
+  medium: 'text-amber-400',
+  low: 'text-slate-400',
+};
+
+/** Groups and rows rendered per view; the counts still cover everything. */
+const MAX_GROUPS = 100;
+
+const BatchReviewPanel: React.FC<BatchReviewPanelProps> = ({ project, defaultScope, onSelectFile }) => {
+  const projectKey = getProjectKey(project);
+  const [job, setJob] = useState<BatchJob | null>(null);
+  const [running, setRunning] = useState(false);
+  const [scope, setScope] = useState(defaultScope);
+  const [tools, setTools] = useState<BatchTool[]>(['review']);
+  const [concurrency, setConcurrency] = useState(DEFAULT_BATCH_CONCURRENCY);
+  const [requestsPerMinute, setRequestsPerMinute] = useState(DEFAULT_REQUESTS_PER_MINUTE);
+  const [view, setView] = useState<ReportView>('severity');
+  const [openGroup, setOpenGroup] = useState<string | null>(null);
+  const batchRun = useAbortController();
+  const { downloadText } = useFileDownload();
+
+  // A job left running when the page closed resumes as paused
+  useEffect(() => {
+    let cancelled = false;
+    setJob(null);
+    PersistenceService.getBatchJob(projectKey)
+      .then(saved => {
+        if (!cancelled && saved) setJob(saved.status === 'running' ? { ...saved, status: 'paused' } : saved);
+      })
+      .catch(error => logError(error, 'BatchReview:load'));
+    return () => {
+      cancelled = true;
+      batchRun.cancel();
+    };
+  }, [projectKey, batchRun.cancel]);
+
+  useEffect(() => {
+    if (!job) setScope(defaultScope);
+  }, [defaultScope, job]);
+
+  const directories = useMemo(() => {
+    const dirs = new Set<string>();
+    project.fileTree.forEach(file => {
+      const parts = file.path.split('/');
+      for (let i = 1; i < parts.length; i++) dirs.add(parts.slice(0, i).join('/'));
+    });
+    return Array.from(dirs).sort();
+  }, [project.fileTree]);
+
+  const scopeFileCount = useMemo(() => filesInScope(project, scope.trim()).length, [project, scope]);
+  const report = useMemo(() => (job ? buildBatchReport(job) : null), [job]);
+  const issueGroups = useMemo(
+    () => (report && (view === 'severity' || view === 'file' || view === 'category') ? groupIssues(report.issues, view) : []),
+    [report, view]
+  );
+
+  const run = async (target: BatchJob) => {
+    const signal = batchRun.begin();
+    setJob(target);
+    setRunning(true);
+    try {
+      // A discarded job clears the state; late updates must not bring it back
+      const keep = (next: BatchJob) => setJob(current => (current ? next : null));
+      keep(await runBatchJob(project, target, { signal, onProgress: keep }));
+    } catch (error) {
+      logError(error, 'BatchReview:run');
+    } finally {
+      if (!signal.aborted) setRunning(false);
+    }
+  };
+
+  const handleStart = () => {
+    if (tools.length === 0 || scopeFileCount === 0) return;
+    run(createBatchJob(project, scope.trim(), tools, { concurrency, requestsPerMinute }));
+  };
+
+  const handlePause = () => {
+    batchRun.cancel();
+    setRunning(false);
+  };
+
+  const handleDiscard = () => {
+    batchRun.cancel();
+    setRunning(false);
+    setJob(null);
+    PersistenceService.deleteBatchJob(projectKey).catch(error => logError(error, 'BatchReview:discard'));
+  };
+
+  const handleExport = (format: FindingsExportFormat) => {
+    if (!job) return;
+    const { extension, mimeType } = FINDINGS_EXPORT_FORMATS[format];
+    const findings = findingsFromBatchJob(job, project.repoName, project.ref);
+    downloadText(exportFindings(findings, format), `${project.repoName}-findings.${extension}`, mimeType);
+  };
+
+  const toggleTool = (tool: BatchTool) =>
+    setTools(tools.includes(tool) ? tools.filter(t => t !== tool) : [...tools, tool]);
+
+  const failedCount = report?.failures.length ?? 0;
+  const percent = report && report.total > 0 ? Math.round((report.done / report.total) * 100) : 0;
+
+  const fileButton = (path: string) => (
+    <button onClick={() => onSelectFile(path)} className="text-sky-300 hover:underline truncate max-w-full text-left" title={path}>
+      {path}
+    </button>
+  );
+
+  return (
+    <div className="h-80 border-t border-white/5 bg-slate-950/70 flex flex-col text-xs font-mono shrink-0">
+      {/* Setup, or the progress of the current job */}
+      {!job ? (
+        <div className="px-3 py-2 border-b border-white/5 flex items-center gap-2 flex-wrap shrink-0">
+          <input
+            value={scope}
+            onChange={e => setScope(e.target.value)}
+            list="batch-scope-dirs"
+            placeholder="Whole repository"
+            className="flex-1 min-w-[140px] bg-slate-900 border border-white/10 rounded px-2 py-1 text-slate-200 placeholder:text-slate-600 focus:outline-none focus:border-indigo-500/50"
+            title="Directory to process; empty for the whole repository"
+          />
+          <datalist id="batch-scope-dirs">
+            {directories.map(dir => <option key={dir} value={dir} />)}
+          </datalist>
+          {(Object.keys(BATCH_TOOLS) as BatchTool[]).map(tool => (
+            <button
+              key={tool}
+              onClick={() => toggleTool(tool)}
+              className={`px-2 py-1 rounded border transition-colors ${
+                tools.includes(tool) ? 'bg-indigo-500/20 border-indigo-500/40 text-indigo-300' : 'border-white/5 text-slate-500 hover:text-slate-300'
+              }`}
+            >
+              {BATCH_TOOLS[tool]}
+            </button>
+          ))}
+          <label className="flex items-center gap-1 text-slate-500" title="Files processed at the same time">
+            Parallel
+            <input type="number" min={1} max={6} value={concurrency} onChange={e => setConcurrency(Math.min(6, Math.max(1, Number(e.target.value) || 1)))} className="w-10 bg-slate-900 border border-white/10 rounded px-1 py-0.5 text-slate-200" />
+          </label>
+          <label className="flex items-center gap-1 text-slate-500" title="Most model calls started per minute">
+            /min
+            <input type="number" min={1} max={120} value={requestsPerMinute} onChange={e => setRequestsPerMinute(Math.min(120, Math.max(1, Number(e.target.value) || 1)))} className="w-12 bg-slate-900 border border-white/10 rounded px-1 py-0.5 text-slate-200" />
+          </label>
+          <button
+            onClick={handleStart}
+            disabled={tools.length === 0 || scopeFileCount === 0}
+            className="px-3 py-1 rounded bg-indigo-500/20 border border-indigo-500/40 text-indigo-300 hover:bg-indigo-500/30 disabled:opacity-40 disabled:cursor-not-allowed flex items-center gap-1 transition-colors"
+          >
+            <Play className="w-3 h-3" /> Run on {scopeFileCount} files
+          </button>
+        </div>
+      ) : (
+        <div className="px-3 py-2 border-b border-white/5 flex items-center gap-2 shrink-0">
+          <span className="text-slate-400 truncate" title={job.scope || 'Whole repository'}>
+            {job.scope || 'Whole repository'} · {job.tools.map(t => BATCH_TOOLS[t]).join(', ')}
+          </span>
+          <div className="flex-1 h-1.5 bg-white/5 rounded-full overflow-hidden min-w-[60px]">
+            <div className="h-full bg-indigo-500 transition-all" style={{ width: `${percent}%` }} />
+          </div>
+          <span className="text-slate-400 shrink-0">{report!.done}/{report!.total}</span>
+          {failedCount > 0 && <span className="text-red-400 shrink-0">{failedCount} failed</span>}
+          {running ? (
+            <button onClick={handlePause} className="px-2 py-1 rounded border border-white/10 text-slate-300 hover:bg-white/5 flex items-center gap-1 shrink-0">
+              <Pause className="w-3 h-3" /> Pause
+            </button>
+          ) : job.status !== 'completed' || failedCount > 0 ? (
+            <button onClick={() => run(job)} className="px-2 py-1 rounded bg-indigo-500/20 border border-indigo-500/40 text-indigo-300 hover:bg-indigo-500/30 flex items-center gap-1 shrink-0">
+              <Play className="w-3 h-3" /> {job.status === 'completed' ? 'Retry failed' : 'Resume'}
+            </button>
+          ) : null}
+          <button onClick={handleDiscard} className="p-1 rounded text-slate-500 hover:text-red-300 hover:bg-white/5 shrink-0" title="Discard this run and its report">
+            <Trash2 className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      )}
+
+      {job?.haltReason && !running && (
+        <div className="px-3 py-1.5 border-b border-white/5 text-amber-300 flex items-center gap-1.5 shrink-0">
+          <AlertTriangle className="w-3 h-3 shrink-0" /> Paused: {job.haltReason}
+        </div>
+      )}
+
+      {!report ? (
+        <p className="p-4 text-slate-500">
+          Runs the selected tools over every file of a directory, a few at a time, and collects the results into one report. Progress is saved, so a paused or interrupted run picks up where it stopped.
+        </p>
+      ) : (
+        <>
+          {/* Summary and report views */}
+          <div className="px-3 py-2 border-b border-white/5 flex items-center gap-1 flex-wrap shrink-0">
+            {report.averageScore !== null && <span className="text-slate-400 mr-2">Avg score {report.averageScore}</span>}
+            {SEVERITY_ORDER.map(severity => (
+              <span key={severity} className={`mr-2 ${SEVERITY_COLORS[severity]}`}>{report.severityCounts[severity]} {severity}</span>
+            ))}
+            <span className="flex-1" />
+            {running && <Loader2 className="w-3 h-3 animate-spin text-indigo-400 mr-1" />}
+            {(report.issues.length > 0 || report.gaps.length > 0) && (
+              <>
+                {(Object.keys(FINDINGS_EXPORT_FORMATS) as FindingsExportFormat[]).map(format => (
+                  <button
+                    key={format}
+                    onClick={() => handleExport(format)}
+                    className="px-1.5 py-0.5 rounded text-slate-500 hover:text-slate-200 flex items-center gap-1"
+                    title={`Download findings as ${FINDINGS_EXPORT_FORMATS[format].label}`}
+                  >
+                    <Download className="w-3 h-3" /> {FINDINGS_EXPORT_FORMATS[format].extension.toUpperCase()}
+                  </button>
+                ))}
+                <span className="w-px h-3 bg-white/10 mx-1" />
+              </>
+            )}
+            {REPORT_VIEWS.map(option => (
+              <button
+                key={option.id}
+                onClick={() => { setView(option.id); setOpenGroup(null); }}
+                className={`px-2 py-0.5 rounded border transition-colors ${
+                  view === option.id ? 'bg-indigo-500/20 border-indigo-500/40 text-indigo-300' : 'border-white/5 text-slate-400 hover:text-slate-200'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex-1 overflow-y-auto custom-scrollbar min-h-0 px-3 py-2 space-y-1">
+            {issueGroups.length === 0 && (view === 'severity' || view === 'file' || view === 'category') && (
+              <p className="text-slate-600">No review issues yet.</p>
+            )}
+            {issueGroups.slice(0, MAX_GROUPS).map(group => (
+              <div key={group.key} className="border border-white/5 rounded-lg">
+                <button
+                  onClick={() => setOpenGroup(openGroup === group.key ? null : group.key)}
+                  className="w-full flex items-center gap-2 px-2 py-1.5 text-left hover:bg-white/5"
+                >
+                  <ChevronRight className={`w-3 h-3 text-slate-500 transition-transform ${openGroup === group.key ? 'rotate-90' : ''}`} />
+                  <span className={`truncate flex-1 ${view === 'severity' ? SEVERITY_COLORS[group.key] : 'text-slate-200'}`} title={group.key}>{group.key}</span>
+                  <span className="text-slate-500">{group.issues.length}</span>
+                </button>
+                {openGroup === group.key && (
+                  <ul className="px-3 pb-2 space-y-1.5">
+                    {group.issues.slice(0, MAX_GROUPS).map((issue, i) => (
+                      <li key={i} className="border-l border-white/10 pl-2">
+                        <div className="flex items-center gap-2">
+                          <span className={`uppercase text-[10px] ${SEVERITY_COLORS[issue.severity]}`}>{issue.severity}</span>
+                          <span className="text-slate-200 truncate">{issue.title}</span>
+                        </div>
+                        <div className="text-[10px] text-slate-500 flex gap-2 min-w-0">
+                          {fileButton(issue.path)}
+                          {issue.line ? <span>L{issue.line}</span> : null}
+                          <span>{issue.category}</span>
+                        </div>
+                        <p className="text-slate-400 mt-0.5">{issue.description}</p>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            ))}
+
+            {view === 'gaps' && (
+              report.gaps.length === 0 ? <p className="text-slate-600">No gaps found yet.</p> : (
+                <ul className="space-y-1.5">
+                  {report.gaps.slice(0, MAX_GROUPS).map((gap, i) => (
+                    <li key={i} className="border-l border-white/10 pl-2">
+                      <div className="flex items-center gap-2">
+                        <span className={`uppercase text-[10px] ${SEVERITY_COLORS[gap.severity]}`}>{gap.severity}</span>
+                        <span className="text-slate-200 truncate">{gap.title}</span>
+                      </div>
+                      <div className="text-[10px] text-slate-500 flex gap-2 min-w-0">
+                        {fileButton(gap.path)}
+                        <span>{gap.type.replace(/_/g, ' ')}</span>
+                      </div>
+                      <p className="text-slate-400 mt-0.5">{gap.recommendation}</p>
+                    </li>
+                  ))}
+                </ul>
+              )
+            )}
+
+            {view === 'docs' && (
+              report.docs.length === 0 ? <p className="text-slate-600">No documentation generated yet.</p> : (
+                <ul className="space-y-1.5">
+                  {report.docs.slice(0, MAX_GROUPS).map(entry => (
+                    <li key={entry.path} className="border-l border-white/10 pl-2">
+                      <div className="flex items-center gap-1.5 text-[10px]">
+                        <FileText className="w-3 h-3 text-slate-500 shrink-0" />
+                        {fileButton(entry.path)}
+                        <span className="text-slate-500 shrink-0">{entry.docs.functions.length} functions</span>
+                      </div>
+                      <p className="text-slate-400 mt-0.5 line-clamp-3">{entry.docs.moduleDoc}</p>
+                    </li>
+                  ))}
+                </ul>
+              )
+            )}
+
+            {view === 'failed' && (
+              report.failures.length === 0 ? <p className="text-slate-600">Nothing failed.</p> : (
+                <ul className="space-y-1.5">
+                  {report.failures.map(failure => (
+                    <li key={`${failure.tool}:${failure.path}`} className="border-l border-red-500/30 pl-2">
+                      <div className="flex items-center gap-1.5 text-[10px]">
+                        <XCircle className="w-3 h-3 text-red-400 shrink-0" />
+                        {fileButton(failure.path)}
+                        <span className="text-slate-500 shrink-0">{BATCH_TOOLS[failure.tool]}</span>
+                      </div>
+                      <p className="text-slate-400 mt-0.5">{failure.error}</p>
+                    </li>
+                  ))}
+                </ul>
+              )
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default BatchReviewPanel;
@@ -0,0 +1,126 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useMemo, useState } from 'react';
+import { Search, Pin, MessageSquare, Trash2, X } from 'lucide-react';
+import { ChatThread } from '../types';
+import { pinnedMessages, searchThreads } from '../utils/chatThreads';
+
+interface ChatThreadListProps {
+  threads: ChatThread[];
+  activeId: string | null;
+  /** Opens a thread, optionally scrolled to one of its messages. */
+  onSelect: (thread: ChatThread, messageId?: string) => void;
+  onDelete: (thread: ChatThread) => void;
+  onClose: () => void;
+}
+
+type ListView = 'threads' | 'pinned';
+
+const timeAgo = (timestamp: number) => {
+  const minutes = Math.round((Date.now() - timestamp) / 60000);
+  if (minutes < 1) return 'now';
+  if (minutes < 60) return `${minutes}m`;
+  if (minutes < 60 * 24) return `${Math.round(minutes / 60)}h`;
+  return `${Math.round(minutes / (60 * 24))}d`;
+};
+
+const baseName = (title: string) => title.slice(title.lastIndexOf('/') + 1) || title;
+
+/** Sidebar of a project's chat threads with search across them and their pinned answers. */
+const ChatThreadList: React.FC<ChatThreadListProps> = ({ threads, activeId, onSelect, onDelete, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [view, setView] = useState<ListView>('threads');
+
+  const sorted = useMemo(
+    () => threads.filter(t => t.messages.length > 0).sort((a, b) => b.updatedAt - a.updatedAt),
+    [threads]
+  );
+  const hits = useMemo(() => searchThreads(threads, query), [threads, query]);
+  const pinned = useMemo(() => pinnedMessages(threads), [threads]);
+
+  return (
+    <div className="w-52 shrink-0 border-r border-white/5 bg-slate-950/60 flex flex-col min-h-0 font-mono text-xs">
+      <div className="p-2 border-b border-white/5 space-y-2 shrink-0">
+        <div className="flex items-center gap-1">
+          {(['threads', 'pinned'] as ListView[]).map(option => (
+            <button
+              key={option}
+              onClick={() => setView(option)}
+              className={`flex-1 px-2 py-1 rounded border text-[10px] uppercase transition-colors flex items-center justify-center gap-1 ${
+                view === option ? 'bg-indigo-500/20 border-indigo-500/40 text-indigo-300' : 'border-white/5 text-slate-500 hover:text-slate-300'
+              }`}
+            >
+              {option === 'threads' ? <MessageSquare className="w-3 h-3" /> : <Pin className="w-3 h-3" />}
+              {option === 'threads' ? sorted.length : pinned.length}
+            </button>
+          ))}
+          <button onClick={onClose} className="p-1 rounded text-slate-500 hover:text-slate-200 hover:bg-white/5" title="Hide threads">
+            <X className="w-3.5 h-3.5" />
+          </button>
+        </div>
+        <div className="relative">
+          <Search className="w-3 h-3 text-slate-600 absolute left-2 top-1/2 -translate-y-1/2" />
+          <input
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            onKeyDown={e => e.key === 'Escape' && setQuery('')}
+            placeholder="Search threads"
+            className="w-full bg-slate-900 border border-white/10 rounded pl-6 pr-2 py-1 text-slate-200 placeholder:text-slate-600 focus:outline-none focus:border-indigo-500/50"
+          />
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar min-h-0 p-1 space-y-0.5">
+        {query.trim() ? (
+          hits.length === 0 ? <p className="p-2 text-slate-600">No matches.</p> : hits.map(hit => (
+            <button
+              key={`${hit.thread.id}:${hit.message.id}`}
+              onClick={() => onSelect(hit.thread, hit.message.id)}
+              className="w-full text-left p-2 rounded hover:bg-white/5"
+            >
+              <div className="text-[10px] text-indigo-300 truncate" title={hit.thread.title}>{baseName(hit.thread.title)}</div>
+              <div className="text-[11px] text-slate-400 line-clamp-3">{hit.snippet}</div>
+            </button>
+          ))
+        ) : view === 'pinned' ? (
+          pinned.length === 0 ? <p className="p-2 text-slate-600">Pin an answer to keep it here.</p> : pinned.map(({ thread, message }) => (
+            <button
+              key={`${thread.id}:${message.id}`}
+              onClick={() => onSelect(thread, message.id)}
+              className="w-full text-left p-2 rounded hover:bg-white/5"
+            >
+              <div className="text-[10px] text-amber-300 truncate flex items-center gap-1" title={thread.title}>
+                <Pin className="w-2.5 h-2.5 shrink-0" /> {baseName(thread.title)}
+              </div>
+              <div className="text-[11px] text-slate-400 line-clamp-3">{message.text}</div>
+            </button>
+          ))
+        ) : (
+          sorted.length === 0 ? <p className="p-2 text-slate-600">Conversations about each node are kept here.</p> : sorted.map(thread => (
+            <div
+              key={thread.id}
+              className={`group flex items-center gap-1 rounded ${thread.id === activeId ? 'bg-indigo-500/15' : 'hover:bg-white/5'}`}
+            >
+              <button onClick={() => onSelect(thread)} className="flex-1 min-w-0 text-left p-2">
+                <div className={`truncate ${thread.id === activeId ? 'text-indigo-200' : 'text-slate-300'}`} title={thread.title}>{baseName(thread.title)}</div>
+                <div className="text-[10px] text-slate-600">{thread.messages.length} messages · {timeAgo(thread.updatedAt)}</div>
+              </button>
+              <button
+                onClick={() => onDelete(thread)}
+                className="p-1 mr-1 rounded text-slate-600 hover:text-red-300 opacity-0 group-hover:opacity-100 transition-opacity"
+                title="Delete thread"
+              >
+                <Trash2 className="w-3 h-3" />
+              </button>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ChatThreadList;
@@ -9,9 +9,12 @@ import React, { useState, useEffect, useRef } from 'react';
 interface CodeEditorProps {
     initialValue: string;
     onSave: (value: string) => void;
+    /** Shown in the toolbar. */
+    language?: string;
+    saveLabel?: string;
 }
 
-const CodeEditor: React.FC<CodeEditorProps> = ({ initialValue, onSave }) => {
+const CodeEditor: React.FC<CodeEditorProps> = ({ initialValue, onSave, language = 'HTML/CSS', saveLabel = 'Apply Changes (Cmd+S)' }) => {
     const [value, setValue] = useState(initialValue);
     const textareaRef = useRef<HTMLTextAreaElement>(null);
     const lineNumbersRef = useRef<HTMLDivElement>(null);
@@ -57,22 +60,22 @@ const CodeEditor: React.FC<CodeEditorProps> = ({ initialValue, onSave }) => {
     const lines = Array.from({ length: lineCount }, (_, i) => i + 1);
 
     return (
-        <div className="code-editor-container">
-            <div className="code-editor-toolbar">
-                <span className="editor-lang">HTML/CSS</span>
-                <button className="editor-save-btn" onClick={() => onSave(value)}>
-                    Apply Changes (Cmd+S)
+        <div className="code-editor-container flex flex-col h-full min-h-0 bg-slate-950/60 border border-white/5 rounded-lg overflow-hidden">
+            <div className="code-editor-toolbar flex items-center justify-between px-3 py-1.5 border-b border-white/5 shrink-0">
+                <span className="editor-lang text-[10px] font-mono uppercase tracking-wider text-slate-500">{language}</span>
+                <button className="editor-save-btn text-[10px] font-mono text-slate-400 hover:text-white transition-colors" onClick={() => onSave(value)}>
+                    {saveLabel}
                 </button>
             </div>
-            <div className="code-editor-wrapper">
-                <div className="line-numbers" ref={lineNumbersRef}>
+            <div className="code-editor-wrapper flex flex-1 min-h-0 text-[11px] leading-5 font-mono">
+                <div className="line-numbers select-none text-right text-slate-600 px-2 py-2 overflow-hidden shrink-0" ref={lineNumbersRef}>
                     {lines.map((line) => (
                         <div key={line} className="line-number">{line}</div>
                     ))}
                 </div>
                 <textarea
                     ref={textareaRef}
-                    className="code-textarea"
+                    className="code-textarea flex-1 bg-transparent text-slate-300 p-2 resize-none outline-none whitespace-pre overflow-auto custom-scrollbar"
                     value={value}
                     onChange={handleChange}
                     onKeyDown={handleKeyDown}
@@ -3,14 +3,60 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React, { useEffect, useRef, useState } from 'react';
+import React, { forwardRef, useEffect, useImperativeHandle, useRef } from 'react';
 import * as d3 from 'd3';
-import { DataFlowGraph, D3Node, D3Link } from '../types';
+import { DataFlowGraph, D3Node } from '../types';
 import { ZoomIn, ZoomOut, Maximize } from 'lucide-react';
+import { clusterId } from '../utils/graphClusters';
+import { ForceLayout, startForceLayout } from '../services/forceLayout';
+
+/** Per-node styling laid over the graph by the analytics views. */
+export interface GraphOverlay {
+  /** Values in [0, 1] that tint and enlarge nodes; nodes without a value are dimmed. */
+  values?: Map<string, number>;
+  /** Nodes outlined in white, e.g. the members of a selected cycle. */
+  highlighted?: Set<string>;
+  /** Links drawn bright, keyed by `linkKey`, e.g. the steps of a path between two nodes. */
+  highlightedLinks?: Set<string>;
+}
+
+export const linkKey = (source: string, target: string) => `${source}->${target}`;
+
+const linkEndId = (end: string | D3Node) => (typeof end === 'string' ? end : end.id);
+
+const isLinkHighlighted = (link: any, overlay?: GraphOverlay) =>
+  !!overlay?.highlightedLinks?.has(linkKey(linkEndId(link.source), linkEndId(link.target)));
+
+// Architecture diffs color what was added, removed or moved between two refs
+const DIFF_COLORS: Record<string, string> = {
+  added: "#34d399", // emerald-400
+  removed: "#fb7185", // rose-400
+  moved: "#fbbf24", // amber-400
+};
+
+/** Link color and opacity: highlighted path steps first, then diff status. */
+const linkStyle = (link: any, overlay?: GraphOverlay): { color: string; opacity: number } => {
+  if (isLinkHighlighted(link, overlay)) return { color: "#fbbf24", opacity: 0.9 }; // amber-400
+  if (link.diff && DIFF_COLORS[link.diff]) return { color: DIFF_COLORS[link.diff], opacity: 0.7 };
+  return { color: "#94a3b8", opacity: 0.2 }; // slate-400
+};
+
+/** Exports what the chart currently shows, for the graph export menu. */
+export interface FlowChartHandle {
+  /** Standalone SVG document of the current viewport. */
+  toSvg(): string;
+  /** PNG of the current viewport at `scale` times its on-screen size. */
+  toPng(scale?: number): Promise<Blob>;
+  /** Pans and zooms to a node; false when it isn't on screen or hasn't been placed yet. */
+  focusNode(id: string): boolean;
+}
 
 interface D3FlowChartProps {
   data: DataFlowGraph;
+  overlay?: GraphOverlay;
   onNodeClick?: (node: D3Node) => void;
+  /** Double-click handler, used to expand and collapse directory clusters. */
+  onNodeDoubleClick?: (node: D3Node) => void;
 }
 
 // More vibrant, neon-like colors for dark mode
@@ -27,101 +73,200 @@ const NEON_COLORS = [
   "#f9c74f", // yellow
 ];
 
-const D3FlowChart: React.FC<D3FlowChartProps> = ({ data, onNodeClick }) => {
-  const svgRef = useRef<SVGSVGElement>(null);
-  const zoomRef = useRef<d3.ZoomBehavior<SVGSVGElement, unknown> | null>(null);
-  const [sim, setSim] = useState<d3.Simulation<D3Node, D3Link> | null>(null);
+/** Above this many nodes the graph is painted on a canvas instead of one SVG element per node. */
+export const CANVAS_NODE_THRESHOLD = 800;
 
-  useEffect(() => {
-    if (!data || !svgRef.current) return;
+/** Cluster radius grows with the square root of its file count. */
+const clusterRadius = (d: D3Node) => Math.min(10 + Math.sqrt(d.fileCount || 1) * 2.5, 40);
 
-    // Dynamically get dimensions from container or SVG
-    const width = svgRef.current.clientWidth || 800;
-    // Use clientHeight if available to respect responsive containers, default to 600 if 0
-    const height = svgRef.current.clientHeight || 600;
-
-    const svg = d3.select(svgRef.current);
-    svg.selectAll("*").remove(); // Clear previous
-
-    const g = svg.append("g"); // Create container group for zoom
-
-    const simulation = d3.forceSimulation<D3Node, D3Link>(data.nodes)
-      .force("link", d3.forceLink<D3Node, D3Link>(data.links).id(d => d.id).distance(150))
-      .force("charge", d3.forceManyBody().strength(-500))
-      .force("center", d3.forceCenter(width / 2, height / 2))
-      .force("x", d3.forceX().strength(0.08))
-      .force("y", d3.forceY().strength(0.08));
-    
-    setSim(simulation);
-
-    const link = g.append("g")
-      .attr("stroke", "#94a3b8") // slate-400
-      .attr("stroke-opacity", 0.2)
-      .selectAll("line")
-      .data(data.links)
-      .join("line")
-      .attr("stroke-width", (d: any) => Math.sqrt(d.value || 1) * 1.5);
-
-    const nodeGroup = g.append("g")
-      .selectAll("g")
-      .data(data.nodes)
-      .join("g")
-      .style("cursor", "pointer")
-      .on("click", (event, d: any) => {
-        if (onNodeClick) {
-            event.stopPropagation();
-            onNodeClick(d);
-        }
-      });
+const nodeRadius = (d: D3Node) =>
+  d.type === 'cluster' ? clusterRadius(d) : d.id === 'root' ? 14 : d.type === 'external' ? 6 : 8;
 
-    nodeGroup.append("circle")
-      .attr("r", (d: any) => d.id === 'root' ? 14 : 8)
-      .attr("fill", (d: any) => NEON_COLORS[d.group % NEON_COLORS.length])
-      .attr("stroke", "#0f172a") // slate-900 for contrast
-      .attr("stroke-width", 2)
-      .attr("class", "transition-all duration-300 ease-in-out hover:r-[12px] hover:stroke-white/50");
-
-    nodeGroup.append("text")
-      .text((d: any) => d.label)
-      .attr("x", 16)
-      .attr("y", 5)
-      .attr("fill", "#e2e8f0") // slate-200
-      .attr("font-size", "12px")
-      .attr("font-family", "JetBrains Mono, monospace")
-      .attr("font-weight", "500")
-      .style("text-shadow", "0 2px 4px rgba(0,0,0,0.9)")
-      .style("pointer-events", "none"); // Let clicks go through to the group/circle
-
-    // Add simple drag behavior
-    const drag = d3.drag<SVGGElement, D3Node>()
-      .on("start", (event, d) => {
-        if (!event.active) simulation.alphaTarget(0.3).restart();
-        d.fx = d.x;
-        d.fy = d.y;
-      })
-      .on("drag", (event, d) => {
-        d.fx = event.x;
-        d.fy = event.y;
-      })
-      .on("end", (event, d) => {
-        if (!event.active) simulation.alphaTarget(0);
-        d.fx = null;
-        d.fy = null;
-      });
+const groupColor = (d: D3Node) => NEON_COLORS[d.group % NEON_COLORS.length];
 
-    nodeGroup.call(drag as any); 
+// External packages are drawn hollow and dashed to set them apart from repo files;
+// clusters are translucent rings sized by how many files they hold
+const nodeFill = (d: D3Node) => d.type === 'external' ? "#1e293b" : groupColor(d);
+const nodeStroke = (d: D3Node) => d.type === 'external' ? "#64748b" : d.type === 'cluster' ? groupColor(d) : "#0f172a"; // slate-900 for contrast
+const labelColor = (d: D3Node) => d.type === 'external' ? "#94a3b8" : "#e2e8f0"; // slate-200
 
-    // Add Zoom behavior
-    const zoom = d3.zoom<SVGSVGElement, unknown>()
-      .scaleExtent([0.1, 4])
-      .on("zoom", (event) => {
-        g.attr("transform", event.transform);
-      });
+interface NodeStyle {
+  r: number;
+  fill: string;
+  fillOpacity: number;
+  stroke: string;
+  strokeWidth: number;
+}
 
-    svg.call(zoom);
-    zoomRef.current = zoom;
+/** Base node style with the analytics overlay, if any, applied on top. */
+const styleOf = (d: D3Node, overlay?: GraphOverlay): NodeStyle => {
+  const style: NodeStyle = {
+    r: nodeRadius(d),
+    fill: nodeFill(d),
+    fillOpacity: d.type === 'cluster' ? 0.25 : 1,
+    stroke: nodeStroke(d),
+    strokeWidth: 2,
+  };
+  if (overlay?.values) {
+    const value = overlay.values.get(d.id);
+    if (value === undefined) {
+      style.fill = "#334155"; // slate-700
+      style.fillOpacity = 0.35;
+    } else {
+      style.r *= 1 + value * 1.5;
+      style.fill = d3.interpolateYlOrRd(0.15 + value * 0.85);
+      style.fillOpacity = 1;
+    }
+  }
+  if (d.diff) {
+    if (DIFF_COLORS[d.diff]) {
+      style.stroke = DIFF_COLORS[d.diff];
+      style.strokeWidth = 3;
+      if (d.diff === 'removed') style.fillOpacity = 0.35;
+    } else {
+      style.fillOpacity = Math.min(style.fillOpacity, 0.4);
+    }
+  }
+  if (overlay?.highlighted?.has(d.id)) {
+    style.stroke = "#ffffff";
+    style.strokeWidth = 3;
+  }
+  return style;
+};
 
-    simulation.on("tick", () => {
+/** What a renderer needs from the chart: callbacks, drag wiring and the shared zoom state. */
+interface RenderContext {
+  data: DataFlowGraph;
+  transformRef: React.MutableRefObject<d3.ZoomTransform>;
+  overlayRef: React.MutableRefObject<GraphOverlay | undefined>;
+  onNodeClick?: (node: D3Node) => void;
+  onNodeDoubleClick?: (node: D3Node) => void;
+  dragStart: (d: D3Node, active: boolean) => void;
+  dragMove: (d: D3Node, x: number, y: number) => void;
+  dragEnd: (d: D3Node, active: boolean) => void;
+}
+
+interface Renderer {
+  zoom: d3.ZoomBehavior<any, unknown>;
+  /** Redraws after the layout moved nodes. */
+  update: () => void;
+  /** Re-applies node styles after the overlay changed. */
+  restyle: () => void;
+}
+
+function renderSvg(svgElement: SVGSVGElement, ctx: RenderContext): Renderer {
+  const { data, transformRef, onNodeClick, onNodeDoubleClick } = ctx;
+  const svg = d3.select(svgElement);
+  svg.selectAll("*").remove(); // Clear previous
+
+  const g = svg.append("g"); // Create container group for zoom
+  g.attr("transform", transformRef.current.toString());
+
+  // Arrowheads for directed (import) edges, offset to stop at the node's edge
+  svg.append("defs").append("marker")
+    .attr("id", "flow-arrow")
+    .attr("viewBox", "0 -4 8 8")
+    .attr("refX", 18)
+    .attr("markerWidth", 6)
+    .attr("markerHeight", 6)
+    .attr("orient", "auto")
+    .append("path")
+    .attr("d", "M0,-4L8,0L0,4")
+    .attr("fill", "#94a3b8");
+
+  const link = g.append("g")
+    .selectAll("line")
+    .data(data.links)
+    .join("line")
+    .attr("stroke-width", (d: any) => Math.sqrt(d.value || 1) * 1.5)
+    .attr("marker-end", data.directed ? "url(#flow-arrow)" : null);
+
+  const nodeGroup = g.append("g")
+    .selectAll("g")
+    .data(data.nodes)
+    .join("g")
+    .style("cursor", "pointer")
+    .on("click", (event, d: any) => {
+      if (onNodeClick) {
+          event.stopPropagation();
+          onNodeClick(d);
+      }
+    })
+    .on("dblclick", (event, d: any) => {
+      if (onNodeDoubleClick) {
+          event.stopPropagation();
+          onNodeDoubleClick(d);
+      }
+    });
+
+  const circle = nodeGroup.append("circle")
+    .attr("stroke-dasharray", (d: any) => d.type === 'external' ? "3 2" : null)
+    .attr("class", (d: any) => d.type === 'cluster'
+      ? "transition-all duration-300 ease-in-out hover:stroke-white/50"
+      : "transition-all duration-300 ease-in-out hover:r-[12px] hover:stroke-white/50");
+
+  nodeGroup.filter((d: any) => d.type === 'cluster').append("text")
+    .text((d: any) => d.fileCount)
+    .attr("text-anchor", "middle")
+    .attr("y", 4)
+    .attr("fill", "#f8fafc")
+    .attr("font-size", "10px")
+    .attr("font-family", "JetBrains Mono, monospace")
+    .attr("font-weight", "700")
+    .style("pointer-events", "none");
+
+  const label = nodeGroup.append("text")
+    .text((d: any) => d.label)
+    .attr("y", 5)
+    .attr("fill", (d: any) => labelColor(d))
+    .attr("font-size", "12px")
+    .attr("font-family", "JetBrains Mono, monospace")
+    .attr("font-weight", "500")
+    .style("text-shadow", "0 2px 4px rgba(0,0,0,0.9)")
+    .style("pointer-events", "none"); // Let clicks go through to the group/circle
+
+  // Add simple drag behavior
+  const drag = d3.drag<SVGGElement, D3Node>()
+    .on("start", (event, d) => ctx.dragStart(d, event.active))
+    .on("drag", (event, d) => ctx.dragMove(d, event.x, event.y))
+    .on("end", (event, d) => ctx.dragEnd(d, event.active));
+
+  nodeGroup.call(drag as any); 
+
+  // Add Zoom behavior
+  const zoom = d3.zoom<SVGSVGElement, unknown>()
+    .scaleExtent([0.1, 4])
+    .on("zoom", (event) => {
+      g.attr("transform", event.transform);
+      transformRef.current = event.transform;
+    });
+
+  svg.call(zoom).call(zoom.transform, transformRef.current);
+  // Double-click toggles clusters instead of zooming
+  svg.on("dblclick.zoom", null);
+
+  const restyle = () => {
+    const overlay = ctx.overlayRef.current;
+    circle.each(function (d: any) {
+      const style = styleOf(d, overlay);
+      d3.select(this)
+        .attr("r", style.r)
+        .attr("fill", style.fill)
+        .attr("fill-opacity", style.fillOpacity)
+        .attr("stroke", style.stroke)
+        .attr("stroke-width", style.strokeWidth);
+    });
+    label.attr("x", (d: any) => styleOf(d, overlay).r + 8);
+    link
+      .attr("stroke", (d: any) => linkStyle(d, overlay).color)
+      .attr("stroke-opacity", (d: any) => linkStyle(d, overlay).opacity);
+  };
+  restyle();
+
+  return {
+    zoom,
+    restyle,
+    update: () => {
       link
         .attr("x1", (d: any) => (d.source as D3Node).x!)
         .attr("y1", (d: any) => (d.source as D3Node).y!)
@@ -130,6 +275,261 @@ const D3FlowChart: React.FC<D3FlowChartProps> = ({ data, onNodeClick }) => {
 
       nodeGroup
         .attr("transform", (d: any) => `translate(${d.x},${d.y})`);
+    },
+  };
+}
+
+/**
+ * Canvas renderer for large graphs. Paints once per animation frame and finds
+ * nodes under the pointer with a quadtree, so clicks, double-clicks and drags
+ * behave like the SVG path. Labels are only painted once zoomed in enough to
+ * read them.
+ */
+function renderCanvas(canvas: HTMLCanvasElement, width: number, height: number, ctx: RenderContext): Renderer {
+  const { data, transformRef, onNodeClick, onNodeDoubleClick } = ctx;
+  const ratio = window.devicePixelRatio || 1;
+  canvas.width = width * ratio;
+  canvas.height = height * ratio;
+  const context = canvas.getContext("2d")!;
+  // Overlays can enlarge nodes by up to 2.5x
+  const maxRadius = (d3.max(data.nodes, nodeRadius) || 8) * 2.5;
+
+  let quadtree: d3.Quadtree<D3Node> | null = null;
+  let frame: number | null = null;
+
+  const paint = () => {
+    frame = null;
+    const t = transformRef.current;
+    const overlay = ctx.overlayRef.current;
+    context.setTransform(ratio, 0, 0, ratio, 0, 0);
+    context.clearRect(0, 0, width, height);
+    context.translate(t.x, t.y);
+    context.scale(t.k, t.k);
+
+    data.links.forEach((link: any) => {
+      const source = link.source as D3Node;
+      const target = link.target as D3Node;
+      if (source.x === undefined || target.x === undefined) return;
+      const { color, opacity } = linkStyle(link, overlay);
+      context.strokeStyle = color;
+      context.fillStyle = color;
+      context.globalAlpha = opacity;
+      context.lineWidth = Math.sqrt(link.value || 1) * 1.5;
+      context.beginPath();
+      context.moveTo(source.x, source.y!);
+      context.lineTo(target.x, target.y!);
+      context.stroke();
+      if (data.directed) {
+        // Arrowhead at the target's edge
+        const angle = Math.atan2(target.y! - source.y!, target.x - source.x);
+        const offset = styleOf(target, overlay).r + 2;
+        const tipX = target.x - Math.cos(angle) * offset;
+        const tipY = target.y! - Math.sin(angle) * offset;
+        context.beginPath();
+        context.moveTo(tipX, tipY);
+        context.lineTo(tipX - Math.cos(angle - 0.4) * 8, tipY - Math.sin(angle - 0.4) * 8);
+        context.lineTo(tipX - Math.cos(angle + 0.4) * 8, tipY - Math.sin(angle + 0.4) * 8);
+        context.globalAlpha = Math.min(1, opacity * 2.5);
+        context.fill();
+      }
+    });
+    context.globalAlpha = 1;
+
+    data.nodes.forEach(d => {
+      if (d.x === undefined) return;
+      const style = styleOf(d, overlay);
+      context.beginPath();
+      context.arc(d.x, d.y!, style.r, 0, 2 * Math.PI);
+      context.globalAlpha = style.fillOpacity;
+      context.fillStyle = style.fill;
+      context.fill();
+      context.globalAlpha = 1;
+      context.setLineDash(d.type === 'external' ? [3, 2] : []);
+      context.lineWidth = style.strokeWidth;
+      context.strokeStyle = style.stroke;
+      context.stroke();
+    });
+    context.setLineDash([]);
+
+    context.font = "700 10px JetBrains Mono, monospace";
+    context.textAlign = "center";
+    context.fillStyle = "#f8fafc";
+    data.nodes.forEach(d => {
+      if (d.type === 'cluster' && d.x !== undefined) context.fillText(String(d.fileCount), d.x, d.y! + 4);
+    });
+
+    if (t.k >= 0.6) {
+      context.font = "500 12px JetBrains Mono, monospace";
+      context.textAlign = "left";
+      data.nodes.forEach(d => {
+        if (d.x === undefined) return;
+        context.fillStyle = labelColor(d);
+        context.fillText(d.label, d.x + styleOf(d, overlay).r + 8, d.y! + 5);
+      });
+    }
+  };
+
+  const schedule = () => {
+    if (frame === null) frame = requestAnimationFrame(paint);
+  };
+
+  /** Node under a point in canvas pixels, if any. */
+  const nodeAt = (px: number, py: number): D3Node | undefined => {
+    if (!quadtree) {
+      quadtree = d3.quadtree<D3Node>()
+        .x(d => d.x!)
+        .y(d => d.y!)
+        .addAll(data.nodes.filter(d => d.x !== undefined));
+    }
+    const [x, y] = transformRef.current.invert([px, py]);
+    const node = quadtree.find(x, y, maxRadius);
+    return node && Math.hypot(node.x! - x, node.y! - y) <= styleOf(node, ctx.overlayRef.current).r + 2 ? node : undefined;
+  };
+
+  const pointerNode = (event: any) => {
+    const [px, py] = d3.pointer(event, canvas);
+    return nodeAt(px, py);
+  };
+
+  const selection = d3.select(canvas);
+
+  // Drag is registered before zoom so grabbing a node never pans the view
+  const drag = d3.drag<HTMLCanvasElement, unknown>()
+    .subject((event) => pointerNode(event.sourceEvent))
+    .on("start", (event) => ctx.dragStart(event.subject, event.active))
+    .on("drag", (event) => {
+      const [x, y] = transformRef.current.invert(d3.pointer(event.sourceEvent, canvas));
+      ctx.dragMove(event.subject, x, y);
+    })
+    .on("end", (event) => ctx.dragEnd(event.subject, event.active));
+
+  const zoom = d3.zoom<HTMLCanvasElement, unknown>()
+    .scaleExtent([0.1, 4])
+    .on("zoom", (event) => {
+      transformRef.current = event.transform;
+      schedule();
+    });
+
+  selection
+    .call(drag as any)
+    .call(zoom)
+    .call(zoom.transform, transformRef.current)
+    // Double-click toggles clusters instead of zooming
+    .on("dblclick.zoom", null)
+    .on("click", (event) => {
+      const node = pointerNode(event);
+      if (node && onNodeClick) onNodeClick(node);
+    })
+    .on("dblclick", (event) => {
+      const node = pointerNode(event);
+      if (node && onNodeDoubleClick) onNodeDoubleClick(node);
+    })
+    .on("mousemove", (event) => {
+      canvas.style.cursor = pointerNode(event) ? "pointer" : "";
+    });
+
+  schedule();
+
+  return {
+    zoom,
+    update: () => {
+      quadtree = null;
+      schedule();
+    },
+    restyle: schedule,
+  };
+}
+
+const SVG_NS = "http://www.w3.org/2000/svg";
+
+const D3FlowChart = forwardRef<FlowChartHandle, D3FlowChartProps>(({ data, overlay, onNodeClick, onNodeDoubleClick }, ref) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  // Last known positions by node id, so expanding or collapsing a cluster happens in place
+  const positionsRef = useRef(new Map<string, { x: number; y: number }>());
+  const transformRef = useRef<d3.ZoomTransform>(d3.zoomIdentity);
+  const zoomRef = useRef<d3.ZoomBehavior<any, unknown> | null>(null);
+  const rendererRef = useRef<Renderer | null>(null);
+  const overlayRef = useRef(overlay);
+  overlayRef.current = overlay;
+  const useCanvas = data.nodes.length > CANVAS_NODE_THRESHOLD;
+
+  useEffect(() => {
+    const element = useCanvas ? canvasRef.current : svgRef.current;
+    if (!data || !element) return;
+
+    // Dynamically get dimensions from container or SVG
+    const width = element.clientWidth || 800;
+    // Use clientHeight if available to respect responsive containers, default to 600 if 0
+    const height = element.clientHeight || 600;
+
+    // Seed nodes from where they (or the cluster they came out of) were last drawn
+    const positions = positionsRef.current;
+    const seedFrom = (d: D3Node): { x: number; y: number } | undefined => {
+      if (d.type === 'cluster') {
+        const known = (d.childNodes || []).map(c => positions.get(c.id)).filter(Boolean) as { x: number; y: number }[];
+        if (known.length > 0) {
+          return { x: d3.mean(known, p => p.x)!, y: d3.mean(known, p => p.y)! };
+        }
+      }
+      if (positions.has(d.id)) return positions.get(d.id);
+      // Nodes coming out of an expanded cluster start where the cluster was
+      const parts = (d.path || '').split('/');
+      for (let i = parts.length; i > 0; i--) {
+        const parent = positions.get(clusterId(parts.slice(0, i).join('/')));
+        if (parent) return parent;
+      }
+      return undefined;
+    };
+    const seeds = data.nodes.map(seedFrom);
+    // Only nodes still on screen keep their spot; hidden ones reappear around their cluster
+    const currentIds = new Set(data.nodes.map(d => d.id));
+    Array.from(positions.keys()).forEach(id => { if (!currentIds.has(id)) positions.delete(id); });
+    data.nodes.forEach((d, i) => {
+      const seed = seeds[i];
+      if (seed && (d.type === 'cluster' || !positions.has(d.id))) {
+        d.x = seed.x + (Math.random() - 0.5) * 20;
+        d.y = seed.y + (Math.random() - 0.5) * 20;
+      }
+    });
+    const seeded = seeds.filter(Boolean).length;
+
+    let layout: ForceLayout | null = null;
+    const context: RenderContext = {
+      data,
+      transformRef,
+      overlayRef,
+      onNodeClick,
+      onNodeDoubleClick,
+      dragStart: (d, active) => {
+        if (!active) layout?.setAlphaTarget(0.3);
+        d.fx = d.x;
+        d.fy = d.y;
+        layout?.pin(d, d.x!, d.y!);
+      },
+      dragMove: (d, x, y) => {
+        d.fx = x;
+        d.fy = y;
+        layout?.pin(d, x, y);
+      },
+      dragEnd: (d, active) => {
+        if (!active) layout?.setAlphaTarget(0);
+        d.fx = null;
+        d.fy = null;
+        layout?.pin(d, null, null);
+      },
+    };
+
+    const renderer = useCanvas
+      ? renderCanvas(element as HTMLCanvasElement, width, height, context)
+      : renderSvg(element as SVGSVGElement, context);
+    zoomRef.current = renderer.zoom;
+    rendererRef.current = renderer;
+
+    // A mostly known layout only needs to settle, not restart from scratch
+    layout = startForceLayout(data.nodes, data.links, { width, height, alpha: seeded > data.nodes.length / 2 ? 0.3 : 1 }, () => {
+      renderer.update();
+      data.nodes.forEach(d => positions.set(d.id, { x: d.x!, y: d.y! }));
     });
 
     // Add window resize listener to re-center/re-simulate if needed
@@ -137,35 +537,104 @@ const D3FlowChart: React.FC<D3FlowChartProps> = ({ data, onNodeClick }) => {
     // but in production you might want a resize observer.
 
     return () => {
-      simulation.stop();
+      layout?.stop();
     };
-  }, [data, onNodeClick]);
+  }, [data, useCanvas, onNodeClick, onNodeDoubleClick]);
+
+  // Overlays only restyle nodes; the layout keeps running undisturbed
+  useEffect(() => {
+    rendererRef.current?.restyle();
+  }, [overlay]);
+
+  // Zoom controls act on whichever surface is showing
+  const surface = () => (useCanvas ? canvasRef.current : svgRef.current);
+
+  // Snapshots redraw the current layout and zoom as SVG, so canvas-rendered graphs export the same way
+  const snapshot = () => {
+    const width = surface()?.clientWidth || 800;
+    const height = surface()?.clientHeight || 600;
+    const svgElement = document.createElementNS(SVG_NS, "svg");
+    svgElement.setAttribute("xmlns", SVG_NS);
+    svgElement.setAttribute("width", String(width));
+    svgElement.setAttribute("height", String(height));
+    svgElement.setAttribute("viewBox", `0 0 ${width} ${height}`);
+    const noop = () => {};
+    renderSvg(svgElement, { data, transformRef, overlayRef, dragStart: noop, dragMove: noop, dragEnd: noop }).update();
+
+    const background = document.createElementNS(SVG_NS, "rect");
+    background.setAttribute("width", "100%");
+    background.setAttribute("height", "100%");
+    background.setAttribute("fill", "#020617"); // slate-950
+    svgElement.insertBefore(background, svgElement.firstChild);
+    return { svg: new XMLSerializer().serializeToString(svgElement), width, height };
+  };
+
+  useImperativeHandle(ref, () => ({
+    focusNode: (id) => {
+      const node = data.nodes.find(d => d.id === id);
+      const element = surface();
+      if (!node || node.x === undefined || !element || !zoomRef.current) return false;
+      const width = element.clientWidth || 800;
+      const height = element.clientHeight || 600;
+      const k = Math.max(transformRef.current.k, 1.5);
+      const target = d3.zoomIdentity.translate(width / 2 - node.x * k, height / 2 - node.y! * k).scale(k);
+      d3.select(element).transition().duration(600).call(zoomRef.current.transform, target);
+      return true;
+    },
+    toSvg: () => snapshot().svg,
+    toPng: (scale = 2) => new Promise<Blob>((resolve, reject) => {
+      const { svg, width, height } = snapshot();
+      const url = URL.createObjectURL(new Blob([svg], { type: "image/svg+xml" }));
+      const image = new Image();
+      image.onload = () => {
+        const canvas = document.createElement("canvas");
+        canvas.width = width * scale;
+        canvas.height = height * scale;
+        canvas.getContext("2d")!.drawImage(image, 0, 0, canvas.width, canvas.height);
+        URL.revokeObjectURL(url);
+        canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error("PNG encoding failed"))), "image/png");
+      };
+      image.onerror = () => {
+        URL.revokeObjectURL(url);
+        reject(new Error("Could not render the graph snapshot"));
+      };
+      image.src = url;
+    }),
+  }));
 
   const handleZoomIn = () => {
-    if (svgRef.current && zoomRef.current) {
-      d3.select(svgRef.current).transition().duration(300).call(zoomRef.current.scaleBy, 1.3);
+    if (surface() && zoomRef.current) {
+      d3.select(surface()).transition().duration(300).call(zoomRef.current.scaleBy, 1.3);
     }
   };
 
   const handleZoomOut = () => {
-    if (svgRef.current && zoomRef.current) {
-      d3.select(svgRef.current).transition().duration(300).call(zoomRef.current.scaleBy, 0.7);
+    if (surface() && zoomRef.current) {
+      d3.select(surface()).transition().duration(300).call(zoomRef.current.scaleBy, 0.7);
     }
   };
 
   const handleResetZoom = () => {
-    if (svgRef.current && zoomRef.current) {
-      d3.select(svgRef.current).transition().duration(500).call(zoomRef.current.transform, d3.zoomIdentity);
+    if (surface() && zoomRef.current) {
+      d3.select(surface()).transition().duration(500).call(zoomRef.current.transform, d3.zoomIdentity);
     }
   };
 
   return (
     <div className="w-full h-full bg-slate-950 rounded-3xl overflow-hidden shadow-2xl shadow-black/30 border border-white/5 relative group">
-      <svg 
-        ref={svgRef} 
-        className="w-full h-full cursor-grab active:cursor-grabbing"
-        style={{ background: 'radial-gradient(circle at center, rgba(30, 41, 59, 0.2) 0%, rgba(2, 6, 23, 1) 100%)' }}
-      />
+      {useCanvas ? (
+        <canvas
+          ref={canvasRef}
+          className="w-full h-full cursor-grab active:cursor-grabbing"
+          style={{ background: 'radial-gradient(circle at center, rgba(30, 41, 59, 0.2) 0%, rgba(2, 6, 23, 1) 100%)' }}
+        />
+      ) : (
+        <svg 
+          ref={svgRef} 
+          className="w-full h-full cursor-grab active:cursor-grabbing"
+          style={{ background: 'radial-gradient(circle at center, rgba(30, 41, 59, 0.2) 0%, rgba(2, 6, 23, 1) 100%)' }}
+        />
+      )}
       
       {/* Zoom Controls */}
       <div className="absolute bottom-4 right-4 flex flex-col gap-2">
@@ -181,10 +650,12 @@ const D3FlowChart: React.FC<D3FlowChartProps> = ({ data, onNodeClick }) => {
       </div>
 
       <div className="absolute bottom-4 left-4 bg-slate-900/80 text-slate-500 text-[10px] font-medium px-3 py-1.5 rounded-full backdrop-blur-md border border-white/5 pointer-events-none opacity-50 group-hover:opacity-100 transition-opacity font-mono hidden sm:block">
-        Drag to move • Scroll to Zoom • Click nodes
+        Drag to move • Scroll to Zoom • Click nodes{onNodeDoubleClick ? " • Double-click folders to expand/collapse" : ""}
       </div>
     </div>
   );
-};
+});
+
+D3FlowChart.displayName = 'D3FlowChart';
 
 export default D3FlowChart;
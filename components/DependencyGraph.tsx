@@ -4,8 +4,9 @@
  */
 
 import React, { useState } from 'react';
-import { DependencyInfo } from '../types';
-import { fetchRepoDependencies } from '../services/githubService';
+import { DependencyInfo, RepoHost } from '../types';
+import { detectDependencies } from '../services/githubService';
+import { fetchSourceDependencies } from '../services/repoSource';
 import { generateDependencyGraph, analyzeDependencies } from '../services/geminiService';
 import { 
   Package, AlertTriangle, Shield, ShieldAlert, ShieldCheck,
@@ -14,11 +15,18 @@ import {
 import ImageViewer from './ImageViewer';
 
 interface DependencyGraphProps {
+  /** Defaults to GitHub. */
+  host?: RepoHost;
   owner: string;
   repo: string;
+  /** Branch, tag or commit SHA to read manifests from. Defaults to the default branch. */
+  gitRef?: string;
+  subdir?: string;
+  /** Reads manifests from a local source instead of GitHub. */
+  readFile?: (path: string) => Promise<string | null>;
 }
 
-const DependencyGraph: React.FC<DependencyGraphProps> = ({ owner, repo }) => {
+const DependencyGraph: React.FC<DependencyGraphProps> = ({ host, owner, repo, gitRef, subdir, readFile }) => {
   const [loading, setLoading] = useState(false);
   const [analyzing, setAnalyzing] = useState(false);
   const [loadingStage, setLoadingStage] = useState('');
@@ -40,7 +48,9 @@ const DependencyGraph: React.FC<DependencyGraphProps> = ({ owner, repo }) => {
     
     try {
       setLoadingStage('SCANNING MANIFEST FILES');
-      const result = await fetchRepoDependencies(owner, repo);
+      const result = readFile
+        ? await detectDependencies(readFile, subdir)
+        : await fetchSourceDependencies({ host, owner, repo, ref: gitRef || undefined, subdir });
       
       if (result.dependencies.length === 0) {
         throw new Error('No dependency manifest found (package.json, requirements.txt, Cargo.toml, or go.mod)');
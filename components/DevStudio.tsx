@@ -3,20 +3,40 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React, { useState, useRef, useEffect } from 'react';
-import D3FlowChart from './D3FlowChart';
-import { DevStudioState, D3Node, ViewMode } from '../types';
+import React, { useState, useRef, useEffect, useMemo, useCallback } from 'react';
+import D3FlowChart, { GraphOverlay, FlowChartHandle, linkKey } from './D3FlowChart';
+import GraphAnalyticsPanel, { OverlayMode } from './GraphAnalyticsPanel';
+import GraphToolbar from './GraphToolbar';
+import SourceViewer from './SourceViewer';
+import CodeEditor from './CodeEditor';
+import ChatThreadList from './ChatThreadList';
+import BatchReviewPanel from './BatchReviewPanel';
+import RepoQAPanel from './RepoQAPanel';
+import SymbolOutline from './SymbolOutline';
+import { DevStudioState, D3Node, ViewMode, ChatThread, ChatThreadMessage } from '../types';
 import { askNodeSpecificQuestion, performCodeReview, generateTestCases, generateDocumentation, analyzeGapsAndBottlenecks, CodeReviewResult, TestGenerationResult, DocumentationResult, GapAnalysisResult } from '../services/geminiService';
-import { Terminal, GitBranch, Cpu, MessageSquare, Zap, Code2, ArrowLeft, Sparkles, Bug, Search, FileCheck, TestTube, FileText, AlertTriangle, Copy, Loader2, Shield, ChevronRight, CheckCircle2 } from 'lucide-react';
+import { Terminal, GitBranch, Cpu, MessageSquare, Zap, Code2, ArrowLeft, Sparkles, Bug, Search, FileCheck, TestTube, FileText, AlertTriangle, Copy, Loader2, Shield, ChevronRight, CheckCircle2, Square, XCircle, RefreshCw, Activity, Download, FileCode, ListChecks, Pin, FileSearch, ListTree } from 'lucide-react';
 import { useProjectContext } from '../contexts/ProjectContext';
+import { AppError, logError, interpretError } from '../services/errorService';
+import { isAbortError } from '../services/aiProvider';
+import { useAbortController } from '../hooks/useAbortController';
+import { PersistenceService } from '../services/persistence';
+import { clusterGraph, clusterToggleTarget, defaultExpandedDirs, revealNode } from '../utils/graphClusters';
+import { fileExtensions, filterGraph, GraphFilter, inducedSubgraph, neighborhood, searchNodes, shortestPath } from '../utils/graphSearch';
+import { getProjectKey } from '../utils/projectKey';
+import { analyzeGraph, NodeMetrics } from '../utils/graphAnalytics';
+import { exportGraph, GraphExportFormat, GRAPH_EXPORT_FORMATS } from '../utils/graphExport';
+import { useFileDownload } from '../hooks/useFileDownload';
+import { exportFindings, Findings, FindingsExportFormat, FINDINGS_EXPORT_FORMATS } from '../utils/findingsExport';
+import { createThread, threadId, threadNodeKey, threadToMarkdown } from '../utils/chatThreads';
+import { buildTestFile, bundleTestFiles, detectFramework, TestFile, TEST_FRAMEWORK_LABELS } from '../utils/testFileBuilder';
+import { CodeCitation } from '../utils/codeCitations';
+import { SymbolReferences } from '../services/symbolIndexService';
+import { fanInByPath } from '../services/contextPacker';
+import { directImports, loadFileContent, loadSourceContext, resolveNodePath, MAX_CONTEXT_IMPORTS } from '../services/fileContentService';
 
 type ToolMode = 'chat' | 'review' | 'tests' | 'docs' | 'gaps';
 
-interface ChatMessage {
-  role: 'user' | 'model';
-  text: string;
-}
-
 interface DevStudioProps {
   onNavigate: (mode: ViewMode) => void;
 }
@@ -38,24 +58,408 @@ const TOOL_MODES = [
 const DevStudio: React.FC<DevStudioProps> = ({ onNavigate }) => {
   const { currentProject: initialState } = useProjectContext();
   const [selectedNode, setSelectedNode] = useState<D3Node | null>(null);
-  const [chatHistory, setChatHistory] = useState<ChatMessage[]>([]);
   const [questionInput, setQuestionInput] = useState('');
   const [chatLoading, setChatLoading] = useState(false);
+  const [streamingReply, setStreamingReply] = useState('');
+  const chatRequest = useAbortController();
   const chatEndRef = useRef<HTMLDivElement>(null);
   
   // Tool mode state
   const [toolMode, setToolMode] = useState<ToolMode>('chat');
   const [toolLoading, setToolLoading] = useState(false);
+  const [toolError, setToolError] = useState<{ mode: ToolMode; error: AppError } | null>(null);
+  const [toolStream, setToolStream] = useState('');
+  const toolRequest = useAbortController();
   
   // Tool results
   const [codeReview, setCodeReview] = useState<CodeReviewResult | null>(null);
   const [testResults, setTestResults] = useState<TestGenerationResult | null>(null);
   const [docResults, setDocResults] = useState<DocumentationResult | null>(null);
   const [gapResults, setGapResults] = useState<GapAnalysisResult | null>(null);
+  // File each tool result was produced for, used to locate exported findings
+  const [toolSubjects, setToolSubjects] = useState<Partial<Record<ToolMode, string>>>({});
+
+  // Generated tests assembled into files, kept per source path for the zip download
+  const [testFiles, setTestFiles] = useState<Record<string, TestFile>>({});
+  const [showTestFile, setShowTestFile] = useState(false);
+
+  // Expanded directory clusters; everything else large enough is collapsed
+  const [expandedDirs, setExpandedDirs] = useState<Set<string> | null>(null);
+  const projectKey = initialState ? getProjectKey(initialState) : null;
+
+  // Chat threads, one per node, saved whenever they change
+  const [threads, setThreads] = useState<Record<string, ChatThread>>({});
+  const [showThreads, setShowThreads] = useState(false);
+  const [streamingThreadId, setStreamingThreadId] = useState<string | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  const dirtyThreads = useRef(new Set<string>());
+  const activeThreadId = projectKey !== null ? threadId(projectKey, threadNodeKey(selectedNode)) : null;
+  const activeThread = activeThreadId ? threads[activeThreadId] : undefined;
+  const chatMessages = activeThread?.messages ?? [];
+
+  useEffect(() => {
+    if (!projectKey) return;
+    let cancelled = false;
+    setThreads({});
+    PersistenceService.getChatThreads(projectKey)
+      .then(saved => {
+        if (!cancelled) setThreads(Object.fromEntries(saved.map(thread => [thread.id, thread])));
+      })
+      .catch(error => logError(error, 'DevStudio:threads'));
+    return () => {
+      cancelled = true;
+    };
+  }, [projectKey]);
+
+  useEffect(() => {
+    dirtyThreads.current.forEach(id => {
+      if (threads[id]) PersistenceService.saveChatThread(threads[id]).catch(error => logError(error, 'DevStudio:threads'));
+    });
+    dirtyThreads.current.clear();
+  }, [threads]);
+
+  const updateThread = useCallback((id: string, create: () => ChatThread, change: (thread: ChatThread) => ChatThread) => {
+    dirtyThreads.current.add(id);
+    setThreads(prev => ({ ...prev, [id]: change(prev[id] ?? create()) }));
+  }, []);
+
+  useEffect(() => {
+    if (highlightedMessageId) {
+      document.getElementById(`chat-message-${highlightedMessageId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    } else {
+      chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+    }
+  }, [chatMessages, chatLoading, streamingReply, highlightedMessageId]);
+
+  // Restore the saved expansion for this project, or pick one that fits the screen
+  useEffect(() => {
+    if (!initialState || !projectKey) return;
+    let cancelled = false;
+    setExpandedDirs(null);
+    PersistenceService.getExpandedClusters(projectKey)
+      .catch(() => null)
+      .then(saved => {
+        if (!cancelled) setExpandedDirs(saved ? new Set(saved) : defaultExpandedDirs(initialState.graphData));
+      });
+    return () => { cancelled = true; };
+  }, [projectKey, initialState?.graphData]);
+
+  // Search, filters, neighborhood focus and path-finding
+  const [searchQuery, setSearchQuery] = useState('');
+  const [graphFilter, setGraphFilter] = useState<GraphFilter>({});
+  const [focus, setFocus] = useState<{ node: D3Node; hops: number } | null>(null);
+  const [pathStart, setPathStart] = useState<D3Node | null>(null);
+  const [pathEnd, setPathEnd] = useState<D3Node | null>(null);
+  const [pendingFocusId, setPendingFocusId] = useState<string | null>(null);
+
+  useEffect(() => {
+    setSearchQuery('');
+    setGraphFilter({});
+    setFocus(null);
+    setPathStart(null);
+    setPathEnd(null);
+    setTestFiles({});
+  }, [projectKey]);
+
+  // Filters and focus narrow the full graph; clustering applies to what's left
+  const filteredGraph = useMemo(
+    () => (initialState ? filterGraph(initialState.graphData, graphFilter) : null),
+    [initialState?.graphData, graphFilter]
+  );
+
+  const focusedGraph = useMemo(() => {
+    if (!filteredGraph || !focus) return filteredGraph;
+    const centers = (focus.node.childNodes || [focus.node]).map(n => n.id);
+    return inducedSubgraph(filteredGraph, neighborhood(filteredGraph, centers, focus.hops));
+  }, [filteredGraph, focus]);
+
+  const visibleGraph = useMemo(
+    () => (focusedGraph && expandedDirs ? clusterGraph(focusedGraph, expandedDirs) : null),
+    [focusedGraph, expandedDirs]
+  );
+
+  // Full-graph node ids to the visible node standing in for them
+  const visibleIdOf = useMemo(() => {
+    const map = new Map<string, string>();
+    visibleGraph?.nodes.forEach(node => (node.childNodes || [node]).forEach(n => map.set(n.id, node.id)));
+    return map;
+  }, [visibleGraph]);
+
+  const extensions = useMemo(
+    () => (initialState ? fileExtensions(initialState.graphData) : []),
+    [initialState?.graphData]
+  );
+
+  // Ranks widely imported files first when the chat and tools pack the file tree
+  const fanIn = useMemo(
+    () => (initialState ? fanInByPath(initialState.graphData) : undefined),
+    [initialState?.graphData]
+  );
+
+  const searchMatches = useMemo(
+    () => (focusedGraph ? searchNodes(focusedGraph, searchQuery) : []),
+    [focusedGraph, searchQuery]
+  );
+
+  const graphPath = useMemo(() => {
+    if (!filteredGraph || !pathStart || !pathEnd) return null;
+    const ids = (node: D3Node) => (node.childNodes || [node]).map(n => n.id);
+    return shortestPath(filteredGraph, ids(pathStart), ids(pathEnd));
+  }, [filteredGraph, pathStart, pathEnd]);
+
+  const labelOf = useCallback((id: string) => {
+    const node = initialState?.graphData.nodes.find(n => n.id === id);
+    return node ? node.path || node.label : id;
+  }, [initialState?.graphData]);
+
+  // Graph analytics: computed over the full graph, shown on the visible (clustered) one
+  const [showAnalytics, setShowAnalytics] = useState(false);
+  const [overlayMode, setOverlayMode] = useState<OverlayMode>('none');
+  const [selectedCycle, setSelectedCycle] = useState<number | null>(null);
+  const analytics = useMemo(
+    () => (showAnalytics && initialState ? analyzeGraph(initialState.graphData) : null),
+    [showAnalytics, initialState?.graphData]
+  );
+
+  useEffect(() => {
+    setSelectedCycle(null);
+  }, [analytics]);
+
+  const analyticsOverlay = useMemo<GraphOverlay | undefined>(() => {
+    if (!analytics || !visibleGraph || !showAnalytics) return undefined;
+    const byId = new Map<string, NodeMetrics>(analytics.metrics.map(m => [m.id, m]));
+    const highlighted = selectedCycle !== null ? new Set(analytics.cycles[selectedCycle]) : undefined;
+    if (overlayMode === 'none') return { highlighted };
+
+    const metric = overlayMode === 'fanIn' || overlayMode === 'fanOut' || overlayMode === 'betweenness' ? overlayMode : null;
+    const max = metric ? Math.max(1e-9, ...analytics.metrics.map(m => m[metric])) : 1;
+    const valueOf = (id: string): number | undefined => {
+      const m = byId.get(id);
+      if (!m) return undefined;
+      if (metric) return m[metric] / max;
+      if (overlayMode === 'cycles') return m.cycle >= 0 ? 1 : undefined;
+      return m.orphan ? 1 : undefined;
+    };
+
+    // Clusters take the strongest value among their members
+    const values = new Map<string, number>();
+    visibleGraph.nodes.forEach(node => {
+      const memberValues = (node.childNodes || [node]).map(n => valueOf(n.id)).filter((v): v is number => v !== undefined);
+      if (memberValues.length > 0) values.set(node.id, Math.max(...memberValues));
+      if (highlighted && node.childNodes?.some(n => highlighted.has(n.id))) highlighted.add(node.id);
+    });
+    return { values, highlighted };
+  }, [analytics, visibleGraph, showAnalytics, overlayMode, selectedCycle]);
+
+  // Symbol outline; the last "find references" result is shaded on the graph by number of uses
+  const [showOutline, setShowOutline] = useState(false);
+  const [symbolReferences, setSymbolReferences] = useState<SymbolReferences | null>(null);
+
+  useEffect(() => {
+    setSymbolReferences(null);
+  }, [projectKey]);
+
+  const referencesOverlay = useMemo<GraphOverlay | undefined>(() => {
+    if (!symbolReferences || !initialState) return undefined;
+    const idOfPath = new Map(initialState.graphData.nodes.filter(n => n.type === 'file' && n.path).map(n => [n.path!, n.id]));
+    const visibleOfPath = (path: string) => visibleIdOf.get(idOfPath.get(path) ?? '');
+    const max = Math.max(1, ...symbolReferences.hits.map(hit => hit.lines.length));
+    // Clusters take the strongest value among their members
+    const values = new Map<string, number>();
+    symbolReferences.hits.forEach(hit => {
+      const id = visibleOfPath(hit.path);
+      if (id) values.set(id, Math.max(values.get(id) ?? 0, hit.lines.length / max));
+    });
+    const declaring = visibleOfPath(symbolReferences.path);
+    return { values, highlighted: new Set(declaring ? [declaring] : []) };
+  }, [symbolReferences, initialState?.graphData, visibleIdOf]);
+
+  const baseOverlay = referencesOverlay ?? analyticsOverlay;
+
+  // Search hits and the current path are outlined on top of any references or analytics overlay
+  const overlay = useMemo<GraphOverlay | undefined>(() => {
+    const pathIds = graphPath ? graphPath.nodes.map(id => visibleIdOf.get(id)).filter((id): id is string => !!id) : [];
+    const matchIds = searchQuery.trim() ? searchMatches.map(m => visibleIdOf.get(m.node.id)).filter((id): id is string => !!id) : [];
+    if (pathIds.length === 0 && matchIds.length === 0) return baseOverlay;
+
+    const highlighted = new Set([...(baseOverlay?.highlighted || []), ...matchIds, ...pathIds]);
+    // Undirected paths may walk a link backwards, so both orientations are marked
+    const highlightedLinks = new Set<string>();
+    pathIds.forEach((id, i) => {
+      if (i === 0 || pathIds[i - 1] === id) return;
+      highlightedLinks.add(linkKey(pathIds[i - 1], id));
+      highlightedLinks.add(linkKey(id, pathIds[i - 1]));
+    });
+    return { ...baseOverlay, highlighted, highlightedLinks };
+  }, [baseOverlay, graphPath, searchMatches, searchQuery, visibleIdOf]);
+
+  // Selecting a cycle makes its members the target of the chat and tools
+  const handleSelectCycle = useCallback((index: number | null) => {
+    setSelectedCycle(index);
+    if (index === null || !analytics || !initialState) return;
+    const nodesById = new Map(initialState.graphData.nodes.map(n => [n.id, n]));
+    const members = analytics.cycles[index].map(id => nodesById.get(id)).filter((n): n is D3Node => !!n);
+    const names = members.map(n => n.path || n.label);
+    setSelectedNode({
+      id: `cycle-${index}`,
+      label: `Import cycle of ${members.length} files: ${[...names, names[0]].join(' → ')}`,
+      group: 0,
+      childNodes: members,
+    });
+  }, [analytics, initialState]);
+
+  const handleSelectMetricRow = useCallback((id: string) => {
+    const node = initialState?.graphData.nodes.find(n => n.id === id);
+    if (node) setSelectedNode(node);
+  }, [initialState]);
+
+  // Graph export: text formats describe the visible graph, snapshots capture the viewport
+  const chartRef = useRef<FlowChartHandle>(null);
+  const [exportMenuOpen, setExportMenuOpen] = useState(false);
+  const { downloadText, downloadBlob } = useFileDownload();
+
+  const handleExportGraph = (format: GraphExportFormat) => {
+    if (!initialState || !visibleGraph) return;
+    const metrics = (analytics || analyzeGraph(initialState.graphData)).metrics;
+    const { extension, mimeType } = GRAPH_EXPORT_FORMATS[format];
+    downloadText(exportGraph(visibleGraph, format, { name: initialState.repoName, metrics }), `${initialState.repoName}-graph.${extension}`, mimeType);
+    setExportMenuOpen(false);
+  };
+
+  const handleExportSnapshot = async (kind: 'svg' | 'png') => {
+    if (!initialState || !chartRef.current) return;
+    setExportMenuOpen(false);
+    try {
+      const blob = kind === 'svg'
+        ? new Blob([chartRef.current.toSvg()], { type: 'image/svg+xml' })
+        : await chartRef.current.toPng();
+      downloadBlob(blob, `${initialState.repoName}-graph.${kind}`);
+    } catch (error) {
+      logError(error, 'DevStudio:export');
+    }
+  };
+
+  // Source of the selected file, shown next to the results and sent to the tools
+  const [showSource, setShowSource] = useState(true);
+  const [viewerPath, setViewerPath] = useState<string | null>(null);
+  const [viewerContent, setViewerContent] = useState<string | null>(null);
+  const [viewerLoading, setViewerLoading] = useState(false);
+  const selectedPath = useMemo(
+    () => (selectedNode && initialState ? resolveNodePath(selectedNode, initialState.fileTree) : null),
+    [selectedNode, initialState?.fileTree]
+  );
+  const selectedImports = useMemo(
+    () => (selectedNode && selectedPath && initialState ? directImports(initialState, selectedNode) : []),
+    [selectedNode, selectedPath, initialState]
+  );
+
+  const [viewerHighlight, setViewerHighlight] = useState<CodeCitation | null>(null);
+
+  useEffect(() => {
+    setViewerPath(selectedPath);
+  }, [selectedPath]);
+
+  useEffect(() => {
+    if (!viewerPath || !initialState || !showSource) return;
+    let cancelled = false;
+    setViewerLoading(true);
+    setViewerContent(null);
+    loadFileContent(initialState, viewerPath)
+      .catch(() => null)
+      .then(content => {
+        if (cancelled) return;
+        setViewerContent(content);
+        setViewerLoading(false);
+      });
+    return () => { cancelled = true; };
+  }, [viewerPath, initialState, showSource]);
+
+  const handleNodeClick = useCallback((node: D3Node) => {
+    setSelectedNode(node);
+    // While picking a path, the next click chooses where it ends
+    if (pathStart && !pathEnd && node.id !== pathStart.id) setPathEnd(node);
+  }, [pathStart, pathEnd]);
+
+  const saveExpandedDirs = useCallback((next: Set<string>) => {
+    setExpandedDirs(next);
+    if (projectKey) PersistenceService.saveExpandedClusters(projectKey, Array.from(next)).catch(console.error);
+  }, [projectKey]);
+
+  // Jumping to a search hit opens the clusters hiding it, then zooms once it's on screen
+  const handleSelectMatch = useCallback((node: D3Node) => {
+    if (!focusedGraph || !expandedDirs) return;
+    setSelectedNode(node);
+    const next = revealNode(focusedGraph, node, expandedDirs);
+    if (next !== expandedDirs) saveExpandedDirs(next);
+    setPendingFocusId(node.id);
+  }, [focusedGraph, expandedDirs, saveExpandedDirs]);
+
+  // Batch runs cover the selected directory by default; their report links back to files
+  const [showBatch, setShowBatch] = useState(false);
+  const batchScope = useMemo(() => {
+    if (!selectedNode?.path) return '';
+    if (selectedNode.type === 'cluster') return selectedNode.path;
+    const slash = selectedNode.path.lastIndexOf('/');
+    return slash > 0 ? selectedNode.path.slice(0, slash) : '';
+  }, [selectedNode]);
+
+  const handleSelectBatchFile = useCallback((path: string) => {
+    const node = initialState?.graphData.nodes.find(n => n.path === path);
+    if (node) handleSelectMatch(node);
+    setViewerPath(path);
+    setShowSource(true);
+  }, [initialState, handleSelectMatch]);
+
+  // Repository Q&A citations open the cited lines in the source viewer
+  const [showQA, setShowQA] = useState(false);
 
+  const handleOpenCitation = useCallback((citation: CodeCitation) => {
+    handleSelectBatchFile(citation.path);
+    setViewerHighlight(citation);
+  }, [handleSelectBatchFile]);
+
+  // New nodes get a position on the layout's first tick, so focusing retries briefly
   useEffect(() => {
-    chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [chatHistory, chatLoading]);
+    if (!pendingFocusId) return;
+    let attempts = 0;
+    const timer = setInterval(() => {
+      if (chartRef.current?.focusNode(pendingFocusId) || ++attempts >= 20) {
+        clearInterval(timer);
+        setPendingFocusId(null);
+      }
+    }, 50);
+    return () => clearInterval(timer);
+  }, [pendingFocusId, visibleGraph]);
+
+  const handleFocusChange = (hops: number) => {
+    if (hops === 0) setFocus(null);
+    else if (focus) setFocus({ ...focus, hops });
+    else if (selectedNode) setFocus({ node: selectedNode, hops });
+  };
+
+  const handleStartPath = () => {
+    setPathStart(selectedNode);
+    setPathEnd(null);
+  };
+
+  const handleClearPath = () => {
+    setPathStart(null);
+    setPathEnd(null);
+  };
+
+  const handleNodeDoubleClick = useCallback((node: D3Node) => {
+    if (!focusedGraph || !expandedDirs) return;
+    const dir = clusterToggleTarget(focusedGraph, node, expandedDirs);
+    if (dir === null) return;
+    const next = new Set<string>(expandedDirs);
+    if (next.has(dir)) {
+      // Collapse everything inside too, so re-expanding starts from one level
+      next.forEach(d => { if (d === dir || d.startsWith(`${dir}/`)) next.delete(d); });
+    } else {
+      next.add(dir);
+    }
+    saveExpandedDirs(next);
+  }, [focusedGraph, expandedDirs, saveExpandedDirs]);
 
   if (!initialState) {
     return (
@@ -77,25 +481,49 @@ const DevStudio: React.FC<DevStudioProps> = ({ onNavigate }) => {
     );
   }
 
-  const handleNodeClick = (node: D3Node) => {
-    setSelectedNode(node);
-  };
-
   const executePrompt = async (promptText: string, nodeOverride?: D3Node | null) => {
-    if (!initialState.fileTree) return;
+    if (!initialState.fileTree || !projectKey) return;
     const node = nodeOverride !== undefined ? nodeOverride : selectedNode;
     const targetNodeLabel = node ? node.label : "the overall architecture";
 
-    setChatHistory(prev => [...prev, { role: 'user', text: promptText }]);
+    // The reply goes to the thread that was asked, even if the selection moves on
+    const id = threadId(projectKey, threadNodeKey(node));
+    const addMessage = (role: ChatThreadMessage['role'], text: string) => {
+      const message: ChatThreadMessage = { id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`, role, text, timestamp: Date.now() };
+      updateThread(id, () => createThread(projectKey, node), thread => ({
+        ...thread,
+        messages: [...thread.messages, message],
+        updatedAt: message.timestamp,
+      }));
+    };
+
+    addMessage('user', promptText);
+    setHighlightedMessageId(null);
+    setStreamingThreadId(id);
     setChatLoading(true);
+    setStreamingReply('');
+    const signal = chatRequest.begin();
+    let partial = '';
 
     try {
-        const answer = await askNodeSpecificQuestion(targetNodeLabel, promptText, initialState.fileTree);
-        setChatHistory(prev => [...prev, { role: 'model', text: answer }]);
+        const source = node ? await loadSourceContext(initialState, node).catch(() => null) : null;
+        const answer = await askNodeSpecificQuestion(targetNodeLabel, promptText, initialState.fileTree, source ?? undefined, undefined, {
+            signal,
+            fanIn,
+            onDelta: (_delta, text) => {
+                partial = text;
+                setStreamingReply(text);
+            }
+        });
+        addMessage('model', answer);
     } catch (error) {
-        setChatHistory(prev => [...prev, { role: 'model', text: "Error processing your request." }]);
+        const text = isAbortError(error)
+            ? `${partial}${partial ? '\n\n' : ''}[Generation cancelled]`
+            : "Error processing your request.";
+        addMessage('model', text);
     } finally {
         setChatLoading(false);
+        setStreamingReply('');
     }
   }
 
@@ -107,48 +535,155 @@ const DevStudio: React.FC<DevStudioProps> = ({ onNavigate }) => {
     await executePrompt(q);
   };
 
+  const handleTogglePin = (messageId: string) => {
+    if (!activeThread) return;
+    updateThread(activeThread.id, () => activeThread, thread => ({
+      ...thread,
+      messages: thread.messages.map(m => (m.id === messageId ? { ...m, pinned: !m.pinned } : m)),
+    }));
+  };
+
+  // Opening a thread selects its node; threads of nodes no longer in the graph keep a stand-in
+  const handleSelectThread = (thread: ChatThread, messageId?: string) => {
+    setToolMode('chat');
+    setHighlightedMessageId(messageId ?? null);
+    if (!thread.nodeKey) {
+      setSelectedNode(null);
+      return;
+    }
+    const node = [...initialState.graphData.nodes, ...(visibleGraph?.nodes || [])].find(n => threadNodeKey(n) === thread.nodeKey);
+    if (node?.type === 'file') handleSelectMatch(node);
+    else setSelectedNode(node ?? { id: thread.nodeKey, label: thread.title, group: 0 });
+  };
+
+  const handleDeleteThread = (thread: ChatThread) => {
+    setThreads(prev => {
+      const { [thread.id]: _removed, ...rest } = prev;
+      return rest;
+    });
+    PersistenceService.deleteChatThread(thread.id).catch(error => logError(error, 'DevStudio:threads'));
+  };
+
+  const handleExportThread = () => {
+    if (!activeThread) return;
+    const name = activeThread.title.slice(activeThread.title.lastIndexOf('/') + 1) || 'architecture';
+    downloadText(threadToMarkdown(activeThread, initialState.repoName), `${name}-chat.md`, 'text/markdown');
+  };
+
   const handleQuickAction = (promptTemplate: string) => {
       if (selectedNode) {
          executePrompt(promptTemplate);
       }
   };
 
-  const runTool = async (mode: ToolMode) => {
+  const runTool = async (mode: ToolMode, forceRefresh: boolean = false) => {
     if (!initialState?.fileTree || !selectedNode) return;
     
     setToolLoading(true);
     setToolMode(mode);
+    setToolError(null);
+    setToolStream('');
+    const options = {
+      signal: toolRequest.begin(),
+      onDelta: (_delta: string, text: string) => setToolStream(text),
+      forceRefresh,
+    };
     
     try {
+      // Tools read the real file and its imports when the node maps to one, or the members of a selected cycle
+      const source = (await loadSourceContext(initialState, selectedNode).catch(() => null)) ?? undefined;
+      const subject = source?.peers ? selectedNode.label : source?.path ?? selectedPath ?? selectedNode.label;
+      setToolSubjects(subjects => ({ ...subjects, [mode]: subject }));
       switch (mode) {
         case 'review':
           setCodeReview(null);
-          const review = await performCodeReview(selectedNode.label, initialState.fileTree);
+          const review = await performCodeReview(selectedNode.label, initialState.fileTree, source, { ...options, fanIn });
           setCodeReview(review);
           break;
         case 'tests':
           setTestResults(null);
-          const tests = await generateTestCases(selectedNode.label, initialState.fileTree);
+          const tests = await generateTestCases(selectedNode.label, initialState.fileTree, source, { ...options, fanIn });
           setTestResults(tests);
+          // A test file per source file; a group's tests span several
+          if (source && !source.peers) {
+            const framework = detectFramework(source.path, tests.framework, initialState.fileTree.map(f => f.path));
+            const file = buildTestFile(source.path, tests, { framework, sourceContent: source.content });
+            setTestFiles(files => ({ ...files, [source.path]: file }));
+          }
           break;
         case 'docs':
           setDocResults(null);
-          const docs = await generateDocumentation(selectedNode.label, initialState.fileTree);
+          const docs = await generateDocumentation(selectedNode.label, initialState.fileTree, source, options);
           setDocResults(docs);
           break;
         case 'gaps':
           setGapResults(null);
-          const gaps = await analyzeGapsAndBottlenecks(selectedNode.label, initialState.fileTree);
+          const gaps = await analyzeGapsAndBottlenecks(selectedNode.label, initialState.fileTree, source, { ...options, fanIn });
           setGapResults(gaps);
           break;
       }
     } catch (error) {
-      console.error("Tool execution failed:", error);
+      if (!isAbortError(error)) {
+        logError(error, `DevStudio:${mode}`);
+        setToolError({ mode, error: interpretError(error) });
+      }
     } finally {
       setToolLoading(false);
+      setToolStream('');
+    }
+  };
+
+  const handleExportFindings = (format: FindingsExportFormat) => {
+    if (!initialState) return;
+    const findings: Findings = { name: initialState.repoName, ref: initialState.ref, reviews: [], gaps: [] };
+    if (toolMode === 'review' && codeReview) findings.reviews.push({ path: toolSubjects.review || 'unknown', result: codeReview });
+    if (toolMode === 'gaps' && gapResults) findings.gaps.push({ path: toolSubjects.gaps || 'unknown', result: gapResults });
+    const { extension, mimeType } = FINDINGS_EXPORT_FORMATS[format];
+    const file = (toolSubjects[toolMode] || initialState.repoName).split('/').pop();
+    downloadText(exportFindings(findings, format), `${file}-${toolMode}.${extension}`, mimeType);
+  };
+
+  const currentTestFile = toolSubjects.tests ? testFiles[toolSubjects.tests] : undefined;
+
+  const handleSaveTestFile = (content: string) => {
+    if (!currentTestFile) return;
+    setTestFiles(files => ({ ...files, [currentTestFile.sourcePath]: { ...currentTestFile, content } }));
+  };
+
+  const handleDownloadTests = async () => {
+    if (!initialState) return;
+    try {
+      downloadBlob(await bundleTestFiles(Object.values(testFiles)), `${initialState.repoName}-tests.zip`);
+    } catch (error) {
+      logError(error, 'DevStudio:tests-zip');
     }
   };
 
+  const hasToolResult = {
+    chat: false,
+    review: Boolean(codeReview),
+    tests: Boolean(testResults),
+    docs: Boolean(docResults),
+    gaps: Boolean(gapResults),
+  }[toolMode];
+
+  // Raw model output streamed while a tool runs, with a way to stop it
+  const renderToolStream = () => (
+    <>
+      {toolStream && (
+        <pre className="mt-4 mx-auto max-w-full max-h-48 overflow-hidden text-left text-[10px] leading-snug text-slate-500 font-mono whitespace-pre-wrap break-all bg-slate-950/60 border border-white/5 rounded-lg p-2">
+          {toolStream.slice(-1500)}
+        </pre>
+      )}
+      <button
+        onClick={toolRequest.cancel}
+        className="mt-4 px-3 py-1 bg-red-500/10 hover:bg-red-500/20 border border-red-500/30 rounded text-red-300 text-[10px] font-mono uppercase transition-colors inline-flex items-center gap-1"
+      >
+        <XCircle className="w-3 h-3" /> Cancel
+      </button>
+    </>
+  );
+
   return (
     // Mobile: Flex Column, Desktop: Flex Row. 
     // Mobile: Auto height (stacked), Desktop: Calculated full viewport height
@@ -162,15 +697,135 @@ const DevStudio: React.FC<DevStudioProps> = ({ onNavigate }) => {
                 <GitBranch className="w-4 h-4 text-indigo-400" />
                 <h3 className="text-sm font-bold text-slate-300 font-mono uppercase tracking-wider">Live_Dependency_Graph</h3>
             </div>
-            <div className="text-xs text-slate-500 font-mono px-2 py-1 bg-white/5 rounded-md hidden sm:block">
-                repo: {initialState.repoName}
+            <div className="flex items-center gap-2">
+                <button
+                    onClick={() => setShowAnalytics(!showAnalytics)}
+                    className={`text-xs font-mono px-2 py-1 rounded-md border flex items-center gap-1.5 transition-colors ${
+                        showAnalytics ? 'bg-indigo-500/20 border-indigo-500/40 text-indigo-300' : 'bg-white/5 border-transparent text-slate-500 hover:text-slate-300'
+                    }`}
+                    title="Cycles, centrality and hotspots"
+                >
+                    <Activity className="w-3 h-3" /> Analytics
+                </button>
+                <button
+                    onClick={() => setShowBatch(!showBatch)}
+                    className={`text-xs font-mono px-2 py-1 rounded-md border flex items-center gap-1.5 transition-colors ${
+                        showBatch ? 'bg-indigo-500/20 border-indigo-500/40 text-indigo-300' : 'bg-white/5 border-transparent text-slate-500 hover:text-slate-300'
+                    }`}
+                    title="Review, analyze or document a whole directory"
+                >
+                    <ListChecks className="w-3 h-3" /> Batch
+                </button>
+                <button
+                    onClick={() => setShowQA(!showQA)}
+                    className={`text-xs font-mono px-2 py-1 rounded-md border flex items-center gap-1.5 transition-colors ${
+                        showQA ? 'bg-indigo-500/20 border-indigo-500/40 text-indigo-300' : 'bg-white/5 border-transparent text-slate-500 hover:text-slate-300'
+                    }`}
+                    title="Ask questions answered from the repository's code"
+                >
+                    <FileSearch className="w-3 h-3" /> Q&amp;A
+                </button>
+                <button
+                    onClick={() => setShowOutline(!showOutline)}
+                    className={`text-xs font-mono px-2 py-1 rounded-md border flex items-center gap-1.5 transition-colors ${
+                        showOutline ? 'bg-indigo-500/20 border-indigo-500/40 text-indigo-300' : 'bg-white/5 border-transparent text-slate-500 hover:text-slate-300'
+                    }`}
+                    title="Symbols of the selected file and where they're used"
+                >
+                    <ListTree className="w-3 h-3" /> Outline
+                </button>
+                <div className="relative">
+                    <button
+                        onClick={() => setExportMenuOpen(!exportMenuOpen)}
+                        className="text-xs font-mono px-2 py-1 rounded-md border bg-white/5 border-transparent text-slate-500 hover:text-slate-300 flex items-center gap-1.5 transition-colors"
+                        title="Export the graph"
+                    >
+                        <Download className="w-3 h-3" /> Export
+                    </button>
+                    {exportMenuOpen && (
+                        <div className="absolute right-0 top-full mt-1 z-20 w-40 bg-slate-900 border border-white/10 rounded-lg shadow-xl py-1 font-mono text-xs">
+                            {(Object.keys(GRAPH_EXPORT_FORMATS) as GraphExportFormat[]).map(format => (
+                                <button key={format} onClick={() => handleExportGraph(format)} className="w-full text-left px-3 py-1.5 text-slate-300 hover:bg-white/5">
+                                    {GRAPH_EXPORT_FORMATS[format].label}
+                                </button>
+                            ))}
+                            <div className="border-t border-white/5 my-1" />
+                            <button onClick={() => handleExportSnapshot('svg')} className="w-full text-left px-3 py-1.5 text-slate-300 hover:bg-white/5">SVG snapshot</button>
+                            <button onClick={() => handleExportSnapshot('png')} className="w-full text-left px-3 py-1.5 text-slate-300 hover:bg-white/5">PNG snapshot</button>
+                        </div>
+                    )}
+                </div>
+                <div className="text-xs text-slate-500 font-mono px-2 py-1 bg-white/5 rounded-md hidden sm:block">
+                    repo: {initialState.repoName}{initialState.ref ? `@${initialState.ref}` : ''}
+                </div>
             </div>
          </div>
-         <div className="flex-1 relative w-full h-full">
-             <D3FlowChart data={initialState.graphData} onNodeClick={handleNodeClick} />
+         <GraphToolbar
+           query={searchQuery}
+           onQueryChange={setSearchQuery}
+           matches={searchMatches}
+           onSelectMatch={handleSelectMatch}
+           filter={graphFilter}
+           onFilterChange={setGraphFilter}
+           extensions={extensions}
+           focusNode={focus?.node ?? null}
+           focusHops={focus?.hops ?? 0}
+           onFocusChange={handleFocusChange}
+           selectedNode={selectedNode}
+           pathStart={pathStart}
+           pathEnd={pathEnd}
+           path={graphPath}
+           labelOf={labelOf}
+           onStartPath={handleStartPath}
+           onClearPath={handleClearPath}
+         />
+         <div className="flex-1 relative w-full h-full min-h-0">
+             {visibleGraph && (
+               <D3FlowChart ref={chartRef} data={visibleGraph} overlay={overlay} onNodeClick={handleNodeClick} onNodeDoubleClick={handleNodeDoubleClick} />
+             )}
          </div>
+         {showAnalytics && analytics && (
+           <GraphAnalyticsPanel
+             analytics={analytics}
+             overlayMode={overlayMode}
+             onOverlayModeChange={setOverlayMode}
+             selectedCycle={selectedCycle}
+             onSelectCycle={handleSelectCycle}
+             onSelectNode={handleSelectMetricRow}
+           />
+         )}
+         {showBatch && (
+           <BatchReviewPanel project={initialState} defaultScope={batchScope} onSelectFile={handleSelectBatchFile} />
+         )}
+         {showQA && (
+           <RepoQAPanel project={initialState} onOpenCitation={handleOpenCitation} />
+         )}
+         {showOutline && (
+           <SymbolOutline
+             project={initialState}
+             path={selectedPath}
+             references={symbolReferences}
+             onReferencesChange={setSymbolReferences}
+             onOpenLine={handleOpenCitation}
+           />
+         )}
       </div>
 
+      {/* Middle Pane: Source of the selected file */}
+      {showSource && viewerPath && (
+        <div className="w-full lg:w-[420px] h-[400px] lg:h-auto glass-panel rounded-3xl overflow-hidden shrink-0">
+          <SourceViewer
+            path={viewerPath}
+            content={viewerContent}
+            loading={viewerLoading}
+            contextFiles={selectedPath ? [selectedPath, ...selectedImports.slice(0, MAX_CONTEXT_IMPORTS)] : []}
+            onOpenFile={setViewerPath}
+            highlight={viewerHighlight?.path === viewerPath ? viewerHighlight : null}
+            onClose={() => setShowSource(false)}
+          />
+        </div>
+      )}
+
       {/* Right Pane: Contextual Dev Terminal */}
       <div className="w-full lg:w-[480px] h-[600px] lg:h-auto glass-panel rounded-3xl flex flex-col overflow-hidden shrink-0 mb-6 lg:mb-0">
          <div className="px-4 py-3 bg-slate-950/50 border-b border-white/5 flex items-center gap-2 shrink-0">
@@ -187,8 +842,24 @@ const DevStudio: React.FC<DevStudioProps> = ({ onNavigate }) => {
                     </div>
                     <div className="overflow-hidden flex-1">
                         <p className="text-[10px] text-indigo-400 font-mono uppercase tracking-wider">Active Node</p>
-                        <p className="text-sm text-white font-mono truncate font-medium" title={selectedNode.label}>{selectedNode.label}</p>
+                        <p className="text-sm text-white font-mono truncate font-medium" title={selectedPath || selectedNode.label}>{selectedNode.label}</p>
+                        {selectedPath && (
+                          <p className="text-[10px] text-slate-500 font-mono truncate" title={selectedImports.join('\n')}>
+                            {selectedPath}{selectedImports.length > 0 ? ` · ${selectedImports.length} import${selectedImports.length === 1 ? '' : 's'}` : ''}
+                          </p>
+                        )}
                     </div>
+                    {selectedPath && (
+                      <button
+                        onClick={() => setShowSource(!showSource)}
+                        className={`p-1.5 rounded-lg border transition-colors shrink-0 ${
+                          showSource ? 'bg-sky-500/20 border-sky-500/40 text-sky-300' : 'bg-white/5 border-transparent text-slate-500 hover:text-slate-300'
+                        }`}
+                        title={showSource ? 'Hide source' : 'Show source'}
+                      >
+                        <FileCode className="w-4 h-4" />
+                      </button>
+                    )}
                 </div>
              ) : (
                  <div className="flex items-center gap-3 opacity-70">
@@ -230,12 +901,53 @@ const DevStudio: React.FC<DevStudioProps> = ({ onNavigate }) => {
            })}
          </div>
 
-         {/* Tool Content Area */}
+         {/* Tool Content Area, with the thread list beside the chat */}
+         <div className="flex-1 flex min-h-0">
+         {toolMode === 'chat' && showThreads && (
+           <ChatThreadList
+             threads={Object.values(threads)}
+             activeId={activeThreadId}
+             onSelect={handleSelectThread}
+             onDelete={handleDeleteThread}
+             onClose={() => setShowThreads(false)}
+           />
+         )}
          <div className="flex-1 overflow-y-auto bg-slate-950/30 relative min-h-0">
            
+           {toolError && toolError.mode === toolMode && (
+             <div className="m-4 p-3 glass-panel border-red-500/30 rounded-xl flex items-start gap-3 text-red-400 animate-in fade-in slide-in-from-top-2 font-mono text-xs">
+               <AlertTriangle className="w-4 h-4 flex-shrink-0 text-red-500 mt-0.5" />
+               <div className="flex-1 space-y-1">
+                 <p className="font-bold text-red-300">{toolError.error.title}</p>
+                 <p className="text-red-400/80">{toolError.error.message}</p>
+               </div>
+             </div>
+           )}
+
            {/* Chat Mode */}
            {toolMode === 'chat' && (
              <>
+               {/* Thread controls */}
+               <div className="px-3 py-1.5 border-b border-white/5 flex items-center gap-2 text-[10px] font-mono">
+                 <button
+                   onClick={() => setShowThreads(!showThreads)}
+                   className={`flex items-center gap-1 px-2 py-0.5 rounded border transition-colors ${
+                     showThreads ? 'bg-indigo-500/20 border-indigo-500/40 text-indigo-300' : 'border-white/5 text-slate-500 hover:text-slate-300'
+                   }`}
+                   title="Chat threads of this project"
+                 >
+                   <MessageSquare className="w-3 h-3" /> Threads
+                 </button>
+                 <span className="flex-1 truncate text-slate-500" title={activeThread?.title}>
+                   {chatMessages.length > 0 ? `${chatMessages.length} messages` : ''}
+                 </span>
+                 {chatMessages.length > 0 && (
+                   <button onClick={handleExportThread} className="flex items-center gap-1 text-slate-500 hover:text-white transition-colors" title="Download this thread as Markdown">
+                     <Download className="w-3 h-3" /> MD
+                   </button>
+                 )}
+               </div>
+
                {/* Quick Actions */}
                {selectedNode && (
                  <div className="p-3 border-b border-white/5 flex gap-2">
@@ -254,24 +966,40 @@ const DevStudio: React.FC<DevStudioProps> = ({ onNavigate }) => {
                )}
                
                <div className="p-4 space-y-4 font-mono text-sm">
-                 {chatHistory.length === 0 && !chatLoading && (
+                 {chatMessages.length === 0 && !chatLoading && (
                    <div className="flex flex-col items-center justify-center py-12 text-slate-600 space-y-4 text-center opacity-60">
                      <Zap className="w-10 h-10 text-indigo-500/50" />
                      <p className="text-xs max-w-[200px]">Select a node to start chatting</p>
                    </div>
                  )}
-                 {chatHistory.map((msg, idx) => (
-                   <div key={idx} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+                 {chatMessages.map((msg) => (
+                   <div key={msg.id} id={`chat-message-${msg.id}`} className={`group flex items-start gap-1 ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
                      <div className={`max-w-[90%] p-3 rounded-xl ${
                        msg.role === 'user' 
                          ? 'bg-indigo-600/20 text-indigo-100 border border-indigo-500/30 rounded-br-sm' 
                          : 'bg-slate-800/80 text-slate-200 border border-white/10 rounded-bl-sm'
-                     }`}>
+                     } ${msg.pinned ? 'ring-1 ring-amber-400/40' : ''} ${msg.id === highlightedMessageId ? 'ring-2 ring-indigo-400/60' : ''}`}>
                        <div className="whitespace-pre-wrap leading-relaxed text-[13px]">{msg.text}</div>
                      </div>
+                     {msg.role === 'model' && (
+                       <button
+                         onClick={() => handleTogglePin(msg.id)}
+                         className={`p-1 rounded transition-opacity ${msg.pinned ? 'text-amber-300' : 'text-slate-600 hover:text-amber-300 opacity-0 group-hover:opacity-100'}`}
+                         title={msg.pinned ? 'Unpin answer' : 'Pin answer'}
+                       >
+                         <Pin className="w-3 h-3" />
+                       </button>
+                     )}
                    </div>
                  ))}
-                 {chatLoading && (
+                 {chatLoading && streamingThreadId === activeThreadId && streamingReply && (
+                   <div className="flex justify-start">
+                     <div className="max-w-[90%] p-3 rounded-xl bg-slate-800/80 text-slate-200 border border-white/10 rounded-bl-sm">
+                       <div className="whitespace-pre-wrap leading-relaxed text-[13px]">{streamingReply}<span className="inline-block w-1.5 h-3.5 ml-0.5 bg-indigo-400 animate-pulse align-middle" /></div>
+                     </div>
+                   </div>
+                 )}
+                 {chatLoading && streamingThreadId === activeThreadId && !streamingReply && (
                    <div className="flex justify-start">
                      <div className="bg-slate-800/80 p-3 rounded-xl border border-white/10 flex gap-1">
                        <div className="w-1.5 h-1.5 bg-indigo-400 rounded-full animate-bounce" style={{ animationDelay: '0ms' }} />
@@ -285,6 +1013,29 @@ const DevStudio: React.FC<DevStudioProps> = ({ onNavigate }) => {
              </>
            )}
 
+           {/* Re-run the current tool without the response cache */}
+           {toolMode !== 'chat' && selectedNode && !toolLoading && hasToolResult && (
+             <div className="px-4 pt-3 -mb-2 flex justify-end gap-3">
+               {(toolMode === 'review' || toolMode === 'gaps') && (Object.keys(FINDINGS_EXPORT_FORMATS) as FindingsExportFormat[]).map(format => (
+                 <button
+                   key={format}
+                   onClick={() => handleExportFindings(format)}
+                   className="flex items-center gap-1 text-[10px] font-mono text-slate-500 hover:text-white transition-colors"
+                   title={`Download as ${FINDINGS_EXPORT_FORMATS[format].label}`}
+                 >
+                   <Download className="w-3 h-3" /> {FINDINGS_EXPORT_FORMATS[format].extension.toUpperCase()}
+                 </button>
+               ))}
+               <button
+                 onClick={() => runTool(toolMode, true)}
+                 className="flex items-center gap-1 text-[10px] font-mono text-slate-500 hover:text-white transition-colors"
+                 title="Regenerate (skip cache)"
+               >
+                 <RefreshCw className="w-3 h-3" /> Regenerate
+               </button>
+             </div>
+           )}
+
            {/* Code Review Mode */}
            {toolMode === 'review' && (
              <div className="p-4">
@@ -297,6 +1048,7 @@ const DevStudio: React.FC<DevStudioProps> = ({ onNavigate }) => {
                  <div className="text-center py-12">
                    <Loader2 className="w-8 h-8 animate-spin text-rose-500 mx-auto mb-3" />
                    <p className="text-xs text-rose-300 font-mono">Analyzing code...</p>
+                   {renderToolStream()}
                  </div>
                ) : codeReview ? (
                  <div className="space-y-4">
@@ -378,6 +1130,7 @@ const DevStudio: React.FC<DevStudioProps> = ({ onNavigate }) => {
                  <div className="text-center py-12">
                    <Loader2 className="w-8 h-8 animate-spin text-green-500 mx-auto mb-3" />
                    <p className="text-xs text-green-300 font-mono">Generating tests...</p>
+                   {renderToolStream()}
                  </div>
                ) : testResults ? (
                  <div className="space-y-4">
@@ -385,7 +1138,49 @@ const DevStudio: React.FC<DevStudioProps> = ({ onNavigate }) => {
                      <span className="text-green-300 font-bold text-sm">Test Cases</span>
                      <span className="text-[10px] bg-green-500/20 text-green-400 px-2 py-0.5 rounded">{testResults.framework}</span>
                    </div>
-                   
+
+                   {currentTestFile && (
+                     <div className="flex items-center gap-2 text-[10px] font-mono">
+                       {(['Cases', 'Test file'] as const).map(label => (
+                         <button
+                           key={label}
+                           onClick={() => setShowTestFile(label === 'Test file')}
+                           className={`px-2 py-0.5 rounded border transition-colors ${
+                             showTestFile === (label === 'Test file') ? 'bg-green-500/20 border-green-500/40 text-green-300' : 'border-white/5 text-slate-400 hover:text-slate-200'
+                           }`}
+                         >
+                           {label}
+                         </button>
+                       ))}
+                       <span className="flex-1" />
+                       <button
+                         onClick={() => downloadText(currentTestFile.content, currentTestFile.path.split('/').pop()!)}
+                         className="flex items-center gap-1 text-slate-500 hover:text-white transition-colors"
+                         title={`Download ${currentTestFile.path}`}
+                       >
+                         <Download className="w-3 h-3" /> File
+                       </button>
+                       <button
+                         onClick={handleDownloadTests}
+                         className="flex items-center gap-1 text-slate-500 hover:text-white transition-colors"
+                         title="Download every generated test file, laid out like the repository"
+                       >
+                         <Download className="w-3 h-3" /> All ({Object.keys(testFiles).length}) .zip
+                       </button>
+                     </div>
+                   )}
+
+                   {currentTestFile && showTestFile ? (
+                     <div className="h-[420px]">
+                       <CodeEditor
+                         initialValue={currentTestFile.content}
+                         onSave={handleSaveTestFile}
+                         language={`${TEST_FRAMEWORK_LABELS[currentTestFile.framework]} · ${currentTestFile.path}`}
+                         saveLabel="Keep edits (Cmd+S)"
+                       />
+                     </div>
+                   ) : (
+                   <>
                    {testResults.setup && (
                      <div>
                        <p className="text-[10px] text-slate-500 font-mono uppercase mb-2">Setup</p>
@@ -431,6 +1226,8 @@ const DevStudio: React.FC<DevStudioProps> = ({ onNavigate }) => {
                        </div>
                      </div>
                    )}
+                   </>
+                   )}
                  </div>
                ) : (
                  <div className="text-center py-8">
@@ -458,6 +1255,7 @@ const DevStudio: React.FC<DevStudioProps> = ({ onNavigate }) => {
                  <div className="text-center py-12">
                    <Loader2 className="w-8 h-8 animate-spin text-blue-500 mx-auto mb-3" />
                    <p className="text-xs text-blue-300 font-mono">Generating documentation...</p>
+                   {renderToolStream()}
                  </div>
                ) : docResults ? (
                  <div className="space-y-4">
@@ -531,6 +1329,7 @@ const DevStudio: React.FC<DevStudioProps> = ({ onNavigate }) => {
                  <div className="text-center py-12">
                    <Loader2 className="w-8 h-8 animate-spin text-amber-500 mx-auto mb-3" />
                    <p className="text-xs text-amber-300 font-mono">Analyzing gaps & bottlenecks...</p>
+                   {renderToolStream()}
                  </div>
                ) : gapResults ? (
                  <div className="space-y-4">
@@ -607,6 +1406,7 @@ const DevStudio: React.FC<DevStudioProps> = ({ onNavigate }) => {
              </div>
            )}
          </div>
+         </div>
 
         {/* Input Area (only for chat mode) */}
         {toolMode === 'chat' && (
@@ -621,9 +1421,15 @@ const DevStudio: React.FC<DevStudioProps> = ({ onNavigate }) => {
                     disabled={chatLoading}
                     className="w-full bg-transparent border-none text-slate-200 placeholder:text-slate-600 focus:ring-0 py-1.5 px-0 font-mono text-sm"
                   />
-                  <button type="submit" disabled={!questionInput.trim() || chatLoading} className="p-1.5 bg-indigo-500/20 hover:bg-indigo-500/30 text-indigo-300 rounded-lg transition-colors disabled:opacity-0 flex-shrink-0">
-                      <MessageSquare className="w-4 h-4" />
-                  </button>
+                  {chatLoading ? (
+                    <button type="button" onClick={chatRequest.cancel} title="Stop generating" className="p-1.5 bg-red-500/20 hover:bg-red-500/30 text-red-300 rounded-lg transition-colors flex-shrink-0">
+                        <Square className="w-4 h-4" />
+                    </button>
+                  ) : (
+                    <button type="submit" disabled={!questionInput.trim()} className="p-1.5 bg-indigo-500/20 hover:bg-indigo-500/30 text-indigo-300 rounded-lg transition-colors disabled:opacity-0 flex-shrink-0">
+                        <MessageSquare className="w-4 h-4" />
+                    </button>
+                  )}
                 </form>
           </div>
         )}
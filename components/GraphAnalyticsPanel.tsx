@@ -0,0 +1,175 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useMemo, useState } from 'react';
+import { ArrowDown, ArrowUp, RefreshCw, Unlink } from 'lucide-react';
+import { GraphAnalytics, NodeMetrics } from '../utils/graphAnalytics';
+
+export type OverlayMode = 'none' | 'fanIn' | 'fanOut' | 'betweenness' | 'cycles' | 'orphans';
+
+interface GraphAnalyticsPanelProps {
+  analytics: GraphAnalytics;
+  overlayMode: OverlayMode;
+  onOverlayModeChange: (mode: OverlayMode) => void;
+  selectedCycle: number | null;
+  onSelectCycle: (index: number | null) => void;
+  onSelectNode: (id: string) => void;
+}
+
+const OVERLAY_MODES: { id: OverlayMode; label: string }[] = [
+  { id: 'none', label: 'None' },
+  { id: 'fanIn', label: 'Fan-in' },
+  { id: 'fanOut', label: 'Fan-out' },
+  { id: 'betweenness', label: 'Betweenness' },
+  { id: 'cycles', label: 'Cycles' },
+  { id: 'orphans', label: 'Orphans' },
+];
+
+type SortKey = 'label' | 'fanIn' | 'fanOut' | 'betweenness' | 'cycle';
+
+const COLUMNS: { key: SortKey; label: string }[] = [
+  { key: 'label', label: 'Node' },
+  { key: 'fanIn', label: 'In' },
+  { key: 'fanOut', label: 'Out' },
+  { key: 'betweenness', label: 'Betw.' },
+  { key: 'cycle', label: 'Cycle' },
+];
+
+/** Rows rendered in the table; the rest are reachable by sorting. */
+const MAX_ROWS = 200;
+
+const GraphAnalyticsPanel: React.FC<GraphAnalyticsPanelProps> = ({
+  analytics, overlayMode, onOverlayModeChange, selectedCycle, onSelectCycle, onSelectNode
+}) => {
+  const [sortKey, setSortKey] = useState<SortKey>('fanIn');
+  const [descending, setDescending] = useState(true);
+
+  const labelOf = useMemo(() => new Map(analytics.metrics.map(m => [m.id, m.path || m.label])), [analytics]);
+  const orphanCount = useMemo(() => analytics.metrics.filter(m => m.orphan).length, [analytics]);
+
+  const rows = useMemo(() => {
+    const value = (m: NodeMetrics) => sortKey === 'label' ? (m.path || m.label) : m[sortKey];
+    return [...analytics.metrics]
+      .sort((a, b) => {
+        const va = value(a);
+        const vb = value(b);
+        const order = typeof va === 'string' ? va.localeCompare(vb as string) : (va as number) - (vb as number);
+        return descending ? -order : order;
+      })
+      .slice(0, MAX_ROWS);
+  }, [analytics, sortKey, descending]);
+
+  const toggleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setDescending(!descending);
+    } else {
+      setSortKey(key);
+      setDescending(key !== 'label');
+    }
+  };
+
+  return (
+    <div className="h-64 border-t border-white/5 bg-slate-950/70 flex flex-col text-xs font-mono shrink-0">
+      {/* Overlay Picker */}
+      <div className="px-3 py-2 border-b border-white/5 flex items-center gap-1 flex-wrap shrink-0">
+        <span className="text-[10px] text-slate-500 uppercase tracking-wider mr-1">Overlay</span>
+        {OVERLAY_MODES.map(mode => (
+          <button
+            key={mode.id}
+            onClick={() => onOverlayModeChange(mode.id)}
+            className={`px-2 py-0.5 rounded text-[10px] uppercase border transition-colors ${
+              overlayMode === mode.id
+                ? 'bg-indigo-500/20 border-indigo-500/40 text-indigo-300'
+                : 'border-white/5 text-slate-500 hover:text-slate-300'
+            }`}
+          >
+            {mode.label}
+          </button>
+        ))}
+        {analytics.sampled && (
+          <span className="ml-auto text-[10px] text-slate-600" title="Betweenness is estimated from a sample of source nodes on large graphs">
+            betweenness sampled
+          </span>
+        )}
+      </div>
+
+      <div className="flex-1 min-h-0 flex">
+        {/* Cycle List */}
+        <div className="w-56 border-r border-white/5 overflow-y-auto custom-scrollbar shrink-0">
+          <div className="px-3 py-2 text-[10px] text-slate-500 uppercase tracking-wider flex items-center gap-1.5 sticky top-0 bg-slate-950/95">
+            <RefreshCw className="w-3 h-3 text-rose-400" /> {analytics.cycles.length} import cycles
+          </div>
+          {analytics.cycles.length === 0 && (
+            <p className="px-3 py-2 text-slate-600">No cycles found.</p>
+          )}
+          {analytics.cycles.map((members, i) => (
+            <button
+              key={i}
+              onClick={() => onSelectCycle(selectedCycle === i ? null : i)}
+              className={`w-full text-left px-3 py-1.5 border-l-2 transition-colors ${
+                selectedCycle === i
+                  ? 'border-rose-400 bg-rose-500/10 text-rose-200'
+                  : 'border-transparent text-slate-400 hover:bg-white/5'
+              }`}
+              title={members.map(id => labelOf.get(id)).join('\n')}
+            >
+              <span className="text-rose-300">#{i + 1}</span> {members.length} files
+              <span className="block truncate text-[10px] text-slate-500">
+                {members.map(id => (labelOf.get(id) || id).split('/').pop()).join(' → ')}
+              </span>
+            </button>
+          ))}
+          <div className="px-3 py-2 text-[10px] text-slate-500 flex items-center gap-1.5 border-t border-white/5">
+            <Unlink className="w-3 h-3 text-amber-400" /> {orphanCount} orphan files
+          </div>
+        </div>
+
+        {/* Metrics Table */}
+        <div className="flex-1 overflow-auto custom-scrollbar">
+          <table className="w-full">
+            <thead className="sticky top-0 bg-slate-950/95">
+              <tr>
+                {COLUMNS.map(column => (
+                  <th
+                    key={column.key}
+                    onClick={() => toggleSort(column.key)}
+                    className={`px-2 py-2 text-[10px] uppercase tracking-wider font-medium cursor-pointer select-none whitespace-nowrap ${
+                      column.key === 'label' ? 'text-left' : 'text-right'
+                    } ${sortKey === column.key ? 'text-indigo-300' : 'text-slate-500 hover:text-slate-300'}`}
+                  >
+                    {column.label}
+                    {sortKey === column.key && (descending
+                      ? <ArrowDown className="w-3 h-3 inline ml-0.5" />
+                      : <ArrowUp className="w-3 h-3 inline ml-0.5" />)}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(m => (
+                <tr
+                  key={m.id}
+                  onClick={() => onSelectNode(m.id)}
+                  className="border-t border-white/5 hover:bg-white/5 cursor-pointer text-slate-300"
+                >
+                  <td className="px-2 py-1 max-w-[220px] truncate" title={m.path || m.label}>
+                    {m.orphan && <Unlink className="w-3 h-3 inline mr-1 text-amber-400" />}
+                    {m.path || m.label}
+                  </td>
+                  <td className="px-2 py-1 text-right">{m.fanIn}</td>
+                  <td className="px-2 py-1 text-right">{m.fanOut}</td>
+                  <td className="px-2 py-1 text-right">{m.betweenness.toFixed(2)}</td>
+                  <td className="px-2 py-1 text-right text-rose-300">{m.cycle >= 0 ? `#${m.cycle + 1}` : ''}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GraphAnalyticsPanel;
@@ -0,0 +1,204 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { Search, Filter, Crosshair, Route, X, ArrowRight } from 'lucide-react';
+import { D3Node } from '../types';
+import { GraphFilter, GraphPath, NodeMatch, isFilterActive } from '../utils/graphSearch';
+
+interface GraphToolbarProps {
+  query: string;
+  onQueryChange: (query: string) => void;
+  matches: NodeMatch[];
+  onSelectMatch: (node: D3Node) => void;
+  filter: GraphFilter;
+  onFilterChange: (filter: GraphFilter) => void;
+  /** Extensions offered as filter chips, most common first. */
+  extensions: { extension: string; count: number }[];
+  /** Node the neighborhood focus is centered on, if focus is on. */
+  focusNode: D3Node | null;
+  focusHops: number;
+  /** Starts focus on the selected node, changes the radius, or turns focus off with 0. */
+  onFocusChange: (hops: number) => void;
+  selectedNode: D3Node | null;
+  pathStart: D3Node | null;
+  pathEnd: D3Node | null;
+  path: GraphPath | null;
+  /** Labels for the ids in `path`. */
+  labelOf: (id: string) => string;
+  onStartPath: () => void;
+  onClearPath: () => void;
+}
+
+const FOCUS_HOPS = [1, 2, 3];
+const EXTENSION_CHIPS = 8;
+
+const nodeName = (node: D3Node) => node.path || node.label;
+
+const chipClass = (active: boolean) =>
+  `px-2 py-0.5 rounded text-[10px] border transition-colors ${
+    active ? 'bg-indigo-500/20 border-indigo-500/40 text-indigo-300' : 'border-white/5 text-slate-500 hover:text-slate-300'
+  }`;
+
+const GraphToolbar: React.FC<GraphToolbarProps> = ({
+  query, onQueryChange, matches, onSelectMatch, filter, onFilterChange, extensions,
+  focusNode, focusHops, onFocusChange, selectedNode, pathStart, pathEnd, path, labelOf, onStartPath, onClearPath
+}) => {
+  const [showFilters, setShowFilters] = useState(false);
+  const [resultsOpen, setResultsOpen] = useState(false);
+  const selectedExtensions = filter.extensions || [];
+
+  const toggleExtension = (extension: string) => {
+    const next = selectedExtensions.includes(extension)
+      ? selectedExtensions.filter(e => e !== extension)
+      : [...selectedExtensions, extension];
+    onFilterChange({ ...filter, extensions: next });
+  };
+
+  const selectMatch = (node: D3Node) => {
+    onSelectMatch(node);
+    setResultsOpen(false);
+  };
+
+  return (
+    <div className="px-3 py-2 border-b border-white/5 bg-slate-950/30 flex flex-col gap-2 text-xs font-mono shrink-0">
+      <div className="flex items-center gap-2 flex-wrap">
+        {/* Search */}
+        <div className="relative flex-1 min-w-[180px]">
+          <Search className="w-3 h-3 text-slate-500 absolute left-2 top-1/2 -translate-y-1/2" />
+          <input
+            value={query}
+            onChange={e => { onQueryChange(e.target.value); setResultsOpen(true); }}
+            onFocus={() => setResultsOpen(true)}
+            onBlur={() => setTimeout(() => setResultsOpen(false), 150)}
+            onKeyDown={e => {
+              if (e.key === 'Enter' && matches.length > 0) selectMatch(matches[0].node);
+              if (e.key === 'Escape') onQueryChange('');
+            }}
+            placeholder="Find a file..."
+            className="w-full bg-slate-900/80 border border-white/10 rounded-md pl-7 pr-7 py-1 text-slate-200 placeholder-slate-600 focus:outline-none focus:border-indigo-500/50"
+          />
+          {query && (
+            <button onClick={() => onQueryChange('')} className="absolute right-2 top-1/2 -translate-y-1/2 text-slate-500 hover:text-slate-300" title="Clear search">
+              <X className="w-3 h-3" />
+            </button>
+          )}
+          {resultsOpen && query.trim() && (
+            <div className="absolute left-0 right-0 top-full mt-1 z-20 max-h-64 overflow-y-auto custom-scrollbar bg-slate-900 border border-white/10 rounded-lg shadow-xl py-1">
+              {matches.length === 0 && <p className="px-3 py-1.5 text-slate-600">No matching nodes.</p>}
+              {matches.map(({ node }) => (
+                <button
+                  key={node.id}
+                  onMouseDown={e => e.preventDefault()}
+                  onClick={() => selectMatch(node)}
+                  className="w-full text-left px-3 py-1.5 text-slate-300 hover:bg-white/5 truncate"
+                  title={nodeName(node)}
+                >
+                  {nodeName(node)}
+                  {node.type === 'external' && <span className="ml-2 text-[10px] text-slate-600">package</span>}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <button
+          onClick={() => setShowFilters(!showFilters)}
+          className={`px-2 py-1 rounded-md border flex items-center gap-1.5 transition-colors ${
+            showFilters || isFilterActive(filter) ? 'bg-indigo-500/20 border-indigo-500/40 text-indigo-300' : 'bg-white/5 border-transparent text-slate-500 hover:text-slate-300'
+          }`}
+          title="Filter by extension, directory or glob"
+        >
+          <Filter className="w-3 h-3" /> Filter
+        </button>
+
+        {/* Neighborhood Focus */}
+        <div className="flex items-center gap-1" title="Show only nodes within N links of the selected node">
+          <Crosshair className={`w-3 h-3 ${focusNode ? 'text-emerald-400' : 'text-slate-500'}`} />
+          {FOCUS_HOPS.map(hops => (
+            <button
+              key={hops}
+              disabled={!focusNode && !selectedNode}
+              onClick={() => onFocusChange(focusNode && focusHops === hops ? 0 : hops)}
+              className={`${chipClass(!!focusNode && focusHops === hops)} disabled:opacity-40`}
+            >
+              {hops}
+            </button>
+          ))}
+        </div>
+
+        {/* Path Finding */}
+        <button
+          onClick={pathStart ? onClearPath : onStartPath}
+          disabled={!pathStart && !selectedNode}
+          className={`px-2 py-1 rounded-md border flex items-center gap-1.5 transition-colors disabled:opacity-40 ${
+            pathStart ? 'bg-amber-500/20 border-amber-500/40 text-amber-300' : 'bg-white/5 border-transparent text-slate-500 hover:text-slate-300'
+          }`}
+          title={pathStart ? 'Clear the path' : 'Find how the selected node reaches another one'}
+        >
+          <Route className="w-3 h-3" /> {pathStart ? 'Clear path' : 'Path from here'}
+        </button>
+      </div>
+
+      {showFilters && (
+        <div className="flex items-center gap-2 flex-wrap">
+          {extensions.slice(0, EXTENSION_CHIPS).map(({ extension, count }) => (
+            <button key={extension} onClick={() => toggleExtension(extension)} className={chipClass(selectedExtensions.includes(extension))}>
+              .{extension} <span className="text-slate-600">{count}</span>
+            </button>
+          ))}
+          <input
+            value={filter.directory || ''}
+            onChange={e => onFilterChange({ ...filter, directory: e.target.value })}
+            placeholder="directory, e.g. src/api"
+            className="w-36 bg-slate-900/80 border border-white/10 rounded-md px-2 py-0.5 text-slate-200 placeholder-slate-600 focus:outline-none focus:border-indigo-500/50"
+          />
+          <input
+            value={filter.glob || ''}
+            onChange={e => onFilterChange({ ...filter, glob: e.target.value })}
+            placeholder="glob, e.g. !**/*.test.ts"
+            className="w-40 bg-slate-900/80 border border-white/10 rounded-md px-2 py-0.5 text-slate-200 placeholder-slate-600 focus:outline-none focus:border-indigo-500/50"
+          />
+          {isFilterActive(filter) && (
+            <button onClick={() => onFilterChange({})} className="text-[10px] text-slate-500 hover:text-slate-300 uppercase">
+              Reset
+            </button>
+          )}
+        </div>
+      )}
+
+      {focusNode && (
+        <div className="flex items-center gap-2 text-[10px] text-emerald-300/80">
+          <Crosshair className="w-3 h-3" />
+          <span className="truncate">{focusHops}-hop neighborhood of {nodeName(focusNode)}</span>
+          <button onClick={() => onFocusChange(0)} className="text-slate-500 hover:text-slate-300" title="Show the whole graph">
+            <X className="w-3 h-3" />
+          </button>
+        </div>
+      )}
+
+      {pathStart && (
+        <div className="flex items-center gap-1.5 text-[10px] text-amber-300/80 min-w-0">
+          <Route className="w-3 h-3 shrink-0" />
+          {!pathEnd && <span className="truncate">From {nodeName(pathStart)}: click the node to reach</span>}
+          {pathEnd && !path && <span className="truncate">No route from {nodeName(pathStart)} to {nodeName(pathEnd)}</span>}
+          {pathEnd && path && (
+            <span className="truncate" title={path.nodes.map(labelOf).join('\n')}>
+              {path.nodes.length - 1} step{path.nodes.length === 2 ? '' : 's'}{path.directed ? '' : ' (ignoring import direction)'}:{' '}
+              {path.nodes.map((id, i) => (
+                <React.Fragment key={id}>
+                  {i > 0 && <ArrowRight className="w-2.5 h-2.5 inline mx-0.5" />}
+                  {labelOf(id)}
+                </React.Fragment>
+              ))}
+            </span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GraphToolbar;
@@ -82,6 +82,7 @@ export const HistoryGrid: React.FC<HistoryGridProps> = ({ items, onSelect, type
                         <button 
                             key={item.id}
                             onClick={() => onSelect(item)}
+                            title={item.promptVersion ? `Prompt: ${item.promptVersion}` : undefined}
                             className={`group bg-slate-900/50 border border-white/5 ${borderHover} rounded-xl overflow-hidden text-left transition-all ${shadowClass}`}
                         >
                             <div className="aspect-video relative overflow-hidden bg-slate-950">
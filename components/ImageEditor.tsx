@@ -5,6 +5,7 @@
 */
 
 import React, { useState, useRef, useCallback, useEffect } from 'react';
+import { logError, interpretError } from '../services/errorService';
 import { editImageWithGemini, generateCodeFromImage, scanComponentLibrary, generateResponsiveVariants, generateDashboard } from '../services/geminiService';
 import { ViewMode } from '../types';
 import { Upload, Wand2, Loader2, Download, ImageIcon, Palette, Terminal, Sparkles, Code, Copy, Undo, Redo, LayoutGrid, Smartphone, LayoutDashboard, FileCode, FileText } from 'lucide-react';
@@ -145,7 +146,9 @@ const ImageEditor: React.FC<ImageEditorProps> = ({ initialState, onNavigate }) =
             window.location.reload();
         }
       } else {
-        alert(error.message || 'An error occurred while processing.');
+        logError(error, 'ImageEditor');
+        const interpreted = interpretError(error);
+        alert(`${interpreted.title}: ${interpreted.message}`);
       }
     } finally {
       setProcessing(false);
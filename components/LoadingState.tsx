@@ -4,14 +4,16 @@
 */
 
 import React, { useState, useEffect } from 'react';
-import { Cpu, FileText, Zap, Activity, Server, Shield, Database, Code2 } from 'lucide-react';
+import { Cpu, FileText, Zap, Activity, Server, Shield, Database, Code2, XCircle } from 'lucide-react';
 
 interface LoadingStateProps {
   message: string;
   type: 'repo' | 'article';
+  /** Shows a cancel button that aborts the running generation. */
+  onCancel?: () => void;
 }
 
-export const LoadingState: React.FC<LoadingStateProps> = ({ message, type }) => {
+export const LoadingState: React.FC<LoadingStateProps> = ({ message, type, onCancel }) => {
   const [logs, setLogs] = useState<string[]>([]);
   
   // Theme configuration based on type
@@ -156,6 +158,15 @@ export const LoadingState: React.FC<LoadingStateProps> = ({ message, type }) =>
         {/* Scanline Overlay */}
         <div className="absolute inset-0 bg-[linear-gradient(rgba(18,16,16,0)_50%,rgba(0,0,0,0.25)_50%),linear-gradient(90deg,rgba(255,0,0,0.06),rgba(0,255,0,0.02),rgba(0,0,255,0.06))] z-20 bg-[length:100%_2px,3px_100%] pointer-events-none opacity-20"></div>
       </div>
+
+      {onCancel && (
+        <button
+          onClick={onCancel}
+          className="mt-6 px-4 py-2 bg-red-500/10 hover:bg-red-500/20 border border-red-500/30 rounded-lg text-red-300 text-xs font-mono font-bold uppercase tracking-wider transition-colors flex items-center gap-2"
+        >
+          <XCircle className="w-4 h-4" /> Cancel
+        </button>
+      )}
     </div>
   );
 };
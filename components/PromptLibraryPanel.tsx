@@ -0,0 +1,168 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useMemo } from 'react';
+import { X, FileText, RotateCcw, Save, AlertTriangle, Loader2 } from 'lucide-react';
+import {
+  PROMPT_IDS,
+  PromptId,
+  PromptCategory,
+  getPromptTemplate,
+  getPromptOverride,
+  getPromptVersion,
+  savePromptOverride,
+  resetPromptOverride,
+  findUnknownPlaceholders,
+} from '../services/promptRegistry';
+
+interface PromptLibraryPanelProps {
+  onClose: () => void;
+}
+
+const CATEGORY_ORDER: PromptCategory[] = ['GitFlow', 'DevStudio', 'SiteSketch', 'RealityEngine', 'OmniGen', 'DashboardGen'];
+
+const PromptLibraryPanel: React.FC<PromptLibraryPanelProps> = ({ onClose }) => {
+  const [selectedId, setSelectedId] = useState<PromptId>(PROMPT_IDS[0]);
+  const [draft, setDraft] = useState(() => getPromptOverride(PROMPT_IDS[0])?.template ?? getPromptTemplate(PROMPT_IDS[0]).template);
+  const [saving, setSaving] = useState(false);
+  // Bumped after saves so version labels re-read the registry
+  const [, setRevision] = useState(0);
+
+  const grouped = useMemo(() => CATEGORY_ORDER.map(category => ({
+    category,
+    ids: PROMPT_IDS.filter(id => getPromptTemplate(id).category === category),
+  })), []);
+
+  const selected = getPromptTemplate(selectedId);
+  const override = getPromptOverride(selectedId);
+  const savedTemplate = override?.template ?? selected.template;
+  const isDirty = draft !== savedTemplate;
+  const unknown = findUnknownPlaceholders(selectedId, draft);
+
+  const selectPrompt = (id: PromptId) => {
+    if (isDirty && !window.confirm('Discard unsaved changes to this prompt?')) return;
+    setSelectedId(id);
+    setDraft(getPromptOverride(id)?.template ?? getPromptTemplate(id).template);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      if (draft === selected.template) {
+        await resetPromptOverride(selectedId);
+      } else {
+        await savePromptOverride(selectedId, draft);
+      }
+      setRevision(r => r + 1);
+    } catch (e) {
+      console.error('Failed to save prompt override:', e);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReset = async () => {
+    if (!window.confirm('Restore the built-in wording for this prompt?')) return;
+    await resetPromptOverride(selectedId);
+    setDraft(selected.template);
+    setRevision(r => r + 1);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-slate-950/80 backdrop-blur-sm p-4" onClick={onClose}>
+      <div className="w-full max-w-5xl h-[85vh] flex flex-col glass-panel rounded-3xl overflow-hidden animate-in fade-in zoom-in-95 duration-200" onClick={e => e.stopPropagation()}>
+        <div className="px-6 py-4 bg-slate-900/50 border-b border-white/10 flex items-center justify-between shrink-0">
+          <div className="flex items-center gap-3">
+            <FileText className="w-5 h-5 text-violet-400" />
+            <h2 className="text-white font-bold font-mono text-sm uppercase tracking-widest">Prompt_Templates</h2>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-xl transition-colors text-slate-400 hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          {/* Prompt List */}
+          <div className="w-64 shrink-0 border-r border-white/5 overflow-y-auto p-3 space-y-4">
+            {grouped.map(({ category, ids }) => (
+              <div key={category}>
+                <p className="px-2 mb-1 text-[10px] text-slate-500 font-mono uppercase tracking-wider">{category}</p>
+                {ids.map(id => (
+                  <button
+                    key={id}
+                    onClick={() => selectPrompt(id)}
+                    className={`w-full text-left px-2 py-1.5 rounded-lg text-xs flex items-center justify-between gap-2 transition-colors ${
+                      id === selectedId ? 'bg-violet-500/15 text-white' : 'text-slate-400 hover:text-white hover:bg-white/5'
+                    }`}
+                  >
+                    <span className="truncate">{getPromptTemplate(id).title}</span>
+                    {getPromptOverride(id) && (
+                      <span className="shrink-0 text-[9px] font-mono text-amber-400 uppercase">custom</span>
+                    )}
+                  </button>
+                ))}
+              </div>
+            ))}
+          </div>
+
+          {/* Editor */}
+          <div className="flex-1 flex flex-col min-w-0 p-5 gap-3">
+            <div className="flex items-start justify-between gap-4">
+              <div className="min-w-0">
+                <p className="text-sm text-white font-medium">{selected.title}</p>
+                <p className="text-[11px] text-slate-500 font-mono">{getPromptVersion(selectedId)}</p>
+              </div>
+              {override && override.baseVersion !== selected.version && (
+                <p className="text-[11px] text-amber-400 flex items-center gap-1 shrink-0">
+                  <AlertTriangle className="w-3 h-3" /> Built-in prompt changed since this override (v{override.baseVersion} → v{selected.version})
+                </p>
+              )}
+            </div>
+
+            <div className="flex flex-wrap gap-1.5">
+              {selected.variables.length === 0 ? (
+                <span className="text-[11px] text-slate-500 font-mono">No variables</span>
+              ) : selected.variables.map(name => (
+                <code key={name} className="px-1.5 py-0.5 rounded bg-slate-900/70 border border-white/10 text-[11px] text-emerald-300">{`{{${name}}}`}</code>
+              ))}
+            </div>
+
+            <textarea
+              value={draft}
+              onChange={e => setDraft(e.target.value)}
+              spellCheck={false}
+              className="flex-1 min-h-0 w-full resize-none bg-slate-950/60 border border-white/10 rounded-xl p-3 text-xs font-mono text-slate-200 leading-relaxed focus:outline-none focus:ring-1 ring-violet-500/50"
+            />
+
+            {unknown.length > 0 && (
+              <p className="text-xs text-amber-400 flex items-center gap-1">
+                <AlertTriangle className="w-3 h-3" /> Unknown placeholders will be sent as-is: {unknown.map(n => `{{${n}}}`).join(', ')}
+              </p>
+            )}
+          </div>
+        </div>
+
+        <div className="px-6 py-4 bg-white/5 border-t border-white/5 flex items-center justify-between shrink-0">
+          <button
+            onClick={handleReset}
+            disabled={!override}
+            className="flex items-center gap-2 px-3 py-2 text-xs font-mono text-slate-400 hover:text-white transition-colors disabled:opacity-40"
+          >
+            <RotateCcw className="w-4 h-4" /> Restore built-in
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={saving || !isDirty}
+            className="flex items-center gap-2 px-4 py-2 rounded-xl bg-violet-500 text-white text-sm font-medium hover:bg-violet-600 transition-all disabled:opacity-50"
+          >
+            {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />} Save override
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PromptLibraryPanel;
@@ -3,18 +3,26 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React, { useState } from 'react';
-import { fetchRepoFileTree } from '../services/githubService';
+import React, { useRef, useState } from 'react';
+import { TreeTruncationReport, RepoRefs, RepoSpec } from '../services/githubService';
+import { getRepoSource, parseSourceInput, formatSourceInput, resolveSourceSpec, REPO_HOSTS } from '../services/repoSource';
 import { generateInfographic } from '../services/geminiService';
-import { RepoFileTree, ViewMode, RepoHistoryItem } from '../types';
-import { AlertCircle, Loader2, Layers, Box, Download, Sparkles, Command, Palette, Globe, Clock, Maximize, KeyRound, Code2, Package, GitBranch } from 'lucide-react';
+import { LocalRepository, supportsDirectoryPicker, pickLocalDirectory, loadFromFileList, loadFromDroppedEntry, loadFromZip } from '../services/localSource';
+import { RepoFileTree, ViewMode, RepoHistoryItem, RepoHost } from '../types';
+import { AlertCircle, Loader2, Layers, Box, Download, Sparkles, Command, Palette, Globe, Clock, Maximize, KeyRound, Code2, Package, GitBranch, Server, XCircle, RefreshCw, AlertTriangle, FolderOpen, FileArchive, HardDrive, GitCompare } from 'lucide-react';
 import { LoadingState } from './LoadingState';
 import ImageViewer from './ImageViewer';
 import { useProjectContext } from '../contexts/ProjectContext';
 import { buildGraphFromFileTree } from '../utils/graphBuilder';
+import { extractImportGraph } from '../services/importGraphService';
+import { registerLocalReader } from '../services/fileContentService';
+import { isAbortError } from '../services/aiProvider';
+import { getPromptVersion } from '../services/promptRegistry';
+import { useAbortController } from '../hooks/useAbortController';
 import DependencyGraph from './DependencyGraph';
+import ArchitectureDiff from './ArchitectureDiff';
 
-type RepoTab = 'flow' | 'dependencies';
+type RepoTab = 'flow' | 'dependencies' | 'diff';
 
 interface RepoAnalyzerProps {
   onNavigate: (mode: ViewMode, data?: any) => void;
@@ -46,15 +54,28 @@ const LANGUAGES = [
   { label: "Chinese (China)", value: "Chinese" },
 ];
 
+const INPUT_PLACEHOLDERS: Record<RepoHost, string> = {
+  github: 'owner/repository@ref',
+  gitlab: 'group/project@ref',
+  bitbucket: 'workspace/repository@ref',
+  gitea: 'owner/repository@ref',
+};
+
 const RepoAnalyzer: React.FC<RepoAnalyzerProps> = ({ onNavigate }) => {
   const { repoHistory: history, addRepoHistory: onAddToHistory, setCurrentProject } = useProjectContext();
   const [repoInput, setRepoInput] = useState('');
+  // Host for `owner/repo` shorthands; pasted URLs carry their own host
+  const [selectedHost, setSelectedHost] = useState<RepoHost>('github');
   const [selectedStyle, setSelectedStyle] = useState(FLOW_STYLES[0]);
   const [selectedLanguage, setSelectedLanguage] = useState(LANGUAGES[0].value);
   const [customStyle, setCustomStyle] = useState('');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [loadingStage, setLoadingStage] = useState<string>('');
+  const generation = useAbortController();
+  const importScan = useAbortController();
+  // Progress of the import scan behind "Explore in DevStudio"
+  const [importProgress, setImportProgress] = useState<{ done: number; total: number } | null>(null);
   
   // Tab State
   const [activeTab, setActiveTab] = useState<RepoTab>('flow');
@@ -66,37 +87,68 @@ const RepoAnalyzer: React.FC<RepoAnalyzerProps> = ({ onNavigate }) => {
   const [currentFileTree, setCurrentFileTree] = useState<RepoFileTree[] | null>(null);
   const [currentRepoName, setCurrentRepoName] = useState<string>('');
   const [currentRepoOwner, setCurrentRepoOwner] = useState<string>('');
+  const [currentHost, setCurrentHost] = useState<RepoHost>('github');
+  const [currentRef, setCurrentRef] = useState<string>('');
+  const [currentSubdir, setCurrentSubdir] = useState<string | undefined>(undefined);
+  const [treeTruncation, setTreeTruncation] = useState<TreeTruncationReport | null>(null);
+  // Set when the current analysis came from a local folder or zip instead of GitHub
+  const [localRepo, setLocalRepo] = useState<LocalRepository | null>(null);
+  const [dragActive, setDragActive] = useState(false);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const zipInputRef = useRef<HTMLInputElement>(null);
+
+  // Branches and tags of the repo typed in the input, for the ref picker
+  const [refs, setRefs] = useState<(RepoRefs & { repoKey: string }) | null>(null);
+  const [refsLoading, setRefsLoading] = useState(false);
   
   // Viewer State
   const [fullScreenImage, setFullScreenImage] = useState<{src: string, alt: string} | null>(null);
 
-  const parseRepoInput = (input: string): { owner: string, repo: string } | null => {
-    const cleanInput = input.trim().replace(/\/$/, '');
+  const parsedInput = parseSourceInput(repoInput, selectedHost);
+  const inputRepoKey = parsedInput ? `${parsedInput.host}:${parsedInput.owner}/${parsedInput.repo}` : '';
+
+  const loadRefs = async () => {
+    if (!parsedInput || refs?.repoKey === inputRepoKey || refsLoading) return;
+    setRefsLoading(true);
     try {
-      const url = new URL(cleanInput);
-      if (url.hostname === 'github.com') {
-        const parts = url.pathname.split('/').filter(Boolean);
-        if (parts.length >= 2) return { owner: parts[0], repo: parts[1] };
-      }
-    } catch (e) { }
-    const parts = cleanInput.split('/');
-    if (parts.length === 2 && parts[0] && parts[1]) return { owner: parts[0], repo: parts[1] };
-    return null;
+      const result = await getRepoSource(parsedInput.host).listRefs(parsedInput.owner, parsedInput.repo);
+      setRefs({ ...result, repoKey: inputRepoKey });
+    } catch (err: any) {
+      console.warn('Failed to list refs:', err);
+      setRefs(null);
+    } finally {
+      setRefsLoading(false);
+    }
   };
 
-  const addToHistory = (repoName: string, imageData: string, is3D: boolean, style: string) => {
+  // Rewrites the input to point at another ref, keeping any subdirectory
+  const selectRef = (ref: string) => {
+    if (!parsedInput) return;
+    const fallbackRef = parsedInput.subdir ? refs?.defaultBranch || 'HEAD' : undefined;
+    setRepoInput(formatSourceInput({ ...parsedInput, ref: ref || fallbackRef }, selectedHost));
+  };
+
+  const addToHistory = (source: RepoSpec, imageData: string, is3D: boolean, style: string) => {
      const newItem: RepoHistoryItem = {
          id: Date.now().toString(),
-         repoName,
+         repoName: source.repo,
          imageData,
          is3D,
          style,
-         date: new Date()
+         date: new Date(),
+         promptVersion: getPromptVersion('repo-infographic'),
+         host: source.owner ? source.host : undefined,
+         owner: source.owner || undefined,
+         ref: source.ref,
+         subdir: source.subdir,
      };
      onAddToHistory(newItem);
   };
 
+  const currentSource = (): RepoSpec => ({ host: currentHost, owner: currentRepoOwner, repo: currentRepoName, ref: currentRef, subdir: currentSubdir });
+
   const handleApiError = (err: any) => {
+      if (isAbortError(err)) return;
       if (err.message && err.message.includes("Requested entity was not found")) {
           // This specific error often implies a Free Tier key is trying to access a Paid Model.
           // We trigger the window reload to re-open the key selection.
@@ -117,19 +169,37 @@ const RepoAnalyzer: React.FC<RepoAnalyzerProps> = ({ onNavigate }) => {
     setInfographicData(null);
     setInfographic3DData(null);
     setCurrentFileTree(null);
+    setTreeTruncation(null);
+    setLocalRepo(null);
 
-    const repoDetails = parseRepoInput(repoInput);
-    if (!repoDetails) {
-      setError('Invalid format. Use "owner/repo" or a full GitHub URL.');
+    const spec = parseSourceInput(repoInput, selectedHost);
+    if (!spec) {
+      setError('Invalid format. Use "owner/repo", "owner/repo@ref" or a full GitHub, GitLab, Bitbucket or Gitea URL.');
       return;
     }
+    const source = getRepoSource(spec.host);
 
     setLoading(true);
-    setCurrentRepoName(repoDetails.repo);
-    setCurrentRepoOwner(repoDetails.owner);
+    setCurrentHost(spec.host);
+    setCurrentRepoName(spec.repo);
+    setCurrentRepoOwner(spec.owner);
+    setCurrentRef(spec.ref || '');
+    setCurrentSubdir(spec.subdir);
+    const signal = generation.begin();
     try {
-      setLoadingStage('CONNECTING TO GITHUB');
-      const fileTree = await fetchRepoFileTree(repoDetails.owner, repoDetails.repo);
+      setLoadingStage(`CONNECTING TO ${source.label.toUpperCase()}`);
+      const repoDetails = await resolveSourceSpec(spec);
+      setCurrentRef(repoDetails.ref);
+      setCurrentSubdir(repoDetails.subdir);
+      const { files: fileTree, truncation } = await source.fetchTree(repoDetails.owner, repoDetails.repo, repoDetails.ref, repoDetails.subdir, {
+        signal,
+        // GitHub reports a folder crawl; paginated hosts report pages
+        onProgress: ({ scannedDirs, queuedDirs, files }) =>
+          setLoadingStage(spec.host === 'github'
+            ? `LARGE REPO: CRAWLING FOLDERS ${scannedDirs}/${scannedDirs + queuedDirs} (${files} FILES)`
+            : `LISTING FILES: PAGE ${scannedDirs} (${files} FILES)`),
+      });
+      setTreeTruncation(truncation || null);
 
       if (fileTree.length === 0) throw new Error('No relevant code files found in this repository.');
       setCurrentFileTree(fileTree);
@@ -138,11 +208,11 @@ const RepoAnalyzer: React.FC<RepoAnalyzerProps> = ({ onNavigate }) => {
       
       const styleToUse = selectedStyle === 'Custom' ? customStyle : selectedStyle;
 
-      const infographicBase64 = await generateInfographic(repoDetails.repo, fileTree, styleToUse, false, selectedLanguage);
+      const infographicBase64 = await generateInfographic(repoDetails.repo, fileTree, styleToUse, false, selectedLanguage, { signal });
       
       if (infographicBase64) {
         setInfographicData(infographicBase64);
-        addToHistory(repoDetails.repo, infographicBase64, false, styleToUse);
+        addToHistory(repoDetails, infographicBase64, false, styleToUse);
       } else {
           throw new Error("Failed to generate visual.");
       }
@@ -155,16 +225,160 @@ const RepoAnalyzer: React.FC<RepoAnalyzerProps> = ({ onNavigate }) => {
     }
   };
 
-  const handleGenerate3D = async () => {
+  /**
+   * Runs the same analysis as handleAnalyze on a folder or zip read from disk.
+   * Nothing is fetched from GitHub; only the infographic itself needs the AI provider.
+   */
+  const analyzeLocal = async (load: () => Promise<LocalRepository>) => {
+    setError(null);
+    setInfographicData(null);
+    setInfographic3DData(null);
+    setCurrentFileTree(null);
+    setTreeTruncation(null);
+
+    setLoading(true);
+    setLoadingStage('READING LOCAL FILES');
+    const signal = generation.begin();
+    try {
+      const local = await load();
+      setLocalRepo(local);
+      setCurrentRepoName(local.name);
+      setCurrentRepoOwner('');
+      setCurrentRef('');
+      setCurrentSubdir(undefined);
+      setCurrentFileTree(local.fileTree);
+
+      setLoadingStage('ANALYZING STRUCTURE & GENERATING');
+      const styleToUse = selectedStyle === 'Custom' ? customStyle : selectedStyle;
+      const infographicBase64 = await generateInfographic(local.name, local.fileTree, styleToUse, false, selectedLanguage, { signal });
+
+      if (infographicBase64) {
+        setInfographicData(infographicBase64);
+        addToHistory({ owner: '', repo: local.name }, infographicBase64, false, styleToUse);
+      } else {
+          throw new Error("Failed to generate visual.");
+      }
+    } catch (err: any) {
+      // Dismissing the folder picker is not an error
+      if (err?.name === 'AbortError') return;
+      handleApiError(err);
+    } finally {
+      setLoading(false);
+      setLoadingStage('');
+    }
+  };
+
+  const handleChooseFolder = () => {
+    if (supportsDirectoryPicker()) {
+      analyzeLocal(() => pickLocalDirectory());
+    } else {
+      folderInputRef.current?.click();
+    }
+  };
+
+  const handleFolderInput = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = e.target.files ? Array.from<File>(e.target.files) : [];
+    e.target.value = '';
+    if (files.length > 0) analyzeLocal(() => loadFromFileList(files));
+  };
+
+  const handleZipInput = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) analyzeLocal(() => loadFromZip(file));
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setDragActive(false);
+    if (loading) return;
+    const item = e.dataTransfer.items?.[0];
+    const entry = item?.webkitGetAsEntry?.();
+    if (entry?.isDirectory) {
+      analyzeLocal(() => loadFromDroppedEntry(entry as FileSystemDirectoryEntry));
+      return;
+    }
+    const file = e.dataTransfer.files?.[0];
+    if (file && /\.zip$/i.test(file.name)) {
+      analyzeLocal(() => loadFromZip(file));
+    } else if (file) {
+      setError('Drop a folder or a .zip archive to analyze local code.');
+    }
+  };
+
+  // Re-renders the 2D diagram for the loaded tree, skipping any cached image
+  const handleRegenerate = async () => {
+    if (!currentFileTree || !currentRepoName) return;
+    setError(null);
+    setLoading(true);
+    setLoadingStage('REGENERATING (SKIPPING CACHE)');
+    const signal = generation.begin();
+    try {
+      const styleToUse = selectedStyle === 'Custom' ? customStyle : selectedStyle;
+      const data = await generateInfographic(currentRepoName, currentFileTree, styleToUse, false, selectedLanguage, { signal, forceRefresh: true });
+      if (data) {
+        setInfographicData(data);
+        addToHistory(currentSource(), data, false, styleToUse);
+      }
+    } catch (err: any) {
+      handleApiError(err);
+    } finally {
+      setLoading(false);
+      setLoadingStage('');
+    }
+  };
+
+  // Opens DevStudio with a graph of the imports between files. Trees without
+  // parseable imports fall back to the folder hierarchy.
+  const exploreInDevStudio = async () => {
+    if (!currentFileTree || !currentRepoName) return;
+    const signal = importScan.begin();
+    const source = getRepoSource(currentHost);
+    const readFile = localRepo?.readFile
+      ?? ((path: string) => source.fetchFileContent(currentRepoOwner, currentRepoName, path, currentRef || undefined));
+
+    let graphData = buildGraphFromFileTree(currentRepoName, currentFileTree);
+    setImportProgress({ done: 0, total: 0 });
+    try {
+      const { graph } = await extractImportGraph(currentFileTree, readFile, {
+        signal,
+        onProgress: (done, total) => setImportProgress({ done, total }),
+      });
+      if (graph.links.length > 0) graphData = graph;
+    } catch (err) {
+      if (isAbortError(err)) return;
+      console.warn('Import extraction failed; using the folder graph.', err);
+    } finally {
+      setImportProgress(null);
+    }
+
+    const project = {
+      repoName: currentRepoName,
+      fileTree: currentFileTree,
+      graphData,
+      host: currentRepoOwner ? currentHost : undefined,
+      owner: currentRepoOwner,
+      ref: currentRef,
+      subdir: currentSubdir
+    };
+    // Dev Studio reads file contents through this; remote projects use their host
+    if (localRepo) registerLocalReader(project, localRepo.readFile);
+    setCurrentProject(project);
+    onNavigate(ViewMode.DEV_STUDIO);
+  };
+
+  const handleGenerate3D = async (forceRefresh: boolean = false) => {
     if (!currentFileTree || !currentRepoName) return;
     setGenerating3D(true);
+    setInfographic3DData(null);
+    const signal = generation.begin();
     try {
       // Pass the same selected style to the 3D generator
       const styleToUse = selectedStyle === 'Custom' ? customStyle : selectedStyle;
-      const data = await generateInfographic(currentRepoName, currentFileTree, styleToUse, true, selectedLanguage);
+      const data = await generateInfographic(currentRepoName, currentFileTree, styleToUse, true, selectedLanguage, { signal, forceRefresh });
       if (data) {
           setInfographic3DData(data);
-          addToHistory(currentRepoName, data, true, styleToUse);
+          addToHistory(currentSource(), data, true, styleToUse);
       }
     } catch (err: any) {
       handleApiError(err);
@@ -176,6 +390,16 @@ const RepoAnalyzer: React.FC<RepoAnalyzerProps> = ({ onNavigate }) => {
   const loadFromHistory = (item: RepoHistoryItem) => {
       window.scrollTo({ top: 0, behavior: 'smooth' });
       setCurrentRepoName(item.repoName);
+      if (item.owner) {
+          const host = item.host || 'github';
+          setLocalRepo(null);
+          setSelectedHost(host);
+          setCurrentHost(host);
+          setCurrentRepoOwner(item.owner);
+          setCurrentRef(item.ref || '');
+          setCurrentSubdir(item.subdir);
+          setRepoInput(formatSourceInput({ host, owner: item.owner, repo: item.repoName, ref: item.ref, subdir: item.subdir }, host));
+      }
       // Since history items don't store the full file tree (too large), we just show the image.
       // If user wants to generate 3D from history of a 2D, they'd need to re-fetch.
       // For simplicity, we display the historical image in the appropriate slot.
@@ -210,7 +434,13 @@ const RepoAnalyzer: React.FC<RepoAnalyzerProps> = ({ onNavigate }) => {
 
       {/* Input Section */}
       <div className="max-w-xl mx-auto relative z-10">
-        <form onSubmit={handleAnalyze} className="glass-panel rounded-2xl p-2 transition-all focus-within:ring-1 focus-within:ring-violet-500/50 focus-within:border-violet-500/50">
+        <form
+          onSubmit={handleAnalyze}
+          onDragOver={(e) => { e.preventDefault(); setDragActive(true); }}
+          onDragLeave={() => setDragActive(false)}
+          onDrop={handleDrop}
+          className={`glass-panel rounded-2xl p-2 transition-all focus-within:ring-1 focus-within:ring-violet-500/50 focus-within:border-violet-500/50 ${dragActive ? 'ring-1 ring-cyan-500/60 border-cyan-500/60' : ''}`}
+        >
           <div className="flex items-center">
              <div className="pl-3 text-slate-500">
                 <Command className="w-5 h-5" />
@@ -219,7 +449,8 @@ const RepoAnalyzer: React.FC<RepoAnalyzerProps> = ({ onNavigate }) => {
                 type="text"
                 value={repoInput}
                 onChange={(e) => setRepoInput(e.target.value)}
-                placeholder="owner/repository"
+                onBlur={loadRefs}
+                placeholder={INPUT_PLACEHOLDERS[selectedHost]}
                 className="w-full bg-transparent border-none text-white placeholder:text-slate-600 focus:ring-0 text-lg px-4 py-2 font-mono"
               />
               <div className="pr-2">
@@ -258,8 +489,61 @@ const RepoAnalyzer: React.FC<RepoAnalyzerProps> = ({ onNavigate }) => {
                  </div>
              </div>
              
-             {/* Language Selector & Custom Style Input */}
+             {/* Host, Ref, Language Selector & Custom Style Input */}
              <div className="flex flex-wrap gap-3">
+               <div className="flex items-center gap-2 bg-slate-950/50 border border-white/10 rounded-lg px-2 py-1 shrink-0" title="Host for owner/repo shorthands. Pasted URLs pick their host automatically.">
+                  <Server className="w-3 h-3 text-slate-500 shrink-0" />
+                  <select
+                    value={parsedInput?.host || selectedHost}
+                    onChange={(e) => setSelectedHost(e.target.value as RepoHost)}
+                    className="bg-transparent border-none text-xs text-slate-300 focus:ring-0 p-0 font-mono cursor-pointer"
+                  >
+                    {REPO_HOSTS.map(host => (
+                      <option key={host} value={host} className="bg-slate-900 text-slate-300">
+                        {getRepoSource(host).label}
+                      </option>
+                    ))}
+                  </select>
+               </div>
+
+               {parsedInput && (
+                 <div className="flex items-center gap-2 bg-slate-950/50 border border-white/10 rounded-lg px-2 py-1 shrink-0 min-w-0 max-w-full">
+                    {refsLoading ? <Loader2 className="w-3 h-3 text-slate-500 animate-spin shrink-0" /> : <GitBranch className="w-3 h-3 text-slate-500 shrink-0" />}
+                    {refs?.repoKey === inputRepoKey ? (
+                      <select
+                        value={parsedInput.ref || ''}
+                        onChange={(e) => selectRef(e.target.value)}
+                        className="bg-transparent border-none text-xs text-slate-300 focus:ring-0 p-0 font-mono cursor-pointer min-w-0 flex-1 truncate max-w-[180px]"
+                      >
+                        <option value="" className="bg-slate-900 text-slate-300">{refs.defaultBranch} (default)</option>
+                        {parsedInput.ref && !refs.branches.includes(parsedInput.ref) && !refs.tags.includes(parsedInput.ref) && (
+                          <option value={parsedInput.ref} className="bg-slate-900 text-slate-300">{parsedInput.ref}</option>
+                        )}
+                        <optgroup label="Branches" className="bg-slate-900 text-slate-500">
+                          {refs.branches.filter(b => b !== refs.defaultBranch).map(b => (
+                            <option key={`b-${b}`} value={b} className="bg-slate-900 text-slate-300">{b}</option>
+                          ))}
+                        </optgroup>
+                        {refs.tags.length > 0 && (
+                          <optgroup label="Tags" className="bg-slate-900 text-slate-500">
+                            {refs.tags.map(t => (
+                              <option key={`t-${t}`} value={t} className="bg-slate-900 text-slate-300">{t}</option>
+                            ))}
+                          </optgroup>
+                        )}
+                      </select>
+                    ) : (
+                      <button
+                        type="button"
+                        onClick={loadRefs}
+                        className="text-xs text-slate-400 hover:text-slate-200 font-mono"
+                      >
+                        {parsedInput.ref || 'default branch'}
+                      </button>
+                    )}
+                 </div>
+               )}
+
                <div className="flex items-center gap-2 bg-slate-950/50 border border-white/10 rounded-lg px-2 py-1 shrink-0 min-w-0 max-w-full">
                   <Globe className="w-3 h-3 text-slate-500 shrink-0" />
                   <select
@@ -287,6 +571,35 @@ const RepoAnalyzer: React.FC<RepoAnalyzerProps> = ({ onNavigate }) => {
              </div>
           </div>
         </form>
+
+        {/* Local sources: folder picker, zip upload, or drag and drop onto the form */}
+        <div className="mt-3 flex flex-wrap items-center justify-center gap-2 text-[11px] font-mono text-slate-500">
+          <span>{dragActive ? 'Drop to analyze locally' : 'or analyze local code:'}</span>
+          <button
+            type="button"
+            onClick={handleChooseFolder}
+            disabled={loading}
+            className="px-2.5 py-1 rounded-md bg-white/5 text-slate-400 hover:text-slate-200 border border-white/10 hover:border-white/20 transition-all flex items-center gap-1.5 disabled:opacity-50"
+          >
+            <FolderOpen className="w-3 h-3" /> Choose folder
+          </button>
+          <button
+            type="button"
+            onClick={() => zipInputRef.current?.click()}
+            disabled={loading}
+            className="px-2.5 py-1 rounded-md bg-white/5 text-slate-400 hover:text-slate-200 border border-white/10 hover:border-white/20 transition-all flex items-center gap-1.5 disabled:opacity-50"
+          >
+            <FileArchive className="w-3 h-3" /> Upload .zip
+          </button>
+          <input
+            ref={folderInputRef}
+            type="file"
+            className="hidden"
+            onChange={handleFolderInput}
+            {...{ webkitdirectory: '', directory: '' }}
+          />
+          <input ref={zipInputRef} type="file" accept=".zip,application/zip" className="hidden" onChange={handleZipInput} />
+        </div>
       </div>
 
       {error && (
@@ -305,7 +618,7 @@ const RepoAnalyzer: React.FC<RepoAnalyzerProps> = ({ onNavigate }) => {
       )}
 
       {loading && (
-        <LoadingState message={loadingStage} type="repo" />
+        <LoadingState message={loadingStage} type="repo" onCancel={generation.cancel} />
       )}
 
       {/* Tab Navigation - Shows after first analysis */}
@@ -333,13 +646,69 @@ const RepoAnalyzer: React.FC<RepoAnalyzerProps> = ({ onNavigate }) => {
             <Package className="w-4 h-4" />
             Dependencies
           </button>
+          {/* Comparing refs needs a remote repository */}
+          {currentRepoOwner && !localRepo && (
+            <button
+              onClick={() => setActiveTab('diff')}
+              className={`flex items-center gap-2 px-4 py-2 rounded-t-lg font-mono text-sm transition-all ${
+                activeTab === 'diff'
+                  ? 'bg-amber-500/20 text-amber-300 border border-amber-500/30 border-b-transparent -mb-[1px]'
+                  : 'text-slate-500 hover:text-slate-300 hover:bg-white/5'
+              }`}
+            >
+              <GitCompare className="w-4 h-4" />
+              Arch Diff
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* Truncated tree notice */}
+      {treeTruncation && !loading && (
+        <div
+          className="flex items-center gap-2 text-xs font-mono text-amber-300 bg-amber-500/10 border border-amber-500/20 rounded-lg px-3 py-2 w-fit"
+          title={treeTruncation.skippedDirs.length > 0 ? `Skipped: ${treeTruncation.skippedDirs.join(', ')}` : undefined}
+        >
+          <AlertTriangle className="w-3.5 h-3.5 shrink-0" />
+          {treeTruncation.pageLimit !== undefined ? (
+            <>{getRepoSource(currentHost).label} listing stopped after {treeTruncation.pageLimit} pages: showing {currentFileTree?.length ?? 0} files, the rest are missing</>
+          ) : (
+            <>
+              GitHub truncated this tree: recovered {treeTruncation.recovered} files
+              {treeTruncation.skippedDirs.length > 0
+                ? `, skipped ${treeTruncation.skippedDirs.length} folder${treeTruncation.skippedDirs.length === 1 ? '' : 's'}`
+                : ', nothing skipped'}
+            </>
+          )}
         </div>
       )}
 
       {/* Dependencies Tab Content */}
-      {activeTab === 'dependencies' && currentRepoOwner && currentRepoName && !loading && (
+      {activeTab === 'dependencies' && (currentRepoOwner || localRepo) && currentRepoName && !loading && (
         <div className="animate-in fade-in slide-in-from-bottom-4">
-          <DependencyGraph owner={currentRepoOwner} repo={currentRepoName} />
+          <DependencyGraph
+            key={localRepo ? `local:${localRepo.name}` : `${currentHost}:${currentRepoOwner}/${currentRepoName}`}
+            host={currentHost}
+            owner={currentRepoOwner}
+            repo={currentRepoName}
+            gitRef={currentRef}
+            subdir={currentSubdir}
+            readFile={localRepo?.readFile}
+          />
+        </div>
+      )}
+
+      {/* Architecture Diff Tab Content */}
+      {activeTab === 'diff' && currentRepoOwner && !localRepo && currentRepoName && !loading && (
+        <div className="animate-in fade-in slide-in-from-bottom-4">
+          <ArchitectureDiff
+            key={`${currentHost}:${currentRepoOwner}/${currentRepoName}`}
+            host={currentHost}
+            owner={currentRepoOwner}
+            repo={currentRepoName}
+            gitRef={currentRef}
+            subdir={currentSubdir}
+          />
         </div>
       )}
 
@@ -353,8 +722,27 @@ const RepoAnalyzer: React.FC<RepoAnalyzerProps> = ({ onNavigate }) => {
                  <div className="px-4 py-3 flex flex-wrap items-center justify-between border-b border-white/5 mb-1.5 gap-2">
                     <h3 className="text-sm font-bold text-white flex items-center gap-2 font-mono uppercase tracking-wider">
                       <Layers className="w-4 h-4 text-violet-400" /> Flow_Diagram
+                      {localRepo && (
+                        <span className="normal-case tracking-normal font-normal text-[10px] text-cyan-300 bg-cyan-500/10 border border-cyan-500/20 rounded px-1.5 py-0.5 flex items-center gap-1" title={`${localRepo.totalFiles} files read, ${localRepo.ignoredFiles} ignored by .gitignore`}>
+                          <HardDrive className="w-3 h-3" /> {localRepo.origin === 'zip' ? 'zip' : 'local'}
+                        </span>
+                      )}
+                      {currentRef && (
+                        <span className="normal-case tracking-normal font-normal text-[10px] text-slate-400 bg-white/5 border border-white/10 rounded px-1.5 py-0.5 max-w-[160px] truncate" title={currentSubdir ? `${currentRef} · ${currentSubdir}` : currentRef}>
+                          @{currentRef}{currentSubdir ? ` · ${currentSubdir}` : ''}
+                        </span>
+                      )}
                     </h3>
                     <div className="flex items-center gap-2">
+                      {currentFileTree && (
+                        <button
+                          onClick={handleRegenerate}
+                          className="text-xs flex items-center gap-2 text-slate-400 hover:text-white transition-colors font-mono p-1.5 rounded-lg hover:bg-white/10"
+                          title="Regenerate (skip cache)"
+                        >
+                          <RefreshCw className="w-4 h-4" />
+                        </button>
+                      )}
                       <button 
                         onClick={() => setFullScreenImage({src: `data:image/png;base64,${infographicData}`, alt: `${currentRepoName} 2D`})}
                         className="text-xs flex items-center gap-2 text-slate-400 hover:text-white transition-colors font-mono p-1.5 rounded-lg hover:bg-white/10"
@@ -382,6 +770,15 @@ const RepoAnalyzer: React.FC<RepoAnalyzerProps> = ({ onNavigate }) => {
                     </h3>
                     {infographic3DData && (
                       <div className="flex items-center gap-2 animate-in fade-in">
+                        {currentFileTree && (
+                          <button
+                              onClick={() => handleGenerate3D(true)}
+                              className="text-xs flex items-center gap-2 text-slate-400 hover:text-white transition-colors font-mono p-1.5 rounded-lg hover:bg-white/10"
+                              title="Regenerate (skip cache)"
+                          >
+                              <RefreshCw className="w-4 h-4" />
+                          </button>
+                        )}
                         <button 
                             onClick={() => setFullScreenImage({src: `data:image/png;base64,${infographic3DData}`, alt: `${currentRepoName} 3D`})}
                             className="text-xs flex items-center gap-2 text-slate-400 hover:text-white transition-colors font-mono p-1.5 rounded-lg hover:bg-white/10"
@@ -406,12 +803,18 @@ const RepoAnalyzer: React.FC<RepoAnalyzerProps> = ({ onNavigate }) => {
                     <div className="flex flex-col items-center justify-center gap-4 p-6 text-center animate-in fade-in">
                          <Loader2 className="w-8 h-8 animate-spin text-fuchsia-500/50" />
                          <p className="text-fuchsia-300/50 font-mono text-xs animate-pulse">RENDERING HOLOGRAPHIC MODEL...</p>
+                         <button
+                           onClick={generation.cancel}
+                           className="px-3 py-1 bg-red-500/10 hover:bg-red-500/20 border border-red-500/30 rounded text-red-300 text-xs font-mono font-bold transition-colors flex items-center gap-1"
+                         >
+                           <XCircle className="w-3 h-3" /> CANCEL
+                         </button>
                     </div>
                   ) : (
                     <div className="flex flex-col items-center justify-center gap-4 p-6 text-center">
                         <p className="text-slate-500 font-mono text-xs">Render tabletop perspective?</p>
                         <button 
-                          onClick={handleGenerate3D}
+                          onClick={() => handleGenerate3D()}
                           className="px-5 py-2 bg-fuchsia-500/10 hover:bg-fuchsia-500/20 text-fuchsia-400 border border-fuchsia-500/30 rounded-xl font-semibold transition-all flex items-center gap-2 font-mono text-sm"
                         >
                           <Sparkles className="w-4 h-4" />
@@ -427,19 +830,12 @@ const RepoAnalyzer: React.FC<RepoAnalyzerProps> = ({ onNavigate }) => {
           {currentFileTree && currentFileTree.length > 0 && (
             <div className="mt-6 flex justify-center">
               <button
-                onClick={() => {
-                  const graphData = buildGraphFromFileTree(currentRepoName, currentFileTree);
-                  setCurrentProject({
-                    repoName: currentRepoName,
-                    fileTree: currentFileTree,
-                    graphData
-                  });
-                  onNavigate(ViewMode.DEV_STUDIO);
-                }}
-                className="px-6 py-3 bg-cyan-500/10 hover:bg-cyan-500/20 text-cyan-400 border border-cyan-500/30 rounded-xl font-semibold transition-all flex items-center gap-2 font-mono text-sm shadow-lg shadow-cyan-500/10 hover:shadow-cyan-500/20"
+                onClick={exploreInDevStudio}
+                disabled={!!importProgress}
+                className="px-6 py-3 bg-cyan-500/10 hover:bg-cyan-500/20 text-cyan-400 border border-cyan-500/30 rounded-xl font-semibold transition-all flex items-center gap-2 font-mono text-sm shadow-lg shadow-cyan-500/10 hover:shadow-cyan-500/20 disabled:opacity-60 disabled:cursor-wait"
               >
-                <Code2 className="w-4 h-4" />
-                EXPLORE_IN_DEVSTUDIO
+                {importProgress ? <Loader2 className="w-4 h-4 animate-spin" /> : <Code2 className="w-4 h-4" />}
+                {importProgress ? `EXTRACTING_IMPORTS ${importProgress.done}/${importProgress.total}` : 'EXPLORE_IN_DEVSTUDIO'}
               </button>
             </div>
           )}
@@ -468,7 +864,7 @@ const RepoAnalyzer: React.FC<RepoAnalyzerProps> = ({ onNavigate }) => {
                           </div>
                           <div className="p-3">
                               <p className="text-xs font-bold text-white truncate font-mono">{item.repoName}</p>
-                              <p className="text-[10px] text-slate-500 mt-1">{item.style}</p>
+                              <p className="text-[10px] text-slate-500 mt-1 truncate">{item.style}{item.ref ? ` · @${item.ref}` : ''}</p>
                           </div>
                       </button>
                   ))}
@@ -0,0 +1,258 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Database, Loader2, Send, Square, RefreshCw, FileCode, AlertTriangle } from 'lucide-react';
+import { DevStudioState } from '../types';
+import {
+  RepoIndex, IndexProgress, RetrievedChunk, buildRepoIndex, loadRepoIndex, retrieveChunks, MAX_INDEXED_FILES
+} from '../services/repoIndexService';
+import { askRepoQuestion } from '../services/geminiService';
+import { fanInByPath } from '../services/contextPacker';
+import { isAbortError } from '../services/aiProvider';
+import { interpretError, logError } from '../services/errorService';
+import { useAbortController } from '../hooks/useAbortController';
+import { getProjectKey } from '../utils/projectKey';
+import { CodeCitation, formatCitation, segmentCitations } from '../utils/codeCitations';
+
+interface RepoQAPanelProps {
+  project: DevStudioState;
+  /** Opens a cited file in the source viewer at the cited lines. */
+  onOpenCitation: (citation: CodeCitation) => void;
+}
+
+interface QAEntry {
+  id: string;
+  question: string;
+  answer: string;
+  sources: RetrievedChunk[];
+  status: 'retrieving' | 'answering' | 'done' | 'error';
+  error?: string;
+}
+
+/** Questions answered over an index of the repository's code, citing the lines they rest on. */
+const RepoQAPanel: React.FC<RepoQAPanelProps> = ({ project, onOpenCitation }) => {
+  const projectKey = getProjectKey(project);
+  const [index, setIndex] = useState<RepoIndex | null>(null);
+  const [progress, setProgress] = useState<IndexProgress | null>(null);
+  const [indexError, setIndexError] = useState<string | null>(null);
+  const [useEmbeddings, setUseEmbeddings] = useState(true);
+  const [question, setQuestion] = useState('');
+  const [entries, setEntries] = useState<QAEntry[]>([]);
+  const indexRun = useAbortController();
+  const askRun = useAbortController();
+  const listRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIndex(null);
+    setEntries([]);
+    setProgress(null);
+    setIndexError(null);
+    loadRepoIndex(project)
+      .then(saved => { if (!cancelled) setIndex(saved); })
+      .catch(error => logError(error, 'RepoQA:load'));
+    return () => {
+      cancelled = true;
+      indexRun.cancel();
+      askRun.cancel();
+    };
+  }, [projectKey, indexRun.cancel, askRun.cancel]);
+
+  useEffect(() => {
+    listRef.current?.scrollTo({ top: listRef.current.scrollHeight });
+  }, [entries]);
+
+  const indexedPaths = useMemo(() => Array.from(new Set(index?.chunks.map(chunk => chunk.path) ?? [])), [index]);
+  const stale = !!index && (index.ref ?? '') !== (project.ref ?? '');
+  const asking = entries.some(entry => entry.status === 'retrieving' || entry.status === 'answering');
+
+  const handleBuild = async () => {
+    const signal = indexRun.begin();
+    setIndexError(null);
+    setProgress({ phase: 'reading', done: 0, total: 0 });
+    try {
+      setIndex(await buildRepoIndex(project, { signal, onProgress: setProgress, embeddings: useEmbeddings }));
+    } catch (error) {
+      if (!isAbortError(error)) {
+        logError(error, 'RepoQA:index');
+        setIndexError(interpretError(error).message);
+      }
+    } finally {
+      if (!signal.aborted) setProgress(null);
+    }
+  };
+
+  const handleCancelBuild = () => {
+    indexRun.cancel();
+    setProgress(null);
+  };
+
+  const updateEntry = (id: string, patch: Partial<QAEntry>) =>
+    setEntries(current => current.map(entry => (entry.id === id ? { ...entry, ...patch } : entry)));
+
+  const handleAsk = async () => {
+    const text = question.trim();
+    if (!text || !index || asking) return;
+    const signal = askRun.begin();
+    const id = `${Date.now()}`;
+    setQuestion('');
+    setEntries(current => [...current, { id, question: text, answer: '', sources: [], status: 'retrieving' }]);
+    try {
+      const sources = await retrieveChunks(index, text, { signal });
+      updateEntry(id, { sources, status: 'answering' });
+      const answer = await askRepoQuestion(text, sources.map(source => source.chunk), project.fileTree, {
+        signal,
+        fanIn: fanInByPath(project.graphData),
+        onDelta: (_delta, partial) => updateEntry(id, { answer: partial }),
+      });
+      updateEntry(id, { answer, status: 'done' });
+    } catch (error) {
+      if (isAbortError(error)) {
+        updateEntry(id, { status: 'done' });
+      } else {
+        logError(error, 'RepoQA:ask');
+        updateEntry(id, { status: 'error', error: interpretError(error).message });
+      }
+    }
+  };
+
+  const renderAnswer = (answer: string) =>
+    segmentCitations(answer, indexedPaths).map((segment, i) =>
+      'citation' in segment ? (
+        <button
+          key={i}
+          onClick={() => onOpenCitation(segment.citation)}
+          className="px-1 rounded bg-sky-500/10 text-sky-300 hover:bg-sky-500/20 hover:underline"
+          title={`Open ${formatCitation(segment.citation)}`}
+        >
+          {formatCitation(segment.citation)}
+        </button>
+      ) : (
+        <React.Fragment key={i}>{segment.text}</React.Fragment>
+      )
+    );
+
+  const percent = progress && progress.total > 0 ? Math.round((progress.done / progress.total) * 100) : 0;
+
+  return (
+    <div className="h-80 border-t border-white/5 bg-slate-950/70 flex flex-col text-xs font-mono shrink-0">
+      {/* Index status */}
+      <div className="px-3 py-2 border-b border-white/5 flex items-center gap-2 shrink-0">
+        <Database className="w-3.5 h-3.5 text-indigo-400 shrink-0" />
+        {progress ? (
+          <>
+            <span className="text-slate-400 shrink-0">{progress.phase === 'reading' ? 'Reading files' : 'Embedding chunks'} {progress.done}/{progress.total}</span>
+            <div className="flex-1 h-1.5 bg-white/5 rounded-full overflow-hidden">
+              <div className="h-full bg-indigo-500 transition-all" style={{ width: `${percent}%` }} />
+            </div>
+            <button onClick={handleCancelBuild} className="px-2 py-0.5 rounded border border-white/10 text-slate-400 hover:text-slate-200 flex items-center gap-1">
+              <Square className="w-3 h-3" /> Cancel
+            </button>
+          </>
+        ) : (
+          <>
+            <span className="flex-1 truncate text-slate-400" title={index?.skipped.length ? `Skipped: ${index.skipped.slice(0, 20).join(', ')}${index.skipped.length > 20 ? '…' : ''}` : undefined}>
+              {index
+                ? `${index.fileCount} files · ${index.chunks.length} chunks · ${index.embeddings ? 'BM25 + embeddings' : 'BM25'}${index.skipped.length ? ` · ${index.skipped.length} skipped` : ''}`
+                : `Not indexed. Up to ${MAX_INDEXED_FILES} files are read and split by symbol.`}
+            </span>
+            <label className="flex items-center gap-1 text-slate-500 shrink-0" title="Also embed chunks for semantic search, when the AI provider supports it">
+              <input type="checkbox" checked={useEmbeddings} onChange={e => setUseEmbeddings(e.target.checked)} className="accent-indigo-500" />
+              Embeddings
+            </label>
+            <button
+              onClick={handleBuild}
+              className="px-2 py-0.5 rounded border bg-indigo-500/20 border-indigo-500/40 text-indigo-300 hover:bg-indigo-500/30 flex items-center gap-1 shrink-0"
+            >
+              <RefreshCw className="w-3 h-3" /> {index ? 'Rebuild' : 'Build index'}
+            </button>
+          </>
+        )}
+      </div>
+      {(indexError || stale || index?.embeddingError) && !progress && (
+        <div className="px-3 py-1.5 border-b border-white/5 text-amber-300 flex items-center gap-1.5 shrink-0">
+          <AlertTriangle className="w-3 h-3 shrink-0" />
+          <span className="truncate">
+            {indexError
+              ? `Indexing failed: ${indexError}`
+              : stale
+                ? `Indexed at ${index!.ref || 'the default branch'}; rebuild to search ${project.ref || 'the default branch'}.`
+                : `Keyword search only: ${index!.embeddingError}`}
+          </span>
+        </div>
+      )}
+
+      {/* Questions and answers */}
+      <div ref={listRef} className="flex-1 overflow-y-auto custom-scrollbar min-h-0 px-3 py-2 space-y-3">
+        {entries.length === 0 && (
+          <p className="text-slate-500">
+            {index
+              ? 'Ask how something works or where it happens. Answers cite file:line; click a citation to open it.'
+              : 'Build the index to ask questions answered from the repository\'s code.'}
+          </p>
+        )}
+        {entries.map(entry => (
+          <div key={entry.id} className="space-y-1.5">
+            <div className="text-indigo-300">&gt; {entry.question}</div>
+            {entry.status === 'retrieving' && (
+              <div className="flex items-center gap-1.5 text-slate-500"><Loader2 className="w-3 h-3 animate-spin" /> Searching the index...</div>
+            )}
+            {entry.status === 'error' && <div className="text-red-300">{entry.error}</div>}
+            {entry.status === 'done' && !entry.answer && <div className="text-slate-500">Stopped.</div>}
+            {entry.answer && <div className="text-slate-300 whitespace-pre-wrap leading-relaxed">{renderAnswer(entry.answer)}</div>}
+            {entry.status === 'answering' && !entry.answer && (
+              <div className="flex items-center gap-1.5 text-slate-500"><Loader2 className="w-3 h-3 animate-spin" /> Reading {entry.sources.length} excerpts...</div>
+            )}
+            {entry.sources.length > 0 && (
+              <div className="flex items-center gap-1 flex-wrap">
+                <span className="text-[10px] text-slate-600 uppercase tracking-wider mr-1">Sources</span>
+                {entry.sources.map(({ chunk }) => (
+                  <button
+                    key={chunk.id}
+                    onClick={() => onOpenCitation({ path: chunk.path, line: chunk.startLine, endLine: chunk.endLine })}
+                    className="px-1.5 py-0.5 rounded border border-white/5 text-[10px] text-slate-400 hover:text-sky-300 hover:border-sky-500/30 flex items-center gap-1 max-w-[220px]"
+                    title={`${chunk.path}:${chunk.startLine}-${chunk.endLine}${chunk.symbol ? ` (${chunk.symbol})` : ''}`}
+                  >
+                    <FileCode className="w-2.5 h-2.5 shrink-0" />
+                    <span className="truncate">{chunk.path.split('/').pop()}:{chunk.startLine}</span>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {/* Question input */}
+      <div className="px-3 py-2 border-t border-white/5 flex items-center gap-2 shrink-0">
+        <input
+          value={question}
+          onChange={e => setQuestion(e.target.value)}
+          onKeyDown={e => e.key === 'Enter' && handleAsk()}
+          disabled={!index}
+          placeholder={index ? 'Ask about the code...' : 'Build the index first'}
+          className="flex-1 bg-slate-900 border border-white/10 rounded px-2 py-1 text-slate-200 placeholder:text-slate-600 focus:outline-none focus:border-indigo-500/50 disabled:opacity-50"
+        />
+        {asking ? (
+          <button onClick={askRun.cancel} className="p-1.5 rounded border border-white/10 text-slate-400 hover:text-slate-200" title="Stop">
+            <Square className="w-3.5 h-3.5" />
+          </button>
+        ) : (
+          <button
+            onClick={handleAsk}
+            disabled={!index || !question.trim()}
+            className="p-1.5 rounded border bg-indigo-500/20 border-indigo-500/40 text-indigo-300 hover:bg-indigo-500/30 disabled:opacity-40"
+            title="Ask"
+          >
+            <Send className="w-3.5 h-3.5" />
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RepoQAPanel;
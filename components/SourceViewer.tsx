@@ -0,0 +1,109 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useMemo, useRef } from 'react';
+import { FileCode, Copy, X, Loader2 } from 'lucide-react';
+
+interface SourceViewerProps {
+  path: string;
+  /** Null while loading or when the file couldn't be read. */
+  content: string | null;
+  loading?: boolean;
+  /** The files the tools read together, the selected one first; clicking one shows it. */
+  contextFiles?: string[];
+  onOpenFile?: (path: string) => void;
+  /** Lines to mark and scroll to, e.g. those an answer cites. */
+  highlight?: { line: number; endLine?: number } | null;
+  onClose: () => void;
+}
+
+/** Lines rendered before the rest is cut off, to keep huge files responsive. */
+const MAX_LINES = 5000;
+
+/** Read-only view of a file with line numbers. */
+const SourceViewer: React.FC<SourceViewerProps> = ({ path, content, loading, contextFiles, onOpenFile, highlight, onClose }) => {
+  const lines = useMemo(() => (content ?? '').split('\n'), [content]);
+  const gutterWidth = String(Math.min(lines.length, MAX_LINES)).length;
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const firstLine = highlight?.line ?? 0;
+  const lastLine = highlight ? highlight.endLine ?? highlight.line : 0;
+
+  useEffect(() => {
+    if (!firstLine || content === null) return;
+    scrollRef.current?.querySelector(`[data-line="${firstLine}"]`)?.scrollIntoView({ block: 'center' });
+  }, [firstLine, lastLine, content]);
+
+  return (
+    <div className="flex flex-col h-full min-h-0">
+      <div className="px-4 py-3 bg-slate-950/50 border-b border-white/5 flex items-center gap-2 shrink-0">
+        <FileCode className="w-4 h-4 text-sky-400 shrink-0" />
+        <h3 className="text-xs font-mono text-slate-300 truncate flex-1" title={path}>{path}</h3>
+        {content !== null && (
+          <span className="text-[10px] font-mono text-slate-500 shrink-0">{lines.length} lines</span>
+        )}
+        {content !== null && (
+          <button
+            onClick={() => navigator.clipboard.writeText(content)}
+            className="p-1 rounded text-slate-500 hover:text-slate-200 hover:bg-white/5 transition-colors"
+            title="Copy file"
+          >
+            <Copy className="w-3.5 h-3.5" />
+          </button>
+        )}
+        <button onClick={onClose} className="p-1 rounded text-slate-500 hover:text-slate-200 hover:bg-white/5 transition-colors" title="Close viewer">
+          <X className="w-3.5 h-3.5" />
+        </button>
+      </div>
+
+      {contextFiles && contextFiles.length > 1 && (
+        <div className="px-3 py-2 border-b border-white/5 flex items-center gap-1 flex-wrap shrink-0">
+          <span className="text-[10px] text-slate-500 uppercase tracking-wider font-mono mr-1">Context</span>
+          {contextFiles.map(file => (
+            <button
+              key={file}
+              onClick={() => onOpenFile?.(file)}
+              className={`px-2 py-0.5 rounded text-[10px] font-mono border transition-colors max-w-[180px] truncate ${
+                file === path ? 'bg-sky-500/20 border-sky-500/40 text-sky-300' : 'border-white/5 text-slate-400 hover:text-sky-300 hover:border-sky-500/30'
+              }`}
+              title={file}
+            >
+              {file.split('/').pop()}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div ref={scrollRef} className="flex-1 overflow-auto custom-scrollbar bg-slate-950/60 min-h-0">
+        {loading ? (
+          <div className="flex items-center justify-center gap-2 h-full text-slate-500 font-mono text-xs">
+            <Loader2 className="w-4 h-4 animate-spin" /> Loading file...
+          </div>
+        ) : content === null ? (
+          <p className="p-4 text-slate-500 font-mono text-xs">
+            This file couldn't be read. Local folders need to be reopened from the analyzer after a reload.
+          </p>
+        ) : (
+          <pre className="text-[11px] leading-5 font-mono text-slate-300 py-2">
+            {lines.slice(0, MAX_LINES).map((line, i) => (
+              <div
+                key={i}
+                data-line={i + 1}
+                className={`flex ${i + 1 >= firstLine && i + 1 <= lastLine ? 'bg-amber-400/10 hover:bg-amber-400/15' : 'hover:bg-white/5'}`}
+              >
+                <span className="select-none text-right text-slate-600 pl-3 pr-3 shrink-0" style={{ minWidth: `${gutterWidth + 2}ch` }}>{i + 1}</span>
+                <code className="whitespace-pre pr-4">{line || ' '}</code>
+              </div>
+            ))}
+            {lines.length > MAX_LINES && (
+              <div className="px-3 py-2 text-slate-500">{lines.length - MAX_LINES} more lines not shown</div>
+            )}
+          </pre>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SourceViewer;
@@ -0,0 +1,235 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { ListTree, Crosshair, Loader2, Square, X, FileCode, AlertTriangle } from 'lucide-react';
+import { DevStudioState } from '../types';
+import {
+  SymbolIndexProgress, SymbolReferences, buildSymbolIndex, findReferences, getSymbolIndex, loadFileSymbols, MAX_SYMBOL_FILES
+} from '../services/symbolIndexService';
+import { isAbortError } from '../services/aiProvider';
+import { interpretError, logError } from '../services/errorService';
+import { useAbortController } from '../hooks/useAbortController';
+import { getProjectKey } from '../utils/projectKey';
+import { CodeCitation } from '../utils/codeCitations';
+import { FileSymbols, SymbolInfo, SymbolKind } from '../utils/symbolParser';
+
+interface SymbolOutlineProps {
+  project: DevStudioState;
+  /** File whose symbols are listed: the selected node's. */
+  path: string | null;
+  /** Uses of the symbol last searched for, shown here and on the graph. */
+  references: SymbolReferences | null;
+  onReferencesChange: (references: SymbolReferences | null) => void;
+  /** Opens a file in the source viewer at the given lines. */
+  onOpenLine: (citation: CodeCitation) => void;
+}
+
+const KIND_BADGES: Record<SymbolKind, { label: string; className: string }> = {
+  function: { label: 'fn', className: 'text-sky-300 bg-sky-500/10' },
+  class: { label: 'C', className: 'text-amber-300 bg-amber-500/10' },
+  interface: { label: 'I', className: 'text-emerald-300 bg-emerald-500/10' },
+  type: { label: 'T', className: 'text-emerald-300 bg-emerald-500/10' },
+  enum: { label: 'E', className: 'text-purple-300 bg-purple-500/10' },
+  variable: { label: 'v', className: 'text-slate-300 bg-white/5' },
+  method: { label: 'm', className: 'text-sky-300 bg-sky-500/10' },
+  property: { label: 'p', className: 'text-slate-400 bg-white/5' },
+};
+
+/** Declarations of the selected file, and where across the repository they're used. */
+const SymbolOutline: React.FC<SymbolOutlineProps> = ({ project, path, references, onReferencesChange, onOpenLine }) => {
+  const projectKey = getProjectKey(project);
+  const [symbols, setSymbols] = useState<FileSymbols | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [filter, setFilter] = useState('');
+  const [progress, setProgress] = useState<SymbolIndexProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const indexRun = useAbortController();
+
+  useEffect(() => {
+    if (!path) {
+      setSymbols(null);
+      return;
+    }
+    let cancelled = false;
+    setLoading(true);
+    loadFileSymbols(project, path)
+      .catch(error => {
+        logError(error, 'SymbolOutline:load');
+        return null;
+      })
+      .then(parsed => {
+        if (cancelled) return;
+        setSymbols(parsed);
+        setLoading(false);
+      });
+    return () => { cancelled = true; };
+  }, [projectKey, path]);
+
+  useEffect(() => () => indexRun.cancel(), [projectKey, indexRun.cancel]);
+
+  const shown = useMemo(() => {
+    const needle = filter.trim().toLowerCase();
+    if (!symbols || !needle) return symbols?.symbols ?? [];
+    return symbols.symbols.filter(symbol => `${symbol.container ?? ''}.${symbol.name}`.toLowerCase().includes(needle));
+  }, [symbols, filter]);
+
+  const handleFindReferences = async (symbol: SymbolInfo) => {
+    if (!symbols) return;
+    setError(null);
+    let index = getSymbolIndex(project);
+    if (!index) {
+      const signal = indexRun.begin();
+      setProgress({ done: 0, total: 0 });
+      try {
+        index = await buildSymbolIndex(project, { signal, onProgress: setProgress });
+      } catch (error) {
+        if (!isAbortError(error)) {
+          logError(error, 'SymbolOutline:index');
+          setError(interpretError(error).message);
+        }
+        return;
+      } finally {
+        if (!signal.aborted) setProgress(null);
+      }
+    }
+    onReferencesChange(findReferences(project, index, symbols.path, symbol));
+  };
+
+  const handleCancelIndex = () => {
+    indexRun.cancel();
+    setProgress(null);
+  };
+
+  const percent = progress && progress.total > 0 ? Math.round((progress.done / progress.total) * 100) : 0;
+  const referenceName = references ? `${references.symbol.container ? `${references.symbol.container}.` : ''}${references.symbol.name}` : '';
+
+  return (
+    <div className="h-80 border-t border-white/5 bg-slate-950/70 flex text-xs font-mono shrink-0">
+      {/* Outline of the selected file */}
+      <div className="flex-1 min-w-0 flex flex-col">
+        <div className="px-3 py-2 border-b border-white/5 flex items-center gap-2 shrink-0">
+          <ListTree className="w-3.5 h-3.5 text-indigo-400 shrink-0" />
+          <span className="text-slate-400 truncate flex-1" title={path ?? undefined}>{path ? path.split('/').pop() : 'No file selected'}</span>
+          {symbols && symbols.symbols.length > 0 && (
+            <input
+              value={filter}
+              onChange={e => setFilter(e.target.value)}
+              placeholder="Filter..."
+              className="w-28 bg-slate-900 border border-white/10 rounded px-2 py-0.5 text-slate-200 placeholder:text-slate-600 focus:outline-none focus:border-indigo-500/50"
+            />
+          )}
+        </div>
+        <div className="flex-1 overflow-y-auto custom-scrollbar min-h-0 py-1">
+          {loading ? (
+            <div className="px-3 py-2 flex items-center gap-1.5 text-slate-500"><Loader2 className="w-3 h-3 animate-spin" /> Parsing...</div>
+          ) : !path ? (
+            <p className="px-3 py-2 text-slate-500">Select a file on the graph to list its functions, classes and types.</p>
+          ) : !symbols ? (
+            <p className="px-3 py-2 text-slate-500">Outlines are available for TypeScript, JavaScript, Python and Go files.</p>
+          ) : shown.length === 0 ? (
+            <p className="px-3 py-2 text-slate-500">{filter.trim() ? 'No matching symbols.' : 'No declarations found.'}</p>
+          ) : (
+            shown.map(symbol => {
+              const badge = KIND_BADGES[symbol.kind];
+              const active = references?.path === symbols.path && references.symbol.name === symbol.name && references.symbol.line === symbol.line;
+              return (
+                <div
+                  key={`${symbol.container ?? ''}.${symbol.name}:${symbol.line}`}
+                  className={`group flex items-center gap-1.5 pr-2 py-0.5 hover:bg-white/5 ${symbol.container ? 'pl-7' : 'pl-3'} ${active ? 'bg-indigo-500/10' : ''}`}
+                >
+                  <span className={`w-5 text-center rounded text-[10px] shrink-0 ${badge.className}`} title={symbol.kind}>{badge.label}</span>
+                  <button
+                    onClick={() => onOpenLine({ path: symbols.path, line: symbol.line, endLine: symbol.endLine })}
+                    className={`flex-1 min-w-0 text-left truncate hover:underline ${symbol.exported ? 'text-slate-200' : 'text-slate-500'}`}
+                    title={`${symbol.exported ? 'Exported' : 'Not exported'} · lines ${symbol.line}-${symbol.endLine}`}
+                  >
+                    {symbol.name}
+                  </button>
+                  <span className="text-[10px] text-slate-600 shrink-0">{symbol.line}</span>
+                  <button
+                    onClick={() => handleFindReferences(symbol)}
+                    disabled={!!progress}
+                    className="p-0.5 rounded text-slate-600 hover:text-indigo-300 opacity-0 group-hover:opacity-100 disabled:opacity-30"
+                    title="Find references"
+                  >
+                    <Crosshair className="w-3 h-3" />
+                  </button>
+                </div>
+              );
+            })
+          )}
+        </div>
+      </div>
+
+      {/* References of the chosen symbol */}
+      {(references || progress || error) && (
+        <div className="w-1/2 border-l border-white/5 flex flex-col min-w-0">
+          <div className="px-3 py-2 border-b border-white/5 flex items-center gap-2 shrink-0">
+            <Crosshair className="w-3.5 h-3.5 text-indigo-400 shrink-0" />
+            {progress ? (
+              <>
+                <span className="text-slate-400 shrink-0">Indexing {progress.done}/{progress.total}</span>
+                <div className="flex-1 h-1.5 bg-white/5 rounded-full overflow-hidden">
+                  <div className="h-full bg-indigo-500 transition-all" style={{ width: `${percent}%` }} />
+                </div>
+                <button onClick={handleCancelIndex} className="px-2 py-0.5 rounded border border-white/10 text-slate-400 hover:text-slate-200 flex items-center gap-1">
+                  <Square className="w-3 h-3" /> Cancel
+                </button>
+              </>
+            ) : (
+              <>
+                <span className="flex-1 truncate text-slate-400" title={references ? `${referenceName} in ${references.path}` : undefined}>
+                  {references
+                    ? `${referenceName} · ${references.total} use${references.total === 1 ? '' : 's'} in ${references.hits.length} file${references.hits.length === 1 ? '' : 's'}`
+                    : 'References'}
+                </span>
+                <button
+                  onClick={() => { onReferencesChange(null); setError(null); }}
+                  className="p-0.5 rounded text-slate-500 hover:text-slate-200"
+                  title="Clear references"
+                >
+                  <X className="w-3.5 h-3.5" />
+                </button>
+              </>
+            )}
+          </div>
+          {error && !progress && (
+            <div className="px-3 py-1.5 border-b border-white/5 text-amber-300 flex items-center gap-1.5 shrink-0">
+              <AlertTriangle className="w-3 h-3 shrink-0" />
+              <span className="truncate">Indexing failed: {error}</span>
+            </div>
+          )}
+          <div className="flex-1 overflow-y-auto custom-scrollbar min-h-0 px-3 py-2 space-y-2">
+            {progress && <p className="text-slate-500">Parsing up to {MAX_SYMBOL_FILES} files once per session to look up uses.</p>}
+            {references && !progress && references.hits.length === 0 && <p className="text-slate-500">No uses found.</p>}
+            {references && !progress && references.hits.map(hit => (
+              <div key={hit.path} className="space-y-1">
+                <div className="flex items-center gap-1.5 text-slate-300 min-w-0" title={hit.path}>
+                  <FileCode className="w-3 h-3 text-slate-500 shrink-0" />
+                  <span className="truncate">{hit.path}</span>
+                  {hit.path === references.path && <span className="text-[10px] text-indigo-300 shrink-0">declared here</span>}
+                </div>
+                <div className="flex flex-wrap gap-1 pl-4">
+                  {hit.lines.map(line => (
+                    <button
+                      key={line}
+                      onClick={() => onOpenLine({ path: hit.path, line })}
+                      className="px-1.5 rounded border border-white/5 text-[10px] text-slate-400 hover:text-sky-300 hover:border-sky-500/30"
+                    >
+                      :{line}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SymbolOutline;
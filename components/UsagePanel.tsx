@@ -0,0 +1,314 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { X, Gauge, Trash2, Save, Loader2, AlertTriangle, Database } from 'lucide-react';
+import { AIUsageRecord, AIBudget } from '../types';
+import {
+  AI_FEATURE_LABELS,
+  AIFeature,
+  getUsageRecords,
+  clearUsageRecords,
+  getBudget,
+  setBudget,
+  summarizeUsage,
+  startOfMonth,
+  formatUsd,
+  estimateCostUsd,
+} from '../services/usageService';
+import { getResponseCacheSummary, clearResponseCache, ResponseCacheSummary } from '../services/cache';
+
+interface UsagePanelProps {
+  onClose: () => void;
+}
+
+const HISTORY_DAYS = 30;
+
+const formatTokens = (n: number) =>
+  n >= 1_000_000 ? `${(n / 1_000_000).toFixed(1)}M` : n >= 1000 ? `${(n / 1000).toFixed(1)}k` : String(n);
+
+const formatBytes = (n: number) =>
+  n >= 1024 * 1024 ? `${(n / (1024 * 1024)).toFixed(1)} MB` : n >= 1024 ? `${(n / 1024).toFixed(0)} KB` : `${n} B`;
+
+const parseCap = (value: string): number | undefined => {
+  const n = parseFloat(value);
+  return Number.isFinite(n) && n >= 0 ? n : undefined;
+};
+
+const UsagePanel: React.FC<UsagePanelProps> = ({ onClose }) => {
+  const [records, setRecords] = useState<AIUsageRecord[] | null>(null);
+  const [totalCap, setTotalCap] = useState('');
+  const [featureCaps, setFeatureCaps] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+  const [cache, setCache] = useState<ResponseCacheSummary | null>(null);
+
+  const load = async () => {
+    const since = Math.min(startOfMonth(), Date.now() - HISTORY_DAYS * 24 * 60 * 60 * 1000);
+    const [usage, budget] = await Promise.all([getUsageRecords(since), getBudget()]);
+    setRecords(usage);
+    setTotalCap(budget.monthlyTotalUsd !== undefined ? String(budget.monthlyTotalUsd) : '');
+    setFeatureCaps(Object.fromEntries(Object.entries(budget.perFeatureUsd).map(([k, v]) => [k, String(v)])));
+  };
+
+  useEffect(() => {
+    load().catch(e => {
+      console.error('Failed to load AI usage:', e);
+      setRecords([]);
+    });
+    getResponseCacheSummary().then(setCache).catch(e => console.error('Failed to load AI cache stats:', e));
+  }, []);
+
+  const month = useMemo(
+    () => summarizeUsage((records || []).filter(r => r.timestamp >= startOfMonth())),
+    [records]
+  );
+  const history = useMemo(() => summarizeUsage(records || []), [records]);
+
+  const days = useMemo(() => Object.keys(history.byDay).sort().reverse().slice(0, HISTORY_DAYS), [history]);
+  const maxDayCost = Math.max(0.0001, ...days.map(d => history.byDay[d].costUsd));
+
+  const features = useMemo(() => {
+    const ids = new Set<string>([...Object.keys(month.byFeature), ...Object.keys(featureCaps)]);
+    return Array.from(ids).sort((a, b) => (month.byFeature[b]?.costUsd || 0) - (month.byFeature[a]?.costUsd || 0));
+  }, [month, featureCaps]);
+
+  const cacheHits = cache ? cache.memoryHits + cache.diskHits : 0;
+  const cacheLookups = cache ? cacheHits + cache.misses : 0;
+  const cacheSavedUsd = cache
+    ? Object.keys(cache.saved).reduce((sum, model) => sum + estimateCostUsd(model, cache.saved[model].inputTokens, cache.saved[model].outputTokens), 0)
+    : 0;
+
+  const monthlyCap = parseCap(totalCap);
+  const capRatio = monthlyCap ? Math.min(1, month.total.costUsd / monthlyCap) : 0;
+
+  const handleSave = async () => {
+    setSaving(true);
+    const perFeatureUsd: Record<string, number> = {};
+    Object.keys(featureCaps).forEach(feature => {
+      const cap = parseCap(featureCaps[feature]);
+      if (cap !== undefined) perFeatureUsd[feature] = cap;
+    });
+    const next: AIBudget = { monthlyTotalUsd: monthlyCap, perFeatureUsd };
+    try {
+      await setBudget(next);
+    } catch (e) {
+      console.error('Failed to save AI budget:', e);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleClearCache = async () => {
+    if (!window.confirm('Delete all cached AI responses? Identical requests will call the model again.')) return;
+    await clearResponseCache();
+    setCache(await getResponseCacheSummary());
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm('Delete all recorded AI usage? Budget caps are kept.')) return;
+    await clearUsageRecords();
+    setRecords([]);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[10001] flex items-center justify-center bg-slate-950/80 backdrop-blur-sm p-4" onClick={onClose}>
+      <div className="w-full max-w-3xl max-h-[90vh] flex flex-col glass-panel rounded-3xl overflow-hidden animate-in fade-in zoom-in-95 duration-200" onClick={e => e.stopPropagation()}>
+        <div className="px-6 py-4 bg-slate-900/50 border-b border-white/10 flex items-center justify-between shrink-0">
+          <div className="flex items-center gap-3">
+            <Gauge className="w-5 h-5 text-violet-400" />
+            <h2 className="text-white font-bold font-mono text-sm uppercase tracking-widest">AI_Usage</h2>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-xl transition-colors text-slate-400 hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {!records ? (
+          <div className="p-12 flex justify-center">
+            <Loader2 className="w-6 h-6 text-slate-500 animate-spin" />
+          </div>
+        ) : (
+          <div className="p-6 space-y-6 overflow-y-auto">
+            {/* Month Summary */}
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+              {[
+                { label: 'Spend (month)', value: formatUsd(month.total.costUsd) },
+                { label: 'Calls', value: String(month.total.calls) },
+                { label: 'Tokens in / out', value: `${formatTokens(month.total.inputTokens)} / ${formatTokens(month.total.outputTokens)}` },
+                { label: 'Avg latency', value: month.total.calls ? `${(month.total.latencyMs / month.total.calls / 1000).toFixed(1)}s` : '-' },
+              ].map(card => (
+                <div key={card.label} className="p-3 rounded-xl bg-slate-900/50 border border-white/5">
+                  <p className="text-[10px] text-slate-500 font-mono uppercase tracking-wider">{card.label}</p>
+                  <p className="text-lg text-white font-bold font-mono mt-1">{card.value}</p>
+                </div>
+              ))}
+            </div>
+
+            {/* Monthly Budget */}
+            <div className="p-4 rounded-xl bg-slate-900/50 border border-white/5 space-y-3">
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <p className="text-sm text-slate-200 font-medium">Monthly budget cap</p>
+                  <p className="text-xs text-slate-500">AI calls are blocked once month-to-date spend reaches the cap. Leave empty for no limit.</p>
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  <span className="text-slate-500 font-mono text-sm">$</span>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.5"
+                    value={totalCap}
+                    onChange={e => setTotalCap(e.target.value)}
+                    placeholder="none"
+                    className="w-24 bg-slate-950/60 border border-white/10 rounded-lg px-2 py-1 text-sm font-mono text-white focus:ring-1 ring-violet-500/50"
+                  />
+                </div>
+              </div>
+              {monthlyCap !== undefined && (
+                <div className="space-y-1">
+                  <div className="h-2 rounded-full bg-white/5 overflow-hidden">
+                    <div
+                      className={`h-full transition-all ${capRatio >= 1 ? 'bg-red-500' : capRatio >= 0.8 ? 'bg-amber-500' : 'bg-emerald-500'}`}
+                      style={{ width: `${capRatio * 100}%` }}
+                    />
+                  </div>
+                  {capRatio >= 1 && (
+                    <p className="text-xs text-red-400 flex items-center gap-1">
+                      <AlertTriangle className="w-3 h-3" /> Budget reached. New AI calls are blocked until next month or a higher cap.
+                    </p>
+                  )}
+                </div>
+              )}
+            </div>
+
+            {/* Per Feature */}
+            <div>
+              <p className="text-[10px] text-slate-500 font-mono uppercase tracking-wider mb-2">By feature (this month)</p>
+              {features.length === 0 ? (
+                <p className="text-xs text-slate-500 font-mono py-4 text-center">No AI calls recorded yet.</p>
+              ) : (
+                <div className="rounded-xl border border-white/5 overflow-hidden">
+                  <table className="w-full text-xs font-mono">
+                    <thead className="bg-slate-900/60 text-slate-500 uppercase text-[10px]">
+                      <tr>
+                        <th className="text-left px-3 py-2">Feature</th>
+                        <th className="text-right px-3 py-2">Calls</th>
+                        <th className="text-right px-3 py-2">Tokens</th>
+                        <th className="text-right px-3 py-2">Cost</th>
+                        <th className="text-right px-3 py-2">Cap ($)</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {features.map(feature => {
+                        const totals = month.byFeature[feature];
+                        return (
+                          <tr key={feature} className="border-t border-white/5 text-slate-300">
+                            <td className="px-3 py-2">{AI_FEATURE_LABELS[feature as AIFeature] || feature}</td>
+                            <td className="px-3 py-2 text-right">{totals?.calls || 0}</td>
+                            <td className="px-3 py-2 text-right">{formatTokens((totals?.inputTokens || 0) + (totals?.outputTokens || 0))}</td>
+                            <td className="px-3 py-2 text-right text-white">{formatUsd(totals?.costUsd || 0)}</td>
+                            <td className="px-3 py-2 text-right">
+                              <input
+                                type="number"
+                                min="0"
+                                step="0.5"
+                                value={featureCaps[feature] || ''}
+                                onChange={e => setFeatureCaps(prev => ({ ...prev, [feature]: e.target.value }))}
+                                placeholder="none"
+                                className="w-20 bg-slate-950/60 border border-white/10 rounded px-1.5 py-0.5 text-right text-white"
+                              />
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+
+            {/* Response Cache */}
+            {cache && (
+              <div className="p-4 rounded-xl bg-slate-900/50 border border-white/5 space-y-3">
+                <div className="flex items-center justify-between gap-4">
+                  <div>
+                    <p className="text-sm text-slate-200 font-medium flex items-center gap-2"><Database className="w-4 h-4 text-cyan-400" /> Response cache</p>
+                    <p className="text-xs text-slate-500">Identical requests are answered from memory or IndexedDB without a model call or charge.</p>
+                  </div>
+                  <button
+                    onClick={handleClearCache}
+                    className="flex items-center gap-1 px-2 py-1 text-xs font-mono text-slate-400 hover:text-red-400 transition-colors shrink-0"
+                  >
+                    <Trash2 className="w-3 h-3" /> Clear cache
+                  </button>
+                </div>
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-xs font-mono">
+                  {[
+                    { label: 'Hit rate', value: cacheLookups ? `${Math.round((cacheHits / cacheLookups) * 100)}%` : '-' },
+                    { label: 'Hits (mem / disk)', value: `${cache.memoryHits} / ${cache.diskHits}` },
+                    { label: 'Saved', value: formatUsd(cacheSavedUsd) },
+                    { label: 'Stored', value: `${cache.entries} · ${formatBytes(cache.bytes)}` },
+                  ].map(stat => (
+                    <div key={stat.label}>
+                      <p className="text-[10px] text-slate-500 uppercase tracking-wider">{stat.label}</p>
+                      <p className="text-slate-200 mt-0.5">{stat.value}</p>
+                    </div>
+                  ))}
+                </div>
+                <p className="text-[10px] text-slate-600 font-mono">
+                  {cache.misses} misses since {new Date(cache.since).toLocaleDateString()}. {cache.memoryEntries} entries ({formatBytes(cache.memoryBytes)}) held in memory.
+                </p>
+              </div>
+            )}
+
+            {/* Per Day */}
+            {days.length > 0 && (
+              <div>
+                <p className="text-[10px] text-slate-500 font-mono uppercase tracking-wider mb-2">By day (last {HISTORY_DAYS} days)</p>
+                <div className="space-y-1">
+                  {days.map(day => {
+                    const totals = history.byDay[day];
+                    return (
+                      <div key={day} className="flex items-center gap-3 text-xs font-mono">
+                        <span className="w-24 text-slate-500 shrink-0">{day}</span>
+                        <div className="flex-1 h-2 rounded-full bg-white/5 overflow-hidden">
+                          <div className="h-full bg-violet-500/70" style={{ width: `${(totals.costUsd / maxDayCost) * 100}%` }} />
+                        </div>
+                        <span className="w-20 text-right text-slate-300 shrink-0">{formatUsd(totals.costUsd)}</span>
+                        <span className="w-16 text-right text-slate-500 shrink-0">{totals.calls} calls</span>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+
+            <p className="text-[10px] text-slate-600 font-mono">
+              Costs are estimates from list prices per million tokens. Where a provider reports no token counts they are approximated from text length.
+            </p>
+          </div>
+        )}
+
+        <div className="px-6 py-4 bg-white/5 border-t border-white/5 flex items-center justify-between shrink-0">
+          <button
+            onClick={handleClear}
+            className="flex items-center gap-2 px-3 py-2 text-xs font-mono text-slate-400 hover:text-red-400 transition-colors"
+          >
+            <Trash2 className="w-4 h-4" /> Clear usage
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="flex items-center gap-2 px-4 py-2 rounded-xl bg-violet-500 text-white text-sm font-medium hover:bg-violet-600 transition-all disabled:opacity-50"
+          >
+            {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />} Save caps
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UsagePanel;
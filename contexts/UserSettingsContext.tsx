@@ -1,9 +1,24 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import { setUserGeminiKey } from '../services/geminiService';
 import { setUserGitHubToken } from '../services/githubService';
+import { setUserGitLabConfig } from '../services/gitlabService';
+import { setUserBitbucketToken } from '../services/bitbucketService';
+import { setUserGiteaConfig } from '../services/giteaService';
+import { AIProviderId, setActiveProvider, setProviderKey, setFixtureRecording } from '../services/aiProvider';
+import { loadPromptOverrides } from '../services/promptRegistry';
+import { ContextBudgets, ContextModel, setContextBudgets } from '../services/contextPacker';
+import { setResponseCaching } from '../services/cache';
 
 export interface UserApiKeys {
   githubToken?: string;
+  gitlabToken?: string;
+  /** Self-hosted GitLab URL; gitlab.com when empty. */
+  gitlabBaseUrl?: string;
+  /** Access token, or `username:app_password`. */
+  bitbucketToken?: string;
+  giteaToken?: string;
+  /** Gitea or Forgejo instance URL; gitea.com when empty. */
+  giteaBaseUrl?: string;
   geminiKey?: string;
   openaiKey?: string;
   anthropicKey?: string;
@@ -32,6 +47,14 @@ interface UserSettingsContextType {
   clearApiKey: (service: keyof UserApiKeys) => void;
   clearAllKeys: () => void;
   hasKey: (service: keyof UserApiKeys) => boolean;
+  aiProvider: AIProviderId;
+  setAiProvider: (provider: AIProviderId) => void;
+  recordAiFixtures: boolean;
+  setRecordAiFixtures: (enabled: boolean) => void;
+  contextBudgets: ContextBudgets;
+  setContextBudget: (provider: AIProviderId, model: ContextModel, tokens: number | null) => void;
+  cacheAiResponses: boolean;
+  setCacheAiResponses: (enabled: boolean) => void;
   isSettingsOpen: boolean;
   openSettings: () => void;
   closeSettings: () => void;
@@ -40,10 +63,33 @@ interface UserSettingsContextType {
 const UserSettingsContext = createContext<UserSettingsContextType | undefined>(undefined);
 
 const STORAGE_KEY = 'flash-n-frame-user-api-keys';
+const AI_SETTINGS_KEY = 'flash-n-frame-ai-settings';
+
+interface AiSettings {
+  provider: AIProviderId;
+  recordFixtures: boolean;
+  /** Per-model overrides of the default repository context budgets. */
+  contextBudgets: ContextBudgets;
+  cacheResponses: boolean;
+}
+
+/**
+ * Pushes stored keys into the service modules that read them at call time.
+ */
+const syncServiceKeys = (keys: UserApiKeys) => {
+  setUserGeminiKey(keys.geminiKey || null);
+  setUserGitHubToken(keys.githubToken || null);
+  setUserGitLabConfig(keys.gitlabToken || null, keys.gitlabBaseUrl);
+  setUserBitbucketToken(keys.bitbucketToken || null);
+  setUserGiteaConfig(keys.giteaToken || null, keys.giteaBaseUrl);
+  setProviderKey('openai', keys.openaiKey || null);
+  setProviderKey('anthropic', keys.anthropicKey || null);
+};
 
 export function UserSettingsProvider({ children }: { children: ReactNode }) {
   const [apiKeys, setApiKeys] = useState<UserApiKeys>({});
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [aiSettings, setAiSettings] = useState<AiSettings>({ provider: 'gemini', recordFixtures: false, contextBudgets: {}, cacheResponses: true });
 
   useEffect(() => {
     try {
@@ -51,18 +97,53 @@ export function UserSettingsProvider({ children }: { children: ReactNode }) {
       if (stored) {
         const keys = JSON.parse(stored);
         setApiKeys(keys);
-        if (keys.geminiKey) {
-          setUserGeminiKey(keys.geminiKey);
-        }
-        if (keys.githubToken) {
-          setUserGitHubToken(keys.githubToken);
-        }
+        syncServiceKeys(keys);
       }
     } catch (e) {
       console.error('Failed to load user API keys:', e);
     }
+
+    try {
+      const storedAi = localStorage.getItem(AI_SETTINGS_KEY);
+      if (storedAi) {
+        const settings = { provider: 'gemini', recordFixtures: false, contextBudgets: {}, cacheResponses: true, ...JSON.parse(storedAi) } as AiSettings;
+        setAiSettings(settings);
+        setActiveProvider(settings.provider);
+        setFixtureRecording(settings.recordFixtures);
+        setContextBudgets(settings.contextBudgets);
+        setResponseCaching(settings.cacheResponses);
+      }
+    } catch (e) {
+      console.error('Failed to load AI provider settings:', e);
+    }
+
+    loadPromptOverrides().catch(e => console.error('Failed to load prompt overrides:', e));
   }, []);
 
+  const updateAiSettings = (patch: Partial<AiSettings>) => {
+    const next = { ...aiSettings, ...patch };
+    setAiSettings(next);
+    setActiveProvider(next.provider);
+    setFixtureRecording(next.recordFixtures);
+    setContextBudgets(next.contextBudgets);
+    setResponseCaching(next.cacheResponses);
+    try {
+      localStorage.setItem(AI_SETTINGS_KEY, JSON.stringify(next));
+    } catch (e) {
+      console.error('Failed to save AI provider settings:', e);
+    }
+  };
+
+  const setContextBudget = (provider: AIProviderId, model: ContextModel, tokens: number | null) => {
+    const forProvider = { ...aiSettings.contextBudgets[provider] };
+    if (tokens === null) {
+      delete forProvider[model];
+    } else {
+      forProvider[model] = tokens;
+    }
+    updateAiSettings({ contextBudgets: { ...aiSettings.contextBudgets, [provider]: forProvider } });
+  };
+
   const saveToStorage = (keys: UserApiKeys) => {
     try {
       localStorage.setItem(STORAGE_KEY, JSON.stringify(keys));
@@ -75,13 +156,7 @@ export function UserSettingsProvider({ children }: { children: ReactNode }) {
     const newKeys = { ...apiKeys, [service]: value };
     setApiKeys(newKeys);
     saveToStorage(newKeys);
-    
-    if (service === 'geminiKey') {
-      setUserGeminiKey(value || null);
-    }
-    if (service === 'githubToken') {
-      setUserGitHubToken(value || null);
-    }
+    syncServiceKeys(newKeys);
   };
 
   const clearApiKey = (service: keyof UserApiKeys) => {
@@ -89,11 +164,13 @@ export function UserSettingsProvider({ children }: { children: ReactNode }) {
     delete newKeys[service];
     setApiKeys(newKeys);
     saveToStorage(newKeys);
+    syncServiceKeys(newKeys);
   };
 
   const clearAllKeys = () => {
     setApiKeys({});
     localStorage.removeItem(STORAGE_KEY);
+    syncServiceKeys({});
   };
 
   const hasKey = (service: keyof UserApiKeys) => {
@@ -111,6 +188,14 @@ export function UserSettingsProvider({ children }: { children: ReactNode }) {
         clearApiKey,
         clearAllKeys,
         hasKey,
+        aiProvider: aiSettings.provider,
+        setAiProvider: (provider) => updateAiSettings({ provider }),
+        recordAiFixtures: aiSettings.recordFixtures,
+        setRecordAiFixtures: (recordFixtures) => updateAiSettings({ recordFixtures }),
+        contextBudgets: aiSettings.contextBudgets,
+        setContextBudget,
+        cacheAiResponses: aiSettings.cacheResponses,
+        setCacheAiResponses: (cacheResponses) => updateAiSettings({ cacheResponses }),
         isSettingsOpen,
         openSettings,
         closeSettings,
@@ -0,0 +1,28 @@
+import { useRef, useCallback, useEffect } from 'react';
+
+/**
+ * Owns the AbortController for one long-running operation at a time.
+ * Starting a new operation cancels the previous one, and whatever is still
+ * in flight is cancelled when the component unmounts.
+ */
+export function useAbortController() {
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const begin = useCallback(() => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    return controller.signal;
+  }, []);
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+  }, []);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  return { begin, cancel };
+}
+
+export default useAbortController;
@@ -0,0 +1,234 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Citation } from '../types';
+import { createGeminiProvider } from './providers/geminiProvider';
+import { createOpenAIProvider } from './providers/openaiProvider';
+import { createAnthropicProvider } from './providers/anthropicProvider';
+import { createFixtureProvider, withFixtureRecording } from './providers/fixtureProvider';
+import { AIFeature, withUsageMetering } from './usageService';
+import { withResponseCache } from './cache';
+
+export type AIProviderId = 'gemini' | 'openai' | 'anthropic' | 'fixture';
+
+/**
+ * Provider-agnostic model class. Each provider maps a tier to its own model:
+ * 'pro' for deep reasoning tasks, 'flash' for low-latency instruction following.
+ */
+export type ModelTier = 'pro' | 'flash';
+
+/** Kind of model call, as metered and cached. */
+export type AICallMethod = 'text' | 'json' | 'image' | 'search' | 'embed';
+
+export interface AIPart {
+  text?: string;
+  inlineData?: {
+    mimeType: string;
+    data: string;
+  };
+}
+
+/**
+ * Receives streamed output. `delta` is the newly arrived chunk, `text` the
+ * full response so far.
+ */
+export type AIStreamHandler = (delta: string, text: string) => void;
+
+/**
+ * Token counts reported by a provider for a single model call.
+ */
+export interface AIUsage {
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface AIRequest {
+  parts: AIPart[];
+  tier?: ModelTier;
+  systemInstruction?: string;
+  /** Token budget for models that support extended thinking. */
+  thinkingBudget?: number;
+  /** Aborts the underlying network request. */
+  signal?: AbortSignal;
+  /** When set, text and JSON responses are streamed through this handler. */
+  onDelta?: AIStreamHandler;
+  /** Receives token usage once the provider reports it. */
+  onUsage?: (usage: AIUsage) => void;
+  /** Version of the prompt template(s) behind this request; part of the cache key. */
+  promptVersion?: string;
+  /** Skips the response cache lookup and replaces any cached entry. */
+  forceRefresh?: boolean;
+}
+
+export interface AIJsonRequest extends AIRequest {
+  /** JSON Schema describing the expected response shape. */
+  schema?: Record<string, unknown>;
+  /**
+   * Whether a response is usable. Responses failing it are not cached, so a
+   * retry asks the model again instead of replaying the same bad answer.
+   */
+  isValid?: (text: string) => boolean;
+}
+
+export interface AIEmbedRequest {
+  texts: string[];
+  /**
+   * What the texts are used for. Some models embed a search query and the
+   * documents it is matched against differently.
+   */
+  purpose?: 'document' | 'query';
+  signal?: AbortSignal;
+  onUsage?: (usage: AIUsage) => void;
+}
+
+export interface AISearchResult {
+  text: string;
+  citations: Citation[];
+}
+
+/**
+ * Capabilities every AI backend must provide. Image generation may throw on
+ * providers that have no image model.
+ */
+export interface AIProvider {
+  readonly id: AIProviderId;
+  readonly label: string;
+  /**
+   * Model a call of this kind and tier is sent to. Prices calls whose usage
+   * the provider never reported, such as aborted or failed ones.
+   */
+  modelFor(method: AICallMethod, tier?: ModelTier): string;
+  /** Free-form text completion. Streams when `onDelta` is set. */
+  generateText(request: AIRequest): Promise<string>;
+  /** Completion constrained to JSON. Returns the raw JSON string. Streams when `onDelta` is set. */
+  generateJson(request: AIJsonRequest): Promise<string>;
+  /** Image generation or editing. Returns base64 PNG data or null. */
+  generateImage(request: AIRequest): Promise<string | null>;
+  /** Text completion grounded in live web search results. */
+  generateWithSearch(request: AIRequest): Promise<AISearchResult>;
+  /**
+   * Embedding vectors of texts, one per text in order. Undefined on providers
+   * without an embedding model.
+   */
+  embedTexts?(request: AIEmbedRequest): Promise<number[][]>;
+}
+
+export const AI_PROVIDER_LABELS: Record<AIProviderId, string> = {
+  gemini: 'Google Gemini',
+  openai: 'OpenAI',
+  anthropic: 'Anthropic Claude',
+  fixture: 'Offline (recorded fixtures)',
+};
+
+let activeProviderId: AIProviderId = 'gemini';
+let recordFixtures = false;
+const providerKeys: Partial<Record<AIProviderId, string>> = {};
+
+export function setActiveProvider(id: AIProviderId) {
+  activeProviderId = id;
+}
+
+export function getActiveProviderId(): AIProviderId {
+  return activeProviderId;
+}
+
+export function setProviderKey(id: AIProviderId, key: string | null) {
+  if (key) {
+    providerKeys[id] = key;
+  } else {
+    delete providerKeys[id];
+  }
+}
+
+export function getProviderKey(id: AIProviderId): string | null {
+  return providerKeys[id] || null;
+}
+
+/**
+ * When enabled, every live response is stored so the fixture provider can
+ * replay it later without network access.
+ */
+export function setFixtureRecording(enabled: boolean) {
+  recordFixtures = enabled;
+}
+
+export function isFixtureRecording(): boolean {
+  return recordFixtures;
+}
+
+const requireKey = (id: AIProviderId, fallback?: string): string => {
+  const key = providerKeys[id] || fallback;
+  if (!key) {
+    throw new Error(`No ${AI_PROVIDER_LABELS[id]} API key configured. Please add your API key in Settings.`);
+  }
+  return key;
+};
+
+const createProvider = (id: AIProviderId): AIProvider => {
+  switch (id) {
+    case 'openai':
+      return createOpenAIProvider(requireKey('openai'));
+    case 'anthropic':
+      return createAnthropicProvider(requireKey('anthropic'));
+    case 'fixture':
+      return createFixtureProvider();
+    case 'gemini':
+    default:
+      return createGeminiProvider(requireKey('gemini', process.env.API_KEY));
+  }
+};
+
+/**
+ * Resolves the provider selected in user settings. A fresh instance is built per
+ * call so key changes take effect immediately. Live providers are metered and
+ * budget-checked under the given feature, behind the response cache.
+ */
+export function getAIProvider(feature: AIFeature = 'other'): AIProvider {
+  const provider = createProvider(activeProviderId);
+  if (provider.id === 'fixture') {
+    return provider;
+  }
+  const metered = withUsageMetering(provider, feature);
+  return withResponseCache(recordFixtures ? withFixtureRecording(metered) : metered);
+}
+
+/**
+ * Concatenates the text parts of a request. Used by providers that take a
+ * single prompt string and for fixture key derivation.
+ */
+export function joinTextParts(parts: AIPart[]): string {
+  return parts
+    .filter(p => typeof p.text === 'string')
+    .map(p => p.text)
+    .join('\n\n');
+}
+
+/**
+ * Removes duplicate citations by URI, keeping the last title seen.
+ */
+export function dedupeCitations(citations: Citation[]): Citation[] {
+  const unique = new Map<string, Citation>();
+  citations.forEach(c => unique.set(c.uri, c));
+  return Array.from(unique.values());
+}
+
+/**
+ * True for errors raised because a request was cancelled through its
+ * AbortSignal, regardless of which provider or fetch layer produced them.
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && (error.name === 'AbortError' || /\baborted\b/i.test(error.message));
+}
+
+/**
+ * Throws a DOMException named 'AbortError' if the signal has fired. Used
+ * between the steps of multi-call pipelines.
+ */
+export function throwIfAborted(signal?: AbortSignal) {
+  if (signal?.aborted) {
+    throw new DOMException('The operation was aborted.', 'AbortError');
+  }
+}
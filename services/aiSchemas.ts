@@ -0,0 +1,181 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { z } from 'zod/v4';
+
+/*
+ * Schemas for every structured AI response. Validation is deliberately lenient
+ * about cosmetic drift (casing of enum values, numbers sent as strings, null
+ * for optional fields, missing lists) and strict about shape.
+ */
+
+const looseEnum = <T extends readonly [string, ...string[]]>(values: T) =>
+  z.preprocess(v => (typeof v === 'string' ? v.trim().toLowerCase() : v), z.enum(values));
+
+const optional = <T extends z.ZodType>(schema: T) =>
+  z.preprocess(v => (v === null || v === '' ? undefined : v), schema.optional());
+
+const list = <T extends z.ZodType>(item: T) => z.array(item).default([]);
+
+// ==================== DevStudio Tools ====================
+
+export const CodeReviewIssueSchema = z.object({
+  severity: looseEnum(['critical', 'warning', 'info', 'suggestion'] as const),
+  category: z.string(),
+  line: optional(z.coerce.number().int()),
+  title: z.string(),
+  description: z.string(),
+  suggestion: optional(z.string()),
+});
+
+export const CodeReviewResultSchema = z.object({
+  summary: z.string(),
+  overallScore: z.coerce.number().min(0).max(100),
+  issues: list(CodeReviewIssueSchema),
+  strengths: list(z.string()),
+  recommendations: list(z.string()),
+});
+
+export const TestCaseSchema = z.object({
+  name: z.string(),
+  type: looseEnum(['unit', 'integration', 'edge'] as const),
+  description: z.string().default(''),
+  code: z.string(),
+  assertions: list(z.string()),
+});
+
+export const TestGenerationResultSchema = z.object({
+  framework: z.string(),
+  setup: z.string().default(''),
+  testCases: list(TestCaseSchema),
+  edgeCases: list(z.string()),
+  coverageNotes: z.string().default(''),
+});
+
+export const DocumentationResultSchema = z.object({
+  moduleDoc: z.string(),
+  functions: list(z.object({
+    name: z.string(),
+    jsdoc: z.string().default(''),
+    params: list(z.object({
+      name: z.string(),
+      type: z.string(),
+      description: z.string().default(''),
+    })),
+    returns: z.object({
+      type: z.string(),
+      description: z.string().default(''),
+    }).default({ type: 'void', description: '' }),
+  })),
+  usageExamples: list(z.string()),
+  notes: z.string().default(''),
+});
+
+export const GapAnalysisResultSchema = z.object({
+  gaps: list(z.object({
+    type: looseEnum(['missing_logic', 'error_handling', 'edge_case', 'validation', 'security'] as const),
+    severity: looseEnum(['high', 'medium', 'low'] as const),
+    title: z.string(),
+    description: z.string(),
+    location: optional(z.string()),
+    recommendation: z.string(),
+  })),
+  bottlenecks: list(z.object({
+    type: looseEnum(['performance', 'scalability', 'resource', 'dependency'] as const),
+    title: z.string(),
+    impact: z.string(),
+    mitigation: z.string(),
+  })),
+  unknowns: list(z.object({
+    area: z.string(),
+    concern: z.string(),
+    investigationNeeded: z.string(),
+  })),
+  overallRisk: looseEnum(['low', 'medium', 'high'] as const),
+  summary: z.string(),
+});
+
+// ==================== Reality Engine ====================
+
+export const ComponentLibraryResultSchema = z.object({
+  components: list(z.object({
+    name: z.string(),
+    category: z.string(),
+    description: z.string().default(''),
+    props: list(z.string()),
+    code: z.string(),
+  })),
+  summary: z.string(),
+  designTokens: z.object({
+    colors: list(z.string()),
+    typography: list(z.string()),
+    spacing: list(z.string()),
+  }).default({ colors: [], typography: [], spacing: [] }),
+});
+
+export const ResponsiveResultSchema = z.object({
+  variants: list(z.object({
+    breakpoint: looseEnum(['mobile', 'tablet', 'desktop'] as const),
+    description: z.string(),
+    code: z.string(),
+    notes: z.string().default(''),
+  })),
+  sharedStyles: z.string().default(''),
+  responsiveNotes: z.string().default(''),
+});
+
+export const DashboardResultSchema = z.object({
+  name: z.string(),
+  description: z.string(),
+  files: list(z.object({
+    filename: z.string(),
+    type: looseEnum(['component', 'style', 'hook', 'util', 'config', 'doc'] as const),
+    content: z.string(),
+    description: z.string().default(''),
+  })),
+  documentation: z.string().default(''),
+  features: list(z.string()),
+  dependencies: list(z.string()),
+});
+
+// ==================== Repository & Article Analysis ====================
+
+export const DependencyAnalysisSchema = z.object({
+  analyzed: list(z.object({
+    name: z.string(),
+    riskLevel: looseEnum(['critical', 'high', 'medium', 'low', 'safe'] as const),
+    note: z.string().default(''),
+  })),
+  summary: z.string(),
+});
+
+export const KeyStatsSchema = z.object({
+  headline: optional(z.string()),
+  stats: list(z.object({
+    stat: z.string(),
+    value: z.coerce.string(),
+    context: z.string().default(''),
+  })),
+  trend: optional(z.string()),
+});
+
+export const SuggestedTasksSchema = z.array(z.object({
+  title: z.string(),
+  priority: looseEnum(['high', 'medium', 'low'] as const),
+  dueDate: z.string(),
+}));
+
+export type CodeReviewIssue = z.infer<typeof CodeReviewIssueSchema>;
+export type CodeReviewResult = z.infer<typeof CodeReviewResultSchema>;
+export type TestCase = z.infer<typeof TestCaseSchema>;
+export type TestGenerationResult = z.infer<typeof TestGenerationResultSchema>;
+export type DocumentationResult = z.infer<typeof DocumentationResultSchema>;
+export type GapAnalysisResult = z.infer<typeof GapAnalysisResultSchema>;
+export type ComponentInfo = z.infer<typeof ComponentLibraryResultSchema>['components'][number];
+export type ComponentLibraryResult = z.infer<typeof ComponentLibraryResultSchema>;
+export type ResponsiveVariant = z.infer<typeof ResponsiveResultSchema>['variants'][number];
+export type ResponsiveResult = z.infer<typeof ResponsiveResultSchema>;
+export type DashboardFile = z.infer<typeof DashboardResultSchema>['files'][number];
+export type DashboardResult = z.infer<typeof DashboardResultSchema>;
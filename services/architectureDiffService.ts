@@ -0,0 +1,84 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { DataFlowGraph, RepoFileTree, RepoHost } from '../types';
+import { getRepoSource } from './repoSource';
+import { extractImportGraph } from './importGraphService';
+import { buildGraphFromFileTree } from '../utils/graphBuilder';
+import { ArchitectureDiff, diffGraphs } from '../utils/graphDiff';
+
+export interface RefGraphProgress {
+  ref: string;
+  /** Listing the tree, then reading files for imports. */
+  phase: 'tree' | 'imports';
+  done: number;
+  total: number;
+}
+
+export interface CompareRefsOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: RefGraphProgress) => void;
+}
+
+export interface RefComparison {
+  base: DataFlowGraph;
+  head: DataFlowGraph;
+  diff: ArchitectureDiff;
+}
+
+interface RefScan {
+  files: RepoFileTree[];
+  /** Imports between files; has no links when none could be parsed. */
+  imports: DataFlowGraph;
+}
+
+/** Lists one ref's tree and extracts the imports between its files. */
+async function scanRef(
+  host: RepoHost,
+  owner: string,
+  repo: string,
+  ref: string,
+  subdir?: string,
+  options: CompareRefsOptions = {}
+): Promise<RefScan> {
+  const { signal, onProgress } = options;
+  const source = getRepoSource(host);
+  onProgress?.({ ref, phase: 'tree', done: 0, total: 0 });
+  const { files } = await source.fetchTree(owner, repo, ref, subdir, {
+    signal,
+    onProgress: ({ scannedDirs, queuedDirs }) => onProgress?.({ ref, phase: 'tree', done: scannedDirs, total: scannedDirs + queuedDirs }),
+  });
+  if (files.length === 0) throw new Error(`No relevant code files found at ${ref}.`);
+
+  const { graph } = await extractImportGraph(files, path => source.fetchFileContent(owner, repo, path, ref), {
+    signal,
+    onProgress: (done, total) => onProgress?.({ ref, phase: 'imports', done, total }),
+  });
+  return { files, imports: graph };
+}
+
+/**
+ * Loads two refs one after the other and diffs their graphs. Refs are read
+ * sequentially so the two scans don't compete for the host's rate limit.
+ * Graphs are built the way Dev Studio does: imports between files when any
+ * can be parsed, the folder hierarchy otherwise.
+ */
+export async function compareRefs(
+  host: RepoHost,
+  owner: string,
+  repo: string,
+  baseRef: string,
+  headRef: string,
+  subdir?: string,
+  options: CompareRefsOptions = {}
+): Promise<RefComparison> {
+  const baseScan = await scanRef(host, owner, repo, baseRef, subdir, options);
+  const headScan = await scanRef(host, owner, repo, headRef, subdir, options);
+  // Both sides must be the same kind of graph: import graphs when either ref
+  // has imports, folder graphs only when neither does
+  const useImports = baseScan.imports.links.length > 0 || headScan.imports.links.length > 0;
+  const [base, head] = [baseScan, headScan].map(scan => useImports ? scan.imports : buildGraphFromFileTree(repo, scan.files));
+  return { base, head, diff: diffGraphs(base, head) };
+}
@@ -0,0 +1,214 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { DevStudioState, D3Node } from '../types';
+import { performCodeReview, analyzeGapsAndBottlenecks, generateDocumentation } from './geminiService';
+import { CodeReviewResult, GapAnalysisResult, DocumentationResult } from './aiSchemas';
+import { loadSourceContext } from './fileContentService';
+import { fanInByPath } from './contextPacker';
+import { mapWithConcurrency } from './githubService';
+import { PersistenceService } from './persistence';
+import { isAbortError } from './aiProvider';
+import { interpretError } from './errorService';
+import { BudgetExceededError } from './usageService';
+import { getProjectKey } from '../utils/projectKey';
+
+export type BatchTool = 'review' | 'gaps' | 'docs';
+
+export const BATCH_TOOLS: Record<BatchTool, string> = {
+  review: 'Code review',
+  gaps: 'Gap analysis',
+  docs: 'Documentation',
+};
+
+export const DEFAULT_BATCH_CONCURRENCY = 2;
+export const DEFAULT_REQUESTS_PER_MINUTE = 20;
+
+export interface BatchItemResult {
+  path: string;
+  tool: BatchTool;
+  status: 'done' | 'failed';
+  review?: CodeReviewResult;
+  gaps?: GapAnalysisResult;
+  docs?: DocumentationResult;
+  error?: string;
+  finishedAt: number;
+}
+
+/** A queue of tool runs over a set of files, saved after every item so it can resume. */
+export interface BatchJob {
+  id: string;
+  projectKey: string;
+  /** Directory the files were taken from; empty for the whole repository. */
+  scope: string;
+  tools: BatchTool[];
+  files: string[];
+  /** Finished items keyed by `itemKey(tool, path)`. */
+  results: Record<string, BatchItemResult>;
+  status: 'running' | 'paused' | 'completed';
+  /** Why the job paused by itself, e.g. the spending budget was reached. */
+  haltReason?: string;
+  concurrency: number;
+  requestsPerMinute: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface BatchItem {
+  tool: BatchTool;
+  path: string;
+}
+
+export interface RunBatchOptions {
+  signal?: AbortSignal;
+  /** Called with a fresh copy of the job whenever an item finishes. */
+  onProgress?: (job: BatchJob) => void;
+}
+
+export const itemKey = (tool: BatchTool, path: string) => `${tool}:${path}`;
+
+/** Files of the project under `scope`, or all of them for an empty scope. */
+export function filesInScope(project: DevStudioState, scope: string): string[] {
+  const prefix = scope ? `${scope.replace(/\/+$/, '')}/` : '';
+  return project.fileTree
+    .filter(file => file.type !== 'tree' && file.path.startsWith(prefix))
+    .map(file => file.path)
+    .sort();
+}
+
+export function createBatchJob(
+  project: DevStudioState,
+  scope: string,
+  tools: BatchTool[],
+  settings: { concurrency?: number; requestsPerMinute?: number } = {}
+): BatchJob {
+  const now = Date.now();
+  return {
+    id: `batch-${now}`,
+    projectKey: getProjectKey(project),
+    scope,
+    tools,
+    files: filesInScope(project, scope),
+    results: {},
+    status: 'paused',
+    concurrency: settings.concurrency ?? DEFAULT_BATCH_CONCURRENCY,
+    requestsPerMinute: settings.requestsPerMinute ?? DEFAULT_REQUESTS_PER_MINUTE,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/** Items not yet done. Failed items are queued again so a resume retries them. */
+export function pendingItems(job: BatchJob): BatchItem[] {
+  const items: BatchItem[] = [];
+  job.files.forEach(path => {
+    job.tools.forEach(tool => {
+      if (job.results[itemKey(tool, path)]?.status !== 'done') items.push({ tool, path });
+    });
+  });
+  return items;
+}
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(signal.reason);
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(signal!.reason);
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Spaces calls out evenly so no more than `perMinute` start in any minute,
+ * whatever the number of workers waiting on it.
+ */
+function createRateLimiter(perMinute: number) {
+  const interval = perMinute > 0 ? 60_000 / perMinute : 0;
+  let nextSlot = 0;
+  return async (signal?: AbortSignal) => {
+    const now = Date.now();
+    const slot = Math.max(now, nextSlot);
+    nextSlot = slot + interval;
+    if (slot > now) await sleep(slot - now, signal);
+  };
+}
+
+/** The project's graph node for a path, or a bare file node when the graph has none. */
+function nodeForPath(project: DevStudioState, path: string): D3Node {
+  return project.graphData.nodes.find(node => node.path === path)
+    ?? { id: path, label: path, group: 0, type: 'file', path };
+}
+
+async function runItem(project: DevStudioState, item: BatchItem, fanIn: Record<string, number>, signal?: AbortSignal): Promise<BatchItemResult> {
+  const node = nodeForPath(project, item.path);
+  const source = await loadSourceContext(project, node).catch(() => null);
+  // Without the code the model would only see the path, and its findings would be made up
+  if (!source) {
+    return { path: item.path, tool: item.tool, status: 'failed', error: 'Could not read file', finishedAt: Date.now() };
+  }
+  const options = { signal };
+  const result: BatchItemResult = { path: item.path, tool: item.tool, status: 'done', finishedAt: 0 };
+  switch (item.tool) {
+    case 'review':
+      result.review = await performCodeReview(item.path, project.fileTree, source, { ...options, fanIn });
+      break;
+    case 'gaps':
+      result.gaps = await analyzeGapsAndBottlenecks(item.path, project.fileTree, source, { ...options, fanIn });
+      break;
+    case 'docs':
+      result.docs = await generateDocumentation(item.path, project.fileTree, source, options);
+      break;
+  }
+  result.finishedAt = Date.now();
+  return result;
+}
+
+/**
+ * Runs the job's pending items with its concurrency and rate limit. Aborting
+ * the signal pauses the job: items finished so far are already saved, and a
+ * saved job that was running loads as paused. Failures of single items are recorded, not thrown, except
+ * a reached budget, which pauses the whole job since every call would fail.
+ */
+export async function runBatchJob(project: DevStudioState, job: BatchJob, options: RunBatchOptions = {}): Promise<BatchJob> {
+  const { signal, onProgress } = options;
+  const current: BatchJob = { ...job, results: { ...job.results }, status: 'running', haltReason: undefined, updatedAt: Date.now() };
+  const waitForSlot = createRateLimiter(current.requestsPerMinute);
+  const fanIn = fanInByPath(project.graphData);
+  const save = () => PersistenceService.saveBatchJob(current).catch(() => {});
+
+  await save();
+  onProgress?.({ ...current });
+
+  await mapWithConcurrency(pendingItems(current), Math.max(1, current.concurrency), async (item) => {
+    if (signal?.aborted || current.haltReason) return;
+    let result: BatchItemResult;
+    try {
+      await waitForSlot(signal);
+      result = await runItem(project, item, fanIn, signal);
+    } catch (error) {
+      if (isAbortError(error) || signal?.aborted) return;
+      if (error instanceof BudgetExceededError) {
+        current.haltReason = interpretError(error).message;
+        return;
+      }
+      result = { ...item, status: 'failed', error: interpretError(error).message, finishedAt: Date.now() };
+    }
+    // Nothing is written once paused, so a discarded job stays discarded
+    if (signal?.aborted) return;
+    current.results[itemKey(item.tool, item.path)] = result;
+    current.updatedAt = Date.now();
+    await save();
+    onProgress?.({ ...current });
+  });
+
+  current.status = signal?.aborted || current.haltReason ? 'paused' : 'completed';
+  current.updatedAt = Date.now();
+  if (!signal?.aborted) await save();
+  return { ...current };
+}
@@ -0,0 +1,167 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { RepoFileTree } from '../types';
+import { cachedFetch, createCacheKey, deduplicatedFetch } from './cache';
+import { RepoSpec, RepoRefs, RepoTreeResult, FetchTreeOptions, isAnalyzableFile, throwForStatus, encodeRef } from './githubService';
+import type { RepoSource } from './repoSource';
+
+const CACHE_TTL = 5 * 60 * 1000; // 5 minutes
+const API_BASE = 'https://api.bitbucket.org/2.0/repositories';
+/** Directory depth requested from the recursive src listing. */
+const MAX_TREE_DEPTH = 30;
+/** 100 entries per page; larger trees are cut off with a warning. */
+const MAX_TREE_PAGES = 100;
+
+let userProvidedBitbucketToken: string | null = null;
+
+/**
+ * Accepts a repository/workspace access token, or `username:app_password`
+ * for app passwords.
+ */
+export function setUserBitbucketToken(token: string | null) {
+  userProvidedBitbucketToken = token;
+}
+
+function getBitbucketHeaders(): HeadersInit {
+  const headers: HeadersInit = {};
+  if (userProvidedBitbucketToken) {
+    headers['Authorization'] = userProvidedBitbucketToken.includes(':')
+      ? `Basic ${btoa(userProvidedBitbucketToken)}`
+      : `Bearer ${userProvidedBitbucketToken}`;
+  }
+  return headers;
+}
+
+const repoUrl = (owner: string, repo: string) => `${API_BASE}/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`;
+
+async function getJson(url: string, what: string, signal?: AbortSignal) {
+  const response = await fetch(url, { headers: getBitbucketHeaders(), signal });
+  if (!response.ok) throwForStatus(response, what, 'Bitbucket');
+  return response.json();
+}
+
+async function fetchDefaultBranch(owner: string, repo: string): Promise<string> {
+  const cacheKey = createCacheKey('bitbucket-default-branch', owner, repo);
+  return deduplicatedFetch(cacheKey, () =>
+    cachedFetch(cacheKey, async () => {
+      const data = await getJson(repoUrl(owner, repo), 'Repository');
+      return data.mainbranch?.name as string;
+    }, CACHE_TTL)
+  );
+}
+
+async function listRefs(owner: string, repo: string): Promise<RepoRefs> {
+  const cacheKey = createCacheKey('bitbucket-refs', owner, repo);
+  return deduplicatedFetch(cacheKey, () =>
+    cachedFetch(cacheKey, async () => {
+      const [defaultBranch, branchesData, tagsData] = await Promise.all([
+        fetchDefaultBranch(owner, repo),
+        getJson(`${repoUrl(owner, repo)}/refs/branches?pagelen=100`, 'Branches'),
+        getJson(`${repoUrl(owner, repo)}/refs/tags?pagelen=100`, 'Tags'),
+      ]);
+      const branches: string[] = (branchesData.values || []).map((b: any) => b.name);
+      const tags: string[] = (tagsData.values || []).map((t: any) => t.name);
+      branches.sort((a, b) => (a === defaultBranch ? -1 : b === defaultBranch ? 1 : a.localeCompare(b)));
+      return { defaultBranch, branches, tags };
+    }, CACHE_TTL)
+  );
+}
+
+/**
+ * Resolves a branch, tag or short SHA to a full commit hash. The src
+ * endpoints cannot address branch names containing slashes directly.
+ */
+async function resolveCommit(owner: string, repo: string, ref: string): Promise<string> {
+  if (/^[0-9a-f]{40}$/i.test(ref)) return ref;
+  const cacheKey = createCacheKey('bitbucket-commit', owner, repo, ref);
+  return deduplicatedFetch(cacheKey, () =>
+    cachedFetch(cacheKey, async () => {
+      try {
+        const data = await getJson(`${repoUrl(owner, repo)}/commit/${encodeURIComponent(ref)}`, `Ref "${ref}"`);
+        return data.hash as string;
+      } catch (error: any) {
+        if (error?.message?.includes('not found')) {
+          throw new Error(`Ref "${ref}" not found in ${owner}/${repo}. Check the branch, tag or commit SHA.`);
+        }
+        throw error;
+      }
+    }, CACHE_TTL)
+  );
+}
+
+async function fetchTree(owner: string, repo: string, ref?: string, subdir?: string, options: FetchTreeOptions = {}): Promise<RepoTreeResult> {
+  const resolvedRef = ref || await fetchDefaultBranch(owner, repo);
+  const cleanSubdir = subdir ? subdir.replace(/\/+$/, '') : '';
+  const cacheKey = createCacheKey('bitbucket-tree', owner, repo, resolvedRef, cleanSubdir);
+
+  return deduplicatedFetch(cacheKey, () =>
+    cachedFetch(cacheKey, async () => {
+      const commit = await resolveCommit(owner, repo, resolvedRef);
+      let url: string | null = `${repoUrl(owner, repo)}/src/${commit}/${cleanSubdir ? `${encodeRef(cleanSubdir)}/` : ''}?max_depth=${MAX_TREE_DEPTH}&pagelen=100`;
+      const files: RepoFileTree[] = [];
+      let pages = 0;
+
+      while (url && pages < MAX_TREE_PAGES) {
+        const data = await getJson(url, 'Repository', options.signal);
+        (data.values || [])
+          .filter((item: any) => item.type === 'commit_file' && isAnalyzableFile(item.path))
+          .forEach((item: any) => files.push({ path: item.path, type: 'blob' }));
+        pages++;
+        options.onProgress?.({ scannedDirs: pages, queuedDirs: 0, files: files.length });
+        url = data.next || null;
+      }
+      return {
+        files: files.sort((a, b) => a.path.localeCompare(b.path)),
+        truncation: url ? { recovered: 0, skippedDirs: [], pageLimit: MAX_TREE_PAGES } : undefined,
+      };
+    }, CACHE_TTL)
+  );
+}
+
+async function fetchFileContent(owner: string, repo: string, path: string, ref?: string): Promise<string | null> {
+  try {
+    const commit = await resolveCommit(owner, repo, ref || await fetchDefaultBranch(owner, repo));
+    const response = await fetch(`${repoUrl(owner, repo)}/src/${commit}/${encodeRef(path)}`, { headers: getBitbucketHeaders() });
+    if (response.ok) {
+      return await response.text();
+    }
+  } catch (error) {
+    console.warn(`Failed to fetch ${path}:`, error);
+  }
+  return null;
+}
+
+/**
+ * Parses `bitbucket.org/<workspace>/<repo>/src/<ref>/<path>` and
+ * `/commits/<sha>` URLs.
+ */
+function parseUrl(url: URL): RepoSpec | null {
+  const parts = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+  if (parts.length < 2) return null;
+  const spec: RepoSpec = { owner: parts[0], repo: parts[1].replace(/\.git$/, '') };
+  const [kind, ref, ...rest] = parts.slice(2);
+  if (kind === 'src' && ref) {
+    spec.ref = ref;
+    // /src/ addresses files and folders alike; a last segment with an extension is taken to be a file
+    const subdir = /\.\w+$/.test(rest[rest.length - 1] || '') ? rest.slice(0, -1) : rest;
+    if (subdir.length > 0) spec.subdir = subdir.join('/');
+  } else if ((kind === 'commits' || kind === 'branch') && ref) {
+    spec.ref = [ref, ...rest].join('/');
+  }
+  return spec;
+}
+
+export const bitbucketSource: RepoSource = {
+  host: 'bitbucket',
+  label: 'Bitbucket',
+  matchesHost: (hostname) => hostname === 'bitbucket.org' || hostname === 'www.bitbucket.org',
+  parseUrl,
+  treeUrl: ({ owner, repo, ref, subdir }) => `https://bitbucket.org/${owner}/${repo}/src/${ref}/${subdir ? `${subdir}/` : ''}`,
+  fetchDefaultBranch,
+  listRefs,
+  fetchTree,
+  fetchFileContent,
+  isAuthenticated: () => !!userProvidedBitbucketToken,
+};
@@ -3,6 +3,11 @@
  * Reduces API calls and improves response times
  */
 
+import type { AIProvider, AIRequest, AIJsonRequest, AIUsage } from './aiProvider';
+import { AICacheEntry } from '../types';
+import { PersistenceService } from './persistence';
+import { hashString } from '../utils/hash';
+
 interface CacheEntry<T> {
   data: T;
   timestamp: number;
@@ -142,3 +147,405 @@ export async function withExponentialBackoff<T>(
 
   throw new Error('Max retries exceeded');
 }
+
+// ==================== AI Response Cache ====================
+
+type CacheMethod = AICacheEntry['method'];
+
+/** Upper bounds for each tier; least recently used entries are evicted first. */
+const MEMORY_LIMIT_BYTES = 16 * 1024 * 1024;
+const DISK_LIMIT_BYTES = 100 * 1024 * 1024;
+
+/** Search-grounded answers go stale quickly; everything else is kept for a week. */
+export const RESPONSE_CACHE_TTL_MS: Record<CacheMethod, number> = {
+  text: 7 * 24 * 60 * 60 * 1000,
+  json: 7 * 24 * 60 * 60 * 1000,
+  image: 7 * 24 * 60 * 60 * 1000,
+  search: 6 * 60 * 60 * 1000,
+};
+
+const CACHE_STATS_KEY = 'ai_cache_stats';
+
+/**
+ * Cumulative hit counters. `saved` holds the tokens that cache hits avoided
+ * re-sending, per model, so the usage panel can price them.
+ */
+export interface ResponseCacheStats {
+  memoryHits: number;
+  diskHits: number;
+  misses: number;
+  saved: Record<string, { inputTokens: number; outputTokens: number }>;
+  since: number;
+}
+
+export interface ResponseCacheSummary extends ResponseCacheStats {
+  entries: number;
+  bytes: number;
+  memoryEntries: number;
+  memoryBytes: number;
+}
+
+/**
+ * In-memory LRU bounded by total payload size rather than entry count, so a
+ * few large images cannot crowd out hundreds of small text answers.
+ */
+class ByteLruCache {
+  private entries: Map<string, AICacheEntry> = new Map();
+  private totalBytes = 0;
+
+  constructor(private maxBytes: number) {}
+
+  get(key: string): AICacheEntry | null {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+    if (entry.expiresAt <= Date.now()) {
+      this.delete(key);
+      return null;
+    }
+    // Re-insert to mark as most recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  set(entry: AICacheEntry): void {
+    if (entry.bytes > this.maxBytes) return;
+    this.delete(entry.key);
+    this.entries.set(entry.key, entry);
+    this.totalBytes += entry.bytes;
+    while (this.totalBytes > this.maxBytes) {
+      const oldestKey = this.entries.keys().next().value;
+      if (!oldestKey) break;
+      this.delete(oldestKey);
+    }
+  }
+
+  delete(key: string): void {
+    const entry = this.entries.get(key);
+    if (!entry) return;
+    this.totalBytes -= entry.bytes;
+    this.entries.delete(key);
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.totalBytes = 0;
+  }
+
+  size(): number {
+    return this.entries.size;
+  }
+
+  bytes(): number {
+    return this.totalBytes;
+  }
+}
+
+const memoryTier = new ByteLruCache(MEMORY_LIMIT_BYTES);
+
+interface DiskIndexEntry {
+  bytes: number;
+  lastAccessed: number;
+  expiresAt: number;
+}
+
+// Metadata for the IndexedDB tier, loaded once so eviction never rereads payloads
+let diskIndex: Promise<Map<string, DiskIndexEntry>> | null = null;
+let cachingEnabled = true;
+let stats: ResponseCacheStats | null = null;
+
+export function setResponseCaching(enabled: boolean) {
+  cachingEnabled = enabled;
+}
+
+export function isResponseCachingEnabled(): boolean {
+  return cachingEnabled;
+}
+
+const loadDiskIndex = (): Promise<Map<string, DiskIndexEntry>> => {
+  if (!diskIndex) {
+    diskIndex = PersistenceService.getAiCacheIndex()
+      .then(entries => new Map(entries.map(e => [e.key, { bytes: e.bytes, lastAccessed: e.lastAccessed, expiresAt: e.expiresAt }])))
+      .catch(e => {
+        console.warn('Failed to load AI cache index', e);
+        return new Map<string, DiskIndexEntry>();
+      });
+  }
+  return diskIndex;
+};
+
+const emptyStats = (): ResponseCacheStats => ({ memoryHits: 0, diskHits: 0, misses: 0, saved: {}, since: Date.now() });
+
+const loadStats = async (): Promise<ResponseCacheStats> => {
+  if (!stats) {
+    const stored = await PersistenceService.getUserPreference<ResponseCacheStats>(CACHE_STATS_KEY).catch(() => null);
+    stats = stats || stored || emptyStats();
+  }
+  return stats;
+};
+
+const persistStats = debounce(() => {
+  if (stats) {
+    PersistenceService.saveUserPreference(CACHE_STATS_KEY, stats).catch(e => console.warn('Failed to save AI cache stats', e));
+  }
+}, 1000);
+
+const recordLookup = async (outcome: 'memory' | 'disk' | 'miss', entry?: AICacheEntry) => {
+  const current = await loadStats();
+  if (outcome === 'miss') {
+    current.misses += 1;
+  } else {
+    if (outcome === 'memory') current.memoryHits += 1;
+    else current.diskHits += 1;
+    if (entry) {
+      const saved = current.saved[entry.model] || { inputTokens: 0, outputTokens: 0 };
+      current.saved[entry.model] = {
+        inputTokens: saved.inputTokens + entry.inputTokens,
+        outputTokens: saved.outputTokens + entry.outputTokens,
+      };
+    }
+  }
+  persistStats();
+};
+
+/**
+ * Evicts expired entries, then least recently used ones until the IndexedDB
+ * tier is back under its byte limit.
+ */
+const evictDisk = async (index: Map<string, DiskIndexEntry>) => {
+  const now = Date.now();
+  const doomed: string[] = [];
+  let total = 0;
+  index.forEach((meta, key) => {
+    if (meta.expiresAt <= now) doomed.push(key);
+    else total += meta.bytes;
+  });
+  if (total > DISK_LIMIT_BYTES) {
+    const byAge = Array.from(index.entries())
+      .filter(([key]) => !doomed.includes(key))
+      .sort((a, b) => a[1].lastAccessed - b[1].lastAccessed);
+    for (const [key, meta] of byAge) {
+      if (total <= DISK_LIMIT_BYTES) break;
+      doomed.push(key);
+      total -= meta.bytes;
+    }
+  }
+  if (doomed.length === 0) return;
+  doomed.forEach(key => index.delete(key));
+  await PersistenceService.deleteAiCacheEntries(doomed);
+};
+
+// Memory hits touch their disk copy too, batched so a busy session doesn't rewrite payloads per hit
+const touchedEntries = new Map<string, AICacheEntry>();
+
+const persistTouches = debounce(() => {
+  const entries = Array.from(touchedEntries.values());
+  touchedEntries.clear();
+  entries.forEach(entry => PersistenceService.putAiCacheEntry(entry).catch(e => console.warn('Failed to update AI cache entry', e)));
+}, 1000);
+
+/**
+ * Looks a response up in memory, then IndexedDB. Disk hits are promoted to
+ * the memory tier. Either kind of hit refreshes the entry's recency on disk,
+ * which is what LRU eviction goes by.
+ */
+async function readCache(key: string): Promise<AICacheEntry | null> {
+  const now = Date.now();
+  const inMemory = memoryTier.get(key);
+  if (inMemory) {
+    inMemory.lastAccessed = now;
+    inMemory.hits += 1;
+    const meta = diskIndex ? (await diskIndex).get(key) : undefined;
+    if (meta) {
+      meta.lastAccessed = now;
+      touchedEntries.set(key, inMemory);
+      persistTouches();
+    }
+    recordLookup('memory', inMemory);
+    return inMemory;
+  }
+
+  const index = await loadDiskIndex();
+  const meta = index.get(key);
+  const stored = meta && meta.expiresAt > now ? await PersistenceService.getAiCacheEntry(key).catch(() => null) : null;
+  if (!stored || stored.expiresAt <= now) {
+    if (meta) {
+      index.delete(key);
+      PersistenceService.deleteAiCacheEntries([key]).catch(() => {});
+    }
+    recordLookup('miss');
+    return null;
+  }
+
+  const entry = { ...stored, lastAccessed: now, hits: stored.hits + 1 };
+  index.set(key, { bytes: entry.bytes, lastAccessed: now, expiresAt: entry.expiresAt });
+  memoryTier.set(entry);
+  PersistenceService.putAiCacheEntry(entry).catch(e => console.warn('Failed to update AI cache entry', e));
+  recordLookup('disk', entry);
+  return entry;
+}
+
+function evictCached(key: string) {
+  memoryTier.delete(key);
+  touchedEntries.delete(key);
+  diskIndex?.then(index => index.delete(key));
+  PersistenceService.deleteAiCacheEntries([key]).catch(() => {});
+}
+
+async function writeCache(entry: AICacheEntry) {
+  touchedEntries.delete(entry.key);
+  memoryTier.set(entry);
+  const index = await loadDiskIndex();
+  await PersistenceService.putAiCacheEntry(entry);
+  index.set(entry.key, { bytes: entry.bytes, lastAccessed: entry.lastAccessed, expiresAt: entry.expiresAt });
+  await evictDisk(index);
+}
+
+/**
+ * Derives the cache key from everything that shapes the response: provider,
+ * model tier, prompt version and the full request inputs. Inline image data is
+ * hashed separately to keep the key material small.
+ */
+export function responseCacheKey(providerId: string, method: CacheMethod, request: AIJsonRequest): string {
+  const material = [
+    providerId,
+    request.tier || 'pro',
+    request.promptVersion || '',
+    request.systemInstruction || '',
+    request.schema ? JSON.stringify(request.schema) : '',
+    ...request.parts.map(p => p.inlineData
+      ? `${p.inlineData.mimeType}:${p.inlineData.data.length}:${hashString(p.inlineData.data)}`
+      : p.text || ''
+    ),
+  ].join('␞');
+  return `${method}:${hashString(material)}:${hashString(material, 1)}`;
+}
+
+/**
+ * Hit counters plus current size of both tiers.
+ */
+export async function getResponseCacheSummary(): Promise<ResponseCacheSummary> {
+  const [current, index] = await Promise.all([loadStats(), loadDiskIndex()]);
+  let bytes = 0;
+  index.forEach(meta => { bytes += meta.bytes; });
+  return {
+    ...current,
+    entries: index.size,
+    bytes,
+    memoryEntries: memoryTier.size(),
+    memoryBytes: memoryTier.bytes(),
+  };
+}
+
+export async function clearResponseCache() {
+  memoryTier.clear();
+  touchedEntries.clear();
+  diskIndex = Promise.resolve(new Map());
+  stats = emptyStats();
+  await Promise.all([
+    PersistenceService.clearAiCache(),
+    PersistenceService.saveUserPreference(CACHE_STATS_KEY, stats),
+  ]);
+}
+
+/**
+ * Wraps a provider so identical requests are served from the two-tier cache.
+ * Hits replay through `onDelta` as a single chunk and never reach the inner
+ * provider, so they are neither metered nor budget-checked. Set
+ * `forceRefresh` on a request to skip the lookup and overwrite the entry.
+ */
+export function withResponseCache(inner: AIProvider): AIProvider {
+  const run = async <R extends AIJsonRequest, T>(
+    method: CacheMethod,
+    request: R,
+    call: (req: R) => Promise<T>,
+    fromEntry: (entry: AICacheEntry) => T | null,
+    toEntry: (result: T) => Pick<AICacheEntry, 'text' | 'imageData' | 'citations'> | null
+  ): Promise<T> => {
+    if (!cachingEnabled) return call(request);
+
+    const key = responseCacheKey(inner.id, method, request);
+    if (!request.forceRefresh) {
+      const cached = await readCache(key).catch(() => null);
+      const result = cached ? fromEntry(cached) : null;
+      if (cached && result !== null) {
+        if (cached.text !== undefined) request.onDelta?.(cached.text, cached.text);
+        return result;
+      }
+      // Stored before its request could tell it was unusable
+      if (cached) evictCached(key);
+    }
+
+    const usage: AIUsage = { model: '', inputTokens: 0, outputTokens: 0 };
+    const result = await call({
+      ...request,
+      onUsage: (u: AIUsage) => {
+        usage.model = u.model;
+        usage.inputTokens += u.inputTokens;
+        usage.outputTokens += u.outputTokens;
+        request.onUsage?.(u);
+      },
+    });
+
+    const payload = toEntry(result);
+    if (payload) {
+      const now = Date.now();
+      writeCache({
+        key,
+        method,
+        ...payload,
+        model: usage.model || inner.modelFor(method, request.tier),
+        inputTokens: usage.inputTokens,
+        outputTokens: usage.outputTokens,
+        bytes: (payload.text?.length || 0) + (payload.imageData?.length || 0) + JSON.stringify(payload.citations || []).length,
+        createdAt: now,
+        expiresAt: now + RESPONSE_CACHE_TTL_MS[method],
+        lastAccessed: now,
+        hits: 0,
+      }).catch(e => console.warn('Failed to cache AI response', e));
+    }
+    return result;
+  };
+
+  // Empty responses are never cached so a retry can still succeed
+  const textEntry = (text: string) => (text ? { text } : null);
+
+  // JSON that fails the caller's check (e.g. a schema) is neither cached nor replayed
+  const jsonEntry = (request: AIJsonRequest) => (text: string) =>
+    !request.isValid || request.isValid(text) ? textEntry(text) : null;
+  const jsonFromEntry = (request: AIJsonRequest) => (entry: AICacheEntry) => {
+    const text = entry.text ?? '';
+    return !request.isValid || request.isValid(text) ? text : null;
+  };
+
+  return {
+    id: inner.id,
+    label: inner.label,
+    modelFor: (method, tier) => inner.modelFor(method, tier),
+
+    generateText(request: AIRequest) {
+      return run('text', request, r => inner.generateText(r), e => e.text ?? '', textEntry);
+    },
+
+    generateJson(request: AIJsonRequest) {
+      return run('json', request, r => inner.generateJson(r), jsonFromEntry(request), jsonEntry(request));
+    },
+
+    generateImage(request: AIRequest) {
+      return run('image', request, r => inner.generateImage(r), e => e.imageData ?? null, imageData => (imageData ? { imageData } : null));
+    },
+
+    generateWithSearch(request: AIRequest) {
+      return run(
+        'search',
+        request,
+        r => inner.generateWithSearch(r),
+        e => ({ text: e.text ?? '', citations: e.citations ?? [] }),
+        result => (result.text ? { text: result.text, citations: result.citations } : null)
+      );
+    },
+
+    // Embeddings bypass the cache; the repository index persists them itself
+    embedTexts: inner.embedTexts && (request => inner.embedTexts!(request)),
+  };
+}
@@ -0,0 +1,253 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { DataFlowGraph, RepoFileTree } from '../types';
+import { AIProviderId, ModelTier, getActiveProviderId } from './aiProvider';
+
+/** Model slot a context is being packed for. Image models get their own, smaller budget. */
+export type ContextModel = ModelTier | 'image';
+
+export type ContextBudgets = Partial<Record<AIProviderId, Partial<Record<ContextModel, number>>>>;
+
+/**
+ * Default token budgets for repository context (file tree plus file contents)
+ * per provider and model slot. These cap prompt size, not the model's window.
+ */
+export const DEFAULT_CONTEXT_BUDGETS: Record<AIProviderId, Record<ContextModel, number>> = {
+  gemini: { pro: 24000, flash: 12000, image: 3000 },
+  openai: { pro: 16000, flash: 8000, image: 2000 },
+  anthropic: { pro: 16000, flash: 8000, image: 2000 },
+  fixture: { pro: 24000, flash: 12000, image: 3000 },
+};
+
+/** Rough characters-per-token ratio; good enough for budgeting prompts. */
+const CHARS_PER_TOKEN = 4;
+
+let budgetOverrides: ContextBudgets = {};
+
+export function setContextBudgets(overrides: ContextBudgets) {
+  budgetOverrides = overrides || {};
+}
+
+export const getContextBudget = (model: ContextModel = 'pro', provider: AIProviderId = getActiveProviderId()): number =>
+  budgetOverrides[provider]?.[model] ?? DEFAULT_CONTEXT_BUDGETS[provider][model];
+
+export const estimateTokens = (text: string): number => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+// ==================== File Ranking ====================
+
+const MANIFESTS = new Set([
+  'package.json', 'tsconfig.json', 'requirements.txt', 'pyproject.toml', 'setup.py', 'pipfile',
+  'cargo.toml', 'go.mod', 'pom.xml', 'build.gradle', 'build.gradle.kts', 'composer.json', 'gemfile',
+  'dockerfile', 'docker-compose.yml', 'docker-compose.yaml', 'makefile', 'deno.json', 'pnpm-workspace.yaml',
+  'lerna.json', 'nx.json', 'turbo.json',
+]);
+
+const ENTRY_BASENAMES = new Set(['index', 'main', 'app', 'server', 'cli', '__main__', '__init__', 'lib', 'mod', 'program', 'startup']);
+
+const CONFIG_PATTERN = /^(vite|webpack|rollup|next|nuxt|svelte|astro|tailwind|babel|jest|vitest|eslint)\.config\.[a-z]+$/;
+const SHARED_MODULE_PATTERN = /(^|\/)(utils?|helpers?|lib|common|shared|core|types?|constants?|config|api|services?|hooks|store|models?)(\/|\.|$)/i;
+const LOW_VALUE_PATTERN = /(^|\/)(__tests__|tests?|spec|fixtures?|mocks?|__mocks__|examples?|vendor|third_party|dist|build|coverage|generated|migrations)(\/|$)|\.(test|spec|stories|d)\.[a-z]+$|\.min\.[a-z]+$|(^|\/)(package-lock\.json|yarn\.lock|pnpm-lock\.yaml|cargo\.lock|go\.sum|poetry\.lock)$/i;
+
+/**
+ * Scores a path by how much it tells a model about the project. Manifests,
+ * READMEs and entry points rank highest, shallow and widely-imported modules
+ * next, tests and generated files last.
+ */
+export const scoreFile = (path: string, fanIn: number = 0): number => {
+  const lower = path.toLowerCase();
+  const segments = lower.split('/');
+  const name = segments[segments.length - 1];
+  const base = name.replace(/\.[^.]+$/, '');
+  const depth = segments.length - 1;
+
+  let score = 0;
+  if (MANIFESTS.has(name)) score += depth === 0 ? 100 : 60;
+  if (/^readme(\.|$)/.test(name)) score += depth === 0 ? 90 : 40;
+  if (CONFIG_PATTERN.test(name)) score += 30;
+  if (ENTRY_BASENAMES.has(base)) score += 50;
+  if (/(^|\/)cmd\/[^/]+\/main\.go$/.test(lower)) score += 40;
+  if (SHARED_MODULE_PATTERN.test(lower)) score += 15;
+  if (LOW_VALUE_PATTERN.test(lower)) score -= 60;
+  score += Math.min(fanIn, 20) * 5;
+  score -= depth * 4;
+  return score;
+};
+
+// ==================== File Tree Packing ====================
+
+/**
+ * Number of distinct repository files importing each file of a dependency
+ * graph, keyed by path, for ranking with `PackOptions.fanIn`.
+ */
+export function fanInByPath(graph: DataFlowGraph): Record<string, number> {
+  const pathOf = new Map(graph.nodes.filter(node => node.type === 'file' && node.path).map(node => [node.id, node.path!]));
+  const importers = new Map<string, Set<string>>();
+  graph.links.forEach(link => {
+    const source = typeof link.source === 'string' ? link.source : link.source.id;
+    const target = pathOf.get(typeof link.target === 'string' ? link.target : link.target.id);
+    if (!target || !pathOf.has(source) || pathOf.get(source) === target) return;
+    if (!importers.has(target)) importers.set(target, new Set());
+    importers.get(target)!.add(source);
+  });
+  return Object.fromEntries(Array.from(importers, ([path, sources]) => [path, sources.size]));
+}
+
+export interface PackOptions {
+  /** Imports-per-file counts, when an import graph is available. */
+  fanIn?: Record<string, number>;
+  /** Share of the budget reserved for directory summaries. Defaults to 0.25. */
+  summaryShare?: number;
+}
+
+export interface PackedContext {
+  text: string;
+  tokens: number;
+  includedFiles: number;
+  totalFiles: number;
+}
+
+interface DirStats {
+  path: string;
+  depth: number;
+  fileCount: number;
+  extensions: Record<string, number>;
+}
+
+const collectDirectories = (paths: string[]): DirStats[] => {
+  const dirs = new Map<string, DirStats>();
+  paths.forEach(path => {
+    const segments = path.split('/');
+    const ext = segments[segments.length - 1].includes('.') ? segments[segments.length - 1].split('.').pop()! : '(none)';
+    for (let i = 1; i < segments.length; i++) {
+      const dir = segments.slice(0, i).join('/');
+      let stats = dirs.get(dir);
+      if (!stats) {
+        stats = { path: dir, depth: i - 1, fileCount: 0, extensions: {} };
+        dirs.set(dir, stats);
+      }
+      stats.fileCount += 1;
+      stats.extensions[ext] = (stats.extensions[ext] || 0) + 1;
+    }
+  });
+  return Array.from(dirs.values());
+};
+
+const describeDirectory = (dir: DirStats): string => {
+  const topExtensions = Object.entries(dir.extensions)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 3)
+    .map(([ext, count]) => `.${ext} ${count}`)
+    .join(', ');
+  return `${'  '.repeat(dir.depth)}${dir.path}/ (${dir.fileCount} files: ${topExtensions})`;
+};
+
+/**
+ * Packs a repository file tree into a token budget. Directories are summarized
+ * breadth-first (top-level first) so every part of a large monorepo is
+ * represented, then the highest-ranked individual files fill the remainder.
+ */
+export function packFileTree(fileTree: RepoFileTree[], budgetTokens: number, options: PackOptions = {}): PackedContext {
+  const paths = fileTree.map(f => f.path);
+  const allPaths = paths.join('\n');
+
+  // Small repos fit as-is
+  if (estimateTokens(allPaths) <= budgetTokens) {
+    return { text: allPaths, tokens: estimateTokens(allPaths), includedFiles: paths.length, totalFiles: paths.length };
+  }
+
+  const summaryBudget = Math.floor(budgetTokens * (options.summaryShare ?? 0.25));
+  const dirs = collectDirectories(paths).sort((a, b) => a.depth - b.depth || b.fileCount - a.fileCount);
+
+  const summarized = new Set<string>();
+  let summaryTokens = 0;
+  for (const dir of dirs) {
+    // A directory is only worth a line if its parent is already summarized
+    const parent = dir.path.includes('/') ? dir.path.slice(0, dir.path.lastIndexOf('/')) : null;
+    if (parent && !summarized.has(parent)) continue;
+    const cost = estimateTokens(describeDirectory(dir)) + 1;
+    if (summaryTokens + cost > summaryBudget) break;
+    summarized.add(dir.path);
+    summaryTokens += cost;
+  }
+
+  const fileBudget = budgetTokens - summaryTokens;
+  const ranked = [...paths].sort((a, b) => scoreFile(b, options.fanIn?.[b]) - scoreFile(a, options.fanIn?.[a]));
+  const included: string[] = [];
+  let fileTokens = 0;
+  for (const path of ranked) {
+    const cost = estimateTokens(path) + 1;
+    if (fileTokens + cost > fileBudget) continue;
+    included.push(path);
+    fileTokens += cost;
+  }
+
+  const summaryLines = dirs
+    .filter(d => summarized.has(d.path))
+    .sort((a, b) => a.path.localeCompare(b.path))
+    .map(describeDirectory);
+
+  const text = [
+    `Directory overview (${paths.length} files total):`,
+    ...summaryLines,
+    '',
+    `Key files (${included.length} of ${paths.length}, ranked by importance):`,
+    ...included.sort(),
+  ].join('\n');
+
+  return { text, tokens: estimateTokens(text), includedFiles: included.length, totalFiles: paths.length };
+}
+
+// ==================== File Content Packing ====================
+
+const DECLARATION_PATTERN = /^\s*(export\s|import\s|from\s|(async\s+)?function\s|class\s|interface\s|type\s|enum\s|const\s+\w+\s*=\s*(async\s*)?\(|def\s|async\s+def\s|func\s|fn\s|pub\s|impl\s|struct\s|trait\s|module\.exports|@\w+)/;
+
+/**
+ * Fits file content into a token budget. Oversized files keep their head and
+ * tail plus every declaration line (imports, exports, functions, classes) with
+ * a little surrounding context, with elided ranges marked by line number.
+ */
+export function packFileContent(content: string, budgetTokens: number): string {
+  if (estimateTokens(content) <= budgetTokens) return content;
+
+  const lines = content.split('\n');
+  const keep = new Array<boolean>(lines.length).fill(false);
+  const budgetChars = budgetTokens * CHARS_PER_TOKEN;
+  let used = 0;
+
+  const take = (index: number) => {
+    if (index < 0 || index >= lines.length || keep[index]) return true;
+    const cost = lines[index].length + 1;
+    if (used + cost > budgetChars) return false;
+    keep[index] = true;
+    used += cost;
+    return true;
+  };
+
+  // Head and tail first, then declarations in file order
+  const headChars = budgetChars * 0.2;
+  for (let i = 0; i < lines.length && used < headChars; i++) take(i);
+  const tailStart = used;
+  for (let i = lines.length - 1; i >= 0 && used - tailStart < budgetChars * 0.1; i--) take(i);
+
+  for (let i = 0; i < lines.length; i++) {
+    if (!DECLARATION_PATTERN.test(lines[i])) continue;
+    if (!take(i)) break;
+    take(i + 1);
+    take(i + 2);
+  }
+
+  const output: string[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    if (keep[i]) {
+      output.push(lines[i]);
+      continue;
+    }
+    const start = i;
+    while (i + 1 < lines.length && !keep[i + 1]) i++;
+    output.push(`// ... [lines ${start + 1}-${i + 1} omitted] ...`);
+  }
+  return output.join('\n');
+}
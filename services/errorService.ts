@@ -4,6 +4,10 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
+import { StructuredOutputError } from './structuredOutput';
+import { isAbortError } from './aiProvider';
+import { BudgetExceededError } from './usageService';
+
 export interface AppError {
   title: string;
   message: string;
@@ -19,6 +23,33 @@ export const logError = (error: any, context: string = 'App') => {
 };
 
 export const interpretError = (error: any): AppError => {
+  if (isAbortError(error)) {
+    return {
+      title: 'Cancelled',
+      message: 'The operation was cancelled.',
+      code: 'ABORTED',
+      originalError: error
+    };
+  }
+
+  if (error instanceof BudgetExceededError) {
+    return {
+      title: 'Budget Reached',
+      message: `${error.message} Raise the cap in the AI Usage panel to continue.`,
+      code: 'BUDGET_EXCEEDED',
+      originalError: error
+    };
+  }
+
+  if (error instanceof StructuredOutputError) {
+    return {
+      title: 'Unexpected AI Response',
+      message: `The AI returned a ${error.schemaName} response that did not match the expected format, even after ${error.attempts} attempts. Please try again or switch providers in Settings.`,
+      code: 'SCHEMA_INVALID',
+      originalError: error
+    };
+  }
+
   const msg = error instanceof Error ? error.message : String(error);
   
   // Google GenAI Specific Errors
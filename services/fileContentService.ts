@@ -0,0 +1,135 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { DevStudioState, D3Node, RepoFileTree } from '../types';
+import { getRepoSource } from './repoSource';
+import { getProjectKey } from '../utils/projectKey';
+
+/** Files kept in memory across tool runs; the oldest are dropped first. */
+const MAX_CACHED_FILES = 200;
+/** Direct imports sent along with a file as secondary context. */
+export const MAX_CONTEXT_IMPORTS = 5;
+/** Member files of a group node (e.g. an import cycle) sent together. */
+export const MAX_GROUP_FILES = 8;
+
+export interface RelatedFile {
+  path: string;
+  content: string;
+}
+
+/** A file's content plus the repository files it imports directly. */
+export interface SourceContext extends RelatedFile {
+  imports: RelatedFile[];
+  /** For group nodes: the other member files, analyzed as equals of the first. */
+  peers?: RelatedFile[];
+}
+
+type FileReader = (path: string) => Promise<string | null>;
+
+// Local folders and zips can't be re-read from a project record, so the
+// analyzer registers their reader when it opens Dev Studio
+const localReaders = new Map<string, FileReader>();
+const contentCache = new Map<string, Promise<string | null>>();
+
+export function registerLocalReader(project: DevStudioState, readFile: FileReader) {
+  localReaders.set(getProjectKey(project), readFile);
+}
+
+/**
+ * How to read files of a project: the registered local reader, or the
+ * project's git host at its ref. Null for local projects restored after a
+ * reload, whose files are no longer accessible.
+ */
+export function getFileReader(project: DevStudioState): FileReader | null {
+  if (!project.owner) return localReaders.get(getProjectKey(project)) ?? null;
+  const source = getRepoSource(project.host);
+  return (path) => source.fetchFileContent(project.owner!, project.repoName, path, project.ref || undefined);
+}
+
+/**
+ * Repository path of a graph node. Nodes built before paths were recorded
+ * fall back to the only file in the tree with the node's name. Clusters and
+ * other groups of files have no single path.
+ */
+export function resolveNodePath(node: D3Node, fileTree: RepoFileTree[]): string | null {
+  if (node.childNodes || node.type === 'external' || node.type === 'cluster') return null;
+  if (node.path) return fileTree.some(file => file.path === node.path) ? node.path : null;
+  const matches = fileTree.filter(file => file.path === node.label || file.path.endsWith(`/${node.label}`));
+  return matches.length === 1 ? matches[0].path : null;
+}
+
+/** Reads a file once per project and path; failed reads are retried next time. */
+export function loadFileContent(project: DevStudioState, path: string): Promise<string | null> {
+  const reader = getFileReader(project);
+  if (!reader) return Promise.resolve(null);
+  const key = `${getProjectKey(project)}\u0000${path}`;
+  const cached = contentCache.get(key);
+  if (cached) {
+    // Refresh recency
+    contentCache.delete(key);
+    contentCache.set(key, cached);
+    return cached;
+  }
+
+  const pending = reader(path).then(content => {
+    if (content === null) contentCache.delete(key);
+    return content;
+  }, error => {
+    contentCache.delete(key);
+    throw error;
+  });
+  contentCache.set(key, pending);
+  if (contentCache.size > MAX_CACHED_FILES) contentCache.delete(contentCache.keys().next().value!);
+  return pending;
+}
+
+/** Paths of the repository files `node` imports, in link order. */
+export function directImports(project: DevStudioState, node: D3Node): string[] {
+  const nodesById = new Map(project.graphData.nodes.map(n => [n.id, n]));
+  const paths: string[] = [];
+  project.graphData.links.forEach(link => {
+    const source = typeof link.source === 'string' ? link.source : link.source.id;
+    if (source !== node.id) return;
+    const target = nodesById.get(typeof link.target === 'string' ? link.target : link.target.id);
+    if (target?.type === 'file' && target.path && !paths.includes(target.path)) paths.push(target.path);
+  });
+  return paths;
+}
+
+/**
+ * Loads a node's file and up to `maxImports` of the files it imports. Group
+ * nodes other than directory clusters, such as a selected import cycle, load
+ * up to MAX_GROUP_FILES of their members instead. Null when nothing can be
+ * read, or for clusters, which are better served by a batch run.
+ */
+export async function loadSourceContext(
+  project: DevStudioState,
+  node: D3Node,
+  maxImports: number = MAX_CONTEXT_IMPORTS
+): Promise<SourceContext | null> {
+  if (node.childNodes && node.type !== 'cluster') {
+    const paths = node.childNodes
+      .map(member => resolveNodePath(member, project.fileTree))
+      .filter((path): path is string => !!path)
+      .slice(0, MAX_GROUP_FILES);
+    const contents = await Promise.all(paths.map(path => loadFileContent(project, path).catch(() => null)));
+    const [first, ...peers] = paths
+      .map((path, i) => ({ path, content: contents[i] }))
+      .filter((file): file is RelatedFile => file.content !== null);
+    return first ? { ...first, imports: [], peers } : null;
+  }
+
+  const path = resolveNodePath(node, project.fileTree);
+  if (!path) return null;
+  const content = await loadFileContent(project, path);
+  if (content === null) return null;
+
+  const importPaths = directImports(project, node).slice(0, maxImports);
+  const imported = await Promise.all(importPaths.map(p => loadFileContent(project, p).catch(() => null)));
+  const imports = importPaths
+    .map((p, i) => ({ path: p, content: imported[i] }))
+    .filter((file): file is RelatedFile => file.content !== null);
+  return { path, content, imports };
+}
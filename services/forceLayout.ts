@@ -0,0 +1,133 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as d3 from 'd3';
+import { D3Node, D3Link } from '../types';
+
+/**
+ * Force layout for the dependency graph. The simulation runs in a Web Worker
+ * so large graphs don't block the main thread; node positions come back on
+ * every tick and are written onto the D3Node objects. Environments without
+ * workers run the same simulation in place.
+ */
+export interface ForceLayout {
+  /** Pins a node at a position while it is dragged; null coordinates release it. */
+  pin(node: D3Node, x: number | null, y: number | null): void;
+  /** Keeps the simulation warm during a drag, like simulation.alphaTarget(). */
+  setAlphaTarget(value: number): void;
+  stop(): void;
+}
+
+export interface ForceLayoutOptions {
+  width: number;
+  height: number;
+  /** Starting energy; lower values settle an already placed layout. */
+  alpha?: number;
+}
+
+/** Messages sent to the layout worker. */
+export type ForceLayoutRequest =
+  | { type: 'start'; positions: Float64Array; links: Uint32Array; width: number; height: number; alpha: number }
+  | { type: 'pin'; index: number; x: number | null; y: number | null }
+  | { type: 'alphaTarget'; value: number }
+  | { type: 'stop' };
+
+/** Messages sent back by the layout worker: x,y pairs in node order. */
+export type ForceLayoutResponse = { type: 'tick'; positions: Float64Array };
+
+/** Forces shared by the worker and the in-place fallback. */
+export function configureForces(simulation: any, links: { source: any; target: any }[], width: number, height: number) {
+  return simulation
+    .force("link", d3.forceLink(links).distance(150))
+    .force("charge", d3.forceManyBody().strength(-500))
+    .force("center", d3.forceCenter(width / 2, height / 2))
+    .force("x", d3.forceX().strength(0.08))
+    .force("y", d3.forceY().strength(0.08));
+}
+
+/**
+ * Starts laying out `nodes`. Links are resolved to node objects in place,
+ * as d3.forceLink would, so callers can read `link.source.x` while drawing.
+ */
+export function startForceLayout(nodes: D3Node[], links: D3Link[], options: ForceLayoutOptions, onTick: () => void): ForceLayout {
+  const indexById = new Map(nodes.map((node, i) => [node.id, i]));
+  const linkIndexes: number[] = [];
+  links.forEach(link => {
+    const source = indexById.get(typeof link.source === 'string' ? link.source : link.source.id);
+    const target = indexById.get(typeof link.target === 'string' ? link.target : link.target.id);
+    if (source === undefined || target === undefined) return;
+    link.source = nodes[source];
+    link.target = nodes[target];
+    linkIndexes.push(source, target);
+  });
+
+  let worker: Worker | null = null;
+  try {
+    worker = new Worker(new URL('./forceLayout.worker.ts', import.meta.url), { type: 'module' });
+  } catch (e) {
+    console.warn('Web Workers unavailable; running the graph layout on the main thread.', e);
+  }
+  if (!worker) return startInPlace(nodes, linkIndexes, options, onTick);
+
+  worker.onmessage = (event: MessageEvent<ForceLayoutResponse>) => {
+    const { positions } = event.data;
+    nodes.forEach((node, i) => {
+      node.x = positions[i * 2];
+      node.y = positions[i * 2 + 1];
+    });
+    onTick();
+  };
+
+  const positions = new Float64Array(nodes.length * 2);
+  nodes.forEach((node, i) => {
+    positions[i * 2] = node.x ?? NaN;
+    positions[i * 2 + 1] = node.y ?? NaN;
+  });
+  const post = (message: ForceLayoutRequest, transfer: Transferable[] = []) => worker!.postMessage(message, transfer);
+  const linkBuffer = Uint32Array.from(linkIndexes);
+  post({ type: 'start', positions, links: linkBuffer, width: options.width, height: options.height, alpha: options.alpha ?? 1 }, [positions.buffer, linkBuffer.buffer]);
+
+  return {
+    pin: (node, x, y) => {
+      const index = indexById.get(node.id);
+      if (index !== undefined) post({ type: 'pin', index, x, y });
+    },
+    setAlphaTarget: (value) => post({ type: 'alphaTarget', value }),
+    stop: () => {
+      post({ type: 'stop' });
+      worker!.terminate();
+    },
+  };
+}
+
+function startInPlace(nodes: D3Node[], linkIndexes: number[], options: ForceLayoutOptions, onTick: () => void): ForceLayout {
+  const links = [];
+  for (let i = 0; i < linkIndexes.length; i += 2) links.push({ source: linkIndexes[i], target: linkIndexes[i + 1] });
+  // Simulate on copies so forceLink doesn't overwrite the caller's links
+  const simNodes = nodes.map(node => ({ x: node.x, y: node.y }));
+  const simulation = configureForces(d3.forceSimulation(simNodes), links, options.width, options.height)
+    .alpha(options.alpha ?? 1)
+    .on("tick", () => {
+      simNodes.forEach((sim: any, i) => {
+        nodes[i].x = sim.x;
+        nodes[i].y = sim.y;
+      });
+      onTick();
+    });
+
+  return {
+    pin: (node, x, y) => {
+      const sim: any = simNodes[nodes.indexOf(node)];
+      if (!sim) return;
+      sim.fx = x;
+      sim.fy = y;
+    },
+    setAlphaTarget: (value) => {
+      simulation.alphaTarget(value);
+      if (value > 0) simulation.restart();
+    },
+    stop: () => simulation.stop(),
+  };
+}
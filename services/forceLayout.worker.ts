@@ -0,0 +1,65 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as d3 from 'd3';
+import { configureForces, ForceLayoutRequest, ForceLayoutResponse } from './forceLayout';
+
+interface SimNode {
+  x?: number;
+  y?: number;
+  fx?: number | null;
+  fy?: number | null;
+}
+
+let simulation: any = null;
+let nodes: SimNode[] = [];
+
+const postPositions = () => {
+  const positions = new Float64Array(nodes.length * 2);
+  nodes.forEach((node, i) => {
+    positions[i * 2] = node.x!;
+    positions[i * 2 + 1] = node.y!;
+  });
+  const message: ForceLayoutResponse = { type: 'tick', positions };
+  (self as unknown as Worker).postMessage(message, [positions.buffer]);
+};
+
+self.onmessage = (event: MessageEvent<ForceLayoutRequest>) => {
+  const request = event.data;
+  switch (request.type) {
+    case 'start': {
+      simulation?.stop();
+      // NaN marks a node without a previous position; d3 places those itself
+      nodes = Array.from({ length: request.positions.length / 2 }, (_, i) => {
+        const x = request.positions[i * 2];
+        const y = request.positions[i * 2 + 1];
+        return Number.isNaN(x) || Number.isNaN(y) ? {} : { x, y };
+      });
+      const links = [];
+      for (let i = 0; i < request.links.length; i += 2) {
+        links.push({ source: request.links[i], target: request.links[i + 1] });
+      }
+      simulation = configureForces(d3.forceSimulation(nodes), links, request.width, request.height)
+        .alpha(request.alpha)
+        .on('tick', postPositions);
+      break;
+    }
+    case 'pin': {
+      const node = nodes[request.index];
+      if (!node) return;
+      node.fx = request.x;
+      node.fy = request.y;
+      break;
+    }
+    case 'alphaTarget':
+      simulation?.alphaTarget(request.value);
+      if (request.value > 0) simulation?.restart();
+      break;
+    case 'stop':
+      simulation?.stop();
+      simulation = null;
+      break;
+  }
+};
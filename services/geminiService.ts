@@ -4,26 +4,85 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import { GoogleGenAI, Type, Modality } from "@google/genai";
 import { RepoFileTree, Citation, Task, DependencyInfo } from '../types';
-
-let userProvidedGeminiKey: string | null = null;
+import { getAIProvider, setProviderKey, getProviderKey, isAbortError, throwIfAborted, AIStreamHandler } from './aiProvider';
+import { generateStructured, parseStructured } from './structuredOutput';
+import { renderPrompt, getPromptVersion, getPromptVersions, PromptId } from './promptRegistry';
+import { packFileTree, packFileContent, getContextBudget, estimateTokens } from './contextPacker';
+import type { ArchitectureDiff } from '../utils/graphDiff';
+import type { SourceContext } from './fileContentService';
+import type { CodeChunk } from '../utils/codeChunker';
+import {
+  CodeReviewResultSchema,
+  TestGenerationResultSchema,
+  DocumentationResultSchema,
+  GapAnalysisResultSchema,
+  ComponentLibraryResultSchema,
+  ResponsiveResultSchema,
+  DashboardResultSchema,
+  DependencyAnalysisSchema,
+  KeyStatsSchema,
+  SuggestedTasksSchema,
+  CodeReviewResult,
+  TestGenerationResult,
+  DocumentationResult,
+  GapAnalysisResult,
+  ComponentLibraryResult,
+  ResponsiveResult,
+  DashboardResult,
+} from './aiSchemas';
+
+export type {
+  CodeReviewIssue,
+  CodeReviewResult,
+  TestCase,
+  TestGenerationResult,
+  DocumentationResult,
+  GapAnalysisResult,
+  ComponentInfo,
+  ComponentLibraryResult,
+  ResponsiveVariant,
+  ResponsiveResult,
+  DashboardFile,
+  DashboardResult,
+} from './aiSchemas';
 
 export function setUserGeminiKey(key: string | null) {
-  userProvidedGeminiKey = key;
+  setProviderKey('gemini', key);
 }
 
 export function getUserGeminiKey(): string | null {
-  return userProvidedGeminiKey;
+  return getProviderKey('gemini');
 }
 
-const getAiClient = () => {
-  const key = userProvidedGeminiKey || process.env.API_KEY;
-  if (!key) {
-    throw new Error('No Gemini API key configured. Please add your API key in Settings.');
-  }
-  return new GoogleGenAI({ apiKey: key });
-};
+/**
+ * Per-call controls accepted by every generation function.
+ */
+export interface GenerationOptions {
+  /** Cancels in-flight model calls. Aborted calls reject with an AbortError. */
+  signal?: AbortSignal;
+  /** Receives streamed output for callers that render progressively. */
+  onDelta?: AIStreamHandler;
+  /** Bypasses cached responses and regenerates from the model. */
+  forceRefresh?: boolean;
+}
+
+/**
+ * Options of the calls that describe a repository by its file tree.
+ */
+export interface RepoContextOptions extends GenerationOptions {
+  /** Importers per file path (see `fanInByPath`); widely imported files are listed first. */
+  fanIn?: Record<string, number>;
+}
+
+/**
+ * Cancellation and cache controls for calls that do not stream.
+ */
+const requestControls = (options: GenerationOptions, ...promptIds: PromptId[]) => ({
+  signal: options.signal,
+  forceRefresh: options.forceRefresh,
+  promptVersion: getPromptVersions(promptIds),
+});
 
 export interface InfographicResult {
     imageData: string | null;
@@ -45,11 +104,12 @@ export async function generateInfographic(
   fileTree: RepoFileTree[], 
   style: string, 
   is3D: boolean = false,
-  language: string = "English"
+  language: string = "English",
+  options: GenerationOptions = {}
 ): Promise<string | null> {
-  const ai = getAiClient();
+  const ai = getAIProvider('repo-infographic');
   // Summarize architecture for the image prompt
-  const limitedTree = fileTree.slice(0, 150).map(f => f.path).join(', ');
+  const limitedTree = packFileTree(fileTree, getContextBudget('image')).text;
   
   let styleGuidelines = "";
   let dimensionPrompt = "";
@@ -85,51 +145,18 @@ export async function generateInfographic(
       dimensionPrompt = "Perspective: Clean 2D flat diagrammatic view straight-on. No 3D effects.";
   }
 
-  const baseStylePrompt = `
-  STRICT VISUAL STYLE GUIDELINES:
-  ${styleGuidelines}
-  - LAYOUT: Distinct Left-to-Right flow.
-  - CENTRAL CONTAINER: Group core logic inside a clearly defined central area.
-  - ICONS: Use relevant technical icons (databases, servers, code files, users).
-  - TYPOGRAPHY: Highly readable technical font. Text MUST be in ${language}.
-  `;
-
-  const prompt = `Create a highly detailed technical logical data flow diagram infographic for GitHub repository : "${repoName}".
-  
-  ${baseStylePrompt}
-  ${dimensionPrompt}
-  
-  Repository Context: ${limitedTree}...
-  
-  Diagram Content Requirements:
-  1. Title exactly: "${repoName} Data Flow" (Translated to ${language} if not English)
-  2. Visually map the likely data flow based on the provided file structure.
-  3. Ensure the "Input -> Processing -> Output" structure is clear.
-  4. Add short, clear text labels to connecting arrows indicating data type (e.g., "JSON", "Auth Token").
-  5. IMPORTANT: All text labels and explanations in the image must be written in ${language}.
-  `;
+  const prompt = renderPrompt('repo-infographic', {
+    repoName,
+    styleGuidelines,
+    dimensionPrompt,
+    language,
+    fileTree: limitedTree,
+  });
 
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-image-preview',
-      contents: {
-        parts: [{ text: prompt }],
-      },
-      config: {
-        responseModalities: [Modality.IMAGE],
-      },
-    });
-
-    const parts = response.candidates?.[0]?.content?.parts;
-    if (parts) {
-      for (const part of parts) {
-        if (part.inlineData && part.inlineData.data) {
-          return part.inlineData.data;
-        }
-      }
-    }
-    return null;
+    return await ai.generateImage({ parts: [{ text: prompt }], ...requestControls(options, 'repo-infographic') });
   } catch (error: any) {
+    if (isAbortError(error)) throw error;
     console.error("Gemini infographic generation failed:", error);
     
     // Enhanced error handling
@@ -163,9 +190,10 @@ export async function generateInfographic(
 export async function generateDependencyGraph(
   repoName: string,
   dependencies: DependencyInfo[],
-  ecosystem: string
+  ecosystem: string,
+  options: GenerationOptions = {}
 ): Promise<string | null> {
-  const ai = getAiClient();
+  const ai = getAIProvider('dependency-graph');
   
   // Group dependencies by type
   const prodDeps = dependencies.filter(d => d.type === 'production');
@@ -176,59 +204,26 @@ export async function generateDependencyGraph(
   const formatDeps = (deps: DependencyInfo[]) => 
     deps.slice(0, 30).map(d => `${d.name}@${d.version}`).join(', ');
 
-  const prompt = `Create a professional DEPENDENCY TREE VISUALIZATION for the "${repoName}" project.
-
-PACKAGE ECOSYSTEM: ${ecosystem.toUpperCase()} (${ecosystem === 'npm' ? 'Node.js/JavaScript' : ecosystem === 'pip' ? 'Python' : ecosystem === 'cargo' ? 'Rust' : 'Go'})
-
-VISUAL STYLE:
-- Dark mode with deep navy/black background (#0f172a)
-- Modern glassmorphism design with subtle gradients
-- Use a radial tree or hierarchical layout with the project at center
-- Color coding: Green for production deps, Blue for dev deps, Orange for peer deps, Red glow for security alerts
-- Each node should show package name and version badge
-
-PRODUCTION DEPENDENCIES (${prodDeps.length}):
-${formatDeps(prodDeps) || 'None'}
-
-DEVELOPMENT DEPENDENCIES (${devDeps.length}):
-${formatDeps(devDeps) || 'None'}
-
-${peerDeps.length > 0 ? `PEER DEPENDENCIES (${peerDeps.length}):
-${formatDeps(peerDeps)}` : ''}
-
-${criticalDeps.length > 0 ? `SECURITY ALERTS (${criticalDeps.length} packages with known vulnerabilities):
-${criticalDeps.map(d => `${d.name} - ${d.securityAlert?.severity?.toUpperCase()}: ${d.securityAlert?.description}`).join('\n')}` : ''}
-
-LAYOUT REQUIREMENTS:
-1. Project name "${repoName}" prominently at the center or top
-2. Dependencies radiate outward grouped by type
-3. Version numbers displayed as small badges
-4. Clear visual separation between dependency types
-5. Legend showing color meanings
-6. Total dependency count displayed
-7. If security alerts exist, highlight those packages with warning indicators`;
+  const ecosystemName = ecosystem === 'npm' ? 'Node.js/JavaScript' : ecosystem === 'pip' ? 'Python' : ecosystem === 'cargo' ? 'Rust' : 'Go';
+
+  const prompt = renderPrompt('dependency-graph', {
+    repoName,
+    ecosystem: ecosystem.toUpperCase(),
+    ecosystemName,
+    prodCount: prodDeps.length,
+    prodDeps: formatDeps(prodDeps) || 'None',
+    devCount: devDeps.length,
+    devDeps: formatDeps(devDeps) || 'None',
+    peerSection: peerDeps.length > 0 ? `PEER DEPENDENCIES (${peerDeps.length}):\n${formatDeps(peerDeps)}` : '',
+    alertSection: criticalDeps.length > 0
+      ? `SECURITY ALERTS (${criticalDeps.length} packages with known vulnerabilities):\n${criticalDeps.map(d => `${d.name} - ${d.securityAlert?.severity?.toUpperCase()}: ${d.securityAlert?.description}`).join('\n')}`
+      : '',
+  });
 
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-image-preview',
-      contents: {
-        parts: [{ text: prompt }],
-      },
-      config: {
-        responseModalities: [Modality.IMAGE],
-      },
-    });
-
-    const parts = response.candidates?.[0]?.content?.parts;
-    if (parts) {
-      for (const part of parts) {
-        if (part.inlineData && part.inlineData.data) {
-          return part.inlineData.data;
-        }
-      }
-    }
-    return null;
+    return await ai.generateImage({ parts: [{ text: prompt }], ...requestControls(options, 'dependency-graph') });
   } catch (error: any) {
+    if (isAbortError(error)) throw error;
     console.error("Gemini dependency graph generation failed:", error);
     throw new Error("Failed to generate dependency visualization. Please try again.");
   }
@@ -240,74 +235,39 @@ LAYOUT REQUIREMENTS:
  */
 export async function analyzeDependencies(
   dependencies: DependencyInfo[],
-  ecosystem: string
+  ecosystem: string,
+  options: GenerationOptions = {}
 ): Promise<{ analyzed: DependencyInfo[]; summary: string }> {
-  const ai = getAiClient();
+  const ai = getAIProvider('dependency-audit');
   
   const depsString = dependencies.map(d => `${d.name}@${d.version} (${d.type})`).join('\n');
   
-  const prompt = `Analyze these ${ecosystem} dependencies for potential security concerns:
-
-${depsString}
-
-For each dependency, provide a JSON response with this structure:
-{
-  "analyzed": [
-    {
-      "name": "package-name",
-      "riskLevel": "critical|high|medium|low|safe",
-      "note": "Brief note if there's a known issue, empty string if safe"
-    }
-  ],
-  "summary": "Overall 2-3 sentence summary of the dependency health"
-}
-
-Consider:
-- Known CVEs in popular packages
-- Outdated versions with known issues  
-- Deprecated packages
-- Packages with security history
-
-Return ONLY valid JSON, no markdown.`;
+  const prompt = renderPrompt('dependency-audit', { ecosystem, dependencies: depsString });
 
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-preview',
-      contents: { parts: [{ text: prompt }] }
+    const result = await generateStructured(ai, { parts: [{ text: prompt }], ...options, promptVersion: getPromptVersion('dependency-audit') }, DependencyAnalysisSchema, 'DependencyAnalysis');
+
+    // Merge analysis back into dependencies
+    const analyzedDeps = dependencies.map(dep => {
+      const analysis = result.analyzed.find(a => a.name === dep.name);
+      if (analysis && analysis.riskLevel !== 'safe' && analysis.note) {
+        return {
+          ...dep,
+          securityAlert: {
+            severity: analysis.riskLevel,
+            description: analysis.note
+          }
+        };
+      }
+      return dep;
     });
 
-    const text = response.text?.trim() || '{}';
-    const jsonStr = text.replace(/```json\n?/g, '').replace(/```\n?/g, '');
-    
-    try {
-      const result = JSON.parse(jsonStr);
-      
-      // Merge analysis back into dependencies
-      const analyzedDeps = dependencies.map(dep => {
-        const analysis = result.analyzed?.find((a: any) => a.name === dep.name);
-        if (analysis && analysis.riskLevel !== 'safe' && analysis.note) {
-          return {
-            ...dep,
-            securityAlert: {
-              severity: analysis.riskLevel as 'critical' | 'high' | 'medium' | 'low',
-              description: analysis.note
-            }
-          };
-        }
-        return dep;
-      });
-      
-      return {
-        analyzed: analyzedDeps,
-        summary: result.summary || `Analyzed ${dependencies.length} dependencies in ${ecosystem} ecosystem.`
-      };
-    } catch {
-      return {
-        analyzed: dependencies,
-        summary: `Found ${dependencies.length} dependencies. Security analysis unavailable.`
-      };
-    }
+    return {
+      analyzed: analyzedDeps,
+      summary: result.summary || `Analyzed ${dependencies.length} dependencies in ${ecosystem} ecosystem.`
+    };
   } catch (error) {
+    if (isAbortError(error)) throw error;
     console.error("Dependency analysis failed:", error);
     return {
       analyzed: dependencies,
@@ -323,40 +283,27 @@ Return ONLY valid JSON, no markdown.`;
  * @param promptContext - Context description of what the image contains.
  * @returns Promise resolving to SVG code string.
  */
-export async function vectorizeInfographic(base64Image: string, promptContext: string): Promise<string | null> {
-  const ai = getAiClient();
-  const prompt = `Analyze the attached infographic image. It is a technical diagram for: "${promptContext}".
-  
-  TASK: Recreate this infographic as a clean, high-quality, professional SVG file.
-  
-  REQUIREMENTS:
-  1. The SVG must be responsive (use viewBox, not fixed width/height).
-  2. Maintain all structural connections and text labels from the original image.
-  3. Use clean vector paths and professional gradients for a modern look.
-  4. Preserve the color scheme and layout.
-  5. Ensure all text is rendered as <text> elements for accessibility and scaling.
-  6. Output ONLY valid SVG code. No explanations, no markdown blocks.`;
+export async function vectorizeInfographic(base64Image: string, promptContext: string, options: GenerationOptions = {}): Promise<string | null> {
+  const ai = getAIProvider('vectorize');
+  const prompt = renderPrompt('vectorize', { context: promptContext });
 
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-preview',
-      contents: {
-        parts: [
-          {
-            inlineData: {
-              mimeType: 'image/png',
-              data: base64Image
-            }
-          },
-          { text: prompt }
-        ]
-      },
-      config: {
-        thinkingConfig: { thinkingBudget: 4000 }
-      }
+    const response = await ai.generateText({
+      parts: [
+        {
+          inlineData: {
+            mimeType: 'image/png',
+            data: base64Image
+          }
+        },
+        { text: prompt }
+      ],
+      thinkingBudget: 4000,
+      ...options,
+      promptVersion: getPromptVersion('vectorize')
     });
 
-    let svgText = response.text || "";
+    let svgText = response || "";
     // Clean up any potential markdown wrapper
     svgText = svgText.replace(/^```svg\n/, '').replace(/^```xml\n/, '').replace(/^```\n/, '').replace(/\n```$/, '');
     return svgText.trim();
@@ -367,48 +314,92 @@ export async function vectorizeInfographic(base64Image: string, promptContext: s
 }
 
 /**
- * Answers questions about the repo architecture based on the visual diagram.
+ * Formats a file and its direct imports for a prompt. The file itself gets
+ * most of the budget; imports share the rest as secondary context. The files
+ * of a group share the budget equally.
  */
-export async function askRepoQuestion(question: string, infographicBase64: string, fileTree: RepoFileTree[]): Promise<string> {
-  const ai = getAiClient();
-  // Provide context about the file structure to supplement the image
-  const limitedTree = fileTree.slice(0, 300).map(f => f.path).join('\n');
-  
-  const prompt = `You are a senior software architect reviewing a project.
-  
-  Attached is an architectural infographic of the project.
-  Here is the actual file structure of the repository:
-  ${limitedTree}
-  
-  User Question: "${question}"
-  
-  Using BOTH the visual infographic and the file structure as context, answer the user's question. 
-  If they ask about optimization, suggest specific areas based on the likely bottlenecks visible in standard architectures like this.
-  Keep answers concise, technical, and helpful.`;
+function describeSource(source: SourceContext, budget: number): string {
+  const fence = (path: string, content: string, tokens: number) => `FILE: "${path}"\n\`\`\`\n${packFileContent(content, tokens)}\n\`\`\``;
+  if (source.peers?.length) {
+    const files = [source, ...source.peers];
+    const share = Math.floor(budget / files.length);
+    return `FILES ANALYZED TOGETHER (${files.length}):\n${files.map(file => fence(file.path, file.content, share)).join('\n\n')}`;
+  }
+  const mainBudget = source.imports.length > 0 ? Math.floor(budget * 0.7) : budget;
+  const importBudget = source.imports.length > 0 ? Math.floor((budget - mainBudget) / source.imports.length) : 0;
+  const sections = [fence(source.path, source.content, mainBudget)];
+  if (source.imports.length > 0) {
+    sections.push(`FILES IT IMPORTS (secondary context, for understanding the calls above):\n${source.imports.map(file => fence(file.path, file.content, importBudget)).join('\n\n')}`);
+  }
+  return sections.join('\n\n');
+}
+
+/**
+ * Formats retrieved chunks as numbered excerpts, best first, until the budget
+ * runs out. At least one excerpt is always included, truncated if need be.
+ */
+function describeChunks(chunks: CodeChunk[], budget: number): string {
+  const sections: string[] = [];
+  let remaining = budget;
+  for (const chunk of chunks) {
+    const width = String(chunk.endLine).length;
+    const numbered = chunk.text.split('\n').map((line, i) => `${String(chunk.startLine + i).padStart(width)} | ${line}`).join('\n');
+    const header = `FILE: "${chunk.path}" lines ${chunk.startLine}-${chunk.endLine}${chunk.symbol ? ` (${chunk.symbol})` : ''}`;
+    const tokens = estimateTokens(header) + estimateTokens(numbered) + 4;
+    if (sections.length > 0 && tokens > remaining) break;
+    sections.push(`${header}\n\`\`\`\n${tokens > remaining ? packFileContent(numbered, remaining) : numbered}\n\`\`\``);
+    remaining -= tokens;
+  }
+  return sections.join('\n\n');
+}
+
+/**
+ * Answers a question about the repository from the chunks retrieved for it.
+ * The answer cites code as [path:line] or [path:start-end].
+ *
+ * @param chunks - Retrieved chunks, most relevant first.
+ * @param fileTree - Full file tree, listed briefly for orientation.
+ */
+export async function askRepoQuestion(question: string, chunks: CodeChunk[], fileTree: RepoFileTree[], options: RepoContextOptions = {}): Promise<string> {
+  const { fanIn, ...controls } = options;
+  const ai = getAIProvider('repo-qa');
+  const budget = getContextBudget();
+  const prompt = renderPrompt('repo-qa', {
+    excerpts: chunks.length > 0 ? describeChunks(chunks, Math.floor(budget * 0.8)) : '(no matching code was found)',
+    fileTree: packFileTree(fileTree, Math.floor(budget * 0.2), { fanIn }).text,
+    question,
+  });
 
   try {
-    const response = await ai.models.generateContent({
-       model: 'gemini-3-pro-preview',
-       contents: {
-        parts: [
-          {
-            inlineData: {
-              mimeType: 'image/png',
-              data: infographicBase64
-            }
-          },
-          { text: prompt }
-        ]
-      }
+    const response = await ai.generateText({
+      parts: [{ text: prompt }],
+      ...controls,
+      promptVersion: getPromptVersion('repo-qa')
     });
 
-    return response.text || "I couldn't generate an answer at this time.";
+    return response || "I couldn't generate an answer at this time.";
   } catch (error) {
-    console.error("Gemini Q&A failed:", error);
+    if (isAbortError(error)) throw error;
+    console.error("Repository Q&A failed:", error);
     throw error;
   }
 }
 
+/**
+ * Embeds texts for retrieval with the active provider. Null when the
+ * provider has no embedding model.
+ */
+export async function embedForRetrieval(
+  texts: string[],
+  purpose: 'document' | 'query',
+  options: { signal?: AbortSignal } = {}
+): Promise<{ provider: string; vectors: number[][] } | null> {
+  const ai = getAIProvider('repo-qa');
+  if (!ai.embedTexts) return null;
+  const vectors = await ai.embedTexts({ texts, purpose, signal: options.signal });
+  return { provider: ai.id, vectors };
+}
+
 /**
  * Answers questions about a specific node (file/component) in the dependency graph.
  * Uses persona-based system instructions.
@@ -416,435 +407,167 @@ export async function askRepoQuestion(question: string, infographicBase64: strin
  * @param nodeLabel - Name of the selected node.
  * @param question - User's question.
  * @param fileTree - Full file tree context.
- * @param fileContent - Optional content of the selected file.
+ * @param source - Optional content of the selected file and the files it imports.
  * @param persona - Active persona ID for response tone/focus.
  */
 export async function askNodeSpecificQuestion(
   nodeLabel: string, 
   question: string, 
   fileTree: RepoFileTree[],
-  fileContent?: string,
-  persona: string = "Senior Software Architect"
+  source?: SourceContext,
+  persona: string = "Senior Software Architect",
+  options: RepoContextOptions = {}
 ): Promise<string> {
-  const ai = getAiClient();
-  const limitedTree = fileTree.slice(0, 300).map(f => f.path).join('\n');
+  const { fanIn, ...controls } = options;
+  const ai = getAIProvider('node-chat');
+  // Give the file itself most of the budget when we have it
+  const budget = getContextBudget();
+  const limitedTree = packFileTree(fileTree, source ? Math.floor(budget * 0.3) : budget, { fanIn }).text;
   
   let contentContext = "";
-  if (fileContent) {
-      contentContext = `\n\nCONTENT OF FILE "${nodeLabel}":\n\`\`\`\n${fileContent.slice(0, 15000)}\n\`\`\`\n(Truncated if too long)`;
+  if (source) {
+      contentContext = `\n\nCONTENT OF THE SELECTED FILE:\n${describeSource(source, Math.floor(budget * 0.7))}\n(Truncated if too long)`;
   }
 
   // Construct system instruction based on persona
-  let systemInstruction = `You are an expert ${persona}. `;
+  let focus: string;
   if (persona.includes("Security")) {
-      systemInstruction += "Focus heavily on vulnerabilities, data validation, auth logic, and potential exploits. Be paranoid but constructive.";
+      focus = "Focus heavily on vulnerabilities, data validation, auth logic, and potential exploits. Be paranoid but constructive.";
   } else if (persona.includes("Product")) {
-      systemInstruction += "Focus on user value, feature feasibility, and user flow. Avoid overly deep technical jargon unless necessary.";
+      focus = "Focus on user value, feature feasibility, and user flow. Avoid overly deep technical jargon unless necessary.";
   } else if (persona.includes("Junior")) {
-      systemInstruction += "Explain concepts simply (ELI5). Use analogies. Focus on learning and growth.";
+      focus = "Explain concepts simply (ELI5). Use analogies. Focus on learning and growth.";
   } else if (persona.includes("Architect")) {
-      systemInstruction += "Focus on scalability, maintainability, design patterns, and clean code.";
+      focus = "Focus on scalability, maintainability, design patterns, and clean code.";
   } else {
-      systemInstruction += "Focus on code quality and best practices.";
+      focus = "Focus on code quality and best practices.";
   }
+  const systemInstruction = renderPrompt('node-chat-system', { persona, focus });
 
-  const prompt = `
-  The user is asking about a specific node in the dependency graph labeled: "${nodeLabel}".
-  
-  Repository File Structure Context (first 300 files):
-  ${limitedTree}
-  ${contentContext}
-  
-  User Question: "${question}"
-  
-  Based on the node name "${nodeLabel}" ${fileContent ? "and its actual content" : "and the file structure"}, explain what this component likely does and answer the question.
-  Keep the response aligned with your persona: ${persona}.`;
+  const prompt = renderPrompt('node-chat', {
+    nodeLabel,
+    fileTree: limitedTree,
+    fileContent: contentContext,
+    question,
+    basis: source ? "and its actual content" : "and the file structure",
+    persona,
+  });
 
   try {
-    const response = await ai.models.generateContent({
-       model: 'gemini-3-pro-preview',
-       contents: {
-        parts: [
-          { text: prompt }
-        ]
-      },
-      config: {
-          systemInstruction: systemInstruction
-      }
+    const response = await ai.generateText({
+      parts: [{ text: prompt }],
+      systemInstruction: systemInstruction,
+      ...controls,
+      promptVersion: getPromptVersions(['node-chat-system', 'node-chat'])
     });
 
-    return response.text || "I couldn't generate an answer at this time.";
+    return response || "I couldn't generate an answer at this time.";
   } catch (error) {
     console.error("Gemini Node Q&A failed:", error);
     throw error;
   }
 }
 
-export interface CodeReviewIssue {
-  severity: 'critical' | 'warning' | 'info' | 'suggestion';
-  category: string;
-  line?: number;
-  title: string;
-  description: string;
-  suggestion?: string;
-}
-
-export interface CodeReviewResult {
-  summary: string;
-  overallScore: number;
-  issues: CodeReviewIssue[];
-  strengths: string[];
-  recommendations: string[];
-}
-
 /**
  * Performs AI code review analyzing quality, security, and performance.
  */
 export async function performCodeReview(
   nodeLabel: string,
   fileTree: RepoFileTree[],
-  fileContent?: string
+  source?: SourceContext,
+  options: RepoContextOptions = {}
 ): Promise<CodeReviewResult> {
-  const ai = getAiClient();
-  const limitedTree = fileTree.slice(0, 200).map(f => f.path).join('\n');
-
-  const prompt = `You are a Senior Code Reviewer conducting a comprehensive code review.
-
-${fileContent ? `FILE: "${nodeLabel}"\n\`\`\`\n${fileContent.slice(0, 20000)}\n\`\`\`` : `Analyzing component: "${nodeLabel}" in context of project structure:\n${limitedTree}`}
-
-Perform a thorough code review covering:
-1. Code quality and readability
-2. Security vulnerabilities (injection, XSS, auth issues, etc.)
-3. Performance concerns
-4. Best practice violations
-5. Potential bugs and edge cases
-
-Return as JSON in this exact format:
-{
-  "summary": "Brief overall assessment",
-  "overallScore": 85,
-  "issues": [
-    {
-      "severity": "critical|warning|info|suggestion",
-      "category": "Security|Performance|Quality|Bug|Style",
-      "line": 42,
-      "title": "Issue title",
-      "description": "Detailed explanation",
-      "suggestion": "How to fix it"
-    }
-  ],
-  "strengths": ["Good aspect 1", "Good aspect 2"],
-  "recommendations": ["High-level improvement 1", "High-level improvement 2"]
-}
+  const { fanIn, ...controls } = options;
+  const ai = getAIProvider('code-review');
+  const budget = getContextBudget();
 
-Return ONLY the JSON, no markdown.`;
+  const prompt = renderPrompt('code-review', {
+    target: source
+      ? describeSource(source, budget)
+      : `Analyzing component: "${nodeLabel}" in context of project structure:\n${packFileTree(fileTree, budget, { fanIn }).text}`,
+  });
 
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-preview',
-      contents: { parts: [{ text: prompt }] }
-    });
-
-    let text = response.text || "{}";
-    text = text.replace(/^```json?\n?/, '').replace(/\n?```$/, '').trim();
-
-    try {
-      return JSON.parse(text) as CodeReviewResult;
-    } catch {
-      return {
-        summary: text,
-        overallScore: 0,
-        issues: [],
-        strengths: [],
-        recommendations: []
-      };
-    }
+    return await generateStructured(ai, { parts: [{ text: prompt }], ...controls, promptVersion: getPromptVersion('code-review') }, CodeReviewResultSchema, 'CodeReviewResult');
   } catch (e) {
     console.error("Code review failed", e);
     throw e;
   }
 }
 
-export interface TestCase {
-  name: string;
-  type: 'unit' | 'integration' | 'edge';
-  description: string;
-  code: string;
-  assertions: string[];
-}
-
-export interface TestGenerationResult {
-  framework: string;
-  setup: string;
-  testCases: TestCase[];
-  edgeCases: string[];
-  coverageNotes: string;
-}
-
 /**
  * Generates test cases and edge cases for code.
  */
 export async function generateTestCases(
   nodeLabel: string,
   fileTree: RepoFileTree[],
-  fileContent?: string
+  source?: SourceContext,
+  options: RepoContextOptions = {}
 ): Promise<TestGenerationResult> {
-  const ai = getAiClient();
-  const limitedTree = fileTree.slice(0, 150).map(f => f.path).join('\n');
-
-  const prompt = `You are a QA Engineer and Test Automation Expert.
-
-${fileContent ? `FILE: "${nodeLabel}"\n\`\`\`\n${fileContent.slice(0, 15000)}\n\`\`\`` : `Analyzing component: "${nodeLabel}" in context:\n${limitedTree}`}
-
-Generate comprehensive test cases including:
-1. Unit tests for individual functions/methods
-2. Integration tests for component interactions
-3. Edge cases that could cause failures
-4. Boundary value tests
-5. Error handling tests
-
-Return as JSON:
-{
-  "framework": "Jest/Vitest recommended",
-  "setup": "Test setup code (imports, mocks, etc.)",
-  "testCases": [
-    {
-      "name": "should handle valid input correctly",
-      "type": "unit|integration|edge",
-      "description": "What this test verifies",
-      "code": "test('should...', () => { ... })",
-      "assertions": ["Expected behavior 1", "Expected behavior 2"]
-    }
-  ],
-  "edgeCases": [
-    "Edge case description 1",
-    "Edge case description 2"
-  ],
-  "coverageNotes": "Notes on achieving good coverage"
-}
+  const { fanIn, ...controls } = options;
+  const ai = getAIProvider('test-generation');
+  const budget = getContextBudget();
 
-Return ONLY the JSON, no markdown.`;
+  const prompt = renderPrompt('test-generation', {
+    target: source
+      ? describeSource(source, budget)
+      : `Analyzing component: "${nodeLabel}" in context:\n${packFileTree(fileTree, budget, { fanIn }).text}`,
+  });
 
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-preview',
-      contents: { parts: [{ text: prompt }] }
-    });
-
-    let text = response.text || "{}";
-    text = text.replace(/^```json?\n?/, '').replace(/\n?```$/, '').trim();
-
-    try {
-      return JSON.parse(text) as TestGenerationResult;
-    } catch {
-      return {
-        framework: "Unknown",
-        setup: "",
-        testCases: [],
-        edgeCases: [],
-        coverageNotes: text
-      };
-    }
+    return await generateStructured(ai, { parts: [{ text: prompt }], ...controls, promptVersion: getPromptVersion('test-generation') }, TestGenerationResultSchema, 'TestGenerationResult');
   } catch (e) {
     console.error("Test generation failed", e);
     throw e;
   }
 }
 
-export interface DocumentationResult {
-  moduleDoc: string;
-  functions: Array<{
-    name: string;
-    jsdoc: string;
-    params: Array<{ name: string; type: string; description: string }>;
-    returns: { type: string; description: string };
-  }>;
-  usageExamples: string[];
-  notes: string;
-}
-
 /**
  * Generates documentation for code files.
  */
 export async function generateDocumentation(
   nodeLabel: string,
   fileTree: RepoFileTree[],
-  fileContent?: string
+  source?: SourceContext,
+  options: GenerationOptions = {}
 ): Promise<DocumentationResult> {
-  const ai = getAiClient();
-
-  const prompt = `You are a Technical Writer creating comprehensive documentation.
-
-${fileContent ? `FILE: "${nodeLabel}"\n\`\`\`\n${fileContent.slice(0, 18000)}\n\`\`\`` : `Create documentation for: "${nodeLabel}"`}
-
-Generate complete documentation including:
-1. Module/file description
-2. JSDoc/docstrings for each function/method
-3. Parameter descriptions with types
-4. Return value documentation
-5. Usage examples
-
-Return as JSON:
-{
-  "moduleDoc": "Module-level documentation describing purpose and usage",
-  "functions": [
-    {
-      "name": "functionName",
-      "jsdoc": "/**\n * Full JSDoc comment\n * @param {Type} param - Description\n * @returns {Type} Description\n */",
-      "params": [
-        { "name": "param1", "type": "string", "description": "What it does" }
-      ],
-      "returns": { "type": "boolean", "description": "What it returns" }
-    }
-  ],
-  "usageExamples": [
-    "// Example 1\nimport { func } from './module';\nfunc('test');",
-    "// Example 2\n..."
-  ],
-  "notes": "Additional notes about the module"
-}
+  const ai = getAIProvider('documentation');
 
-Return ONLY the JSON, no markdown.`;
+  const prompt = renderPrompt('documentation', {
+    target: source
+      ? describeSource(source, getContextBudget())
+      : `Create documentation for: "${nodeLabel}"`,
+  });
 
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-preview',
-      contents: { parts: [{ text: prompt }] }
-    });
-
-    let text = response.text || "{}";
-    text = text.replace(/^```json?\n?/, '').replace(/\n?```$/, '').trim();
-
-    try {
-      return JSON.parse(text) as DocumentationResult;
-    } catch {
-      return {
-        moduleDoc: text,
-        functions: [],
-        usageExamples: [],
-        notes: ""
-      };
-    }
+    return await generateStructured(ai, { parts: [{ text: prompt }], ...options, promptVersion: getPromptVersion('documentation') }, DocumentationResultSchema, 'DocumentationResult');
   } catch (e) {
     console.error("Documentation generation failed", e);
     throw e;
   }
 }
 
-export interface GapAnalysisResult {
-  gaps: Array<{
-    type: 'missing_logic' | 'error_handling' | 'edge_case' | 'validation' | 'security';
-    severity: 'high' | 'medium' | 'low';
-    title: string;
-    description: string;
-    location?: string;
-    recommendation: string;
-  }>;
-  bottlenecks: Array<{
-    type: 'performance' | 'scalability' | 'resource' | 'dependency';
-    title: string;
-    impact: string;
-    mitigation: string;
-  }>;
-  unknowns: Array<{
-    area: string;
-    concern: string;
-    investigationNeeded: string;
-  }>;
-  overallRisk: 'low' | 'medium' | 'high';
-  summary: string;
-}
-
 /**
  * Identifies gaps, bottlenecks, and unknown unknowns in code.
  */
 export async function analyzeGapsAndBottlenecks(
   nodeLabel: string,
   fileTree: RepoFileTree[],
-  fileContent?: string
+  source?: SourceContext,
+  options: RepoContextOptions = {}
 ): Promise<GapAnalysisResult> {
-  const ai = getAiClient();
-  const limitedTree = fileTree.slice(0, 200).map(f => f.path).join('\n');
-
-  const prompt = `You are a Principal Engineer with expertise in identifying architectural gaps and potential issues.
-
-${fileContent ? `FILE: "${nodeLabel}"\n\`\`\`\n${fileContent.slice(0, 18000)}\n\`\`\`` : `Analyzing: "${nodeLabel}" in context:\n${limitedTree}`}
-
-Perform deep analysis to identify:
-
-1. GAPS (Missing Logic):
-   - Missing error handling
-   - Unhandled edge cases
-   - Missing input validation
-   - Missing security checks
-   - Incomplete implementations
-
-2. BOTTLENECKS:
-   - Performance bottlenecks (N+1 queries, expensive loops, etc.)
-   - Scalability concerns
-   - Resource usage issues
-   - Blocking operations
-   - Dependency bottlenecks
-
-3. UNKNOWN UNKNOWNS:
-   - Potential blind spots
-   - Areas that need investigation
-   - Assumptions that might be wrong
-   - External factors not accounted for
-
-Return as JSON:
-{
-  "gaps": [
-    {
-      "type": "missing_logic|error_handling|edge_case|validation|security",
-      "severity": "high|medium|low",
-      "title": "Gap title",
-      "description": "What's missing",
-      "location": "function name or area",
-      "recommendation": "How to address"
-    }
-  ],
-  "bottlenecks": [
-    {
-      "type": "performance|scalability|resource|dependency",
-      "title": "Bottleneck title",
-      "impact": "Potential impact",
-      "mitigation": "How to fix"
-    }
-  ],
-  "unknowns": [
-    {
-      "area": "Area of concern",
-      "concern": "What could go wrong",
-      "investigationNeeded": "What to look into"
-    }
-  ],
-  "overallRisk": "low|medium|high",
-  "summary": "Overall assessment"
-}
+  const { fanIn, ...controls } = options;
+  const ai = getAIProvider('gap-analysis');
+  const budget = getContextBudget();
 
-Return ONLY the JSON, no markdown.`;
+  const prompt = renderPrompt('gap-analysis', {
+    target: source
+      ? describeSource(source, budget)
+      : `Analyzing: "${nodeLabel}" in context:\n${packFileTree(fileTree, budget, { fanIn }).text}`,
+  });
 
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-preview',
-      contents: { parts: [{ text: prompt }] }
-    });
-
-    let text = response.text || "{}";
-    text = text.replace(/^```json?\n?/, '').replace(/\n?```$/, '').trim();
-
-    try {
-      return JSON.parse(text) as GapAnalysisResult;
-    } catch {
-      return {
-        gaps: [],
-        bottlenecks: [],
-        unknowns: [],
-        overallRisk: 'medium',
-        summary: text
-      };
-    }
+    return await generateStructured(ai, { parts: [{ text: prompt }], ...controls, promptVersion: getPromptVersion('gap-analysis') }, GapAnalysisResultSchema, 'GapAnalysisResult');
   } catch (e) {
     console.error("Gap analysis failed", e);
     throw e;
@@ -858,58 +581,29 @@ export async function generateArticleInfographic(
   url: string, 
   style: string, 
   onProgress?: (stage: string) => void,
-  language: string = "English"
+  language: string = "English",
+  options: GenerationOptions = {}
 ): Promise<InfographicResult> {
-    const ai = getAiClient();
+    const ai = getAIProvider('article-infographic');
     if (onProgress) onProgress("RESEARCHING & ANALYZING CONTENT...");
     
     let structuralSummary = "";
     let citations: Citation[] = [];
 
     try {
-        const analysisPrompt = `You are an expert Information Designer. Your goal is to extract the essential structure from a web page to create a clear, educational infographic.
-
-        Analyze the content at this URL: ${url}
-        
-        TARGET LANGUAGE: ${language}.
-        
-        Provide a structured breakdown specifically designed for visual representation in ${language}:
-        1. INFOGRAPHIC HEADLINE: The core topic in 5 words or less (in ${language}).
-        2. KEY TAKEAWAYS: The 3 to 5 most important distinct points, steps, or facts (in ${language}). THESE WILL BE THE MAIN SECTIONS OF THE IMAGE.
-        3. SUPPORTING DATA: Any specific numbers, percentages, or very short quotes that add credibility.
-        4. VISUAL METAPHOR IDEA: Suggest ONE simple visual concept that best fits this content (e.g., "a roadmap with milestones", "a funnel", "three contrasting pillars", "a circular flowchart").
-        
-        Keep the output concise and focused purely on what should be ON the infographic. Ensure all content is in ${language}.`;
-
-        const analysisResponse = await ai.models.generateContent({
-            model: 'gemini-3-pro-image-preview',
-            contents: analysisPrompt,
-            config: {
-                tools: [{ googleSearch: {} }],
-            }
-        });
-        structuralSummary = analysisResponse.text || "";
-
-        const chunks = analysisResponse.candidates?.[0]?.groundingMetadata?.groundingChunks;
-        if (chunks) {
-            chunks.forEach((chunk: any) => {
-                if (chunk.web?.uri) {
-                    citations.push({
-                        uri: chunk.web.uri,
-                        title: chunk.web.title || ""
-                    });
-                }
-            });
-            const uniqueCitations = new Map();
-            citations.forEach(c => uniqueCitations.set(c.uri, c));
-            citations = Array.from(uniqueCitations.values());
-        }
+        const analysisPrompt = renderPrompt('article-analysis', { url, language });
+
+        const analysisResponse = await ai.generateWithSearch({ parts: [{ text: analysisPrompt }], ...requestControls(options, 'article-analysis') });
+        structuralSummary = analysisResponse.text;
+        citations = analysisResponse.citations;
 
     } catch (e) {
+        if (isAbortError(e)) throw e;
         console.warn("Content analysis failed, falling back to direct URL prompt", e);
         structuralSummary = `Create an infographic about: ${url}. Translate text to ${language}.`;
     }
 
+    throwIfAborted(options.signal);
     if (onProgress) onProgress("DESIGNING & RENDERING INFOGRAPHIC...");
 
     let styleGuidelines = "";
@@ -935,40 +629,10 @@ export async function generateArticleInfographic(
             break;
     }
 
-    const imagePrompt = `Create a professional, high-quality educational infographic based strictly on this structured content plan:
-
-    ${structuralSummary}
-
-    VISUAL DESIGN RULES:
-    - ${styleGuidelines}
-    - LANGUAGE: The text within the infographic MUST be written in ${language}.
-    - LAYOUT: MUST follow the "VISUAL METAPHOR IDEA" from the plan above if one was provided.
-    - TYPOGRAPHY: Clean, highly readable sans-serif fonts. The "INFOGRAPHIC HEADLINE" must be prominent at the top.
-    - CONTENT: Use the actual text from "KEY TAKEAWAYS" in the image. Do not use placeholder text like Lorem Ipsum.
-    - GOAL: The image must be informative and readable as a standalone graphic.
-    `;
+    const imagePrompt = renderPrompt('article-image', { plan: structuralSummary, styleGuidelines, language });
 
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-3-pro-image-preview',
-            contents: {
-                parts: [{ text: imagePrompt }],
-            },
-            config: {
-                responseModalities: [Modality.IMAGE],
-            },
-        });
-
-        let imageData = null;
-        const parts = response.candidates?.[0]?.content?.parts;
-        if (parts) {
-            for (const part of parts) {
-                if (part.inlineData && part.inlineData.data) {
-                    imageData = part.inlineData.data;
-                    break;
-                }
-            }
-        }
+        const imageData = await ai.generateImage({ parts: [{ text: imagePrompt }], ...requestControls(options, 'article-image') });
         return { imageData, citations };
     } catch (error) {
         console.error("Article infographic generation failed:", error);
@@ -984,70 +648,32 @@ export async function generateComparisonInfographic(
   urls: string[],
   style: string,
   onProgress?: (stage: string) => void,
-  language: string = "English"
+  language: string = "English",
+  options: GenerationOptions = {}
 ): Promise<InfographicResult> {
-  const ai = getAiClient();
+  const ai = getAIProvider('comparison-infographic');
   if (onProgress) onProgress("ANALYZING MULTIPLE SOURCES...");
   
   let comparisonSummary = "";
   let citations: Citation[] = [];
   
   try {
-    const analysisPrompt = `You are an expert Comparative Analyst. Your goal is to compare and contrast content from multiple web pages.
-
-    Analyze the content at these URLs:
-    ${urls.map((url, i) => `Source ${i + 1}: ${url}`).join('\n')}
-    
-    TARGET LANGUAGE: ${language}.
-    
-    Provide a structured comparison specifically designed for visual representation in ${language}:
-    
-    1. COMPARISON HEADLINE: A concise title that captures what's being compared (in ${language}).
-    
-    2. SOURCE SUMMARIES: For each source, provide:
-       - Source name/identifier
-       - 2-3 key claims or points
-       - Main perspective or angle
-    
-    3. SIMILARITIES: 2-3 points where the sources agree or overlap.
-    
-    4. DIFFERENCES: 2-3 key points of disagreement or different approaches.
-    
-    5. KEY INSIGHTS: 2-3 unique insights that emerge from comparing these sources.
-    
-    6. VISUAL SUGGESTION: Best way to visualize this comparison (e.g., "side-by-side columns", "Venn diagram", "comparison table", "pros/cons layout").
-    
-    Keep the output concise and focused purely on what should be ON the infographic. Ensure all content is in ${language}.`;
-
-    const analysisResponse = await ai.models.generateContent({
-      model: 'gemini-3-pro-image-preview',
-      contents: analysisPrompt,
-      config: {
-        tools: [{ googleSearch: {} }],
-      }
+    const analysisPrompt = renderPrompt('comparison-analysis', {
+      sources: urls.map((url, i) => `Source ${i + 1}: ${url}`).join('\n'),
+      language,
     });
-    comparisonSummary = analysisResponse.text || "";
-
-    const chunks = analysisResponse.candidates?.[0]?.groundingMetadata?.groundingChunks;
-    if (chunks) {
-      chunks.forEach((chunk: any) => {
-        if (chunk.web?.uri) {
-          citations.push({
-            uri: chunk.web.uri,
-            title: chunk.web.title || ""
-          });
-        }
-      });
-      const uniqueCitations = new Map();
-      citations.forEach(c => uniqueCitations.set(c.uri, c));
-      citations = Array.from(uniqueCitations.values());
-    }
+
+    const analysisResponse = await ai.generateWithSearch({ parts: [{ text: analysisPrompt }], ...requestControls(options, 'comparison-analysis') });
+    comparisonSummary = analysisResponse.text;
+    citations = analysisResponse.citations;
 
   } catch (e) {
+    if (isAbortError(e)) throw e;
     console.warn("Multi-source analysis failed, falling back to direct prompt", e);
     comparisonSummary = `Create a comparison infographic for these sources: ${urls.join(' vs ')}. Translate text to ${language}.`;
   }
 
+  throwIfAborted(options.signal);
   if (onProgress) onProgress("DESIGNING COMPARISON VISUAL...");
 
   let styleGuidelines = "";
@@ -1067,41 +693,10 @@ export async function generateComparisonInfographic(
       break;
   }
 
-  const imagePrompt = `Create a professional COMPARISON INFOGRAPHIC based on this analysis:
-
-  ${comparisonSummary}
-
-  VISUAL DESIGN RULES:
-  - ${styleGuidelines}
-  - LANGUAGE: All text MUST be in ${language}.
-  - LAYOUT: Follow the "VISUAL SUGGESTION" from the analysis. If not provided, use a side-by-side or table comparison layout.
-  - EACH SOURCE: Give each source a distinct color or section.
-  - HIGHLIGHTS: Use visual emphasis (icons, colors, boxes) for SIMILARITIES and DIFFERENCES.
-  - CLARITY: Make it immediately clear what's being compared and how they differ.
-  - TYPOGRAPHY: Clean, highly readable sans-serif fonts.
-  `;
+  const imagePrompt = renderPrompt('comparison-image', { analysis: comparisonSummary, styleGuidelines, language });
 
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-image-preview',
-      contents: {
-        parts: [{ text: imagePrompt }],
-      },
-      config: {
-        responseModalities: [Modality.IMAGE],
-      },
-    });
-
-    let imageData = null;
-    const parts = response.candidates?.[0]?.content?.parts;
-    if (parts) {
-      for (const part of parts) {
-        if (part.inlineData && part.inlineData.data) {
-          imageData = part.inlineData.data;
-          break;
-        }
-      }
-    }
+    const imageData = await ai.generateImage({ parts: [{ text: imagePrompt }], ...requestControls(options, 'comparison-image') });
     return { imageData, citations };
   } catch (error) {
     console.error("Comparison infographic generation failed:", error);
@@ -1117,80 +712,40 @@ export async function extractKeyStats(
   url: string,
   style: string,
   onProgress?: (stage: string) => void,
-  language: string = "English"
+  language: string = "English",
+  options: GenerationOptions = {}
 ): Promise<{ 
   imageData: string | null; 
   citations: Citation[];
   stats: { stat: string; value: string; context: string }[];
 }> {
-  const ai = getAiClient();
+  const ai = getAIProvider('key-stats');
   if (onProgress) onProgress("SCANNING FOR KEY STATISTICS...");
   
   let statsData: { stat: string; value: string; context: string }[] = [];
   let citations: Citation[] = [];
   
   try {
-    const analysisPrompt = `You are a Data Analyst specializing in extracting key statistics and numbers from content.
+    const analysisPrompt = renderPrompt('key-stats-analysis', { url, language });
 
-    Analyze the content at this URL: ${url}
-    
-    TARGET LANGUAGE: ${language}.
-    
-    Extract ALL significant numbers, percentages, statistics, and quantifiable data:
+    const analysisResponse = await ai.generateWithSearch({ parts: [{ text: analysisPrompt }], ...requestControls(options, 'key-stats-analysis') });
     
-    Return as a JSON object with this structure:
-    {
-      "headline": "Main topic of the data (in ${language})",
-      "stats": [
-        {
-          "stat": "What is being measured (in ${language})",
-          "value": "The numerical value with units",
-          "context": "Brief explanation of significance (in ${language})"
-        }
-      ],
-      "trend": "Overall trend or conclusion from the data (in ${language})"
-    }
-    
-    Include at minimum 3 statistics, maximum 8. Prioritize the most impactful numbers.
-    Return ONLY valid JSON, no markdown.`;
-
-    const analysisResponse = await ai.models.generateContent({
-      model: 'gemini-3-pro-preview',
-      contents: analysisPrompt,
-      config: {
-        tools: [{ googleSearch: {} }],
-      }
-    });
-    
-    const responseText = analysisResponse.text || "{}";
-    const jsonStr = responseText.replace(/```json\n?/g, '').replace(/```\n?/g, '');
-    
-    try {
-      const parsed = JSON.parse(jsonStr);
-      statsData = parsed.stats || [];
-    } catch {
-      console.warn("Failed to parse stats JSON");
+    // Search grounding cannot be combined with JSON mode, so validate the text reply directly
+    const parsed = parseStructured(analysisResponse.text || "{}", KeyStatsSchema);
+    if (parsed.success) {
+      statsData = parsed.data.stats;
+    } else {
+      console.warn("Failed to parse stats JSON", parsed.issues);
     }
 
-    const chunks = analysisResponse.candidates?.[0]?.groundingMetadata?.groundingChunks;
-    if (chunks) {
-      chunks.forEach((chunk: any) => {
-        if (chunk.web?.uri) {
-          citations.push({
-            uri: chunk.web.uri,
-            title: chunk.web.title || ""
-          });
-        }
-      });
-      const uniqueCitations = new Map();
-      citations.forEach(c => uniqueCitations.set(c.uri, c));
-      citations = Array.from(uniqueCitations.values());
-    }
+    citations = analysisResponse.citations;
 
   } catch (e) {
+    if (isAbortError(e)) throw e;
     console.warn("Stats extraction failed", e);
   }
 
+  throwIfAborted(options.signal);
   if (onProgress) onProgress("GENERATING STATS VISUALIZATION...");
 
   const statsString = statsData.map(s => `${s.stat}: ${s.value} - ${s.context}`).join('\n');
@@ -1212,42 +767,10 @@ export async function extractKeyStats(
       break;
   }
 
-  const imagePrompt = `Create a DATA-FOCUSED INFOGRAPHIC showcasing these key statistics:
-
-  ${statsString}
-
-  VISUAL DESIGN RULES:
-  - ${styleGuidelines}
-  - LANGUAGE: All text MUST be in ${language}.
-  - LAYOUT: Use a stats dashboard or data card layout.
-  - NUMBERS: Make numerical values VERY LARGE and prominent - they are the stars.
-  - ICONS: Use relevant icons next to each statistic.
-  - HIERARCHY: Most important stat should be largest/most prominent.
-  - COLORS: Use color coding to group related stats or show positive/negative trends.
-  - DATA VISUALIZATION: If appropriate, include small charts, gauges, or progress bars.
-  `;
+  const imagePrompt = renderPrompt('key-stats-image', { stats: statsString, styleGuidelines, language });
 
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-image-preview',
-      contents: {
-        parts: [{ text: imagePrompt }],
-      },
-      config: {
-        responseModalities: [Modality.IMAGE],
-      },
-    });
-
-    let imageData = null;
-    const parts = response.candidates?.[0]?.content?.parts;
-    if (parts) {
-      for (const part of parts) {
-        if (part.inlineData && part.inlineData.data) {
-          imageData = part.inlineData.data;
-          break;
-        }
-      }
-    }
+    const imageData = await ai.generateImage({ parts: [{ text: imagePrompt }], ...requestControls(options, 'key-stats-image') });
     return { imageData, citations, stats: statsData };
   } catch (error) {
     console.error("Stats infographic generation failed:", error);
@@ -1258,47 +781,19 @@ export async function extractKeyStats(
 /**
  * Suggests tasks for the project based on repo structure.
  */
-export async function suggestProjectTasks(repoName: string, fileTree: RepoFileTree[]): Promise<Task[]> {
-  const ai = getAiClient();
-  const limitedTree = fileTree.slice(0, 300).map(f => f.path).join('\n');
+export async function suggestProjectTasks(repoName: string, fileTree: RepoFileTree[], options: GenerationOptions = {}): Promise<Task[]> {
+  const ai = getAIProvider('task-suggestions');
+  const limitedTree = packFileTree(fileTree, getContextBudget('flash')).text;
 
-  const prompt = `You are a Technical Project Manager.
-  
-  Based on the file structure of the repository "${repoName}", identify 3-5 critical technical tasks, refactoring opportunities, or missing configurations that a developer should address.
-  
-  File Structure:
-  ${limitedTree}
-  
-  Return the tasks as a JSON array where each object has:
-  - title: string (concise task name)
-  - priority: "high" | "medium" | "low"
-  - dueDate: string (YYYY-MM-DD, assume today is ${new Date().toISOString().split('T')[0]} and set reasonable deadlines)
-  
-  Do not include markdown formatting, just the JSON array.`;
+  const prompt = renderPrompt('task-suggestions', {
+    repoName,
+    fileTree: limitedTree,
+    today: new Date().toISOString().split('T')[0],
+  });
 
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: { parts: [{ text: prompt }] },
-      config: {
-        responseMimeType: 'application/json',
-        responseSchema: {
-          type: Type.ARRAY,
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              title: { type: Type.STRING },
-              priority: { type: Type.STRING, enum: ["high", "medium", "low"] },
-              dueDate: { type: Type.STRING }
-            },
-            required: ["title", "priority", "dueDate"]
-          }
-        }
-      }
-    });
-
-    const tasks = JSON.parse(response.text || "[]");
-    return tasks.map((t: any, index: number) => ({
+    const tasks = await generateStructured(ai, { tier: 'flash', parts: [{ text: prompt }], ...options, promptVersion: getPromptVersion('task-suggestions') }, SuggestedTasksSchema, 'SuggestedTasks');
+    return tasks.map((t, index) => ({
       id: `ai-gen-${Date.now()}-${index}`,
       title: t.title,
       priority: t.priority,
@@ -1307,46 +802,74 @@ export async function suggestProjectTasks(repoName: string, fileTree: RepoFileTr
       createdAt: Date.now()
     }));
   } catch (error) {
+    if (isAbortError(error)) throw error;
     console.error("Task suggestion failed:", error);
     return [];
   }
 }
 
+/**
+ * Summarizes the structural changes between two refs of a repository.
+ * The change lists are packed into the context budget, most important first.
+ */
+export async function summarizeArchitectureDiff(
+  repoName: string,
+  baseRef: string,
+  headRef: string,
+  diff: ArchitectureDiff,
+  options: GenerationOptions = {}
+): Promise<string> {
+  const ai = getAIProvider('architecture-diff');
+  const section = (title: string, lines: string[]) =>
+    `${title} (${lines.length}):\n${lines.length > 0 ? lines.map(line => `- ${line}`).join('\n') : '- none'}`;
+  const changes = [
+    section('FILES MOVED', diff.movedFiles.map(m => `${m.from} -> ${m.to}`)),
+    section('FILES ADDED', diff.addedFiles),
+    section('FILES REMOVED', diff.removedFiles),
+    section('IMPORTS ADDED', diff.addedEdges.map(e => `${e.source} -> ${e.target}`)),
+    section('IMPORTS REMOVED', diff.removedEdges.map(e => `${e.source} -> ${e.target}`)),
+  ].join('\n\n');
+
+  const prompt = renderPrompt('architecture-diff', {
+    repoName,
+    baseRef,
+    headRef,
+    changes: packFileContent(changes, getContextBudget()),
+  });
+
+  try {
+    const response = await ai.generateText({
+      parts: [{ text: prompt }],
+      ...options,
+      promptVersion: getPromptVersion('architecture-diff')
+    });
+    return response || "I couldn't summarize these changes at this time.";
+  } catch (error) {
+    console.error("Architecture diff summary failed:", error);
+    throw error;
+  }
+}
+
 /**
  * Uses Generative AI to apply style transfer or edits to an image.
  */
-export async function editImageWithGemini(base64Data: string, mimeType: string, prompt: string): Promise<string | null> {
-  const ai = getAiClient();
+export async function editImageWithGemini(base64Data: string, mimeType: string, prompt: string, options: GenerationOptions = {}): Promise<string | null> {
+  const ai = getAIProvider('image-edit');
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-image-preview',
-      contents: {
-        parts: [
-          {
-            inlineData: {
-              data: base64Data,
-              mimeType: mimeType,
-            },
-          },
-          {
-            text: prompt,
+    return await ai.generateImage({
+      parts: [
+        {
+          inlineData: {
+            data: base64Data,
+            mimeType: mimeType,
           },
-        ],
-      },
-      config: {
-        responseModalities: [Modality.IMAGE],
-      },
+        },
+        {
+          text: prompt,
+        },
+      ],
+      ...requestControls(options),
     });
-
-    const parts = response.candidates?.[0]?.content?.parts;
-    if (parts) {
-      for (const part of parts) {
-        if (part.inlineData && part.inlineData.data) {
-          return part.inlineData.data;
-        }
-      }
-    }
-    return null;
   } catch (error) {
     console.error("Gemini image editing failed:", error);
     throw error;
@@ -1356,34 +879,21 @@ export async function editImageWithGemini(base64Data: string, mimeType: string,
 /**
  * Converts a UI wireframe image into React/Tailwind code.
  */
-export async function generateCodeFromImage(base64Image: string, prompt: string): Promise<string | null> {
-   const ai = getAiClient();
-   const fullPrompt = `
-   You are an expert Frontend Developer specializing in React and Tailwind CSS.
-   
-   Analyze the attached UI wireframe/screenshot.
-   
-   TASK: Write the React code to implement this UI.
-   - Use Tailwind CSS for styling.
-   - Use Lucide React for icons if needed (imports from 'lucide-react').
-   - Component should be functional and responsive.
-   - Return ONLY the code, no markdown formatting.
-   
-   User specific request: ${prompt}
-   `;
+export async function generateCodeFromImage(base64Image: string, prompt: string, options: GenerationOptions = {}): Promise<string | null> {
+   const ai = getAIProvider('code-from-image');
+   const fullPrompt = renderPrompt('code-from-image', { request: prompt });
 
    try {
-     const response = await ai.models.generateContent({
-       model: 'gemini-3-pro-preview',
-       contents: {
-         parts: [
-           { inlineData: { mimeType: 'image/png', data: base64Image } },
-           { text: fullPrompt }
-         ]
-       }
+     const response = await ai.generateText({
+       parts: [
+         { inlineData: { mimeType: 'image/png', data: base64Image } },
+         { text: fullPrompt }
+       ],
+       ...options,
+       promptVersion: getPromptVersion('code-from-image')
      });
      
-     let code = response.text || "";
+     let code = response || "";
      // Clean markdown
      code = code.replace(/^```tsx?\n/, '').replace(/^```\n/, '').replace(/\n```$/, '');
      return code;
@@ -1393,289 +903,70 @@ export async function generateCodeFromImage(base64Image: string, prompt: string)
    }
 }
 
-export interface ComponentInfo {
-  name: string;
-  category: string;
-  description: string;
-  props: string[];
-  code: string;
-}
-
-export interface ComponentLibraryResult {
-  components: ComponentInfo[];
-  summary: string;
-  designTokens: {
-    colors: string[];
-    typography: string[];
-    spacing: string[];
-  };
-}
-
 /**
  * Scans a UI screenshot and extracts reusable UI component patterns.
  */
-export async function scanComponentLibrary(base64Image: string): Promise<ComponentLibraryResult> {
-  const ai = getAiClient();
-  const prompt = `You are an expert UI/UX Engineer and React specialist.
-
-Analyze the attached UI screenshot and identify ALL reusable UI components/patterns visible.
-
-For each component found, provide:
-1. A semantic component name (e.g., "PrimaryButton", "CardHeader", "NavItem")
-2. Category (Button, Card, Input, Navigation, Layout, Typography, etc.)
-3. Brief description of its purpose
-4. Likely props it would accept
-5. React/Tailwind code to implement it
-
-Also extract design tokens:
-- Colors (list hex codes or Tailwind classes used)
-- Typography (font sizes, weights visible)
-- Spacing patterns (padding/margin patterns)
-
-Return as JSON in this exact format:
-{
-  "components": [
-    {
-      "name": "ComponentName",
-      "category": "Category",
-      "description": "What it does",
-      "props": ["prop1", "prop2"],
-      "code": "const ComponentName = () => { ... }"
-    }
-  ],
-  "summary": "Brief overall analysis of the design system",
-  "designTokens": {
-    "colors": ["#hex1", "#hex2"],
-    "typography": ["text-xl font-bold", "text-sm"],
-    "spacing": ["p-4", "gap-2"]
-  }
-}
-
-Return ONLY the JSON, no markdown formatting.`;
+export async function scanComponentLibrary(base64Image: string, options: GenerationOptions = {}): Promise<ComponentLibraryResult> {
+  const ai = getAIProvider('component-library');
+  const prompt = renderPrompt('component-library', {});
 
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-preview',
-      contents: {
-        parts: [
-          { inlineData: { mimeType: 'image/png', data: base64Image } },
-          { text: prompt }
-        ]
-      }
-    });
-    
-    let text = response.text || "{}";
-    text = text.replace(/^```json?\n?/, '').replace(/\n?```$/, '').trim();
-    
-    try {
-      return JSON.parse(text) as ComponentLibraryResult;
-    } catch {
-      return {
-        components: [],
-        summary: text,
-        designTokens: { colors: [], typography: [], spacing: [] }
-      };
-    }
+    return await generateStructured(ai, {
+      parts: [
+        { inlineData: { mimeType: 'image/png', data: base64Image } },
+        { text: prompt }
+      ],
+      ...options,
+      promptVersion: getPromptVersion('component-library')
+    }, ComponentLibraryResultSchema, 'ComponentLibraryResult');
   } catch (e) {
     console.error("Component library scan failed", e);
     throw e;
   }
 }
 
-export interface ResponsiveVariant {
-  breakpoint: 'mobile' | 'tablet' | 'desktop';
-  description: string;
-  code: string;
-  notes: string;
-}
-
-export interface ResponsiveResult {
-  variants: ResponsiveVariant[];
-  sharedStyles: string;
-  responsiveNotes: string;
-}
-
 /**
  * Generates responsive variants (mobile/tablet/desktop) from a UI screenshot.
  */
-export async function generateResponsiveVariants(base64Image: string, componentName?: string): Promise<ResponsiveResult> {
-  const ai = getAiClient();
-  const prompt = `You are an expert Frontend Developer specializing in responsive web design.
-
-Analyze the attached UI screenshot${componentName ? ` (Component: "${componentName}")` : ''}.
-
-Generate responsive React/Tailwind code for 3 breakpoints:
-1. MOBILE (< 640px) - Single column, stacked elements, touch-friendly
-2. TABLET (640px - 1024px) - Two columns where appropriate, medium spacing
-3. DESKTOP (> 1024px) - Full layout as shown or enhanced
-
-For each variant provide:
-- Tailwind responsive classes used
-- Layout changes made
-- Any component behavior changes
-
-Return as JSON in this exact format:
-{
-  "variants": [
-    {
-      "breakpoint": "mobile",
-      "description": "Stacked layout with hamburger menu",
-      "code": "const MobileLayout = () => { ... }",
-      "notes": "Collapse sidebar to drawer, stack cards vertically"
-    },
-    {
-      "breakpoint": "tablet",
-      "description": "Two-column grid layout",
-      "code": "const TabletLayout = () => { ... }",
-      "notes": "2-column grid, condensed navigation"
-    },
-    {
-      "breakpoint": "desktop",
-      "description": "Full multi-column layout",
-      "code": "const DesktopLayout = () => { ... }",
-      "notes": "Full sidebar, 3+ column grid"
-    }
-  ],
-  "sharedStyles": "Tailwind classes common across all breakpoints",
-  "responsiveNotes": "Overall responsive design recommendations"
-}
-
-Return ONLY the JSON, no markdown formatting.`;
+export async function generateResponsiveVariants(base64Image: string, componentName?: string, options: GenerationOptions = {}): Promise<ResponsiveResult> {
+  const ai = getAIProvider('responsive-variants');
+  const prompt = renderPrompt('responsive-variants', {
+    componentNote: componentName ? ` (Component: "${componentName}")` : '',
+  });
 
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-preview',
-      contents: {
-        parts: [
-          { inlineData: { mimeType: 'image/png', data: base64Image } },
-          { text: prompt }
-        ]
-      }
-    });
-    
-    let text = response.text || "{}";
-    text = text.replace(/^```json?\n?/, '').replace(/\n?```$/, '').trim();
-    
-    try {
-      return JSON.parse(text) as ResponsiveResult;
-    } catch {
-      return {
-        variants: [],
-        sharedStyles: "",
-        responsiveNotes: text
-      };
-    }
+    return await generateStructured(ai, {
+      parts: [
+        { inlineData: { mimeType: 'image/png', data: base64Image } },
+        { text: prompt }
+      ],
+      ...options,
+      promptVersion: getPromptVersion('responsive-variants')
+    }, ResponsiveResultSchema, 'ResponsiveResult');
   } catch (e) {
     console.error("Responsive variant generation failed", e);
     throw e;
   }
 }
 
-export interface DashboardFile {
-  filename: string;
-  type: 'component' | 'style' | 'hook' | 'util' | 'config' | 'doc';
-  content: string;
-  description: string;
-}
-
-export interface DashboardResult {
-  name: string;
-  description: string;
-  files: DashboardFile[];
-  documentation: string;
-  features: string[];
-  dependencies: string[];
-}
-
 /**
  * Generates a complete dashboard project from a UI screenshot.
  */
-export async function generateDashboard(base64Image: string, requirements?: string): Promise<DashboardResult> {
-  const ai = getAiClient();
-  const prompt = `You are a Senior Full-Stack Developer creating a complete dashboard project.
-
-Analyze the attached UI screenshot and generate a COMPLETE dashboard implementation.
-${requirements ? `Additional Requirements: ${requirements}` : ''}
-
-Generate a complete project with:
-1. Multiple React component files (modular structure)
-2. Custom hooks for data fetching/state
-3. Utility functions
-4. Type definitions
-5. Documentation (README)
-
-For a dashboard, include:
-- Main Dashboard layout component
-- Sidebar/Navigation component
-- Card/Widget components
-- Chart components (using Recharts/D3 patterns)
-- Table/List components
-- Header component
-
-Return as JSON in this exact format:
-{
-  "name": "DashboardProjectName",
-  "description": "What this dashboard does",
-  "files": [
-    {
-      "filename": "components/Dashboard.tsx",
-      "type": "component",
-      "content": "import React from 'react'; ...",
-      "description": "Main dashboard layout"
-    },
-    {
-      "filename": "components/Sidebar.tsx",
-      "type": "component",
-      "content": "...",
-      "description": "Navigation sidebar"
-    },
-    {
-      "filename": "hooks/useDashboardData.ts",
-      "type": "hook",
-      "content": "...",
-      "description": "Data fetching hook"
-    },
-    {
-      "filename": "README.md",
-      "type": "doc",
-      "content": "# Dashboard\\n...",
-      "description": "Project documentation"
-    }
-  ],
-  "documentation": "Full usage guide and setup instructions",
-  "features": ["Feature 1", "Feature 2"],
-  "dependencies": ["recharts", "date-fns"]
-}
-
-Generate at least 5-8 files for a complete project structure.
-Return ONLY the JSON, no markdown formatting.`;
+export async function generateDashboard(base64Image: string, requirements?: string, options: GenerationOptions = {}): Promise<DashboardResult> {
+  const ai = getAIProvider('dashboard-generator');
+  const prompt = renderPrompt('dashboard-generator', {
+    requirements: requirements ? `Additional Requirements: ${requirements}` : '',
+  });
 
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-preview',
-      contents: {
-        parts: [
-          { inlineData: { mimeType: 'image/png', data: base64Image } },
-          { text: prompt }
-        ]
-      }
-    });
-    
-    let text = response.text || "{}";
-    text = text.replace(/^```json?\n?/, '').replace(/\n?```$/, '').trim();
-    
-    try {
-      return JSON.parse(text) as DashboardResult;
-    } catch {
-      return {
-        name: "Dashboard",
-        description: "Generated dashboard",
-        files: [],
-        documentation: text,
-        features: [],
-        dependencies: []
-      };
-    }
+    return await generateStructured(ai, {
+      parts: [
+        { inlineData: { mimeType: 'image/png', data: base64Image } },
+        { text: prompt }
+      ],
+      ...options,
+      promptVersion: getPromptVersion('dashboard-generator')
+    }, DashboardResultSchema, 'DashboardResult');
   } catch (e) {
     console.error("Dashboard generation failed", e);
     throw e;
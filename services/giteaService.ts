@@ -0,0 +1,160 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { RepoFileTree } from '../types';
+import { cachedFetch, createCacheKey, deduplicatedFetch } from './cache';
+import { RepoSpec, RepoRefs, RepoTreeResult, FetchTreeOptions, isAnalyzableFile, throwForStatus, encodeRef } from './githubService';
+import type { RepoSource } from './repoSource';
+
+const CACHE_TTL = 5 * 60 * 1000; // 5 minutes
+const DEFAULT_GITEA_URL = 'https://gitea.com';
+/** Gitea caps page size at the instance's MAX_RESPONSE_ITEMS, usually 50. */
+const MAX_TREE_PAGES = 200;
+
+let userProvidedGiteaToken: string | null = null;
+let giteaBaseUrl = DEFAULT_GITEA_URL;
+
+/**
+ * Sets the token and instance URL. Forgejo instances such as
+ * `https://codeberg.org` speak the same API.
+ */
+export function setUserGiteaConfig(token: string | null, baseUrl?: string | null) {
+  userProvidedGiteaToken = token;
+  giteaBaseUrl = (baseUrl || DEFAULT_GITEA_URL).trim().replace(/\/+$/, '');
+  if (!/^https?:\/\//.test(giteaBaseUrl)) giteaBaseUrl = `https://${giteaBaseUrl}`;
+}
+
+function getGiteaHeaders(): HeadersInit {
+  const headers: HeadersInit = {};
+  if (userProvidedGiteaToken) {
+    headers['Authorization'] = `token ${userProvidedGiteaToken}`;
+  }
+  return headers;
+}
+
+const repoUrl = (owner: string, repo: string) =>
+  `${giteaBaseUrl}/api/v1/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`;
+
+async function getJson(url: string, what: string, signal?: AbortSignal) {
+  const response = await fetch(url, { headers: getGiteaHeaders(), signal });
+  if (!response.ok) throwForStatus(response, what, 'Gitea');
+  return response.json();
+}
+
+async function fetchDefaultBranch(owner: string, repo: string): Promise<string> {
+  const cacheKey = createCacheKey('gitea-default-branch', giteaBaseUrl, owner, repo);
+  return deduplicatedFetch(cacheKey, () =>
+    cachedFetch(cacheKey, async () => {
+      const data = await getJson(repoUrl(owner, repo), 'Repository');
+      return data.default_branch as string;
+    }, CACHE_TTL)
+  );
+}
+
+async function listRefs(owner: string, repo: string): Promise<RepoRefs> {
+  const cacheKey = createCacheKey('gitea-refs', giteaBaseUrl, owner, repo);
+  return deduplicatedFetch(cacheKey, () =>
+    cachedFetch(cacheKey, async () => {
+      const [defaultBranch, branchesData, tagsData] = await Promise.all([
+        fetchDefaultBranch(owner, repo),
+        getJson(`${repoUrl(owner, repo)}/branches?limit=100`, 'Branches'),
+        getJson(`${repoUrl(owner, repo)}/tags?limit=100`, 'Tags'),
+      ]);
+      const branches: string[] = branchesData.map((b: any) => b.name);
+      const tags: string[] = tagsData.map((t: any) => t.name);
+      branches.sort((a, b) => (a === defaultBranch ? -1 : b === defaultBranch ? 1 : a.localeCompare(b)));
+      return { defaultBranch, branches, tags };
+    }, CACHE_TTL)
+  );
+}
+
+async function fetchTree(owner: string, repo: string, ref?: string, subdir?: string, options: FetchTreeOptions = {}): Promise<RepoTreeResult> {
+  const resolvedRef = ref || await fetchDefaultBranch(owner, repo);
+  const cleanSubdir = subdir ? subdir.replace(/\/+$/, '') : '';
+  const prefix = cleanSubdir ? `${cleanSubdir}/` : '';
+  const cacheKey = createCacheKey('gitea-tree', giteaBaseUrl, owner, repo, resolvedRef, cleanSubdir);
+
+  return deduplicatedFetch(cacheKey, () =>
+    cachedFetch(cacheKey, async () => {
+      const files: RepoFileTree[] = [];
+      let page = 1;
+      let truncated = true;
+
+      // The recursive listing is paged; `truncated` stays set while pages remain
+      while (truncated && page <= MAX_TREE_PAGES) {
+        let data: any;
+        try {
+          data = await getJson(`${repoUrl(owner, repo)}/git/trees/${encodeRef(resolvedRef)}?recursive=true&per_page=1000&page=${page}`, 'Repository', options.signal);
+        } catch (error: any) {
+          if (page === 1 && error?.message?.includes('not found')) {
+            throw new Error(`Ref "${resolvedRef}" not found in ${owner}/${repo}. Check the branch, tag or commit SHA.`);
+          }
+          throw error;
+        }
+        const items: any[] = data.tree || [];
+        items
+          .filter(item => item.type === 'blob' && item.path.startsWith(prefix) && isAnalyzableFile(item.path))
+          .forEach(item => files.push({ path: item.path, type: 'blob' }));
+        options.onProgress?.({ scannedDirs: page, queuedDirs: 0, files: files.length });
+        truncated = !!data.truncated && items.length > 0;
+        page++;
+      }
+      return {
+        files: files.sort((a, b) => a.path.localeCompare(b.path)),
+        truncation: truncated ? { recovered: 0, skippedDirs: [], pageLimit: MAX_TREE_PAGES } : undefined,
+      };
+    }, CACHE_TTL)
+  );
+}
+
+async function fetchFileContent(owner: string, repo: string, path: string, ref?: string): Promise<string | null> {
+  try {
+    const resolvedRef = ref || await fetchDefaultBranch(owner, repo);
+    const response = await fetch(
+      `${repoUrl(owner, repo)}/raw/${encodeRef(path)}?ref=${encodeURIComponent(resolvedRef)}`,
+      { headers: getGiteaHeaders() }
+    );
+    if (response.ok) {
+      return await response.text();
+    }
+  } catch (error) {
+    console.warn(`Failed to fetch ${path}:`, error);
+  }
+  return null;
+}
+
+/**
+ * Parses `<base>/<owner>/<repo>/src/{branch,tag,commit}/<ref>/<path>` and
+ * `/commit/<sha>` URLs.
+ */
+function parseUrl(url: URL): RepoSpec | null {
+  const basePath = new URL(giteaBaseUrl).pathname.replace(/\/+$/, '');
+  const path = url.pathname.startsWith(basePath) ? url.pathname.slice(basePath.length) : url.pathname;
+  const parts = path.split('/').filter(Boolean).map(decodeURIComponent);
+  if (parts.length < 2) return null;
+  const spec: RepoSpec = { owner: parts[0], repo: parts[1].replace(/\.git$/, '') };
+  const [kind, refKind, ref, ...rest] = parts.slice(2);
+  if ((kind === 'src' || kind === 'raw') && ['branch', 'tag', 'commit'].includes(refKind) && ref) {
+    spec.ref = ref;
+    const subdir = /\.\w+$/.test(rest[rest.length - 1] || '') ? rest.slice(0, -1) : rest;
+    if (subdir.length > 0) spec.subdir = subdir.join('/');
+  } else if (kind === 'commit' && refKind) {
+    spec.ref = refKind;
+  }
+  return spec;
+}
+
+export const giteaSource: RepoSource = {
+  host: 'gitea',
+  label: 'Gitea',
+  // Only the configured instance: API calls always go to giteaBaseUrl
+  matchesHost: (hostname) => hostname === new URL(giteaBaseUrl).hostname,
+  parseUrl,
+  treeUrl: ({ owner, repo, ref, subdir }) => `${giteaBaseUrl}/${owner}/${repo}/src/branch/${ref}${subdir ? `/${subdir}` : ''}`,
+  fetchDefaultBranch,
+  listRefs,
+  fetchTree,
+  fetchFileContent,
+  isAuthenticated: () => !!userProvidedGiteaToken,
+};
@@ -2,7 +2,7 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import { RepoFileTree, DependencyInfo } from '../types';
+import { RepoFileTree, DependencyInfo, RepoHost } from '../types';
 import { cachedFetch, createCacheKey, deduplicatedFetch } from './cache';
 
 const CACHE_TTL = 5 * 60 * 1000; // 5 minutes
@@ -28,20 +28,178 @@ function getGitHubHeaders(): HeadersInit {
 }
 
 /**
- * Fetches raw file content from a GitHub repository.
+ * A repository plus an optional git ref (branch, tag or commit SHA) and
+ * subdirectory to scope analysis to. `owner` is the GitLab namespace or
+ * Bitbucket workspace on other hosts.
  */
-export async function fetchFileContent(owner: string, repo: string, path: string, branch: string = 'main'): Promise<string | null> {
-  const branches = branch ? [branch] : ['main', 'master'];
-  
-  for (const br of branches) {
-    try {
-      const response = await fetch(`https://raw.githubusercontent.com/${owner}/${repo}/${br}/${path}`);
-      if (response.ok) {
-        return await response.text();
+export interface RepoSpec {
+  /** Missing means GitHub. */
+  host?: RepoHost;
+  owner: string;
+  repo: string;
+  ref?: string;
+  subdir?: string;
+}
+
+export interface RepoRefs {
+  defaultBranch: string;
+  branches: string[];
+  tags: string[];
+}
+
+/** Encodes each path segment of a ref or file path, keeping the slashes. */
+export const encodeRef = (ref: string) => ref.split('/').map(encodeURIComponent).join('/');
+
+/**
+ * Turns a failed host API response into a readable error. `hostLabel` names
+ * the service in the message; other repository sources share this helper.
+ */
+export const throwForStatus = (response: Response, what: string, hostLabel: string = 'GitHub'): never => {
+  if (response.status === 429 || (response.status === 403 && hostLabel === 'GitHub')) {
+    throw new Error(`${hostLabel} API rate limit exceeded. Please try again later (usually resets in an hour).`);
+  }
+  if (response.status === 401 || response.status === 403) {
+    throw new Error(`${hostLabel} rejected the request (${response.status}). Check the ${hostLabel} token in Settings.`);
+  }
+  if (response.status === 404) {
+    throw new Error(`${what} not found. It might be private or misspelled.`);
+  }
+  throw new Error(`${hostLabel} API error (${response.status}) while fetching ${what.toLowerCase()}.`);
+};
+
+/**
+ * Parses `owner/repo`, `owner/repo@ref` or a GitHub URL, including
+ * `/tree/<ref>/<subdir>`, `/blob/<ref>/<file>` and `/commit/<sha>` forms.
+ *
+ * Branch names may contain slashes, so for tree and blob URLs the first path
+ * segment is only a guess at the ref; resolveRepoSpec settles it against the
+ * repository's actual branches and tags.
+ */
+export function parseRepoSpec(input: string): RepoSpec | null {
+  const cleanInput = input.trim().replace(/\/+$/, '');
+  if (!cleanInput) return null;
+
+  try {
+    const url = new URL(/^(www\.)?github\.com\//.test(cleanInput) ? `https://${cleanInput}` : cleanInput);
+    if (url.hostname !== 'github.com' && url.hostname !== 'www.github.com') return null;
+    const parts = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+    if (parts.length < 2) return null;
+    const spec: RepoSpec = { owner: parts[0], repo: parts[1].replace(/\.git$/, '') };
+    const [kind, ref, ...rest] = parts.slice(2);
+    if ((kind === 'tree' || kind === 'blob') && ref) {
+      spec.ref = ref;
+      const path = kind === 'blob' ? rest.slice(0, -1) : rest;
+      if (path.length > 0) spec.subdir = path.join('/');
+    } else if (kind === 'commit' && ref) {
+      spec.ref = ref;
+    }
+    return spec;
+  } catch (e) { }
+
+  const match = cleanInput.match(/^([\w.-]+)\/([\w.-]+?)(?:\.git)?(?:@(.+))?$/);
+  if (!match) return null;
+  return { owner: match[1], repo: match[2], ref: match[3] || undefined };
+}
+
+/** Formats a spec for display, e.g. `owner/repo@v1.2 (packages/core)`. */
+export function formatRepoSpec(spec: RepoSpec): string {
+  return `${spec.owner}/${spec.repo}${spec.ref ? `@${spec.ref}` : ''}${spec.subdir ? ` (${spec.subdir})` : ''}`;
+}
+
+/**
+ * Looks up the repository's default branch.
+ */
+export async function fetchDefaultBranch(owner: string, repo: string): Promise<string> {
+  const cacheKey = createCacheKey('repo-default-branch', owner, repo);
+  return deduplicatedFetch(cacheKey, () =>
+    cachedFetch(cacheKey, async () => {
+      const response = await fetch(`https://api.github.com/repos/${owner}/${repo}`, { headers: getGitHubHeaders() });
+      if (!response.ok) throwForStatus(response, 'Repository');
+      const data = await response.json();
+      return data.default_branch as string;
+    }, CACHE_TTL)
+  );
+}
+
+/**
+ * Lists the default branch plus up to 100 branches and 100 tags for ref pickers.
+ */
+export async function listRepoRefs(owner: string, repo: string): Promise<RepoRefs> {
+  const cacheKey = createCacheKey('repo-refs', owner, repo);
+  return deduplicatedFetch(cacheKey, () =>
+    cachedFetch(cacheKey, async () => {
+      const [defaultBranch, branchesRes, tagsRes] = await Promise.all([
+        fetchDefaultBranch(owner, repo),
+        fetch(`https://api.github.com/repos/${owner}/${repo}/branches?per_page=100`, { headers: getGitHubHeaders() }),
+        fetch(`https://api.github.com/repos/${owner}/${repo}/tags?per_page=100`, { headers: getGitHubHeaders() }),
+      ]);
+      if (!branchesRes.ok) throwForStatus(branchesRes, 'Branches');
+      if (!tagsRes.ok) throwForStatus(tagsRes, 'Tags');
+      const branches: string[] = (await branchesRes.json()).map((b: any) => b.name);
+      const tags: string[] = (await tagsRes.json()).map((t: any) => t.name);
+      // Default branch first, then alphabetical
+      branches.sort((a, b) => (a === defaultBranch ? -1 : b === defaultBranch ? 1 : a.localeCompare(b)));
+      return { defaultBranch, branches, tags };
+    }, CACHE_TTL)
+  );
+}
+
+/** The ref lookups settleRepoSpec needs; every repository host provides them. */
+export interface RefLookups {
+  fetchDefaultBranch(owner: string, repo: string): Promise<string>;
+  listRefs(owner: string, repo: string): Promise<RepoRefs>;
+}
+
+/**
+ * Fills in a missing ref with the default branch and, for URLs whose ref may
+ * contain slashes, moves path segments between ref and subdir until the ref
+ * names a real branch or tag.
+ */
+export function resolveRepoSpec(spec: RepoSpec): Promise<RepoSpec & { ref: string }> {
+  return settleRepoSpec(spec, { fetchDefaultBranch, listRefs: listRepoRefs });
+}
+
+/**
+ * Host-agnostic core of resolveRepoSpec.
+ */
+export async function settleRepoSpec(spec: RepoSpec, lookups: RefLookups): Promise<RepoSpec & { ref: string }> {
+  if (!spec.ref) {
+    return { ...spec, ref: await lookups.fetchDefaultBranch(spec.owner, spec.repo) };
+  }
+  if (!spec.subdir) {
+    return { ...spec, ref: spec.ref };
+  }
+
+  const segments = [spec.ref, ...spec.subdir.split('/')];
+  try {
+    const { branches, tags } = await lookups.listRefs(spec.owner, spec.repo);
+    const known = new Set([...branches, ...tags]);
+    for (let i = segments.length; i > 1; i--) {
+      const candidate = segments.slice(0, i).join('/');
+      if (known.has(candidate)) {
+        const subdir = segments.slice(i).join('/');
+        return { ...spec, ref: candidate, subdir: subdir || undefined };
       }
-    } catch (error) {
-      continue;
     }
+  } catch (e) {
+    console.warn('Could not list refs; assuming single-segment ref', e);
+  }
+  return { ...spec, ref: spec.ref };
+}
+
+/**
+ * Fetches raw file content from a GitHub repository at the given ref
+ * (branch, tag or commit SHA). Uses the default branch when no ref is given.
+ */
+export async function fetchFileContent(owner: string, repo: string, path: string, ref?: string): Promise<string | null> {
+  try {
+    const resolvedRef = ref || await fetchDefaultBranch(owner, repo);
+    const response = await fetch(`https://raw.githubusercontent.com/${owner}/${repo}/${encodeRef(resolvedRef)}/${path}`);
+    if (response.ok) {
+      return await response.text();
+    }
+  } catch (error) {
+    console.warn(`Failed to fetch ${path}:`, error);
   }
   return null;
 }
@@ -196,14 +354,17 @@ function parseGoMod(content: string): DependencyInfo[] {
   return deps;
 }
 
-/**
- * Fetches and parses dependency files from a repository.
- */
-export async function fetchRepoDependencies(owner: string, repo: string): Promise<{
+export interface DependencyScanResult {
   dependencies: DependencyInfo[];
   ecosystem: string;
   manifestFile: string;
-}> {
+}
+
+/**
+ * Finds and parses the first dependency manifest that `readFile` can supply.
+ * Source-agnostic so local folders and archives share the same detection.
+ */
+export async function detectDependencies(readFile: (path: string) => Promise<string | null>, subdir?: string): Promise<DependencyScanResult> {
   // Try different dependency files in order of preference
   const manifestFiles = [
     { path: 'package.json', parser: parsePackageJson, ecosystem: 'npm' },
@@ -213,14 +374,15 @@ export async function fetchRepoDependencies(owner: string, repo: string): Promis
   ];
   
   for (const manifest of manifestFiles) {
-    const content = await fetchFileContent(owner, repo, manifest.path);
+    const path = subdir ? `${subdir}/${manifest.path}` : manifest.path;
+    const content = await readFile(path);
     if (content) {
       const dependencies = manifest.parser(content);
       if (dependencies.length > 0) {
         return {
           dependencies,
           ecosystem: manifest.ecosystem,
-          manifestFile: manifest.path
+          manifestFile: path
         };
       }
     }
@@ -229,52 +391,276 @@ export async function fetchRepoDependencies(owner: string, repo: string): Promis
   return { dependencies: [], ecosystem: 'unknown', manifestFile: '' };
 }
 
-export async function fetchRepoFileTree(owner: string, repo: string): Promise<RepoFileTree[]> {
-  const cacheKey = createCacheKey('repo-tree', owner, repo);
-  
-  return deduplicatedFetch(cacheKey, () => 
-    cachedFetch(cacheKey, async () => {
-      const branches = ['main', 'master'];
-
-      for (const branch of branches) {
-        try {
-          const response = await fetch(
-            `https://api.github.com/repos/${owner}/${repo}/git/trees/${branch}?recursive=1`,
-            { headers: getGitHubHeaders() }
-          );
-
-          if (response.ok) {
-            const data = await response.json();
-            
-            if (data.truncated) {
-              console.warn('Warning: Repository tree is too large and was truncated by GitHub API.');
-            }
-
-            return (data.tree || []).filter((item: any) => 
-              item.type === 'blob' && 
-              item.path.match(/\.(js|jsx|ts|tsx|py|go|rs|java|c|cpp|h|hpp|cs|php|rb|swift|kt|dart|json|yaml|yml|toml|xml|html|css)$/i) &&
-              !item.path.includes('node_modules') &&
-              !item.path.includes('dist/') &&
-              !item.path.includes('build/') &&
-              !item.path.startsWith('.')
-            );
-          }
+/**
+ * Fetches and parses dependency files from a repository.
+ */
+export async function fetchRepoDependencies(owner: string, repo: string, ref?: string, subdir?: string): Promise<DependencyScanResult> {
+  const resolvedRef = ref || await fetchDefaultBranch(owner, repo);
+  return detectDependencies(path => fetchFileContent(owner, repo, path, resolvedRef), subdir);
+}
 
-          if (response.status === 403 || response.status === 429) {
-            throw new Error('GitHub API rate limit exceeded. Please try again later (usually resets in an hour).');
-          }
-          
-        } catch (error: any) {
-          if (error.message.includes('rate limit')) {
-            throw error;
-          }
-          if (branch === branches[branches.length - 1]) {
-             console.error('Error fetching repo tree:', error);
+const SOURCE_FILE_PATTERN = /\.(js|jsx|ts|tsx|py|go|rs|java|c|cpp|h|hpp|cs|php|rb|swift|kt|dart|json|yaml|yml|toml|xml|html|css)$/i;
+
+/** True for source files worth showing in graphs and prompts. */
+export const isAnalyzableFile = (path: string) =>
+  SOURCE_FILE_PATTERN.test(path) &&
+  !path.includes('node_modules') &&
+  !path.includes('dist/') &&
+  !path.includes('build/') &&
+  !path.startsWith('.');
+
+// Directories whose files would be filtered out anyway are never crawled
+const isIgnoredDir = (path: string) => {
+  const name = path.slice(path.lastIndexOf('/') + 1);
+  return name === 'node_modules' || name === 'dist' || name === 'build' || path.startsWith('.');
+};
+
+/** Parallel subtree requests while recovering a truncated tree. */
+const SUBTREE_CONCURRENCY = 6;
+/** Request caps for the fallback crawl; anonymous callers get 60 API calls an hour. */
+const MAX_SUBTREE_REQUESTS = { authenticated: 500, anonymous: 40 };
+
+export interface TreeCrawlProgress {
+  scannedDirs: number;
+  queuedDirs: number;
+  files: number;
+}
+
+/**
+ * How a truncated recursive tree was completed. `skippedDirs` could not be
+ * listed (request cap or errors), so their files are missing from the result.
+ */
+export interface TreeTruncationReport {
+  /** Files found by the crawl beyond what the truncated response contained. */
+  recovered: number;
+  skippedDirs: string[];
+  /**
+   * Set by paginated hosts when the listing stopped at their page cap. Files
+   * on later pages are missing and could not be recovered.
+   */
+  pageLimit?: number;
+}
+
+export interface RepoTreeResult {
+  files: RepoFileTree[];
+  /** Set only when the listing is incomplete: GitHub truncated it, or a host's page cap was hit. */
+  truncation?: TreeTruncationReport;
+}
+
+export interface FetchTreeOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: TreeCrawlProgress) => void;
+}
+
+async function fetchTreeJson(owner: string, repo: string, treeish: string, recursive: boolean, signal?: AbortSignal) {
+  const response = await fetch(
+    `https://api.github.com/repos/${owner}/${repo}/git/trees/${encodeRef(treeish)}${recursive ? '?recursive=1' : ''}`,
+    { headers: getGitHubHeaders(), signal }
+  );
+  if (!response.ok) {
+    if (response.status === 404 || response.status === 422) {
+      throw new Error(`Ref "${treeish}" not found in ${owner}/${repo}. Check the branch, tag or commit SHA.`);
+    }
+    throwForStatus(response, 'Repository');
+  }
+  return response.json();
+}
+
+/**
+ * Runs `fn` over `items` with at most `limit` calls in flight.
+ */
+export async function mapWithConcurrency<T>(items: T[], limit: number, fn: (item: T) => Promise<void>) {
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const item = items[next++];
+      await fn(item);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+}
+
+/**
+ * Completes a tree that the recursive API truncated. Directories are visited
+ * breadth-first: each subtree is first requested recursively, and only
+ * subtrees that are themselves truncated are listed one level at a time.
+ */
+async function crawlTruncatedTree(
+  owner: string,
+  repo: string,
+  rootSha: string,
+  partial: any[],
+  subdir: string | undefined,
+  options: FetchTreeOptions
+): Promise<{ entries: any[]; skippedDirs: string[] }> {
+  const found = new Map<string, any>();
+  partial.filter(item => item.type === 'blob').forEach(item => found.set(item.path, item));
+
+  // With a subdir, only its ancestors (listed shallowly) and descendants are visited
+  const isAncestor = (path: string) => !!subdir && path !== subdir && (path === '' || subdir.startsWith(`${path}/`));
+  const isRelevant = (path: string) => !subdir || isAncestor(path) || path === subdir || path.startsWith(`${subdir}/`);
+
+  const limit = userProvidedGitHubToken ? MAX_SUBTREE_REQUESTS.authenticated : MAX_SUBTREE_REQUESTS.anonymous;
+  const skippedDirs: string[] = [];
+  let requests = 0;
+  // Set once GitHub reports the rate limit; later directories are skipped instead of requested
+  let rateLimited = false;
+  let scanned = 0;
+  let queue: { path: string; sha: string }[] = [{ path: '', sha: rootSha }];
+
+  const addEntries = (base: string, items: any[], next?: { path: string; sha: string }[]) => {
+    items.forEach(item => {
+      const path = base ? `${base}/${item.path}` : item.path;
+      if (item.type === 'blob') {
+        found.set(path, { ...item, path });
+      } else if (item.type === 'tree' && next && !item.path.includes('/') && !isIgnoredDir(path) && isRelevant(path)) {
+        next.push({ path, sha: item.sha });
+      }
+    });
+  };
+
+  while (queue.length > 0) {
+    const next: { path: string; sha: string }[] = [];
+    let waveDone = 0;
+    await mapWithConcurrency(queue, SUBTREE_CONCURRENCY, async (dir) => {
+      if (requests >= limit || rateLimited) {
+        skippedDirs.push(dir.path || '/');
+        return;
+      }
+      try {
+        // The root is known to be truncated, and ancestors of a subdir only need their children
+        if (dir.path !== '' && !isAncestor(dir.path)) {
+          requests++;
+          const full = await fetchTreeJson(owner, repo, dir.sha, true, options.signal);
+          if (!full.truncated) {
+            addEntries(dir.path, full.tree || []);
+            return;
           }
         }
+        requests++;
+        const listing = await fetchTreeJson(owner, repo, dir.sha, false, options.signal);
+        addEntries(dir.path, listing.tree || [], next);
+      } catch (error: any) {
+        if (error?.name === 'AbortError') throw error;
+        if (error?.message?.includes('rate limit')) rateLimited = true;
+        else console.warn(`Failed to list ${dir.path || '/'}:`, error);
+        skippedDirs.push(dir.path || '/');
+      } finally {
+        scanned++;
+        waveDone++;
+        options.onProgress?.({ scannedDirs: scanned, queuedDirs: queue.length - waveDone + next.length, files: found.size });
       }
+    });
+    queue = rateLimited ? [] : next;
+    if (rateLimited) skippedDirs.push(...next.map(dir => dir.path || '/'));
+  }
 
-      throw new Error(`Failed to fetch repository. It might be private, non-existent, or using a non-standard default branch (checked: ${branches.join(', ')}).`);
-    }, CACHE_TTL)
-  );
-}
\ No newline at end of file
+  return { entries: Array.from(found.values()), skippedDirs };
+}
+
+/**
+ * Fetches the source file tree at a ref (branch, tag or commit SHA), optionally
+ * limited to a subdirectory. Uses the default branch when no ref is given.
+ * Trees too large for GitHub's recursive listing are completed by crawling
+ * subtrees; the result then carries a truncation report.
+ */
+export async function fetchRepoTree(owner: string, repo: string, ref?: string, subdir?: string, options: FetchTreeOptions = {}): Promise<RepoTreeResult> {
+  const resolvedRef = ref || await fetchDefaultBranch(owner, repo);
+  const cacheKey = createCacheKey('repo-tree', owner, repo, resolvedRef, subdir || '');
+  const cleanSubdir = subdir ? subdir.replace(/\/+$/, '') : undefined;
+  const prefix = cleanSubdir ? `${cleanSubdir}/` : '';
+  const inScope = (item: any) => item.type === 'blob' && item.path.startsWith(prefix) && isAnalyzableFile(item.path);
+
+  const load = (shared: FetchTreeOptions) => cachedFetch(cacheKey, async () => {
+    const data = await fetchTreeJson(owner, repo, resolvedRef, true, shared.signal);
+    const partial: any[] = data.tree || [];
+
+    if (!data.truncated) {
+      return { files: partial.filter(inScope) };
+    }
+
+    console.warn('Repository tree was truncated by GitHub API; crawling subtrees.');
+    const partialCount = partial.filter(inScope).length;
+    const { entries, skippedDirs } = await crawlTruncatedTree(owner, repo, data.sha, partial, cleanSubdir, shared);
+    const files = entries.filter(inScope).sort((a, b) => a.path.localeCompare(b.path));
+    return {
+      files,
+      truncation: { recovered: Math.max(0, files.length - partialCount), skippedDirs },
+    };
+  }, CACHE_TTL);
+
+  return joinTreeFetch(cacheKey, load, options);
+}
+
+interface SharedTreeFetch {
+  promise: Promise<RepoTreeResult>;
+  controller: AbortController;
+  listeners: Set<(progress: TreeCrawlProgress) => void>;
+  waiting: number;
+}
+
+const treeFetches = new Map<string, SharedTreeFetch>();
+
+/**
+ * Shares one tree fetch between callers asking for the same tree. Each caller
+ * gets progress updates and can cancel on its own; the requests themselves
+ * are aborted only once every caller has given up.
+ */
+function joinTreeFetch(
+  key: string,
+  load: (shared: FetchTreeOptions) => Promise<RepoTreeResult>,
+  options: FetchTreeOptions
+): Promise<RepoTreeResult> {
+  const { signal, onProgress } = options;
+  if (signal?.aborted) return Promise.reject(new DOMException('The operation was aborted.', 'AbortError'));
+
+  let shared = treeFetches.get(key);
+  if (!shared || shared.controller.signal.aborted) {
+    const controller = new AbortController();
+    const listeners = new Set<(progress: TreeCrawlProgress) => void>();
+    const entry: SharedTreeFetch = {
+      controller,
+      listeners,
+      waiting: 0,
+      promise: load({ signal: controller.signal, onProgress: progress => listeners.forEach(listener => listener(progress)) })
+        .finally(() => {
+          if (treeFetches.get(key) === entry) treeFetches.delete(key);
+        }),
+    };
+    treeFetches.set(key, entry);
+    shared = entry;
+  }
+
+  const entry = shared;
+  entry.waiting++;
+  if (onProgress) entry.listeners.add(onProgress);
+
+  return new Promise<RepoTreeResult>((resolve, reject) => {
+    let settled = false;
+    const leave = () => {
+      settled = true;
+      entry.waiting--;
+      if (onProgress) entry.listeners.delete(onProgress);
+      signal?.removeEventListener('abort', onAbort);
+    };
+    const onAbort = () => {
+      if (settled) return;
+      leave();
+      if (entry.waiting === 0) entry.controller.abort();
+      reject(new DOMException('The operation was aborted.', 'AbortError'));
+    };
+    signal?.addEventListener('abort', onAbort);
+    entry.promise.then(
+      result => { if (!settled) { leave(); resolve(result); } },
+      error => { if (!settled) { leave(); reject(error); } }
+    );
+  });
+}
+
+/**
+ * Fetches the source file tree at a ref. See fetchRepoTree for the
+ * truncation report and progress callbacks.
+ */
+export async function fetchRepoFileTree(owner: string, repo: string, ref?: string, subdir?: string): Promise<RepoFileTree[]> {
+  return (await fetchRepoTree(owner, repo, ref, subdir)).files;
+}
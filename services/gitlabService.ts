@@ -0,0 +1,167 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { RepoFileTree } from '../types';
+import { cachedFetch, createCacheKey, deduplicatedFetch } from './cache';
+import { RepoSpec, RepoRefs, RepoTreeResult, FetchTreeOptions, isAnalyzableFile, throwForStatus } from './githubService';
+import type { RepoSource } from './repoSource';
+
+const CACHE_TTL = 5 * 60 * 1000; // 5 minutes
+const DEFAULT_GITLAB_URL = 'https://gitlab.com';
+/** 100 entries per page; larger trees are cut off with a warning. */
+const MAX_TREE_PAGES = 100;
+
+let userProvidedGitLabToken: string | null = null;
+let gitlabBaseUrl = DEFAULT_GITLAB_URL;
+
+/**
+ * Sets the token and, for self-hosted instances, the base URL
+ * (e.g. `https://gitlab.example.com` or `https://example.com/gitlab`).
+ */
+export function setUserGitLabConfig(token: string | null, baseUrl?: string | null) {
+  userProvidedGitLabToken = token;
+  gitlabBaseUrl = (baseUrl || DEFAULT_GITLAB_URL).trim().replace(/\/+$/, '');
+  if (!/^https?:\/\//.test(gitlabBaseUrl)) gitlabBaseUrl = `https://${gitlabBaseUrl}`;
+}
+
+function getGitLabHeaders(): HeadersInit {
+  const headers: HeadersInit = {};
+  if (userProvidedGitLabToken) {
+    headers['PRIVATE-TOKEN'] = userProvidedGitLabToken;
+  }
+  return headers;
+}
+
+// GitLab addresses projects by their URL-encoded full path
+const projectUrl = (owner: string, repo: string) =>
+  `${gitlabBaseUrl}/api/v4/projects/${encodeURIComponent(`${owner}/${repo}`)}`;
+
+async function getJson(url: string, what: string, signal?: AbortSignal) {
+  const response = await fetch(url, { headers: getGitLabHeaders(), signal });
+  if (!response.ok) throwForStatus(response, what, 'GitLab');
+  return response;
+}
+
+async function fetchDefaultBranch(owner: string, repo: string): Promise<string> {
+  const cacheKey = createCacheKey('gitlab-default-branch', gitlabBaseUrl, owner, repo);
+  return deduplicatedFetch(cacheKey, () =>
+    cachedFetch(cacheKey, async () => {
+      const data = await (await getJson(projectUrl(owner, repo), 'Project')).json();
+      return data.default_branch as string;
+    }, CACHE_TTL)
+  );
+}
+
+async function listRefs(owner: string, repo: string): Promise<RepoRefs> {
+  const cacheKey = createCacheKey('gitlab-refs', gitlabBaseUrl, owner, repo);
+  return deduplicatedFetch(cacheKey, () =>
+    cachedFetch(cacheKey, async () => {
+      const [defaultBranch, branchesRes, tagsRes] = await Promise.all([
+        fetchDefaultBranch(owner, repo),
+        getJson(`${projectUrl(owner, repo)}/repository/branches?per_page=100`, 'Branches'),
+        getJson(`${projectUrl(owner, repo)}/repository/tags?per_page=100`, 'Tags'),
+      ]);
+      const branches: string[] = (await branchesRes.json()).map((b: any) => b.name);
+      const tags: string[] = (await tagsRes.json()).map((t: any) => t.name);
+      branches.sort((a, b) => (a === defaultBranch ? -1 : b === defaultBranch ? 1 : a.localeCompare(b)));
+      return { defaultBranch, branches, tags };
+    }, CACHE_TTL)
+  );
+}
+
+/** Follows keyset pagination (`Link: rel="next"`) or, on older instances, `X-Next-Page`. */
+const nextPageUrl = (response: Response, current: string): string | null => {
+  const link = response.headers.get('Link')?.match(/<([^>]+)>;\s*rel="next"/);
+  if (link) return link[1];
+  const nextPage = response.headers.get('X-Next-Page');
+  if (!nextPage) return null;
+  const url = new URL(current);
+  url.searchParams.set('page', nextPage);
+  return url.href;
+};
+
+async function fetchTree(owner: string, repo: string, ref?: string, subdir?: string, options: FetchTreeOptions = {}): Promise<RepoTreeResult> {
+  const resolvedRef = ref || await fetchDefaultBranch(owner, repo);
+  const cleanSubdir = subdir ? subdir.replace(/\/+$/, '') : '';
+  const cacheKey = createCacheKey('gitlab-tree', gitlabBaseUrl, owner, repo, resolvedRef, cleanSubdir);
+
+  return deduplicatedFetch(cacheKey, () =>
+    cachedFetch(cacheKey, async () => {
+      const params = new URLSearchParams({ recursive: 'true', per_page: '100', ref: resolvedRef, pagination: 'keyset' });
+      if (cleanSubdir) params.set('path', cleanSubdir);
+      let url: string | null = `${projectUrl(owner, repo)}/repository/tree?${params}`;
+      const files: RepoFileTree[] = [];
+      let pages = 0;
+
+      while (url && pages < MAX_TREE_PAGES) {
+        const response = await getJson(url, `Ref "${resolvedRef}"`, options.signal);
+        const items: any[] = await response.json();
+        items
+          .filter(item => item.type === 'blob' && isAnalyzableFile(item.path))
+          .forEach(item => files.push({ path: item.path, type: 'blob' }));
+        pages++;
+        options.onProgress?.({ scannedDirs: pages, queuedDirs: 0, files: files.length });
+        url = nextPageUrl(response, url);
+      }
+      return {
+        files: files.sort((a, b) => a.path.localeCompare(b.path)),
+        truncation: url ? { recovered: 0, skippedDirs: [], pageLimit: MAX_TREE_PAGES } : undefined,
+      };
+    }, CACHE_TTL)
+  );
+}
+
+async function fetchFileContent(owner: string, repo: string, path: string, ref?: string): Promise<string | null> {
+  try {
+    const resolvedRef = ref || await fetchDefaultBranch(owner, repo);
+    const response = await fetch(
+      `${projectUrl(owner, repo)}/repository/files/${encodeURIComponent(path)}/raw?ref=${encodeURIComponent(resolvedRef)}`,
+      { headers: getGitLabHeaders() }
+    );
+    if (response.ok) {
+      return await response.text();
+    }
+  } catch (error) {
+    console.warn(`Failed to fetch ${path}:`, error);
+  }
+  return null;
+}
+
+/**
+ * Parses `<base>/group/subgroup/project/-/tree/<ref>/<subdir>` and the
+ * blob and commit variants. The base URL's own path is skipped for
+ * instances served under a prefix.
+ */
+function parseUrl(url: URL): RepoSpec | null {
+  const basePath = new URL(gitlabBaseUrl).pathname.replace(/\/+$/, '');
+  const path = url.pathname.startsWith(basePath) ? url.pathname.slice(basePath.length) : url.pathname;
+  const [projectPart, routePart = ''] = path.split('/-/');
+  const project = projectPart.split('/').filter(Boolean).map(decodeURIComponent);
+  if (project.length < 2) return null;
+
+  const spec: RepoSpec = { owner: project.slice(0, -1).join('/'), repo: project[project.length - 1].replace(/\.git$/, '') };
+  const [kind, ref, ...rest] = routePart.split('/').filter(Boolean).map(decodeURIComponent);
+  if ((kind === 'tree' || kind === 'blob') && ref) {
+    spec.ref = ref;
+    const subdir = kind === 'blob' ? rest.slice(0, -1) : rest;
+    if (subdir.length > 0) spec.subdir = subdir.join('/');
+  } else if (kind === 'commit' && ref) {
+    spec.ref = ref;
+  }
+  return spec;
+}
+
+export const gitlabSource: RepoSource = {
+  host: 'gitlab',
+  label: 'GitLab',
+  // Only the configured instance: API calls always go to gitlabBaseUrl
+  matchesHost: (hostname) => hostname === new URL(gitlabBaseUrl).hostname,
+  parseUrl,
+  treeUrl: ({ owner, repo, ref, subdir }) => `${gitlabBaseUrl}/${owner}/${repo}/-/tree/${ref}${subdir ? `/${subdir}` : ''}`,
+  fetchDefaultBranch,
+  listRefs,
+  fetchTree,
+  fetchFileContent,
+  isAuthenticated: () => !!userProvidedGitLabToken,
+};
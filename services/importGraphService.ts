@@ -0,0 +1,119 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { RepoFileTree, DataFlowGraph } from '../types';
+import { ImportTarget, ResolverContext, TsPathConfig, languageOf, parseImports, parseTsConfig, parseGoModule, resolveImport } from '../utils/importParser';
+import { buildImportGraph } from '../utils/graphBuilder';
+import { mapWithConcurrency } from './githubService';
+import { scoreFile } from './contextPacker';
+
+/** Parallel file reads while scanning imports. */
+const READ_CONCURRENCY = 6;
+/** Source files read per scan; the rest are ranked out by scoreFile. */
+const DEFAULT_MAX_FILES = 500;
+
+export interface ImportGraphOptions {
+  signal?: AbortSignal;
+  onProgress?: (done: number, total: number) => void;
+  maxFiles?: number;
+}
+
+export interface ImportGraphResult {
+  graph: DataFlowGraph;
+  /** Source files whose imports were read. */
+  scannedFiles: number;
+  /** Parseable files left out by `maxFiles` or that could not be read. */
+  skippedFiles: number;
+}
+
+/** Longest directory shared by every path, without a trailing slash. */
+const commonDir = (paths: string[]): string => {
+  if (paths.length === 0) return '';
+  let parts = paths[0].split('/').slice(0, -1);
+  for (const path of paths) {
+    const dirs = path.split('/').slice(0, -1);
+    let i = 0;
+    while (i < parts.length && parts[i] === dirs[i]) i++;
+    parts = parts.slice(0, i);
+  }
+  return parts.join('/');
+};
+
+const ancestorsOf = (dir: string): string[] => {
+  const parts = dir ? dir.split('/') : [];
+  return parts.map((_, i) => parts.slice(0, parts.length - i).join('/')).concat('');
+};
+
+/**
+ * Reads the source files of a tree and builds a graph of the imports between
+ * them. tsconfig/jsconfig path aliases and go.mod module paths are picked up
+ * so aliased and module-absolute imports resolve to repository files.
+ */
+export async function extractImportGraph(
+  fileTree: RepoFileTree[],
+  readFile: (path: string) => Promise<string | null>,
+  options: ImportGraphOptions = {}
+): Promise<ImportGraphResult> {
+  const { signal, onProgress, maxFiles = DEFAULT_MAX_FILES } = options;
+  const paths = fileTree.map(file => file.path);
+  const root = commonDir(paths);
+
+  const sources = paths.filter(path => languageOf(path));
+  const selected = sources.length > maxFiles
+    ? [...sources].sort((a, b) => scoreFile(b) - scoreFile(a)).slice(0, maxFiles)
+    : sources;
+
+  const ctx: ResolverContext = {
+    files: new Set(paths),
+    pythonRoots: Array.from(new Set(['', root, root ? `${root}/src` : 'src'])),
+  };
+
+  // Config files are read up front so every import resolves against them
+  const configPaths = paths.filter(path => /(^|\/)(tsconfig|jsconfig)\.json$/.test(path));
+  const tsConfigs = await Promise.all(configPaths.map(async path => {
+    const content = await readFile(path);
+    return content ? parseTsConfig(path, content) : null;
+  }));
+  ctx.tsConfigs = tsConfigs.filter((config): config is TsPathConfig => !!config);
+
+  // go.mod is not an analyzable file, so look for it above the scanned root
+  if (selected.some(path => languageOf(path) === 'go')) {
+    for (const dir of ancestorsOf(root)) {
+      const content = await readFile(dir ? `${dir}/go.mod` : 'go.mod');
+      const module = content && parseGoModule(content);
+      if (module) {
+        ctx.goModules = [{ dir, module }];
+        break;
+      }
+    }
+  }
+
+  const imports = new Map<string, ImportTarget[]>();
+  let done = 0;
+  let unread = 0;
+  onProgress?.(0, selected.length);
+
+  await mapWithConcurrency(selected, READ_CONCURRENCY, async (path) => {
+    if (signal?.aborted) return;
+    const content = await readFile(path);
+    if (content === null) {
+      unread++;
+    } else {
+      const targets = parseImports(path, content)
+        .map(specifier => resolveImport(path, specifier, ctx))
+        .filter((target): target is ImportTarget => !!target);
+      imports.set(path, targets);
+    }
+    onProgress?.(++done, selected.length);
+  });
+
+  if (signal?.aborted) throw new DOMException('Import scan aborted', 'AbortError');
+
+  return {
+    graph: buildImportGraph(fileTree, imports),
+    scannedFiles: imports.size,
+    skippedFiles: sources.length - selected.length + unread,
+  };
+}
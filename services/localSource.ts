@@ -0,0 +1,220 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import JSZip from 'jszip';
+import { RepoFileTree } from '../types';
+import { isAnalyzableFile } from './githubService';
+import { createIgnoreMatcher, IgnoreMatcher } from '../utils/gitignore';
+
+/**
+ * A codebase read from the user's machine instead of a git host. `fileTree`
+ * holds the analyzable source files; `readFile` can read any non-ignored file,
+ * including manifests outside the tree filter.
+ */
+export interface LocalRepository {
+  name: string;
+  origin: 'folder' | 'zip';
+  fileTree: RepoFileTree[];
+  /** Non-ignored files of any type. */
+  totalFiles: number;
+  /** Files excluded by .gitignore rules. */
+  ignoredFiles: number;
+  readFile(path: string): Promise<string | null>;
+}
+
+interface LocalEntry {
+  path: string;
+  read: () => Promise<string>;
+}
+
+// Never useful and often huge, whether or not a .gitignore mentions them
+const ALWAYS_IGNORED = '.git/\nnode_modules/\n.DS_Store\n';
+
+/** True when the browser can open folders through the File System Access API. */
+export const supportsDirectoryPicker = (): boolean =>
+  typeof window !== 'undefined' && typeof (window as any).showDirectoryPicker === 'function';
+
+const buildRepository = (
+  name: string,
+  origin: LocalRepository['origin'],
+  entries: LocalEntry[],
+  matcher: IgnoreMatcher,
+  ignoredFiles: number
+): LocalRepository => {
+  const files = new Map(entries.map(e => [e.path, e]));
+  const fileTree = entries
+    .filter(e => isAnalyzableFile(e.path))
+    .map(e => ({ path: e.path, type: 'blob' }))
+    .sort((a, b) => a.path.localeCompare(b.path));
+
+  if (fileTree.length === 0) {
+    throw new Error(`No source files found in ${name}${ignoredFiles > 0 ? ` (${ignoredFiles} files ignored by .gitignore)` : ''}.`);
+  }
+
+  return {
+    name,
+    origin,
+    fileTree,
+    totalFiles: entries.length,
+    ignoredFiles,
+    async readFile(path: string) {
+      const entry = files.get(path.replace(/^\/+/, ''));
+      if (!entry || matcher.isIgnored(entry.path)) return null;
+      try {
+        return await entry.read();
+      } catch (e) {
+        console.warn(`Failed to read ${path}:`, e);
+        return null;
+      }
+    },
+  };
+};
+
+/**
+ * Applies every .gitignore among `entries` and returns the surviving files.
+ * Used for flat listings (webkitdirectory inputs, zip archives) where the
+ * whole tree is already enumerated.
+ */
+const applyGitignores = async (entries: LocalEntry[]) => {
+  const matcher = createIgnoreMatcher();
+  matcher.add('', ALWAYS_IGNORED);
+  const gitignores = entries.filter(e => e.path === '.gitignore' || e.path.endsWith('/.gitignore'));
+  for (const file of gitignores) {
+    const base = file.path.slice(0, Math.max(0, file.path.lastIndexOf('/')));
+    matcher.add(base, await file.read());
+  }
+  const kept = entries.filter(e => !matcher.isIgnored(e.path));
+  return { matcher, kept, ignored: entries.length - kept.length };
+};
+
+/** Drops a leading folder shared by every path, e.g. `repo-main/` in GitHub archives. */
+const stripCommonRoot = (paths: string[]): string => {
+  const first = paths[0]?.split('/')[0];
+  if (!first || !paths.every(p => p.startsWith(`${first}/`))) return '';
+  return `${first}/`;
+};
+
+/**
+ * Reads a directory chosen through `showDirectoryPicker`. Ignored directories
+ * are pruned before they are entered, so node_modules is never walked.
+ */
+export async function loadFromDirectoryHandle(root: FileSystemDirectoryHandle, signal?: AbortSignal): Promise<LocalRepository> {
+  const matcher = createIgnoreMatcher();
+  matcher.add('', ALWAYS_IGNORED);
+  const entries: LocalEntry[] = [];
+  let ignored = 0;
+
+  const walk = async (dir: FileSystemDirectoryHandle, base: string) => {
+    if (signal?.aborted) throw new DOMException('The operation was aborted.', 'AbortError');
+    const children: FileSystemHandle[] = [];
+    for await (const handle of (dir as any).values()) children.push(handle);
+
+    // Read this directory's .gitignore before deciding what to descend into
+    const gitignore = children.find(h => h.kind === 'file' && h.name === '.gitignore') as FileSystemFileHandle | undefined;
+    if (gitignore) matcher.add(base, await (await gitignore.getFile()).text());
+
+    for (const handle of children) {
+      const path = base ? `${base}/${handle.name}` : handle.name;
+      if (matcher.isIgnored(path, handle.kind === 'directory')) {
+        ignored++;
+        continue;
+      }
+      if (handle.kind === 'directory') {
+        await walk(handle as FileSystemDirectoryHandle, path);
+      } else {
+        const fileHandle = handle as FileSystemFileHandle;
+        entries.push({ path, read: async () => (await fileHandle.getFile()).text() });
+      }
+    }
+  };
+
+  await walk(root, '');
+  return buildRepository(root.name, 'folder', entries, matcher, ignored);
+}
+
+/**
+ * Opens the browser's folder picker and reads the chosen directory.
+ */
+export async function pickLocalDirectory(signal?: AbortSignal): Promise<LocalRepository> {
+  const handle: FileSystemDirectoryHandle = await (window as any).showDirectoryPicker({ mode: 'read' });
+  return loadFromDirectoryHandle(handle, signal);
+}
+
+/**
+ * Reads the FileList of an `<input webkitdirectory>`. Paths arrive prefixed
+ * with the chosen folder's name, which becomes the repository name.
+ */
+export async function loadFromFileList(fileList: FileList | File[]): Promise<LocalRepository> {
+  const files = Array.from<File>(fileList);
+  if (files.length === 0) throw new Error('The selected folder is empty.');
+  const rawPaths = files.map(f => f.webkitRelativePath || f.name);
+  const root = stripCommonRoot(rawPaths);
+  const entries: LocalEntry[] = files.map((file, i) => ({
+    path: rawPaths[i].slice(root.length),
+    read: () => file.text(),
+  }));
+  const { matcher, kept, ignored } = await applyGitignores(entries);
+  return buildRepository(root.replace(/\/$/, '') || 'local-folder', 'folder', kept, matcher, ignored);
+}
+
+/**
+ * Reads a dropped folder through the legacy entries API, which every
+ * browser supports for drag and drop.
+ */
+export async function loadFromDroppedEntry(rootEntry: FileSystemDirectoryEntry): Promise<LocalRepository> {
+  const files: File[] = [];
+  const paths: string[] = [];
+
+  const readAll = (reader: FileSystemDirectoryReader) => new Promise<FileSystemEntry[]>((resolve, reject) => {
+    const all: FileSystemEntry[] = [];
+    // readEntries returns results in batches until an empty batch
+    const next = () => reader.readEntries(batch => {
+      if (batch.length === 0) return resolve(all);
+      all.push(...batch);
+      next();
+    }, reject);
+    next();
+  });
+
+  const walk = async (dir: FileSystemDirectoryEntry, base: string) => {
+    for (const entry of await readAll(dir.createReader())) {
+      const path = base ? `${base}/${entry.name}` : entry.name;
+      if (entry.isDirectory) {
+        if (entry.name === '.git' || entry.name === 'node_modules') continue;
+        await walk(entry as FileSystemDirectoryEntry, path);
+      } else {
+        files.push(await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject)));
+        paths.push(path);
+      }
+    }
+  };
+
+  await walk(rootEntry, '');
+  if (files.length === 0) throw new Error('The dropped folder is empty.');
+  const entries: LocalEntry[] = files.map((file, i) => ({ path: paths[i], read: () => file.text() }));
+  const { matcher, kept, ignored } = await applyGitignores(entries);
+  return buildRepository(rootEntry.name, 'folder', kept, matcher, ignored);
+}
+
+/**
+ * Reads a .zip archive. A single top-level folder (as in GitHub's source
+ * downloads) is stripped and used as the repository name.
+ */
+export async function loadFromZip(file: File | Blob, fileName: string = (file as File).name || 'archive.zip'): Promise<LocalRepository> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(file);
+  } catch (e) {
+    throw new Error(`${fileName} is not a readable zip archive.`);
+  }
+
+  // Finder's resource-fork folder sits beside the real root, so it goes before the root is found
+  const zipFiles = Object.values(zip.files).filter(f => !f.dir && !f.name.startsWith('__MACOSX/'));
+  const root = stripCommonRoot(zipFiles.map(f => f.name));
+  const entries: LocalEntry[] = zipFiles.map(f => ({ path: f.name.slice(root.length), read: () => f.async('string') }));
+  const { matcher, kept, ignored } = await applyGitignores(entries);
+  const name = root.replace(/\/$/, '') || fileName.replace(/\.zip$/i, '');
+  return buildRepository(name, 'zip', kept, matcher, ignored);
+}
@@ -1,6 +1,17 @@
 
-import { GoogleGenAI, Type } from "@google/genai";
 import { VizType, WidgetConfig, SemanticModel, AnalysisResult } from '../types';
+import { getAIProvider, AIProvider } from './aiProvider';
+import { AIFeature } from './usageService';
+import { renderPrompt } from './promptRegistry';
+
+// Returns null when no provider is configured so callers can use offline fallbacks
+const tryGetProvider = (feature: AIFeature): AIProvider | null => {
+  try {
+    return getAIProvider(feature);
+  } catch {
+    return null;
+  }
+};
 
 // Fallback heuristic logic for when API key is missing or offline
 const heuristicParse = (prompt: string): WidgetConfig => {
@@ -102,62 +113,45 @@ const smartSampleData = (data: any[]): any[] => {
  */
 export const parsePrompt = async (prompt: string, semanticModel?: SemanticModel): Promise<WidgetConfig> => {
   // 1. Check for API Key availability
-  if (!process.env.API_KEY) {
-    console.warn("[OmniGen] No API_KEY found. Using heuristic fallback.");
+  const ai = tryGetProvider('omnigen-widget');
+  if (!ai) {
+    console.warn("[OmniGen] No AI provider configured. Using heuristic fallback.");
     return new Promise((resolve) => {
       setTimeout(() => resolve(heuristicParse(prompt)), 800);
     });
   }
 
   try {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    
     const availableMetrics = semanticModel?.metrics.map(m => m.name).join(', ') || 'Sales, Users, Conversion';
     const availableDimensions = semanticModel?.dimensions.map(d => d.name).join(', ') || 'Date, Region, Category';
     
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: `
-        You are an expert data visualization architect.
-        User Request: "${prompt}"
-        
-        Available Data Fields:
-        - Metrics: ${availableMetrics}
-        - Dimensions: ${availableDimensions}
-        
-        Task: Generate a JSON configuration for a dashboard widget that best visualizes this request.
-        
-        Rules:
-        - Select the most appropriate 'type' from: ${Object.values(VizType).join(', ')}.
-        - Use 'scatter' for correlations, 'heatmap' for density/matrix, 'treemap' for hierarchical composition.
-        - 'w' (width) should be between 3 and 12. 
-        - 'h' (height) should be between 1 and 4.
-        - KPI cards should be small (3x1). Complex charts should be larger (6x3 or 6x4).
-        - 'id' should be unique (use a random string suffix).
-        - 'x' and 'y' should be 0 (the grid layout handles placement).
-      `,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            id: { type: Type.STRING },
-            type: { 
-              type: Type.STRING, 
-              enum: Object.values(VizType) 
-            },
-            title: { type: Type.STRING },
-            w: { type: Type.INTEGER },
-            h: { type: Type.INTEGER },
-            x: { type: Type.INTEGER },
-            y: { type: Type.INTEGER }
+    const response = await ai.generateJson({
+      tier: 'flash',
+      parts: [{ text: renderPrompt('omnigen-widget', {
+        request: prompt,
+        metrics: availableMetrics,
+        dimensions: availableDimensions,
+        vizTypes: Object.values(VizType).join(', '),
+      }) }],
+      schema: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          type: { 
+            type: 'string', 
+            enum: Object.values(VizType) 
           },
-          required: ["id", "type", "title", "w", "h", "x", "y"]
-        }
+          title: { type: 'string' },
+          w: { type: 'integer' },
+          h: { type: 'integer' },
+          x: { type: 'integer' },
+          y: { type: 'integer' }
+        },
+        required: ["id", "type", "title", "w", "h", "x", "y"]
       }
     });
 
-    const text = response.text;
+    const text = response;
     if (text) {
       const config = JSON.parse(text) as WidgetConfig;
       config.id = config.id || `gen-${Date.now()}`;
@@ -178,7 +172,8 @@ export const parsePrompt = async (prompt: string, semanticModel?: SemanticModel)
  */
 export const generateAnalysis = async (title: string, data: any[]): Promise<AnalysisResult> => {
   // Fallback for demo/offline
-  if (!process.env.API_KEY) {
+  const ai = tryGetProvider('omnigen-analysis');
+  if (!ai) {
     return new Promise((resolve) => {
       setTimeout(() => resolve({
         summary: `Analysis of ${title} indicates a stable trend with minor fluctuations. The data suggests consistent performance across the selected timeframe.`,
@@ -195,50 +190,32 @@ export const generateAnalysis = async (title: string, data: any[]): Promise<Anal
   }
 
   try {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    
     // Aggregation Logic for large datasets
     const aggregatedData = smartSampleData(data);
     const dataSample = JSON.stringify(aggregatedData);
 
     // Parallel execution: Internal Analysis (JSON) + External Context (Search)
     const [internalResponse, externalResponse] = await Promise.all([
-        ai.models.generateContent({
-            model: 'gemini-3-flash-preview',
-            contents: `
-              Role: Senior Business Analyst.
-              Task: Analyze the following dataset for a chart titled "${title}".
-              Data (Aggregated Sample): ${dataSample}
-              
-              Provide:
-              1. An executive summary (max 2 sentences).
-              2. Key drivers/factors (max 3 bullet points).
-              3. Strategic recommendations (max 2).
-              4. Overall sentiment.
-            `,
-            config: {
-              responseMimeType: "application/json",
-              responseSchema: {
-                type: Type.OBJECT,
-                properties: {
-                  summary: { type: Type.STRING },
-                  drivers: { type: Type.ARRAY, items: { type: Type.STRING } },
-                  recommendations: { type: Type.ARRAY, items: { type: Type.STRING } },
-                  sentiment: { type: Type.STRING, enum: ["positive", "negative", "neutral"] }
-                }
+        ai.generateJson({
+            tier: 'flash',
+            parts: [{ text: renderPrompt('omnigen-analysis', { title, data: dataSample }) }],
+            schema: {
+              type: 'object',
+              properties: {
+                summary: { type: 'string' },
+                drivers: { type: 'array', items: { type: 'string' } },
+                recommendations: { type: 'array', items: { type: 'string' } },
+                sentiment: { type: 'string', enum: ["positive", "negative", "neutral"] }
               }
             }
         }),
-        ai.models.generateContent({
-            model: 'gemini-3-flash-preview',
-            contents: `Briefly summarize the latest market trends, industry benchmarks, or news related to the business topic: "${title}". Focus on high-level business implications. Keep it under 50 words.`,
-            config: {
-                tools: [{googleSearch: {}}]
-            }
+        ai.generateWithSearch({
+            tier: 'flash',
+            parts: [{ text: renderPrompt('omnigen-market-context', { title }) }]
         })
     ]);
 
-    const result = JSON.parse(internalResponse.text!) as AnalysisResult;
+    const result = JSON.parse(internalResponse) as AnalysisResult;
 
     // Attach External Context
     if (externalResponse.text) {
@@ -246,11 +223,8 @@ export const generateAnalysis = async (title: string, data: any[]): Promise<Anal
     }
 
     // Attach Grounding Sources
-    const chunks = externalResponse.candidates?.[0]?.groundingMetadata?.groundingChunks;
-    if (chunks) {
-        result.sources = chunks
-            .map((c: any) => c.web ? { title: c.web.title, uri: c.web.uri } : null)
-            .filter((c: any) => c !== null);
+    if (externalResponse.citations.length > 0) {
+        result.sources = externalResponse.citations.map(c => ({ title: c.title, uri: c.uri }));
     }
 
     return result;
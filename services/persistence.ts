@@ -4,10 +4,12 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import { RepoHistoryItem, ArticleHistoryItem, Task, DevStudioState } from '../types';
+import { RepoHistoryItem, ArticleHistoryItem, Task, DevStudioState, AIFixture, AIUsageRecord, AICacheEntry, AICacheMeta, ChatThread } from '../types';
+import type { BatchJob } from './batchReviewService';
+import type { RepoIndex } from './repoIndexService';
 
 const DB_NAME = 'flash_n_frame_db';
-const DB_VERSION = 2;
+const DB_VERSION = 6;
 
 const STORES = {
   PROJECT: 'project',
@@ -15,7 +17,11 @@ const STORES = {
   REPO_HISTORY: 'repo_history',
   ARTICLE_HISTORY: 'article_history',
   USER_PREFERENCES: 'user_preferences',
-  OFFLINE_QUEUE: 'offline_queue'
+  OFFLINE_QUEUE: 'offline_queue',
+  AI_FIXTURES: 'ai_fixtures',
+  AI_USAGE: 'ai_usage',
+  AI_CACHE: 'ai_cache',
+  CHAT_THREADS: 'chat_threads'
 };
 
 const openDB = (): Promise<IDBDatabase> => {
@@ -46,6 +52,20 @@ const openDB = (): Promise<IDBDatabase> => {
       if (!db.objectStoreNames.contains(STORES.OFFLINE_QUEUE)) {
         db.createObjectStore(STORES.OFFLINE_QUEUE, { keyPath: 'id', autoIncrement: true });
       }
+      if (!db.objectStoreNames.contains(STORES.AI_FIXTURES)) {
+        db.createObjectStore(STORES.AI_FIXTURES, { keyPath: 'key' });
+      }
+      if (!db.objectStoreNames.contains(STORES.AI_USAGE)) {
+        const usageStore = db.createObjectStore(STORES.AI_USAGE, { keyPath: 'id' });
+        usageStore.createIndex('timestamp', 'timestamp');
+      }
+      if (!db.objectStoreNames.contains(STORES.AI_CACHE)) {
+        db.createObjectStore(STORES.AI_CACHE, { keyPath: 'key' });
+      }
+      if (!db.objectStoreNames.contains(STORES.CHAT_THREADS)) {
+        const threadStore = db.createObjectStore(STORES.CHAT_THREADS, { keyPath: 'id' });
+        threadStore.createIndex('projectKey', 'projectKey');
+      }
     };
   });
 };
@@ -72,6 +92,88 @@ export const PersistenceService = {
     });
   },
 
+  // Expanded directory clusters, stored next to the project under its project key
+  async saveExpandedClusters(projectKey: string, dirs: string[]) {
+    const db = await openDB();
+    return new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(STORES.PROJECT, 'readwrite');
+      tx.objectStore(STORES.PROJECT).put(dirs, `clusters:${projectKey}`);
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  },
+
+  async getExpandedClusters(projectKey: string): Promise<string[] | null> {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(STORES.PROJECT, 'readonly');
+      const req = tx.objectStore(STORES.PROJECT).get(`clusters:${projectKey}`);
+      req.onsuccess = () => resolve(req.result || null);
+      req.onerror = () => reject(req.error);
+    });
+  },
+
+  // Batch tool runs, one per project, kept until discarded so they can resume
+  async saveBatchJob(job: BatchJob) {
+    const db = await openDB();
+    return new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(STORES.PROJECT, 'readwrite');
+      tx.objectStore(STORES.PROJECT).put(job, `batch:${job.projectKey}`);
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  },
+
+  async getBatchJob(projectKey: string): Promise<BatchJob | null> {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(STORES.PROJECT, 'readonly');
+      const req = tx.objectStore(STORES.PROJECT).get(`batch:${projectKey}`);
+      req.onsuccess = () => resolve(req.result || null);
+      req.onerror = () => reject(req.error);
+    });
+  },
+
+  async deleteBatchJob(projectKey: string) {
+    const db = await openDB();
+    return new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(STORES.PROJECT, 'readwrite');
+      tx.objectStore(STORES.PROJECT).delete(`batch:${projectKey}`);
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  },
+
+  async saveRepoIndex(index: RepoIndex) {
+    const db = await openDB();
+    return new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(STORES.PROJECT, 'readwrite');
+      tx.objectStore(STORES.PROJECT).put(index, `rag:${index.projectKey}`);
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  },
+
+  async getRepoIndex(projectKey: string): Promise<RepoIndex | null> {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(STORES.PROJECT, 'readonly');
+      const req = tx.objectStore(STORES.PROJECT).get(`rag:${projectKey}`);
+      req.onsuccess = () => resolve(req.result || null);
+      req.onerror = () => reject(req.error);
+    });
+  },
+
+  async deleteRepoIndex(projectKey: string) {
+    const db = await openDB();
+    return new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(STORES.PROJECT, 'readwrite');
+      tx.objectStore(STORES.PROJECT).delete(`rag:${projectKey}`);
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  },
+
   // Tasks
   async saveTask(task: Task) {
     const db = await openDB();
@@ -235,5 +337,172 @@ export const PersistenceService = {
       tx.oncomplete = () => resolve();
       tx.onerror = () => reject(tx.error);
     });
+  },
+
+  // Recorded AI responses for the offline fixture provider
+  async saveAiFixture(fixture: AIFixture) {
+    const db = await openDB();
+    return new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(STORES.AI_FIXTURES, 'readwrite');
+      tx.objectStore(STORES.AI_FIXTURES).put(fixture);
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  },
+
+  async getAiFixture(key: string): Promise<AIFixture | null> {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(STORES.AI_FIXTURES, 'readonly');
+      const req = tx.objectStore(STORES.AI_FIXTURES).get(key);
+      req.onsuccess = () => resolve(req.result || null);
+      req.onerror = () => reject(req.error);
+    });
+  },
+
+  async countAiFixtures(): Promise<number> {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(STORES.AI_FIXTURES, 'readonly');
+      const req = tx.objectStore(STORES.AI_FIXTURES).count();
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+  },
+
+  async clearAiFixtures() {
+    const db = await openDB();
+    return new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(STORES.AI_FIXTURES, 'readwrite');
+      tx.objectStore(STORES.AI_FIXTURES).clear();
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  },
+
+  // AI usage metering
+  async addUsageRecord(record: AIUsageRecord) {
+    const db = await openDB();
+    return new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(STORES.AI_USAGE, 'readwrite');
+      tx.objectStore(STORES.AI_USAGE).put(record);
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  },
+
+  async getUsageRecords(since: number = 0): Promise<AIUsageRecord[]> {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(STORES.AI_USAGE, 'readonly');
+      const index = tx.objectStore(STORES.AI_USAGE).index('timestamp');
+      const req = index.getAll(IDBKeyRange.lowerBound(since));
+      req.onsuccess = () => resolve(req.result || []);
+      req.onerror = () => reject(req.error);
+    });
+  },
+
+  async clearUsageRecords() {
+    const db = await openDB();
+    return new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(STORES.AI_USAGE, 'readwrite');
+      tx.objectStore(STORES.AI_USAGE).clear();
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  },
+
+  // Persistent AI response cache
+  async putAiCacheEntry(entry: AICacheEntry) {
+    const db = await openDB();
+    return new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(STORES.AI_CACHE, 'readwrite');
+      tx.objectStore(STORES.AI_CACHE).put(entry);
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  },
+
+  async getAiCacheEntry(key: string): Promise<AICacheEntry | null> {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(STORES.AI_CACHE, 'readonly');
+      const req = tx.objectStore(STORES.AI_CACHE).get(key);
+      req.onsuccess = () => resolve(req.result || null);
+      req.onerror = () => reject(req.error);
+    });
+  },
+
+  /**
+   * Size and recency of every cache entry, read with a cursor so only one
+   * payload is held in memory at a time.
+   */
+  async getAiCacheIndex(): Promise<AICacheMeta[]> {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(STORES.AI_CACHE, 'readonly');
+      const req = tx.objectStore(STORES.AI_CACHE).openCursor();
+      const index: AICacheMeta[] = [];
+      req.onsuccess = () => {
+        const cursor = req.result;
+        if (!cursor) return resolve(index);
+        const { key, bytes, lastAccessed, expiresAt } = cursor.value as AICacheEntry;
+        index.push({ key, bytes, lastAccessed, expiresAt });
+        cursor.continue();
+      };
+      req.onerror = () => reject(req.error);
+    });
+  },
+
+  async deleteAiCacheEntries(keys: string[]) {
+    const db = await openDB();
+    return new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(STORES.AI_CACHE, 'readwrite');
+      const store = tx.objectStore(STORES.AI_CACHE);
+      keys.forEach(key => store.delete(key));
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  },
+
+  async clearAiCache() {
+    const db = await openDB();
+    return new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(STORES.AI_CACHE, 'readwrite');
+      tx.objectStore(STORES.AI_CACHE).clear();
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  },
+
+  // Dev Studio chat threads, one per project and node
+  async saveChatThread(thread: ChatThread) {
+    const db = await openDB();
+    return new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(STORES.CHAT_THREADS, 'readwrite');
+      tx.objectStore(STORES.CHAT_THREADS).put(thread);
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  },
+
+  async getChatThreads(projectKey: string): Promise<ChatThread[]> {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(STORES.CHAT_THREADS, 'readonly');
+      const req = tx.objectStore(STORES.CHAT_THREADS).index('projectKey').getAll(projectKey);
+      req.onsuccess = () => resolve(req.result || []);
+      req.onerror = () => reject(req.error);
+    });
+  },
+
+  async deleteChatThread(id: string) {
+    const db = await openDB();
+    return new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(STORES.CHAT_THREADS, 'readwrite');
+      tx.objectStore(STORES.CHAT_THREADS).delete(id);
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
   }
 };
@@ -0,0 +1,118 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { PersistenceService } from './persistence';
+import { PROMPTS } from './prompts';
+
+export type PromptCategory = 'GitFlow' | 'DevStudio' | 'SiteSketch' | 'RealityEngine' | 'OmniGen' | 'DashboardGen';
+
+/**
+ * A named prompt with `{{variable}}` placeholders.
+ */
+export interface PromptTemplate<V extends string = string> {
+  /** Bumped whenever the built-in wording changes. */
+  version: number;
+  category: PromptCategory;
+  title: string;
+  /** Placeholders the template may reference. */
+  variables: readonly V[];
+  template: string;
+}
+
+export type PromptId = keyof typeof PROMPTS;
+
+/** Values required to render a given prompt, inferred from its declared variables. */
+export type PromptVariables<K extends PromptId> = Record<(typeof PROMPTS)[K]['variables'][number], string | number>;
+
+/**
+ * A user-edited replacement for a built-in template. `revision` increments on
+ * every save so outputs made with different edits can be told apart.
+ */
+export interface PromptOverride {
+  template: string;
+  baseVersion: number;
+  revision: number;
+  updatedAt: number;
+}
+
+const PROMPT_OVERRIDES_KEY = 'prompt_overrides';
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+let overrides: Partial<Record<PromptId, PromptOverride>> = {};
+
+export const PROMPT_IDS = Object.keys(PROMPTS) as PromptId[];
+
+export const getPromptTemplate = (id: PromptId): PromptTemplate => PROMPTS[id];
+
+/**
+ * Loads user overrides from preferences. Call once at startup; rendering is
+ * synchronous and uses whatever was loaded last.
+ */
+export async function loadPromptOverrides() {
+  const stored = await PersistenceService.getUserPreference<Partial<Record<PromptId, PromptOverride>>>(PROMPT_OVERRIDES_KEY);
+  overrides = stored || {};
+}
+
+export const getPromptOverride = (id: PromptId): PromptOverride | undefined => overrides[id];
+
+export async function savePromptOverride(id: PromptId, template: string) {
+  const previous = overrides[id];
+  overrides = {
+    ...overrides,
+    [id]: {
+      template,
+      baseVersion: PROMPTS[id].version,
+      revision: (previous?.revision || 0) + 1,
+      updatedAt: Date.now(),
+    },
+  };
+  await PersistenceService.saveUserPreference(PROMPT_OVERRIDES_KEY, overrides);
+}
+
+export async function resetPromptOverride(id: PromptId) {
+  const { [id]: _removed, ...rest } = overrides;
+  overrides = rest;
+  await PersistenceService.saveUserPreference(PROMPT_OVERRIDES_KEY, overrides);
+}
+
+/**
+ * Identifies the exact wording a prompt will render with, e.g. `code-review@1`
+ * or `code-review@1-custom.3` when a user override is active.
+ */
+export const getPromptVersion = (id: PromptId): string => {
+  const override = overrides[id];
+  const base = `${id}@${PROMPTS[id].version}`;
+  return override ? `${base}-custom.${override.revision}` : base;
+};
+
+/** Combined version label for pipelines that render several prompts. */
+export const getPromptVersions = (ids: PromptId[]): string => ids.map(getPromptVersion).join(', ');
+
+/** Placeholder names referenced by a template string. */
+export const listPlaceholders = (template: string): string[] =>
+  Array.from(new Set(Array.from(template.matchAll(PLACEHOLDER_PATTERN), m => m[1])));
+
+/** Placeholders in `template` that the prompt does not supply. */
+export const findUnknownPlaceholders = (id: PromptId, template: string): string[] => {
+  const known = new Set<string>(PROMPTS[id].variables);
+  return listPlaceholders(template).filter(name => !known.has(name));
+};
+
+/**
+ * Substitutes variables into a template. Unknown placeholders are left as-is
+ * so mistakes in user overrides stay visible in the output.
+ */
+export const fillTemplate = (template: string, variables: Record<string, string | number>): string =>
+  template.replace(PLACEHOLDER_PATTERN, (match, name: string) =>
+    Object.prototype.hasOwnProperty.call(variables, name) ? String(variables[name]) : match
+  );
+
+/**
+ * Renders a prompt, preferring the user's override when one is saved.
+ */
+export function renderPrompt<K extends PromptId>(id: K, variables: PromptVariables<K>): string {
+  const template = overrides[id]?.template ?? PROMPTS[id].template;
+  return fillTemplate(template, variables as Record<string, string | number>);
+}
@@ -0,0 +1,957 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { PromptTemplate } from './promptRegistry';
+
+const definePrompt = <V extends string>(template: PromptTemplate<V>) => template;
+
+/**
+ * Built-in prompt templates, keyed by prompt id.
+ *
+ * Placeholders use `{{name}}` and must be declared in `variables`. Bump
+ * `version` whenever the wording changes so history items recorded with the
+ * previous text can still be told apart.
+ */
+export const PROMPTS = {
+  // ==================== GitFlow ====================
+
+  'repo-infographic': definePrompt({
+    version: 2,
+    category: 'GitFlow',
+    title: 'Repository data flow infographic',
+    variables: ['repoName', 'styleGuidelines', 'dimensionPrompt', 'language', 'fileTree'],
+    template: `Create a highly detailed technical logical data flow diagram infographic for GitHub repository : "{{repoName}}".
+
+STRICT VISUAL STYLE GUIDELINES:
+{{styleGuidelines}}
+- LAYOUT: Distinct Left-to-Right flow.
+- CENTRAL CONTAINER: Group core logic inside a clearly defined central area.
+- ICONS: Use relevant technical icons (databases, servers, code files, users).
+- TYPOGRAPHY: Highly readable technical font. Text MUST be in {{language}}.
+
+{{dimensionPrompt}}
+
+Repository Context:
+{{fileTree}}
+
+Diagram Content Requirements:
+1. Title exactly: "{{repoName}} Data Flow" (Translated to {{language}} if not English)
+2. Visually map the likely data flow based on the provided file structure.
+3. Ensure the "Input -> Processing -> Output" structure is clear.
+4. Add short, clear text labels to connecting arrows indicating data type (e.g., "JSON", "Auth Token").
+5. IMPORTANT: All text labels and explanations in the image must be written in {{language}}.`,
+  }),
+
+  'dependency-graph': definePrompt({
+    version: 1,
+    category: 'GitFlow',
+    title: 'Dependency tree visualization',
+    variables: ['repoName', 'ecosystem', 'ecosystemName', 'prodCount', 'prodDeps', 'devCount', 'devDeps', 'peerSection', 'alertSection'],
+    template: `Create a professional DEPENDENCY TREE VISUALIZATION for the "{{repoName}}" project.
+
+PACKAGE ECOSYSTEM: {{ecosystem}} ({{ecosystemName}})
+
+VISUAL STYLE:
+- Dark mode with deep navy/black background (#0f172a)
+- Modern glassmorphism design with subtle gradients
+- Use a radial tree or hierarchical layout with the project at center
+- Color coding: Green for production deps, Blue for dev deps, Orange for peer deps, Red glow for security alerts
+- Each node should show package name and version badge
+
+PRODUCTION DEPENDENCIES ({{prodCount}}):
+{{prodDeps}}
+
+DEVELOPMENT DEPENDENCIES ({{devCount}}):
+{{devDeps}}
+
+{{peerSection}}
+
+{{alertSection}}
+
+LAYOUT REQUIREMENTS:
+1. Project name "{{repoName}}" prominently at the center or top
+2. Dependencies radiate outward grouped by type
+3. Version numbers displayed as small badges
+4. Clear visual separation between dependency types
+5. Legend showing color meanings
+6. Total dependency count displayed
+7. If security alerts exist, highlight those packages with warning indicators`,
+  }),
+
+  'dependency-audit': definePrompt({
+    version: 1,
+    category: 'GitFlow',
+    title: 'Dependency security audit',
+    variables: ['ecosystem', 'dependencies'],
+    template: `Analyze these {{ecosystem}} dependencies for potential security concerns:
+
+{{dependencies}}
+
+For each dependency, provide a JSON response with this structure:
+{
+  "analyzed": [
+    {
+      "name": "package-name",
+      "riskLevel": "critical|high|medium|low|safe",
+      "note": "Brief note if there's a known issue, empty string if safe"
+    }
+  ],
+  "summary": "Overall 2-3 sentence summary of the dependency health"
+}
+
+Consider:
+- Known CVEs in popular packages
+- Outdated versions with known issues
+- Deprecated packages
+- Packages with security history
+
+Return ONLY valid JSON, no markdown.`,
+  }),
+
+  'vectorize': definePrompt({
+    version: 1,
+    category: 'GitFlow',
+    title: 'Infographic to SVG',
+    variables: ['context'],
+    template: `Analyze the attached infographic image. It is a technical diagram for: "{{context}}".
+
+TASK: Recreate this infographic as a clean, high-quality, professional SVG file.
+
+REQUIREMENTS:
+1. The SVG must be responsive (use viewBox, not fixed width/height).
+2. Maintain all structural connections and text labels from the original image.
+3. Use clean vector paths and professional gradients for a modern look.
+4. Preserve the color scheme and layout.
+5. Ensure all text is rendered as <text> elements for accessibility and scaling.
+6. Output ONLY valid SVG code. No explanations, no markdown blocks.`,
+  }),
+
+  'repo-qa': definePrompt({
+    version: 2,
+    category: 'GitFlow',
+    title: 'Repository Q&A',
+    variables: ['excerpts', 'fileTree', 'question'],
+    template: `You are a senior software architect answering questions about a code repository.
+
+Excerpts of the repository retrieved for this question. Each is headed by its file path and line range, and each line starts with its line number:
+{{excerpts}}
+
+Other files in the repository:
+{{fileTree}}
+
+User Question: "{{question}}"
+
+Answer from the excerpts. Cite the code each statement rests on as [path:line] or [path:start-end], with the exact paths and line numbers shown in the excerpts.
+If the excerpts do not contain the answer, say so and name the files most likely to hold it rather than guessing.
+Keep answers concise, technical, and helpful.`,
+  }),
+
+  'task-suggestions': definePrompt({
+    version: 1,
+    category: 'GitFlow',
+    title: 'Project task suggestions',
+    variables: ['repoName', 'fileTree', 'today'],
+    template: `You are a Technical Project Manager.
+
+Based on the file structure of the repository "{{repoName}}", identify 3-5 critical technical tasks, refactoring opportunities, or missing configurations that a developer should address.
+
+File Structure:
+{{fileTree}}
+
+Return the tasks as a JSON array where each object has:
+- title: string (concise task name)
+- priority: "high" | "medium" | "low"
+- dueDate: string (YYYY-MM-DD, assume today is {{today}} and set reasonable deadlines)
+
+Do not include markdown formatting, just the JSON array.`,
+  }),
+
+  'architecture-diff': definePrompt({
+    version: 1,
+    category: 'GitFlow',
+    title: 'Architecture diff summary',
+    variables: ['repoName', 'baseRef', 'headRef', 'changes'],
+    template: `You are a senior software architect reviewing a refactor of "{{repoName}}".
+
+Below are the structural changes between {{baseRef}} (before) and {{headRef}} (after): files added, removed and moved, and import edges added and removed. Edges read "importer -> imported".
+
+{{changes}}
+
+Write a concise architecture change summary in Markdown:
+1. **Overview**: one or two sentences on what the change does to the structure.
+2. **Key changes**: the modules, layers or boundaries that were introduced, removed, split or merged.
+3. **Dependency impact**: new couplings, removed couplings and any new external packages.
+4. **Risks**: cycles, layering violations or wide blast radius worth checking in review.
+
+Base every point on the listed changes; do not invent files.`,
+  }),
+
+  // ==================== DevStudio ====================
+
+  'node-chat-system': definePrompt({
+    version: 1,
+    category: 'DevStudio',
+    title: 'Node chat persona',
+    variables: ['persona', 'focus'],
+    template: `You are an expert {{persona}}. {{focus}}`,
+  }),
+
+  'node-chat': definePrompt({
+    version: 2,
+    category: 'DevStudio',
+    title: 'Node chat question',
+    variables: ['nodeLabel', 'fileTree', 'fileContent', 'question', 'basis', 'persona'],
+    template: `The user is asking about a specific node in the dependency graph labeled: "{{nodeLabel}}".
+
+Repository File Structure Context:
+{{fileTree}}
+{{fileContent}}
+
+User Question: "{{question}}"
+
+Based on the node name "{{nodeLabel}}" {{basis}}, explain what this component likely does and answer the question.
+Keep the response aligned with your persona: {{persona}}.`,
+  }),
+
+  'code-review': definePrompt({
+    version: 1,
+    category: 'DevStudio',
+    title: 'Code review',
+    variables: ['target'],
+    template: `You are a Senior Code Reviewer conducting a comprehensive code review.
+
+{{target}}
+
+Perform a thorough code review covering:
+1. Code quality and readability
+2. Security vulnerabilities (injection, XSS, auth issues, etc.)
+3. Performance concerns
+4. Best practice violations
+5. Potential bugs and edge cases
+
+Return as JSON in this exact format:
+{
+  "summary": "Brief overall assessment",
+  "overallScore": 85,
+  "issues": [
+    {
+      "severity": "critical|warning|info|suggestion",
+      "category": "Security|Performance|Quality|Bug|Style",
+      "line": 42,
+      "title": "Issue title",
+      "description": "Detailed explanation",
+      "suggestion": "How to fix it"
+    }
+  ],
+  "strengths": ["Good aspect 1", "Good aspect 2"],
+  "recommendations": ["High-level improvement 1", "High-level improvement 2"]
+}
+
+Return ONLY the JSON, no markdown.`,
+  }),
+
+  'test-generation': definePrompt({
+    version: 1,
+    category: 'DevStudio',
+    title: 'Test case generation',
+    variables: ['target'],
+    template: `You are a QA Engineer and Test Automation Expert.
+
+{{target}}
+
+Generate comprehensive test cases including:
+1. Unit tests for individual functions/methods
+2. Integration tests for component interactions
+3. Edge cases that could cause failures
+4. Boundary value tests
+5. Error handling tests
+
+Return as JSON:
+{
+  "framework": "Jest/Vitest recommended",
+  "setup": "Test setup code (imports, mocks, etc.)",
+  "testCases": [
+    {
+      "name": "should handle valid input correctly",
+      "type": "unit|integration|edge",
+      "description": "What this test verifies",
+      "code": "test('should...', () => { ... })",
+      "assertions": ["Expected behavior 1", "Expected behavior 2"]
+    }
+  ],
+  "edgeCases": [
+    "Edge case description 1",
+    "Edge case description 2"
+  ],
+  "coverageNotes": "Notes on achieving good coverage"
+}
+
+Return ONLY the JSON, no markdown.`,
+  }),
+
+  'documentation': definePrompt({
+    version: 1,
+    category: 'DevStudio',
+    title: 'Documentation',
+    variables: ['target'],
+    template: `You are a Technical Writer creating comprehensive documentation.
+
+{{target}}
+
+Generate complete documentation including:
+1. Module/file description
+2. JSDoc/docstrings for each function/method
+3. Parameter descriptions with types
+4. Return value documentation
+5. Usage examples
+
+Return as JSON:
+{
+  "moduleDoc": "Module-level documentation describing purpose and usage",
+  "functions": [
+    {
+      "name": "functionName",
+      "jsdoc": "/**\n * Full JSDoc comment\n * @param {Type} param - Description\n * @returns {Type} Description\n */",
+      "params": [
+        { "name": "param1", "type": "string", "description": "What it does" }
+      ],
+      "returns": { "type": "boolean", "description": "What it returns" }
+    }
+  ],
+  "usageExamples": [
+    "// Example 1\nimport { func } from './module';\nfunc('test');",
+    "// Example 2\n..."
+  ],
+  "notes": "Additional notes about the module"
+}
+
+Return ONLY the JSON, no markdown.`,
+  }),
+
+  'gap-analysis': definePrompt({
+    version: 1,
+    category: 'DevStudio',
+    title: 'Gaps and bottlenecks',
+    variables: ['target'],
+    template: `You are a Principal Engineer with expertise in identifying architectural gaps and potential issues.
+
+{{target}}
+
+Perform deep analysis to identify:
+
+1. GAPS (Missing Logic):
+   - Missing error handling
+   - Unhandled edge cases
+   - Missing input validation
+   - Missing security checks
+   - Incomplete implementations
+
+2. BOTTLENECKS:
+   - Performance bottlenecks (N+1 queries, expensive loops, etc.)
+   - Scalability concerns
+   - Resource usage issues
+   - Blocking operations
+   - Dependency bottlenecks
+
+3. UNKNOWN UNKNOWNS:
+   - Potential blind spots
+   - Areas that need investigation
+   - Assumptions that might be wrong
+   - External factors not accounted for
+
+Return as JSON:
+{
+  "gaps": [
+    {
+      "type": "missing_logic|error_handling|edge_case|validation|security",
+      "severity": "high|medium|low",
+      "title": "Gap title",
+      "description": "What's missing",
+      "location": "function name or area",
+      "recommendation": "How to address"
+    }
+  ],
+  "bottlenecks": [
+    {
+      "type": "performance|scalability|resource|dependency",
+      "title": "Bottleneck title",
+      "impact": "Potential impact",
+      "mitigation": "How to fix"
+    }
+  ],
+  "unknowns": [
+    {
+      "area": "Area of concern",
+      "concern": "What could go wrong",
+      "investigationNeeded": "What to look into"
+    }
+  ],
+  "overallRisk": "low|medium|high",
+  "summary": "Overall assessment"
+}
+
+Return ONLY the JSON, no markdown.`,
+  }),
+
+  // ==================== SiteSketch ====================
+
+  'article-analysis': definePrompt({
+    version: 1,
+    category: 'SiteSketch',
+    title: 'Article structure analysis',
+    variables: ['url', 'language'],
+    template: `You are an expert Information Designer. Your goal is to extract the essential structure from a web page to create a clear, educational infographic.
+
+Analyze the content at this URL: {{url}}
+
+TARGET LANGUAGE: {{language}}.
+
+Provide a structured breakdown specifically designed for visual representation in {{language}}:
+1. INFOGRAPHIC HEADLINE: The core topic in 5 words or less (in {{language}}).
+2. KEY TAKEAWAYS: The 3 to 5 most important distinct points, steps, or facts (in {{language}}). THESE WILL BE THE MAIN SECTIONS OF THE IMAGE.
+3. SUPPORTING DATA: Any specific numbers, percentages, or very short quotes that add credibility.
+4. VISUAL METAPHOR IDEA: Suggest ONE simple visual concept that best fits this content (e.g., "a roadmap with milestones", "a funnel", "three contrasting pillars", "a circular flowchart").
+
+Keep the output concise and focused purely on what should be ON the infographic. Ensure all content is in {{language}}.`,
+  }),
+
+  'article-image': definePrompt({
+    version: 1,
+    category: 'SiteSketch',
+    title: 'Article infographic render',
+    variables: ['plan', 'styleGuidelines', 'language'],
+    template: `Create a professional, high-quality educational infographic based strictly on this structured content plan:
+
+{{plan}}
+
+VISUAL DESIGN RULES:
+- {{styleGuidelines}}
+- LANGUAGE: The text within the infographic MUST be written in {{language}}.
+- LAYOUT: MUST follow the "VISUAL METAPHOR IDEA" from the plan above if one was provided.
+- TYPOGRAPHY: Clean, highly readable sans-serif fonts. The "INFOGRAPHIC HEADLINE" must be prominent at the top.
+- CONTENT: Use the actual text from "KEY TAKEAWAYS" in the image. Do not use placeholder text like Lorem Ipsum.
+- GOAL: The image must be informative and readable as a standalone graphic.`,
+  }),
+
+  'comparison-analysis': definePrompt({
+    version: 1,
+    category: 'SiteSketch',
+    title: 'Multi-source comparison analysis',
+    variables: ['sources', 'language'],
+    template: `You are an expert Comparative Analyst. Your goal is to compare and contrast content from multiple web pages.
+
+Analyze the content at these URLs:
+{{sources}}
+
+TARGET LANGUAGE: {{language}}.
+
+Provide a structured comparison specifically designed for visual representation in {{language}}:
+
+1. COMPARISON HEADLINE: A concise title that captures what's being compared (in {{language}}).
+
+2. SOURCE SUMMARIES: For each source, provide:
+   - Source name/identifier
+   - 2-3 key claims or points
+   - Main perspective or angle
+
+3. SIMILARITIES: 2-3 points where the sources agree or overlap.
+
+4. DIFFERENCES: 2-3 key points of disagreement or different approaches.
+
+5. KEY INSIGHTS: 2-3 unique insights that emerge from comparing these sources.
+
+6. VISUAL SUGGESTION: Best way to visualize this comparison (e.g., "side-by-side columns", "Venn diagram", "comparison table", "pros/cons layout").
+
+Keep the output concise and focused purely on what should be ON the infographic. Ensure all content is in {{language}}.`,
+  }),
+
+  'comparison-image': definePrompt({
+    version: 1,
+    category: 'SiteSketch',
+    title: 'Comparison infographic render',
+    variables: ['analysis', 'styleGuidelines', 'language'],
+    template: `Create a professional COMPARISON INFOGRAPHIC based on this analysis:
+
+{{analysis}}
+
+VISUAL DESIGN RULES:
+- {{styleGuidelines}}
+- LANGUAGE: All text MUST be in {{language}}.
+- LAYOUT: Follow the "VISUAL SUGGESTION" from the analysis. If not provided, use a side-by-side or table comparison layout.
+- EACH SOURCE: Give each source a distinct color or section.
+- HIGHLIGHTS: Use visual emphasis (icons, colors, boxes) for SIMILARITIES and DIFFERENCES.
+- CLARITY: Make it immediately clear what's being compared and how they differ.
+- TYPOGRAPHY: Clean, highly readable sans-serif fonts.`,
+  }),
+
+  'key-stats-analysis': definePrompt({
+    version: 1,
+    category: 'SiteSketch',
+    title: 'Key statistics extraction',
+    variables: ['url', 'language'],
+    template: `You are a Data Analyst specializing in extracting key statistics and numbers from content.
+
+Analyze the content at this URL: {{url}}
+
+TARGET LANGUAGE: {{language}}.
+
+Extract ALL significant numbers, percentages, statistics, and quantifiable data:
+
+Return as a JSON object with this structure:
+{
+  "headline": "Main topic of the data (in {{language}})",
+  "stats": [
+    {
+      "stat": "What is being measured (in {{language}})",
+      "value": "The numerical value with units",
+      "context": "Brief explanation of significance (in {{language}})"
+    }
+  ],
+  "trend": "Overall trend or conclusion from the data (in {{language}})"
+}
+
+Include at minimum 3 statistics, maximum 8. Prioritize the most impactful numbers.
+Return ONLY valid JSON, no markdown.`,
+  }),
+
+  'key-stats-image': definePrompt({
+    version: 1,
+    category: 'SiteSketch',
+    title: 'Statistics infographic render',
+    variables: ['stats', 'styleGuidelines', 'language'],
+    template: `Create a DATA-FOCUSED INFOGRAPHIC showcasing these key statistics:
+
+{{stats}}
+
+VISUAL DESIGN RULES:
+- {{styleGuidelines}}
+- LANGUAGE: All text MUST be in {{language}}.
+- LAYOUT: Use a stats dashboard or data card layout.
+- NUMBERS: Make numerical values VERY LARGE and prominent - they are the stars.
+- ICONS: Use relevant icons next to each statistic.
+- HIERARCHY: Most important stat should be largest/most prominent.
+- COLORS: Use color coding to group related stats or show positive/negative trends.
+- DATA VISUALIZATION: If appropriate, include small charts, gauges, or progress bars.`,
+  }),
+
+  // ==================== RealityEngine ====================
+
+  'code-from-image': definePrompt({
+    version: 1,
+    category: 'RealityEngine',
+    title: 'Wireframe to React',
+    variables: ['request'],
+    template: `You are an expert Frontend Developer specializing in React and Tailwind CSS.
+
+Analyze the attached UI wireframe/screenshot.
+
+TASK: Write the React code to implement this UI.
+- Use Tailwind CSS for styling.
+- Use Lucide React for icons if needed (imports from 'lucide-react').
+- Component should be functional and responsive.
+- Return ONLY the code, no markdown formatting.
+
+User specific request: {{request}}`,
+  }),
+
+  'component-library': definePrompt({
+    version: 1,
+    category: 'RealityEngine',
+    title: 'Component library scan',
+    variables: [],
+    template: `You are an expert UI/UX Engineer and React specialist.
+
+Analyze the attached UI screenshot and identify ALL reusable UI components/patterns visible.
+
+For each component found, provide:
+1. A semantic component name (e.g., "PrimaryButton", "CardHeader", "NavItem")
+2. Category (Button, Card, Input, Navigation, Layout, Typography, etc.)
+3. Brief description of its purpose
+4. Likely props it would accept
+5. React/Tailwind code to implement it
+
+Also extract design tokens:
+- Colors (list hex codes or Tailwind classes used)
+- Typography (font sizes, weights visible)
+- Spacing patterns (padding/margin patterns)
+
+Return as JSON in this exact format:
+{
+  "components": [
+    {
+      "name": "ComponentName",
+      "category": "Category",
+      "description": "What it does",
+      "props": ["prop1", "prop2"],
+      "code": "const ComponentName = () => { ... }"
+    }
+  ],
+  "summary": "Brief overall analysis of the design system",
+  "designTokens": {
+    "colors": ["#hex1", "#hex2"],
+    "typography": ["text-xl font-bold", "text-sm"],
+    "spacing": ["p-4", "gap-2"]
+  }
+}
+
+Return ONLY the JSON, no markdown formatting.`,
+  }),
+
+  'responsive-variants': definePrompt({
+    version: 1,
+    category: 'RealityEngine',
+    title: 'Responsive variants',
+    variables: ['componentNote'],
+    template: `You are an expert Frontend Developer specializing in responsive web design.
+
+Analyze the attached UI screenshot{{componentNote}}.
+
+Generate responsive React/Tailwind code for 3 breakpoints:
+1. MOBILE (< 640px) - Single column, stacked elements, touch-friendly
+2. TABLET (640px - 1024px) - Two columns where appropriate, medium spacing
+3. DESKTOP (> 1024px) - Full layout as shown or enhanced
+
+For each variant provide:
+- Tailwind responsive classes used
+- Layout changes made
+- Any component behavior changes
+
+Return as JSON in this exact format:
+{
+  "variants": [
+    {
+      "breakpoint": "mobile",
+      "description": "Stacked layout with hamburger menu",
+      "code": "const MobileLayout = () => { ... }",
+      "notes": "Collapse sidebar to drawer, stack cards vertically"
+    },
+    {
+      "breakpoint": "tablet",
+      "description": "Two-column grid layout",
+      "code": "const TabletLayout = () => { ... }",
+      "notes": "2-column grid, condensed navigation"
+    },
+    {
+      "breakpoint": "desktop",
+      "description": "Full multi-column layout",
+      "code": "const DesktopLayout = () => { ... }",
+      "notes": "Full sidebar, 3+ column grid"
+    }
+  ],
+  "sharedStyles": "Tailwind classes common across all breakpoints",
+  "responsiveNotes": "Overall responsive design recommendations"
+}
+
+Return ONLY the JSON, no markdown formatting.`,
+  }),
+
+  'dashboard-generator': definePrompt({
+    version: 1,
+    category: 'RealityEngine',
+    title: 'Dashboard project generator',
+    variables: ['requirements'],
+    template: `You are a Senior Full-Stack Developer creating a complete dashboard project.
+
+Analyze the attached UI screenshot and generate a COMPLETE dashboard implementation.
+{{requirements}}
+
+Generate a complete project with:
+1. Multiple React component files (modular structure)
+2. Custom hooks for data fetching/state
+3. Utility functions
+4. Type definitions
+5. Documentation (README)
+
+For a dashboard, include:
+- Main Dashboard layout component
+- Sidebar/Navigation component
+- Card/Widget components
+- Chart components (using Recharts/D3 patterns)
+- Table/List components
+- Header component
+
+Return as JSON in this exact format:
+{
+  "name": "DashboardProjectName",
+  "description": "What this dashboard does",
+  "files": [
+    {
+      "filename": "components/Dashboard.tsx",
+      "type": "component",
+      "content": "import React from 'react'; ...",
+      "description": "Main dashboard layout"
+    },
+    {
+      "filename": "components/Sidebar.tsx",
+      "type": "component",
+      "content": "...",
+      "description": "Navigation sidebar"
+    },
+    {
+      "filename": "hooks/useDashboardData.ts",
+      "type": "hook",
+      "content": "...",
+      "description": "Data fetching hook"
+    },
+    {
+      "filename": "README.md",
+      "type": "doc",
+      "content": "# Dashboard\\n...",
+      "description": "Project documentation"
+    }
+  ],
+  "documentation": "Full usage guide and setup instructions",
+  "features": ["Feature 1", "Feature 2"],
+  "dependencies": ["recharts", "date-fns"]
+}
+
+Generate at least 5-8 files for a complete project structure.
+Return ONLY the JSON, no markdown formatting.`,
+  }),
+
+  // ==================== OmniGen ====================
+
+  'omnigen-widget': definePrompt({
+    version: 1,
+    category: 'OmniGen',
+    title: 'Natural language to widget',
+    variables: ['request', 'metrics', 'dimensions', 'vizTypes'],
+    template: `You are an expert data visualization architect.
+User Request: "{{request}}"
+
+Available Data Fields:
+- Metrics: {{metrics}}
+- Dimensions: {{dimensions}}
+
+Task: Generate a JSON configuration for a dashboard widget that best visualizes this request.
+
+Rules:
+- Select the most appropriate 'type' from: {{vizTypes}}.
+- Use 'scatter' for correlations, 'heatmap' for density/matrix, 'treemap' for hierarchical composition.
+- 'w' (width) should be between 3 and 12.
+- 'h' (height) should be between 1 and 4.
+- KPI cards should be small (3x1). Complex charts should be larger (6x3 or 6x4).
+- 'id' should be unique (use a random string suffix).
+- 'x' and 'y' should be 0 (the grid layout handles placement).`,
+  }),
+
+  'omnigen-analysis': definePrompt({
+    version: 1,
+    category: 'OmniGen',
+    title: 'Widget data analysis',
+    variables: ['title', 'data'],
+    template: `Role: Senior Business Analyst.
+Task: Analyze the following dataset for a chart titled "{{title}}".
+Data (Aggregated Sample): {{data}}
+
+Provide:
+1. An executive summary (max 2 sentences).
+2. Key drivers/factors (max 3 bullet points).
+3. Strategic recommendations (max 2).
+4. Overall sentiment.`,
+  }),
+
+  'omnigen-market-context': definePrompt({
+    version: 1,
+    category: 'OmniGen',
+    title: 'Market context search',
+    variables: ['title'],
+    template: `Briefly summarize the latest market trends, industry benchmarks, or news related to the business topic: "{{title}}". Focus on high-level business implications. Keep it under 50 words.`,
+  }),
+
+  // ==================== DashboardGen ====================
+
+  'site-from-image': definePrompt({
+    version: 1,
+    category: 'DashboardGen',
+    title: 'Screenshot to dashboard HTML',
+    variables: ['prompt', 'style', 'framework', 'data', 'enhancements'],
+    template: `You are a Senior Frontend Engineer.
+TASK: Clone the UI structure and visual style shown in the provided image as closely as possible.
+CONTEXT: The user has also provided this description: "{{prompt}}".
+STYLE GUIDE: The user requested the style concept "{{style}}". Merge this with the image's layout.
+FRAMEWORK: {{framework}}
+DATA: {{data}}
+{{enhancements}}
+REQUIREMENTS:
+- Analyze the image layout, spacing, colors, and typography.
+- Recreate the dashboard components (sidebar, charts, tables, cards).
+- Use placeholder data that matches the image context.
+- Ensure the code is responsive and production-ready.
+Return ONLY standalone raw HTML.`,
+  }),
+
+  'site-from-text': definePrompt({
+    version: 1,
+    category: 'DashboardGen',
+    title: 'Description to dashboard HTML',
+    variables: ['prompt', 'style', 'framework', 'data', 'enhancements'],
+    template: `Expert Frontend Developer. Create a high-fidelity, polished dashboard for: "{{prompt}}".
+Style Concept: {{style}}.
+Framework Context: {{framework}}
+DATA: {{data}}
+{{enhancements}}
+Include:
+- Sidebar and Top Navigation
+- KPI cards with icons
+- A professional data table
+- Realistic metrics
+Return ONLY standalone raw HTML.`,
+  }),
+
+  'site-iteration': definePrompt({
+    version: 1,
+    category: 'DashboardGen',
+    title: 'Conversational refinement',
+    variables: ['html', 'instruction'],
+    template: `Senior Frontend Engineer. Modify the following dashboard interface.
+Existing Code:
+{{html}}
+User Request: "{{instruction}}"
+Perform the requested changes while strictly adhering to the current design language, layout principles, and component hierarchy. Return ONLY the complete updated raw HTML.`,
+  }),
+
+  'enhance-file-populate': definePrompt({
+    version: 1,
+    category: 'DashboardGen',
+    title: 'Enhance: hydrate from document',
+    variables: ['fileName'],
+    template: `You are an Expert Data Hydrator. I have provided a source document ({{fileName}}).
+1. ANALYZE: Carefully read the provided document and extract all key data points:
+   - Specific metrics (numbers, percentages, dates)
+   - Table rows and columns
+   - Usernames, roles, or company-specific terminology
+   - Recent trends or status updates
+2. INJECT: Deeply integrate this real data into the existing dashboard HTML:
+   - Replace ALL "Lorem Ipsum", generic "Placeholder" strings, and static mockup numbers with values from the document.
+   - Populate tables with the actual rows found in the file.
+   - Update chart labels and datasets to reflect the document's statistics.
+3. CONSISTENCY: Maintain the existing visual style, CSS classes, and structural integrity of the UI.
+4. FORMAT: Return ONLY the complete, production-ready, standalone raw HTML. No markdown code blocks.`,
+  }),
+
+  'enhance-persona': definePrompt({
+    version: 1,
+    category: 'DashboardGen',
+    title: 'Enhance: brand personas',
+    variables: [],
+    template: `You are a world-class Branding and UX Content Strategist. Your task is to inject high-fidelity brand identity and realistic, diverse user personas.
+1. Brand Identity: Invent a professional company name and branding (colors, logo placeholder).
+2. User Personas: Generate realistic, professional user names, roles, and bio snippets.
+3. Images: Use specific, reliable placeholder URLs for professional portraits (e.g. https://i.pravatar.cc/300?u=[random]) or Unsplash-style placeholders (e.g. https://picsum.photos/seed/[random]/200/200).
+4. Professional Copy: Replace all placeholder text with domain-accurate professional copy.
+Return ONLY the complete updated raw HTML.`,
+  }),
+
+  'enhance-a11y': definePrompt({
+    version: 1,
+    category: 'DashboardGen',
+    title: 'Enhance: accessibility',
+    variables: [],
+    template: `You are an expert Accessibility (A11y) Engineer.
+Audit and fix this dashboard HTML to meet WCAG 2.1 AA standards:
+1. Improve ARIA labels and roles (aria-label, role="button", etc.).
+2. Ensure sufficient color contrast ratios for text (4.5:1 minimum).
+3. Fix semantic HTML tag usage (use <header>, <main>, <nav>, <section> appropriately).
+4. Add descriptive alt text to all images.
+5. Ensure all interactive elements have visible focus states.
+Return ONLY the complete fixed raw HTML.`,
+  }),
+
+  'enhance-format': definePrompt({
+    version: 1,
+    category: 'DashboardGen',
+    title: 'Enhance: format code',
+    variables: [],
+    template: `Prettify and format the code for high developer readability. Add helpful comments for sections. Return ONLY cleaned HTML.`,
+  }),
+
+  'enhance-dummy': definePrompt({
+    version: 1,
+    category: 'DashboardGen',
+    title: 'Enhance: realistic data',
+    variables: [],
+    template: `Inject high-fidelity, realistic business KPIs and at least 10 rows of varied data into tables.
+1. DATA: Ensure trends and numbers look like live analytics with realistic formatting (currency, percentages).
+2. TEXT: Use names, descriptions, and figures relevant to the dashboard's topic.
+3. IMAGES: Replace placeholders with reliable image URLs:
+   - Avatars: https://i.pravatar.cc/150?u=[random_string]
+   - Product/Cover Images: https://picsum.photos/seed/[random_string]/400/300
+4. INTEGRITY: Do not break the layout.
+Return ONLY updated HTML.`,
+  }),
+
+  'enhance-content': definePrompt({
+    version: 1,
+    category: 'DashboardGen',
+    title: 'Enhance: imagery',
+    variables: [],
+    template: `Scan the dashboard for image placeholders and replace them with high-resolution photography placeholders from https://picsum.photos/seed/[random]/800/600. Return ONLY updated HTML.`,
+  }),
+
+  'enhance-responsive': definePrompt({
+    version: 1,
+    category: 'DashboardGen',
+    title: 'Enhance: responsive layout',
+    variables: [],
+    template: `You are a Responsive Design Expert. Refine this dashboard for perfect viewing on Mobile (375px), Tablet (768px), and Desktop (1440px).
+1. Add a <meta name="viewport" content="width=device-width, initial-scale=1.0"> tag if missing.
+2. Use CSS Grid/Flexbox with flex-wrap where appropriate to prevent overflow.
+3. Adjust font sizes (clamp() or media queries) for readability on small screens.
+4. Ensure touch targets are at least 44px.
+5. Use hamburger menus or stackable navigation for mobile views.
+Return ONLY the complete updated raw HTML.`,
+  }),
+
+  'enhance-tailwind': definePrompt({
+    version: 1,
+    category: 'DashboardGen',
+    title: 'Enhance: convert to Tailwind',
+    variables: [],
+    template: `You are a Senior Principal Frontend Engineer. Rewrite all custom CSS using Tailwind CSS utility classes exclusively.
+1. Parse all CSS in <style> tags and move them into Tailwind utility classes directly on HTML elements.
+2. Remove all <style> blocks. No custom CSS should remain.
+3. Add <script src="https://cdn.tailwindcss.com"></script> to the <head> if not present.
+4. Use arbitrary value syntax (e.g., bg-[#1a2b3c]) where needed to strictly preserve specific colors.
+5. Maintain exact visual parity.
+Return ONLY the complete updated raw HTML.`,
+  }),
+
+  'enhance-charts': definePrompt({
+    version: 1,
+    category: 'DashboardGen',
+    title: 'Enhance: inject charts',
+    variables: [],
+    template: `You are a World-Class Data Visualization Engineer.
+Automatically identify data-heavy areas (tables, lists, numeric grids) and inject Chart.js canvas elements with live rendering scripts.
+1. Identify static data that would benefit from visualization (trends, distributions).
+2. Add Chart.js CDN (<script src="https://cdn.jsdelivr.net/npm/chart.js"></script>) to the <head>.
+3. Inject <canvas> elements where appropriate.
+4. Add a <script> block at the end of <body> to initialize charts with the data found in the page.
+5. Ensure charts are responsive and match the dashboard's color theme.
+Return ONLY the complete updated raw HTML.`,
+  }),
+
+  'enhance-code': definePrompt({
+    version: 1,
+    category: 'DashboardGen',
+    title: 'Enhance: code polish',
+    variables: [],
+    template: `You are a Senior Principal Frontend Engineer. Perform a deep "Enhance Code" operation.
+1. Optimize layout logic and CSS performance.
+2. Inject Chart.js for data visualization where appropriate.
+3. Refine visual polish, spacing, and typography.
+4. Improve code structure and comments.
+Return ONLY the complete updated raw HTML.`,
+  }),
+
+  'enhance-default': definePrompt({
+    version: 1,
+    category: 'DashboardGen',
+    title: 'Enhance: general polish',
+    variables: [],
+    template: `Improve the code quality and visual polish of this dashboard. Return ONLY the complete updated raw HTML.`,
+  }),
+};
@@ -0,0 +1,124 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Citation } from '../../types';
+import { readServerSentEvents } from './sse';
+import { AIProvider, AIRequest, AIJsonRequest, AIPart, ModelTier, dedupeCitations } from '../aiProvider';
+
+const API_URL = 'https://api.anthropic.com/v1/messages';
+const API_VERSION = '2023-06-01';
+
+const MODELS: Record<ModelTier, string> = {
+  pro: 'claude-sonnet-4-5',
+  flash: 'claude-haiku-4-5',
+};
+
+const MAX_TOKENS = 8192;
+
+const toContentBlocks = (parts: AIPart[]) =>
+  parts.map(part => part.inlineData
+    ? { type: 'image', source: { type: 'base64', media_type: part.inlineData.mimeType, data: part.inlineData.data } }
+    : { type: 'text', text: part.text || '' }
+  );
+
+/**
+ * Anthropic implementation of the AI provider interface. Claude has no image
+ * generation model, so generateImage always throws.
+ */
+export function createAnthropicProvider(apiKey: string): AIProvider {
+  const send = async (req: AIRequest, extra: Record<string, unknown> = {}) => {
+    const response = await fetch(API_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': apiKey,
+        'anthropic-version': API_VERSION,
+        'anthropic-dangerous-direct-browser-access': 'true',
+      },
+      body: JSON.stringify({
+        model: MODELS[req.tier || 'pro'],
+        max_tokens: MAX_TOKENS,
+        system: req.systemInstruction,
+        messages: [{ role: 'user', content: toContentBlocks(req.parts) }],
+        stream: Boolean(req.onDelta),
+        ...extra,
+      }),
+      signal: req.signal,
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(`Anthropic request failed (${response.status}): ${detail.slice(0, 300)}`);
+    }
+
+    const model = MODELS[req.tier || 'pro'];
+
+    if (req.onDelta) {
+      let streamed = '';
+      let inputTokens = 0;
+      let outputTokens = 0;
+      await readServerSentEvents(response, (event, data) => {
+        if (event === 'message_start') {
+          inputTokens = data.message?.usage?.input_tokens || 0;
+        } else if (event === 'message_delta') {
+          outputTokens = data.usage?.output_tokens || outputTokens;
+        } else if (event === 'content_block_delta' && data.delta?.type === 'text_delta') {
+          streamed += data.delta.text;
+          req.onDelta?.(data.delta.text, streamed);
+        } else if (event === 'error') {
+          throw new Error(`Anthropic stream failed: ${data.error?.message || 'unknown error'}`);
+        }
+      });
+      req.onUsage?.({ model, inputTokens, outputTokens });
+      return { text: streamed, citations: [] };
+    }
+
+    const data = await response.json();
+    if (data.usage) {
+      req.onUsage?.({ model, inputTokens: data.usage.input_tokens || 0, outputTokens: data.usage.output_tokens || 0 });
+    }
+    let text = '';
+    const citations: Citation[] = [];
+    for (const block of data.content || []) {
+      if (block.type === 'text') {
+        text += block.text;
+        for (const citation of block.citations || []) {
+          if (citation.url) citations.push({ uri: citation.url, title: citation.title || '' });
+        }
+      } else if (block.type === 'web_search_tool_result' && Array.isArray(block.content)) {
+        for (const result of block.content) {
+          if (result.url) citations.push({ uri: result.url, title: result.title || '' });
+        }
+      }
+    }
+    return { text, citations: dedupeCitations(citations) };
+  };
+
+  return {
+    id: 'anthropic',
+    label: 'Anthropic Claude',
+    modelFor: (_method, tier) => MODELS[tier || 'pro'],
+
+    async generateText(req: AIRequest) {
+      return (await send(req)).text;
+    },
+
+    async generateJson(req: AIJsonRequest) {
+      const schemaHint = req.schema
+        ? `\n\nRespond with JSON matching this JSON Schema:\n${JSON.stringify(req.schema)}`
+        : '';
+      const system = `${req.systemInstruction || ''}\nRespond ONLY with valid JSON. No markdown, no prose.${schemaHint}`.trim();
+      return (await send({ ...req, systemInstruction: system })).text;
+    },
+
+    async generateImage() {
+      throw new Error('Image generation is not supported by Anthropic. Switch to Gemini or OpenAI in Settings.');
+    },
+
+    async generateWithSearch(req: AIRequest) {
+      return send({ ...req, onDelta: undefined }, { tools: [{ type: 'web_search_20250305', name: 'web_search', max_uses: 5 }] });
+    },
+  };
+}
@@ -0,0 +1,162 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { AIFixture } from '../../types';
+import { PersistenceService } from '../persistence';
+import { hashString } from '../../utils/hash';
+import { AIProvider, AIRequest, AIJsonRequest, throwIfAborted } from '../aiProvider';
+
+type FixtureMethod = AIFixture['method'];
+
+/** 1x1 transparent PNG returned when no image fixture has been recorded. */
+const PLACEHOLDER_IMAGE = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+/**
+ * Derives a stable fixture key from everything that influences the response.
+ * Inline image data is reduced to its length and a hash to keep keys small.
+ */
+export function fixtureKey(method: FixtureMethod, request: AIRequest): string {
+  const material = [
+    request.tier || 'pro',
+    request.systemInstruction || '',
+    ...request.parts.map(p => p.inlineData
+      ? `${p.inlineData.mimeType}:${p.inlineData.data.length}:${hashString(p.inlineData.data)}`
+      : p.text || ''
+    ),
+  ].join('␞');
+  return `${method}:${hashString(material)}`;
+}
+
+/**
+ * Builds the smallest value that satisfies a JSON Schema. Lets JSON calls
+ * degrade to an empty-but-well-formed result when no fixture was recorded.
+ */
+const sampleFromSchema = (schema: any): unknown => {
+  if (!schema || typeof schema !== 'object') return null;
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) return schema.enum[0];
+  switch (schema.type) {
+    case 'object': {
+      const result: Record<string, unknown> = {};
+      Object.entries(schema.properties || {}).forEach(([name, prop]) => {
+        result[name] = sampleFromSchema(prop);
+      });
+      return result;
+    }
+    case 'array': return [];
+    case 'string': return '';
+    case 'number':
+    case 'integer': return 0;
+    case 'boolean': return false;
+    default: return null;
+  }
+};
+
+/**
+ * Deterministic offline provider. Replays responses recorded by
+ * withFixtureRecording and falls back to fixed placeholders on a miss, so the
+ * app runs end-to-end without network access or API keys.
+ */
+export function createFixtureProvider(): AIProvider {
+  const lookup = async (method: FixtureMethod, request: AIRequest) => {
+    throwIfAborted(request.signal);
+    const key = fixtureKey(method, request);
+    const fixture = await PersistenceService.getAiFixture(key).catch(() => null);
+    return { key, fixture };
+  };
+
+  // Replays as a single chunk so streaming callers still render output
+  const replay = (request: AIRequest, text: string) => {
+    request.onDelta?.(text, text);
+    return text;
+  };
+
+  return {
+    id: 'fixture',
+    label: 'Offline (recorded fixtures)',
+    modelFor: () => 'fixture',
+
+    async generateText(request: AIRequest) {
+      const { key, fixture } = await lookup('text', request);
+      return replay(request, fixture?.text ?? `[offline] No recorded response for this request (fixture ${key}).`);
+    },
+
+    async generateJson(request: AIJsonRequest) {
+      const { key, fixture } = await lookup('json', request);
+      if (fixture?.text !== undefined) return replay(request, fixture.text);
+      if (request.schema) return replay(request, JSON.stringify(sampleFromSchema(request.schema)));
+      throw new Error(`No recorded fixture for this request (${key}). Record it once with a live provider first.`);
+    },
+
+    async generateImage(request: AIRequest) {
+      const { fixture } = await lookup('image', request);
+      return fixture ? fixture.imageData ?? null : PLACEHOLDER_IMAGE;
+    },
+
+    async generateWithSearch(request: AIRequest) {
+      const { key, fixture } = await lookup('search', request);
+      return {
+        text: fixture?.text ?? `[offline] No recorded response for this request (fixture ${key}).`,
+        citations: fixture?.citations ?? [],
+      };
+    },
+  };
+}
+
+/** Number of responses recorded for offline replay. */
+export function countRecordedFixtures(): Promise<number> {
+  return PersistenceService.countAiFixtures();
+}
+
+export function clearRecordedFixtures(): Promise<void> {
+  return PersistenceService.clearAiFixtures();
+}
+
+/**
+ * Wraps a live provider so each successful response is stored as a fixture.
+ * Recording failures are logged and never affect the live result.
+ */
+export function withFixtureRecording(inner: AIProvider): AIProvider {
+  const record = (method: FixtureMethod, request: AIRequest, data: Partial<AIFixture>) => {
+    PersistenceService.saveAiFixture({
+      key: fixtureKey(method, request),
+      method,
+      recordedAt: Date.now(),
+      ...data,
+    }).catch(e => console.warn('Failed to record AI fixture', e));
+  };
+
+  return {
+    id: inner.id,
+    label: inner.label,
+    modelFor: (method, tier) => inner.modelFor(method, tier),
+
+    async generateText(request: AIRequest) {
+      const text = await inner.generateText(request);
+      record('text', request, { text });
+      return text;
+    },
+
+    async generateJson(request: AIJsonRequest) {
+      const text = await inner.generateJson(request);
+      record('json', request, { text });
+      return text;
+    },
+
+    async generateImage(request: AIRequest) {
+      const imageData = await inner.generateImage(request);
+      record('image', request, { imageData });
+      return imageData;
+    },
+
+    async generateWithSearch(request: AIRequest) {
+      const result = await inner.generateWithSearch(request);
+      record('search', request, { text: result.text, citations: result.citations });
+      return result;
+    },
+
+    // Embeddings aren't recorded; the repository index persists them itself
+    embedTexts: inner.embedTexts && (request => inner.embedTexts!(request)),
+  };
+}
@@ -0,0 +1,162 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { GoogleGenAI, Modality, GenerateContentResponse, GenerateContentConfig } from "@google/genai";
+import { Citation } from '../../types';
+import { AIProvider, AIRequest, AIJsonRequest, AIEmbedRequest, ModelTier, dedupeCitations } from '../aiProvider';
+
+const MODELS: Record<ModelTier, string> = {
+  pro: 'gemini-3-pro-preview',
+  flash: 'gemini-3-flash-preview',
+};
+
+const IMAGE_MODEL = 'gemini-3-pro-image-preview';
+
+const EMBEDDING_MODEL = 'gemini-embedding-001';
+const EMBEDDING_DIMENSIONS = 768;
+/** Rough ratio for embedding requests the API reports no token counts for. */
+const CHARS_PER_TOKEN = 4;
+
+const extractImage = (response: GenerateContentResponse): string | null => {
+  const parts = response.candidates?.[0]?.content?.parts;
+  if (parts) {
+    for (const part of parts) {
+      if (part.inlineData && part.inlineData.data) {
+        return part.inlineData.data;
+      }
+    }
+  }
+  return null;
+};
+
+const extractCitations = (response: GenerateContentResponse): Citation[] => {
+  const chunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks;
+  if (!chunks) return [];
+  const citations: Citation[] = [];
+  chunks.forEach((chunk: any) => {
+    if (chunk.web?.uri) {
+      citations.push({
+        uri: chunk.web.uri,
+        title: chunk.web.title || ""
+      });
+    }
+  });
+  return dedupeCitations(citations);
+};
+
+const reportUsage = (request: AIRequest, model: string, response?: GenerateContentResponse) => {
+  const meta = response?.usageMetadata;
+  if (!meta || !request.onUsage) return;
+  request.onUsage({
+    model,
+    inputTokens: meta.promptTokenCount || 0,
+    outputTokens: (meta.candidatesTokenCount || 0) + (meta.thoughtsTokenCount || 0),
+  });
+};
+
+/**
+ * Gemini implementation of the AI provider interface.
+ */
+export function createGeminiProvider(apiKey: string): AIProvider {
+  const ai = new GoogleGenAI({ apiKey });
+
+  const complete = async (request: AIRequest, config: GenerateContentConfig): Promise<string> => {
+    const params = {
+      model: MODELS[request.tier || 'pro'],
+      contents: { parts: request.parts },
+      config: { ...config, abortSignal: request.signal },
+    };
+
+    if (!request.onDelta) {
+      const response = await ai.models.generateContent(params);
+      reportUsage(request, params.model, response);
+      return response.text || "";
+    }
+
+    let text = "";
+    let last: GenerateContentResponse | undefined;
+    const stream = await ai.models.generateContentStream(params);
+    for await (const chunk of stream) {
+      last = chunk;
+      const delta = chunk.text || "";
+      if (!delta) continue;
+      text += delta;
+      request.onDelta(delta, text);
+    }
+    // Cumulative usage arrives on the final chunk
+    reportUsage(request, params.model, last);
+    return text;
+  };
+
+  return {
+    id: 'gemini',
+    label: 'Google Gemini',
+    modelFor: (method, tier) => (method === 'image' ? IMAGE_MODEL : method === 'embed' ? EMBEDDING_MODEL : MODELS[tier || 'pro']),
+
+    async generateText(request: AIRequest) {
+      return complete(request, {
+        systemInstruction: request.systemInstruction,
+        thinkingConfig: request.thinkingBudget ? { thinkingBudget: request.thinkingBudget } : undefined,
+      });
+    },
+
+    async generateJson(request: AIJsonRequest) {
+      return complete(request, {
+        systemInstruction: request.systemInstruction,
+        responseMimeType: 'application/json',
+        responseJsonSchema: request.schema,
+      });
+    },
+
+    async generateImage(request: AIRequest) {
+      const response = await ai.models.generateContent({
+        model: IMAGE_MODEL,
+        contents: { parts: request.parts },
+        config: {
+          responseModalities: [Modality.IMAGE],
+          abortSignal: request.signal,
+        },
+      });
+      reportUsage(request, IMAGE_MODEL, response);
+      return extractImage(response);
+    },
+
+    async generateWithSearch(request: AIRequest) {
+      const model = MODELS[request.tier || 'pro'];
+      const response = await ai.models.generateContent({
+        model,
+        contents: { parts: request.parts },
+        config: {
+          systemInstruction: request.systemInstruction,
+          tools: [{ googleSearch: {} }],
+          abortSignal: request.signal,
+        }
+      });
+      reportUsage(request, model, response);
+      return {
+        text: response.text || "",
+        citations: extractCitations(response),
+      };
+    },
+
+    async embedTexts(request: AIEmbedRequest) {
+      const response = await ai.models.embedContent({
+        model: EMBEDDING_MODEL,
+        contents: request.texts,
+        config: {
+          taskType: request.purpose === 'query' ? 'RETRIEVAL_QUERY' : 'RETRIEVAL_DOCUMENT',
+          outputDimensionality: EMBEDDING_DIMENSIONS,
+          abortSignal: request.signal,
+        },
+      });
+      const embeddings = response.embeddings || [];
+      // The Gemini API (unlike Vertex) usually leaves out token statistics, so they're estimated
+      const counted = embeddings.reduce((sum, e) => sum + (e.statistics?.tokenCount || 0), 0);
+      const tokens = counted || Math.ceil(request.texts.join('').length / CHARS_PER_TOKEN);
+      request.onUsage?.({ model: EMBEDDING_MODEL, inputTokens: tokens, outputTokens: 0 });
+      return embeddings.map(e => e.values || []);
+    },
+  };
+}
@@ -0,0 +1,162 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Citation } from '../../types';
+import { readServerSentEvents } from './sse';
+import { AIProvider, AIRequest, AIJsonRequest, AIEmbedRequest, AIPart, ModelTier, dedupeCitations, joinTextParts } from '../aiProvider';
+
+const API_BASE = 'https://api.openai.com/v1';
+
+const MODELS: Record<ModelTier, string> = {
+  pro: 'gpt-4.1',
+  flash: 'gpt-4.1-mini',
+};
+
+const IMAGE_MODEL = 'gpt-image-1';
+
+const EMBEDDING_MODEL = 'text-embedding-3-small';
+const EMBEDDING_DIMENSIONS = 768;
+
+const toInputContent = (parts: AIPart[]) =>
+  parts.map(part => part.inlineData
+    ? { type: 'input_image', image_url: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}` }
+    : { type: 'input_text', text: part.text || '' }
+  );
+
+const base64ToBlob = (data: string, mimeType: string): Blob => {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: mimeType });
+};
+
+/**
+ * OpenAI implementation of the AI provider interface, backed by the Responses
+ * API for text and the Images API for generation and editing.
+ */
+export function createOpenAIProvider(apiKey: string): AIProvider {
+  const post = async (path: string, body: BodyInit, signal?: AbortSignal, json = true): Promise<Response> => {
+    const headers: HeadersInit = { 'Authorization': `Bearer ${apiKey}` };
+    if (json) headers['Content-Type'] = 'application/json';
+
+    const response = await fetch(`${API_BASE}${path}`, { method: 'POST', headers, body, signal });
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(`OpenAI request failed (${response.status}): ${detail.slice(0, 300)}`);
+    }
+    return response;
+  };
+
+  const request = async (path: string, body: BodyInit, signal?: AbortSignal, json = true): Promise<any> =>
+    (await post(path, body, signal, json)).json();
+
+  const reportUsage = (req: AIRequest, model: string, usage?: { input_tokens?: number; output_tokens?: number }) => {
+    if (!usage || !req.onUsage) return;
+    req.onUsage({ model, inputTokens: usage.input_tokens || 0, outputTokens: usage.output_tokens || 0 });
+  };
+
+  const stream = async (req: AIRequest, extra: Record<string, unknown>) => {
+    const response = await post('/responses', JSON.stringify({
+      model: MODELS[req.tier || 'pro'],
+      instructions: req.systemInstruction,
+      input: [{ role: 'user', content: toInputContent(req.parts) }],
+      stream: true,
+      ...extra,
+    }), req.signal);
+
+    let text = '';
+    await readServerSentEvents(response, (event, data) => {
+      if (event === 'response.output_text.delta' && data.delta) {
+        text += data.delta;
+        req.onDelta?.(data.delta, text);
+      } else if (event === 'response.completed') {
+        reportUsage(req, MODELS[req.tier || 'pro'], data.response?.usage);
+      } else if (event === 'response.failed' || event === 'error') {
+        throw new Error(`OpenAI stream failed: ${data.response?.error?.message || data.message || 'unknown error'}`);
+      }
+    });
+    return text;
+  };
+
+  const respond = async (req: AIRequest, extra: Record<string, unknown> = {}) => {
+    const data = await request('/responses', JSON.stringify({
+      model: MODELS[req.tier || 'pro'],
+      instructions: req.systemInstruction,
+      input: [{ role: 'user', content: toInputContent(req.parts) }],
+      ...extra,
+    }), req.signal);
+    reportUsage(req, MODELS[req.tier || 'pro'], data.usage);
+
+    let text = '';
+    const citations: Citation[] = [];
+    for (const item of data.output || []) {
+      if (item.type !== 'message') continue;
+      for (const content of item.content || []) {
+        if (content.type !== 'output_text') continue;
+        text += content.text;
+        for (const annotation of content.annotations || []) {
+          if (annotation.type === 'url_citation' && annotation.url) {
+            citations.push({ uri: annotation.url, title: annotation.title || '' });
+          }
+        }
+      }
+    }
+    return { text, citations: dedupeCitations(citations) };
+  };
+
+  return {
+    id: 'openai',
+    label: 'OpenAI',
+    modelFor: (method, tier) => (method === 'image' ? IMAGE_MODEL : method === 'embed' ? EMBEDDING_MODEL : MODELS[tier || 'pro']),
+
+    async generateText(req: AIRequest) {
+      if (req.onDelta) return stream(req, {});
+      return (await respond(req)).text;
+    },
+
+    async generateJson(req: AIJsonRequest) {
+      const format = req.schema
+        ? { type: 'json_schema', name: 'response', schema: req.schema, strict: false }
+        : { type: 'json_object' };
+      if (req.onDelta) return stream(req, { text: { format } });
+      return (await respond(req, { text: { format } })).text;
+    },
+
+    async generateImage(req: AIRequest) {
+      const prompt = joinTextParts(req.parts);
+      const source = req.parts.find(p => p.inlineData)?.inlineData;
+
+      let data: any;
+      if (source) {
+        const form = new FormData();
+        form.append('model', IMAGE_MODEL);
+        form.append('prompt', prompt);
+        form.append('image', base64ToBlob(source.data, source.mimeType), 'source.png');
+        data = await request('/images/edits', form, req.signal, false);
+      } else {
+        data = await request('/images/generations', JSON.stringify({ model: IMAGE_MODEL, prompt }), req.signal);
+      }
+      reportUsage(req, IMAGE_MODEL, data.usage);
+      return data.data?.[0]?.b64_json || null;
+    },
+
+    async generateWithSearch(req: AIRequest) {
+      return respond(req, { tools: [{ type: 'web_search' }] });
+    },
+
+    async embedTexts(req: AIEmbedRequest) {
+      const data = await request('/embeddings', JSON.stringify({ model: EMBEDDING_MODEL, input: req.texts, dimensions: EMBEDDING_DIMENSIONS }), req.signal);
+      if (data.usage) req.onUsage?.({ model: EMBEDDING_MODEL, inputTokens: data.usage.prompt_tokens || 0, outputTokens: 0 });
+      // Entries carry their input index and are not guaranteed to be in order
+      const vectors: number[][] = req.texts.map(() => []);
+      (data.data || []).forEach((entry: { index: number; embedding: number[] }) => {
+        vectors[entry.index] = entry.embedding;
+      });
+      return vectors;
+    },
+  };
+}
@@ -0,0 +1,70 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Reads a text/event-stream response body and invokes `onEvent` with the
+ * event name and parsed JSON payload of every event. Non-JSON payloads such
+ * as `[DONE]` are skipped. An error thrown by `onEvent` cancels the stream
+ * and rejects the returned promise.
+ */
+export async function readServerSentEvents(
+  response: Response,
+  onEvent: (event: string, data: any) => void
+): Promise<void> {
+  if (!response.body) return;
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const dispatch = (block: string) => {
+    let event = 'message';
+    const dataLines: string[] = [];
+    for (const line of block.split('\n')) {
+      if (line.startsWith('event:')) event = line.slice(6).trim();
+      else if (line.startsWith('data:')) dataLines.push(line.slice(5).trimStart());
+    }
+    if (dataLines.length === 0) return;
+    let data: any;
+    try {
+      data = JSON.parse(dataLines.join('\n'));
+    } catch {
+      // Keep-alive or sentinel payload
+      return;
+    }
+    // Outside the try: errors the handler throws (error events, onDelta) must fail the stream
+    onEvent(event, data);
+  };
+
+  // A trailing \r may be the first half of a CRLF split across reads
+  let pendingCR = '';
+  const append = (text: string, final: boolean) => {
+    let combined = pendingCR + text;
+    pendingCR = '';
+    if (!final && combined.endsWith('\r')) {
+      pendingCR = '\r';
+      combined = combined.slice(0, -1);
+    }
+    buffer = (buffer + combined).replace(/\r\n?/g, '\n');
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      append(decoder.decode(value, { stream: true }), false);
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        dispatch(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+        boundary = buffer.indexOf('\n\n');
+      }
+    }
+    append(decoder.decode(), true);
+    if (buffer.trim()) dispatch(buffer);
+  } catch (error) {
+    reader.cancel().catch(() => {});
+    throw error;
+  }
+}
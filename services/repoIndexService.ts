@@ -0,0 +1,199 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { DevStudioState } from '../types';
+import { embedForRetrieval } from './geminiService';
+import { loadFileContent } from './fileContentService';
+import { mapWithConcurrency } from './githubService';
+import { PersistenceService } from './persistence';
+import { getActiveProviderId, isAbortError, throwIfAborted } from './aiProvider';
+import { interpretError, logError } from './errorService';
+import { CodeChunk, chunkFile } from '../utils/codeChunker';
+import { Bm25Index, buildBm25Index, searchBm25 } from '../utils/bm25';
+import { getProjectKey } from '../utils/projectKey';
+
+/** Files read into one index; larger repositories are indexed up to this many. */
+export const MAX_INDEXED_FILES = 600;
+/** Chunks handed to the model per question. */
+export const DEFAULT_RETRIEVED_CHUNKS = 8;
+
+/** Files above this size are usually generated or data and are skipped. */
+const MAX_FILE_CHARS = 200_000;
+const READ_CONCURRENCY = 4;
+const EMBED_BATCH_SIZE = 64;
+/** Characters of a chunk embedded; the rest rarely changes what it is about. */
+const EMBED_CHARS = 4000;
+/** Rank offset of reciprocal rank fusion; damps the weight of top ranks. */
+const RRF_K = 60;
+/** Chunks kept per file so one large file doesn't crowd out the rest. */
+const MAX_CHUNKS_PER_FILE = 3;
+
+/**
+ * Searchable chunks of a project's files: a BM25 index always, and
+ * embeddings when the provider could make them.
+ */
+export interface RepoIndex {
+  projectKey: string;
+  /** Ref the files were read at, when known. */
+  ref?: string;
+  chunks: CodeChunk[];
+  lexical: Bm25Index;
+  /** One vector per chunk, in chunk order. Only comparable with query vectors of the same provider. */
+  embeddings?: { provider: string; vectors: Float32Array[] };
+  /** Why embeddings are missing although they were requested. */
+  embeddingError?: string;
+  fileCount: number;
+  /** Files that could not be read, were too large, or were past MAX_INDEXED_FILES. */
+  skipped: string[];
+  createdAt: number;
+}
+
+export interface IndexProgress {
+  phase: 'reading' | 'embedding';
+  done: number;
+  total: number;
+}
+
+export interface BuildIndexOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: IndexProgress) => void;
+  /** Also embeds chunks for semantic retrieval. Defaults to true. */
+  embeddings?: boolean;
+}
+
+export interface RetrievedChunk {
+  chunk: CodeChunk;
+  score: number;
+}
+
+/** Text a chunk is found by: its path and symbols count along with its code. */
+const searchText = (chunk: CodeChunk) => `${chunk.path}\n${chunk.symbol || ''}\n${chunk.text}`;
+
+const embedText = (chunk: CodeChunk) => searchText(chunk).slice(0, EMBED_CHARS);
+
+/**
+ * Reads the project's files, chunks them by symbol and indexes the chunks.
+ * Unreadable files are skipped and listed on the index; a failure to embed
+ * leaves a lexical-only index with the reason recorded.
+ */
+export async function buildRepoIndex(project: DevStudioState, options: BuildIndexOptions = {}): Promise<RepoIndex> {
+  const { signal, onProgress } = options;
+  const paths = project.fileTree.filter(file => file.type !== 'tree').map(file => file.path).sort();
+  const files = paths.slice(0, MAX_INDEXED_FILES);
+  const skipped = paths.slice(MAX_INDEXED_FILES);
+  const chunksByFile = new Map<string, CodeChunk[]>();
+
+  let read = 0;
+  onProgress?.({ phase: 'reading', done: 0, total: files.length });
+  await mapWithConcurrency(files, READ_CONCURRENCY, async path => {
+    throwIfAborted(signal);
+    const content = await loadFileContent(project, path).catch(() => null);
+    if (content === null || content.length > MAX_FILE_CHARS) skipped.push(path);
+    else chunksByFile.set(path, chunkFile(path, content));
+    onProgress?.({ phase: 'reading', done: ++read, total: files.length });
+  });
+  throwIfAborted(signal);
+
+  const chunks = files.flatMap(path => chunksByFile.get(path) || []);
+  const index: RepoIndex = {
+    projectKey: getProjectKey(project),
+    ref: project.ref || undefined,
+    chunks,
+    lexical: buildBm25Index(chunks.map(searchText)),
+    fileCount: chunksByFile.size,
+    skipped: skipped.sort(),
+    createdAt: Date.now(),
+  };
+
+  if (options.embeddings !== false && chunks.length > 0) {
+    try {
+      const vectors: Float32Array[] = [];
+      let provider = '';
+      onProgress?.({ phase: 'embedding', done: 0, total: chunks.length });
+      for (let i = 0; i < chunks.length; i += EMBED_BATCH_SIZE) {
+        const result = await embedForRetrieval(chunks.slice(i, i + EMBED_BATCH_SIZE).map(embedText), 'document', { signal });
+        if (!result) break;
+        provider = result.provider;
+        vectors.push(...result.vectors.map(vector => Float32Array.from(vector)));
+        onProgress?.({ phase: 'embedding', done: vectors.length, total: chunks.length });
+      }
+      if (vectors.length === chunks.length) index.embeddings = { provider, vectors };
+      else if (vectors.length === 0) index.embeddingError = 'The current AI provider has no embedding model.';
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      logError(error, 'RepoIndex');
+      index.embeddingError = interpretError(error).message;
+    }
+  }
+
+  await PersistenceService.saveRepoIndex(index);
+  return index;
+}
+
+export function loadRepoIndex(project: DevStudioState): Promise<RepoIndex | null> {
+  return PersistenceService.getRepoIndex(getProjectKey(project));
+}
+
+function cosine(a: Float32Array, b: Float32Array): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  const length = Math.min(a.length, b.length);
+  for (let i = 0; i < length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * The chunks most relevant to a question. BM25 ranks them by shared terms;
+ * when the index has embeddings from the active provider, their ranking by
+ * cosine similarity is merged in with reciprocal rank fusion. A failed query
+ * embedding falls back to BM25 alone.
+ */
+export async function retrieveChunks(
+  index: RepoIndex,
+  question: string,
+  options: { limit?: number; signal?: AbortSignal } = {}
+): Promise<RetrievedChunk[]> {
+  const limit = options.limit ?? DEFAULT_RETRIEVED_CHUNKS;
+  const pool = limit * 4;
+  const scores = new Map<number, number>();
+  const fuse = (ranked: number[]) => ranked.forEach((doc, rank) => scores.set(doc, (scores.get(doc) || 0) + 1 / (RRF_K + rank + 1)));
+
+  fuse(searchBm25(index.lexical, question, pool).map(hit => hit.doc));
+
+  if (index.embeddings && index.embeddings.provider === getActiveProviderId()) {
+    try {
+      const result = await embedForRetrieval([question], 'query', { signal: options.signal });
+      if (result?.vectors[0]) {
+        const query = Float32Array.from(result.vectors[0]);
+        const ranked = index.embeddings.vectors
+          .map((vector, doc) => ({ doc, similarity: cosine(query, vector) }))
+          .sort((a, b) => b.similarity - a.similarity)
+          .slice(0, pool)
+          .map(hit => hit.doc);
+        fuse(ranked);
+      }
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      logError(error, 'RepoIndex');
+    }
+  }
+
+  const perFile = new Map<string, number>();
+  const retrieved: RetrievedChunk[] = [];
+  for (const [doc, score] of Array.from(scores).sort((a, b) => b[1] - a[1] || a[0] - b[0])) {
+    const chunk = index.chunks[doc];
+    const count = perFile.get(chunk.path) || 0;
+    if (count >= MAX_CHUNKS_PER_FILE) continue;
+    perFile.set(chunk.path, count + 1);
+    retrieved.push({ chunk, score });
+    if (retrieved.length >= limit) break;
+  }
+  return retrieved;
+}
@@ -0,0 +1,122 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { RepoHost } from '../types';
+import {
+  RepoSpec, RepoTreeResult, FetchTreeOptions, RefLookups, DependencyScanResult,
+  parseRepoSpec, fetchDefaultBranch, listRepoRefs, fetchRepoTree, fetchFileContent,
+  getUserGitHubToken, settleRepoSpec, detectDependencies,
+} from './githubService';
+import { gitlabSource } from './gitlabService';
+import { bitbucketSource } from './bitbucketService';
+import { giteaSource } from './giteaService';
+
+/**
+ * A git hosting service the analyzer can read repositories from. Every
+ * feature that lists trees, reads files or scans manifests goes through
+ * this interface, so adding a host means implementing it once.
+ */
+export interface RepoSource extends RefLookups {
+  host: RepoHost;
+  label: string;
+  /** True when `hostname` belongs to this source, including a configured self-hosted instance. */
+  matchesHost(hostname: string): boolean;
+  /** Parses a web URL of this host into a spec, or null if it isn't a repository URL. */
+  parseUrl(url: URL): RepoSpec | null;
+  /** Web URL of a directory at a ref, used to restore inputs from history. */
+  treeUrl(spec: RepoSpec & { ref: string }): string;
+  fetchTree(owner: string, repo: string, ref?: string, subdir?: string, options?: FetchTreeOptions): Promise<RepoTreeResult>;
+  fetchFileContent(owner: string, repo: string, path: string, ref?: string): Promise<string | null>;
+  /** True when a token is configured; anonymous access usually has tighter limits. */
+  isAuthenticated(): boolean;
+}
+
+const githubSource: RepoSource = {
+  host: 'github',
+  label: 'GitHub',
+  matchesHost: (hostname) => hostname === 'github.com' || hostname === 'www.github.com',
+  parseUrl: (url) => parseRepoSpec(url.href),
+  treeUrl: ({ owner, repo, ref, subdir }) => `https://github.com/${owner}/${repo}/tree/${ref}${subdir ? `/${subdir}` : ''}`,
+  fetchDefaultBranch,
+  listRefs: listRepoRefs,
+  fetchTree: fetchRepoTree,
+  fetchFileContent,
+  isAuthenticated: () => !!getUserGitHubToken(),
+};
+
+export const REPO_SOURCES: Record<RepoHost, RepoSource> = {
+  github: githubSource,
+  gitlab: gitlabSource,
+  bitbucket: bitbucketSource,
+  gitea: giteaSource,
+};
+
+export const REPO_HOSTS = Object.keys(REPO_SOURCES) as RepoHost[];
+
+export function getRepoSource(host: RepoHost = 'github'): RepoSource {
+  return REPO_SOURCES[host];
+}
+
+/**
+ * Parses analyzer input into a spec with its host. Accepts:
+ * - web URLs of any configured host (the host is detected from the URL)
+ * - `gitlab:group/project@ref` style prefixed shorthands
+ * - plain `owner/repo@ref`, read against `fallbackHost`
+ *
+ * GitLab shorthands may name nested groups, e.g. `group/subgroup/project`.
+ */
+export function parseSourceInput(input: string, fallbackHost: RepoHost = 'github'): (RepoSpec & { host: RepoHost }) | null {
+  const cleanInput = input.trim().replace(/\/+$/, '');
+  if (!cleanInput) return null;
+
+  const prefixed = cleanInput.match(/^(github|gitlab|bitbucket|gitea):(?!\/\/)(.+)$/);
+  if (prefixed) return parseShorthand(prefixed[2], prefixed[1] as RepoHost);
+
+  // Bare host names such as `gitlab.com/group/project` are treated as https URLs
+  const urlText = /^[\w-]+(\.[\w-]+)+(:\d+)?\//.test(cleanInput) ? `https://${cleanInput}` : cleanInput;
+  try {
+    const url = new URL(urlText);
+    if (url.protocol === 'http:' || url.protocol === 'https:') {
+      const source = REPO_HOSTS.map(getRepoSource).find(s => s.matchesHost(url.hostname));
+      const spec = source?.parseUrl(url);
+      return spec && source ? { ...spec, host: source.host } : null;
+    }
+  } catch (e) { }
+
+  return parseShorthand(cleanInput, fallbackHost);
+}
+
+const parseShorthand = (text: string, host: RepoHost): (RepoSpec & { host: RepoHost }) | null => {
+  const pattern = host === 'gitlab'
+    ? /^((?:[\w.-]+\/)*[\w.-]+)\/([\w.-]+?)(?:\.git)?(?:@(.+))?$/
+    : /^([\w.-]+)\/([\w.-]+?)(?:\.git)?(?:@(.+))?$/;
+  const match = text.match(pattern);
+  if (!match) return null;
+  return { host, owner: match[1], repo: match[2], ref: match[3] || undefined };
+};
+
+/** Formats a spec for the analyzer input, e.g. `gitlab:group/project@v2`. */
+export function formatSourceInput(spec: RepoSpec, fallbackHost: RepoHost = 'github'): string {
+  const host = spec.host || 'github';
+  if (spec.subdir && spec.ref) return getRepoSource(host).treeUrl({ ...spec, ref: spec.ref });
+  return `${host === fallbackHost ? '' : `${host}:`}${spec.owner}/${spec.repo}${spec.ref ? `@${spec.ref}` : ''}`;
+}
+
+/**
+ * resolveRepoSpec for any host: fills in the default branch and settles
+ * multi-segment refs against the host's branches and tags.
+ */
+export function resolveSourceSpec(spec: RepoSpec): Promise<RepoSpec & { ref: string }> {
+  return settleRepoSpec(spec, getRepoSource(spec.host));
+}
+
+/**
+ * fetchRepoDependencies for any host.
+ */
+export async function fetchSourceDependencies(spec: RepoSpec): Promise<DependencyScanResult> {
+  const source = getRepoSource(spec.host);
+  const ref = spec.ref || await source.fetchDefaultBranch(spec.owner, spec.repo);
+  return detectDependencies(path => source.fetchFileContent(spec.owner, spec.repo, path, ref), spec.subdir);
+}
@@ -0,0 +1,125 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { z } from 'zod/v4';
+import { AIProvider, AIRequest, throwIfAborted } from './aiProvider';
+
+const MAX_REPAIR_ATTEMPTS = 2;
+
+/**
+ * Raised when an AI response still fails schema validation after all repair
+ * attempts. Carries enough context for the UI and for debugging.
+ */
+export class StructuredOutputError extends Error {
+  readonly schemaName: string;
+  readonly issues: string[];
+  readonly rawText: string;
+  readonly attempts: number;
+
+  constructor(schemaName: string, issues: string[], rawText: string, attempts: number) {
+    super(`AI response for ${schemaName} failed validation after ${attempts} attempt(s): ${issues.slice(0, 3).join('; ')}`);
+    this.name = 'StructuredOutputError';
+    this.schemaName = schemaName;
+    this.issues = issues;
+    this.rawText = rawText;
+    this.attempts = attempts;
+  }
+}
+
+export type ParseResult<T> = { success: true; data: T; issues?: undefined } | { success: false; data?: undefined; issues: string[] };
+
+/**
+ * Removes markdown code fences and any prose surrounding the outermost JSON
+ * value.
+ */
+export function stripJsonFences(text: string): string {
+  const trimmed = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '').trim();
+  const start = trimmed.search(/[[{]/);
+  if (start <= 0) return trimmed;
+  const end = Math.max(trimmed.lastIndexOf('}'), trimmed.lastIndexOf(']'));
+  return end > start ? trimmed.slice(start, end + 1) : trimmed;
+}
+
+/**
+ * Parses and validates raw model output against a schema.
+ */
+export function parseStructured<T extends z.ZodType>(text: string, schema: T): ParseResult<z.infer<T>> {
+  let json: unknown;
+  try {
+    json = JSON.parse(stripJsonFences(text));
+  } catch (e) {
+    return { success: false, issues: [`Response is not valid JSON: ${e instanceof Error ? e.message : String(e)}`] };
+  }
+
+  const result = schema.safeParse(json);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+  return {
+    success: false,
+    issues: result.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`),
+  };
+}
+
+/**
+ * Converts a zod schema into the JSON Schema dialect accepted by providers.
+ */
+export function toJsonSchema(schema: z.ZodType): Record<string, unknown> {
+  const { $schema, ...jsonSchema } = z.toJSONSchema(schema) as Record<string, unknown>;
+  return jsonSchema;
+}
+
+/**
+ * Requests JSON from the provider and validates it. On failure the model is
+ * shown its previous answer and the validation issues and asked to correct it.
+ * When `request.onDelta` is set each attempt streams from the start, so
+ * handlers should treat the `text` argument as a replacement, not an append.
+ *
+ * @param ai - Provider to call.
+ * @param request - Original prompt parts and options.
+ * @param schema - Expected response shape.
+ * @param schemaName - Human-readable name used in errors.
+ * @throws StructuredOutputError when no valid response is produced.
+ */
+export async function generateStructured<T extends z.ZodType>(
+  ai: AIProvider,
+  request: AIRequest,
+  schema: T,
+  schemaName: string
+): Promise<z.infer<T>> {
+  const jsonSchema = toJsonSchema(schema);
+  const isValid = (text: string) => parseStructured(text, schema).success;
+  let parts = request.parts;
+  let lastText = '';
+  let lastIssues: string[] = [];
+
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    throwIfAborted(request.signal);
+    lastText = await ai.generateJson({ ...request, parts, schema: jsonSchema, isValid });
+    const parsed = parseStructured(lastText, schema);
+    if (parsed.success) return parsed.data;
+
+    lastIssues = parsed.issues;
+    console.warn(`[structuredOutput] ${schemaName} failed validation (attempt ${attempt + 1})`, lastIssues);
+
+    parts = [
+      ...request.parts,
+      {
+        text: `Your previous response could not be used.
+
+PREVIOUS RESPONSE:
+${lastText.slice(0, 8000)}
+
+VALIDATION ERRORS:
+${lastIssues.map(i => `- ${i}`).join('\n')}
+
+Return the corrected response as JSON matching this JSON Schema exactly. Return ONLY the JSON, no markdown.
+${JSON.stringify(jsonSchema)}`,
+      },
+    ];
+  }
+
+  throw new StructuredOutputError(schemaName, lastIssues, lastText, MAX_REPAIR_ATTEMPTS + 1);
+}
@@ -0,0 +1,153 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { DevStudioState } from '../types';
+import { loadFileContent } from './fileContentService';
+import { mapWithConcurrency } from './githubService';
+import { throwIfAborted } from './aiProvider';
+import { FileSymbols, SymbolInfo, TypeScriptModule, parseFileSymbols, symbolLanguage } from '../utils/symbolParser';
+import { getProjectKey } from '../utils/projectKey';
+
+/** Files parsed into one cross-reference index. */
+export const MAX_SYMBOL_FILES = 2000;
+
+const READ_CONCURRENCY = 6;
+
+/** Symbols and identifier uses of every parsable file of a project. */
+export interface SymbolIndex {
+  projectKey: string;
+  files: Record<string, FileSymbols>;
+  /** Files that could not be read or were past MAX_SYMBOL_FILES. */
+  skipped: string[];
+  createdAt: number;
+}
+
+export interface SymbolIndexProgress {
+  done: number;
+  total: number;
+}
+
+export interface ReferenceHit {
+  path: string;
+  lines: number[];
+}
+
+/** Where a symbol is used, the file declaring it included. */
+export interface SymbolReferences {
+  /** File declaring the symbol. */
+  path: string;
+  symbol: SymbolInfo;
+  hits: ReferenceHit[];
+  /** Reference lines across all hits. */
+  total: number;
+}
+
+let typescript: Promise<TypeScriptModule> | null = null;
+
+/** The TypeScript compiler, loaded on first use since it's a large bundle. */
+export function loadTypeScript(): Promise<TypeScriptModule> {
+  if (!typescript) {
+    typescript = import('typescript').then(module => (module.default ?? module) as TypeScriptModule);
+    typescript.catch(() => { typescript = null; });
+  }
+  return typescript;
+}
+
+// Indexes live for the session; parsing is quick enough to redo after a reload
+const indexes = new Map<string, SymbolIndex>();
+
+/** Symbols of one file, from the project's index when it has been built. */
+export async function loadFileSymbols(project: DevStudioState, path: string): Promise<FileSymbols | null> {
+  const indexed = indexes.get(getProjectKey(project))?.files[path];
+  if (indexed) return indexed;
+  const language = symbolLanguage(path);
+  if (!language) return null;
+  const content = await loadFileContent(project, path);
+  if (content === null) return null;
+  return parseFileSymbols(path, content, language === 'typescript' ? await loadTypeScript() : null);
+}
+
+export function getSymbolIndex(project: DevStudioState): SymbolIndex | null {
+  return indexes.get(getProjectKey(project)) ?? null;
+}
+
+/**
+ * Reads and parses every TS/JS, Python and Go file of the project, up to
+ * MAX_SYMBOL_FILES. The index is kept in memory for the session.
+ */
+export async function buildSymbolIndex(
+  project: DevStudioState,
+  options: { signal?: AbortSignal; onProgress?: (progress: SymbolIndexProgress) => void } = {}
+): Promise<SymbolIndex> {
+  const { signal, onProgress } = options;
+  const paths = project.fileTree
+    .filter(file => file.type !== 'tree' && symbolLanguage(file.path))
+    .map(file => file.path)
+    .sort();
+  const targets = paths.slice(0, MAX_SYMBOL_FILES);
+  const skipped = paths.slice(MAX_SYMBOL_FILES);
+  const ts = targets.some(path => symbolLanguage(path) === 'typescript') ? await loadTypeScript() : null;
+  const files: Record<string, FileSymbols> = {};
+
+  let done = 0;
+  onProgress?.({ done: 0, total: targets.length });
+  await mapWithConcurrency(targets, READ_CONCURRENCY, async path => {
+    throwIfAborted(signal);
+    const content = await loadFileContent(project, path).catch(() => null);
+    const parsed = content === null ? null : parseFileSymbols(path, content, ts);
+    if (parsed) files[path] = parsed;
+    else skipped.push(path);
+    onProgress?.({ done: ++done, total: targets.length });
+  });
+  throwIfAborted(signal);
+
+  const index: SymbolIndex = { projectKey: getProjectKey(project), files, skipped: skipped.sort(), createdAt: Date.now() };
+  indexes.set(index.projectKey, index);
+  return index;
+}
+
+const dirOf = (path: string) => path.slice(0, Math.max(0, path.lastIndexOf('/')));
+
+/** Paths of the repository files each file imports, from the dependency graph. */
+function importsByPath(project: DevStudioState): Map<string, Set<string>> {
+  const pathOf = new Map(project.graphData.nodes.filter(node => node.type === 'file' && node.path).map(node => [node.id, node.path!]));
+  const imports = new Map<string, Set<string>>();
+  project.graphData.links.forEach(link => {
+    const source = pathOf.get(typeof link.source === 'string' ? link.source : link.source.id);
+    const target = pathOf.get(typeof link.target === 'string' ? link.target : link.target.id);
+    if (!source || !target) return;
+    if (!imports.has(source)) imports.set(source, new Set());
+    imports.get(source)!.add(target);
+  });
+  return imports;
+}
+
+/**
+ * Uses of a symbol across the index. Names are matched, not resolved like a
+ * compiler would, so a use only counts in files that can see the declaration:
+ * the declaring file itself, and for exported symbols the files importing it
+ * according to the dependency graph. Go files also see every symbol of the
+ * other files in their package directory, exported or not.
+ */
+export function findReferences(project: DevStudioState, index: SymbolIndex, path: string, symbol: SymbolInfo): SymbolReferences {
+  const imports = importsByPath(project);
+  const declaring = index.files[path];
+  const canSee = (file: FileSymbols) => {
+    if (file.path === path) return true;
+    // A Go package's files see each other's identifiers, unexported ones included
+    if (declaring?.language === 'go' && file.language === 'go' && dirOf(file.path) === dirOf(path)) return true;
+    if (!symbol.exported) return false;
+    return !!imports.get(file.path)?.has(path);
+  };
+
+  const hits: ReferenceHit[] = [];
+  Object.values(index.files).forEach(file => {
+    if (!Object.prototype.hasOwnProperty.call(file.references, symbol.name) || !canSee(file)) return;
+    hits.push({ path: file.path, lines: file.references[symbol.name] });
+  });
+  // The declaring file first, then by number of uses
+  hits.sort((a, b) => Number(b.path === path) - Number(a.path === path) || b.lines.length - a.lines.length || a.path.localeCompare(b.path));
+  return { path, symbol, hits, total: hits.reduce((sum, hit) => sum + hit.lines.length, 0) };
+}
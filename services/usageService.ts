@@ -0,0 +1,345 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { AIUsageRecord, AIBudget } from '../types';
+import { PersistenceService } from './persistence';
+import { isAbortError, joinTextParts } from './aiProvider';
+import type { AIProvider, AIRequest, AIEmbedRequest, AIUsage, ModelTier } from './aiProvider';
+
+/**
+ * Every place in the app that calls a model. Used to attribute cost and to
+ * apply per-feature budget caps.
+ */
+export type AIFeature =
+  | 'repo-infographic'
+  | 'dependency-graph'
+  | 'dependency-audit'
+  | 'vectorize'
+  | 'repo-qa'
+  | 'node-chat'
+  | 'code-review'
+  | 'test-generation'
+  | 'documentation'
+  | 'gap-analysis'
+  | 'article-infographic'
+  | 'comparison-infographic'
+  | 'key-stats'
+  | 'task-suggestions'
+  | 'architecture-diff'
+  | 'image-edit'
+  | 'code-from-image'
+  | 'component-library'
+  | 'responsive-variants'
+  | 'dashboard-generator'
+  | 'omnigen-widget'
+  | 'omnigen-analysis'
+  | 'other';
+
+export const AI_FEATURE_LABELS: Record<AIFeature, string> = {
+  'repo-infographic': 'Repo Infographic',
+  'dependency-graph': 'Dependency Graph',
+  'dependency-audit': 'Dependency Audit',
+  'vectorize': 'SVG Vectorize',
+  'repo-qa': 'Repo Q&A',
+  'node-chat': 'Dev Studio Chat',
+  'code-review': 'Code Review',
+  'test-generation': 'Test Generation',
+  'documentation': 'Documentation',
+  'gap-analysis': 'Gap Analysis',
+  'article-infographic': 'Article Infographic',
+  'comparison-infographic': 'Comparison Infographic',
+  'key-stats': 'Key Stats',
+  'task-suggestions': 'Task Suggestions',
+  'architecture-diff': 'Architecture Diff',
+  'image-edit': 'Image Edit',
+  'code-from-image': 'Code From Image',
+  'component-library': 'Component Library',
+  'responsive-variants': 'Responsive Variants',
+  'dashboard-generator': 'Dashboard Generator',
+  'omnigen-widget': 'OmniGen Widget',
+  'omnigen-analysis': 'OmniGen Analysis',
+  'other': 'Other',
+};
+
+/**
+ * List prices in USD per million tokens. Image models bill generated images as
+ * output tokens. Figures are estimates and may lag provider price changes.
+ */
+const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  'gemini-3-pro-preview': { input: 2.0, output: 12.0 },
+  'gemini-3-flash-preview': { input: 0.5, output: 3.0 },
+  'gemini-3-pro-image-preview': { input: 2.0, output: 120.0 },
+  'gpt-4.1': { input: 2.0, output: 8.0 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-image-1': { input: 5.0, output: 40.0 },
+  'gemini-embedding-001': { input: 0.15, output: 0 },
+  'text-embedding-3-small': { input: 0.02, output: 0 },
+  'claude-sonnet-4-5': { input: 3.0, output: 15.0 },
+  'claude-haiku-4-5': { input: 1.0, output: 5.0 },
+};
+
+/** Rough characters-per-token ratio used when a provider reports no usage. */
+const CHARS_PER_TOKEN = 4;
+
+const BUDGET_PREFERENCE_KEY = 'ai_budget';
+
+/**
+ * Raised before a model call when the month-to-date spend has reached a
+ * configured cap.
+ */
+export class BudgetExceededError extends Error {
+  readonly feature: AIFeature;
+  readonly scope: 'total' | 'feature';
+  readonly limitUsd: number;
+  readonly spentUsd: number;
+
+  constructor(feature: AIFeature, scope: 'total' | 'feature', limitUsd: number, spentUsd: number) {
+    const target = scope === 'total' ? 'Monthly AI budget' : `Monthly budget for ${AI_FEATURE_LABELS[feature]}`;
+    super(`${target} of ${formatUsd(limitUsd)} reached (${formatUsd(spentUsd)} spent).`);
+    this.name = 'BudgetExceededError';
+    this.feature = feature;
+    this.scope = scope;
+    this.limitUsd = limitUsd;
+    this.spentUsd = spentUsd;
+  }
+}
+
+export const formatUsd = (value: number): string =>
+  value < 0.01 && value > 0 ? `$${value.toFixed(4)}` : `$${value.toFixed(2)}`;
+
+export const estimateCostUsd = (model: string, inputTokens: number, outputTokens: number): number => {
+  const pricing = MODEL_PRICING[model];
+  if (!pricing) return 0;
+  return (inputTokens * pricing.input + outputTokens * pricing.output) / 1_000_000;
+};
+
+const toLocalDay = (timestamp: number): string => {
+  const d = new Date(timestamp);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+export const startOfMonth = (timestamp: number = Date.now()): number => {
+  const d = new Date(timestamp);
+  return new Date(d.getFullYear(), d.getMonth(), 1).getTime();
+};
+
+// ==================== Budget ====================
+
+let budget: AIBudget | null = null;
+
+// Month-to-date spend, loaded from IndexedDB once per month and then kept in sync
+let monthSpend: { monthStart: number; total: number; byFeature: Record<string, number> } | null = null;
+
+export async function getBudget(): Promise<AIBudget> {
+  if (!budget) {
+    const stored = await PersistenceService.getUserPreference<AIBudget>(BUDGET_PREFERENCE_KEY).catch(() => null);
+    budget = { perFeatureUsd: {}, ...stored };
+  }
+  return budget;
+}
+
+export async function setBudget(next: AIBudget) {
+  budget = next;
+  await PersistenceService.saveUserPreference(BUDGET_PREFERENCE_KEY, next);
+}
+
+const loadMonthSpend = async () => {
+  const monthStart = startOfMonth();
+  if (monthSpend && monthSpend.monthStart === monthStart) return monthSpend;
+
+  const records = await PersistenceService.getUsageRecords(monthStart).catch(() => [] as AIUsageRecord[]);
+  const byFeature: Record<string, number> = {};
+  let total = 0;
+  records.forEach(r => {
+    total += r.costUsd;
+    byFeature[r.feature] = (byFeature[r.feature] || 0) + r.costUsd;
+  });
+  monthSpend = { monthStart, total, byFeature };
+  return monthSpend;
+};
+
+/**
+ * Throws BudgetExceededError if either the overall or the feature cap for the
+ * current month has been reached.
+ */
+export async function assertWithinBudget(feature: AIFeature) {
+  const [limits, spend] = await Promise.all([getBudget(), loadMonthSpend()]);
+
+  if (limits.monthlyTotalUsd !== undefined && spend.total >= limits.monthlyTotalUsd) {
+    throw new BudgetExceededError(feature, 'total', limits.monthlyTotalUsd, spend.total);
+  }
+  const featureLimit = limits.perFeatureUsd[feature];
+  const featureSpend = spend.byFeature[feature] || 0;
+  if (featureLimit !== undefined && featureSpend >= featureLimit) {
+    throw new BudgetExceededError(feature, 'feature', featureLimit, featureSpend);
+  }
+}
+
+// ==================== Recording ====================
+
+const recordUsage = async (record: AIUsageRecord) => {
+  const spend = await loadMonthSpend();
+  if (record.timestamp >= spend.monthStart) {
+    spend.total += record.costUsd;
+    spend.byFeature[record.feature] = (spend.byFeature[record.feature] || 0) + record.costUsd;
+  }
+  await PersistenceService.addUsageRecord(record);
+};
+
+export async function getUsageRecords(since: number = 0): Promise<AIUsageRecord[]> {
+  return PersistenceService.getUsageRecords(since);
+}
+
+export async function clearUsageRecords() {
+  monthSpend = null;
+  await PersistenceService.clearUsageRecords();
+}
+
+/**
+ * Wraps a provider so every call is checked against the budget first and
+ * recorded afterwards with token counts, latency and estimated cost. Failed
+ * and aborted calls are recorded too since they may still be billed.
+ */
+export function withUsageMetering(inner: AIProvider, feature: AIFeature): AIProvider {
+  // Unreported usage is estimated, and priced as the model the call was sent to
+  const record = (method: AIUsageRecord['method'], tier: ModelTier | undefined, usage: AIUsage, reported: boolean, started: number, status: AIUsageRecord['status']) => {
+    const timestamp = Date.now();
+    const model = usage.model || inner.modelFor(method, tier);
+    recordUsage({
+      id: `${timestamp}-${Math.random().toString(36).slice(2, 8)}`,
+      timestamp,
+      day: toLocalDay(timestamp),
+      feature,
+      provider: inner.id,
+      model,
+      method,
+      inputTokens: usage.inputTokens,
+      outputTokens: usage.outputTokens,
+      latencyMs: Math.round(performance.now() - started),
+      costUsd: estimateCostUsd(model, usage.inputTokens, usage.outputTokens),
+      status,
+      estimated: !reported || undefined,
+    }).catch(err => console.warn('Failed to record AI usage', err));
+  };
+
+  const run = async <R extends AIRequest, T>(
+    method: AIUsageRecord['method'],
+    request: R,
+    call: (req: R) => Promise<T>,
+    outputText: (result: T) => string
+  ): Promise<T> => {
+    await assertWithinBudget(feature);
+
+    const usage: AIUsage = { model: '', inputTokens: 0, outputTokens: 0 };
+    let reported = false;
+    let streamed = '';
+    const metered: R = {
+      ...request,
+      onUsage: (u) => {
+        reported = true;
+        usage.model = u.model;
+        usage.inputTokens += u.inputTokens;
+        usage.outputTokens += u.outputTokens;
+        request.onUsage?.(u);
+      },
+      onDelta: request.onDelta && ((delta, text) => {
+        streamed = text;
+        request.onDelta?.(delta, text);
+      }),
+    };
+
+    const started = performance.now();
+    let status: AIUsageRecord['status'] = 'success';
+    let output = '';
+    try {
+      const result = await call(metered);
+      output = outputText(result);
+      return result;
+    } catch (e) {
+      status = isAbortError(e) ? 'aborted' : 'error';
+      output = streamed;
+      throw e;
+    } finally {
+      if (!reported) {
+        usage.inputTokens = Math.ceil(joinTextParts(request.parts).length / CHARS_PER_TOKEN);
+        usage.outputTokens = Math.ceil(output.length / CHARS_PER_TOKEN);
+      }
+      record(method, request.tier, usage, reported, started, status);
+    }
+  };
+
+  const embed = async (request: AIEmbedRequest): Promise<number[][]> => {
+    await assertWithinBudget(feature);
+    const usage: AIUsage = { model: '', inputTokens: 0, outputTokens: 0 };
+    let reported = false;
+    const started = performance.now();
+    let status: AIUsageRecord['status'] = 'success';
+    try {
+      return await inner.embedTexts!({
+        ...request,
+        onUsage: (u) => {
+          reported = true;
+          usage.model = u.model;
+          usage.inputTokens += u.inputTokens;
+          request.onUsage?.(u);
+        },
+      });
+    } catch (e) {
+      status = isAbortError(e) ? 'aborted' : 'error';
+      throw e;
+    } finally {
+      if (!reported) usage.inputTokens = Math.ceil(request.texts.join('').length / CHARS_PER_TOKEN);
+      record('embed', undefined, usage, reported, started, status);
+    }
+  };
+
+  return {
+    id: inner.id,
+    label: inner.label,
+    modelFor: (method, tier) => inner.modelFor(method, tier),
+    generateText: (req) => run('text', req, r => inner.generateText(r), text => text),
+    generateJson: (req) => run('json', req, r => inner.generateJson(r), text => text),
+    generateImage: (req) => run('image', req, r => inner.generateImage(r), () => ''),
+    generateWithSearch: (req) => run('search', req, r => inner.generateWithSearch(r), result => result.text),
+    embedTexts: inner.embedTexts && embed,
+  };
+}
+
+// ==================== Reporting ====================
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  latencyMs: number;
+}
+
+const emptyTotals = (): UsageTotals => ({ calls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0, latencyMs: 0 });
+
+const addTo = (totals: UsageTotals, r: AIUsageRecord) => {
+  totals.calls += 1;
+  totals.inputTokens += r.inputTokens;
+  totals.outputTokens += r.outputTokens;
+  totals.costUsd += r.costUsd;
+  totals.latencyMs += r.latencyMs;
+};
+
+/**
+ * Groups usage records into overall, per-feature and per-day totals.
+ */
+export function summarizeUsage(records: AIUsageRecord[]) {
+  const total = emptyTotals();
+  const byFeature: Record<string, UsageTotals> = {};
+  const byDay: Record<string, UsageTotals> = {};
+
+  records.forEach(r => {
+    addTo(total, r);
+    addTo(byFeature[r.feature] ||= emptyTotals(), r);
+    addTo(byDay[r.day] ||= emptyTotals(), r);
+  });
+
+  return { total, byFeature, byDay };
+}
@@ -17,6 +17,11 @@ export enum ViewMode {
   DEV_STUDIO = 'DEV_STUDIO'
 }
 
+/**
+ * Change status of a node or link in an architecture diff.
+ */
+export type DiffStatus = 'added' | 'removed' | 'moved' | 'unchanged';
+
 /**
  * Extended D3 Node interface supporting clustering.
  */
@@ -27,12 +32,18 @@ export interface D3Node extends SimulationNodeDatum {
   group: number;
   /** Display label for the node. */
   label: string;
-  /** Distinguishes between a standard file node and a cluster node representing a directory. */
-  type?: 'file' | 'cluster'; 
+  /** Distinguishes between a standard file node, a cluster node representing a directory and an external package imported by the code. */
+  type?: 'file' | 'cluster' | 'external';
+  /** Repository path of a file node. */
+  path?: string;
   /** Number of files contained within a cluster (only for type='cluster'). */
   fileCount?: number;        
   /** Original nodes inside this cluster (only for type='cluster'). */
   childNodes?: D3Node[];     
+  /** How the node changed between two refs (only in architecture diff graphs). */
+  diff?: DiffStatus;
+  /** Path before a move (only for diff='moved'). */
+  previousPath?: string;
   x?: number;
   y?: number;
   fx?: number | null;
@@ -47,6 +58,8 @@ export interface D3Link extends SimulationLinkDatum<D3Node> {
   target: string | D3Node;
   /** Strength or weight of the link. */
   value: number;
+  /** How the link changed between two refs (only in architecture diff graphs). */
+  diff?: DiffStatus;
 }
 
 /**
@@ -55,6 +68,8 @@ export interface D3Link extends SimulationLinkDatum<D3Node> {
 export interface DataFlowGraph {
   nodes: D3Node[];
   links: D3Link[];
+  /** True when links point from importer to imported, so edges are drawn with arrowheads. */
+  directed?: boolean;
 }
 
 /**
@@ -79,6 +94,9 @@ export interface DependencyInfo {
   };
 }
 
+/** Git hosting services a repository can be read from. */
+export type RepoHost = 'github' | 'gitlab' | 'bitbucket' | 'gitea';
+
 /**
  * State object for the DevStudio environment.
  */
@@ -86,6 +104,13 @@ export interface DevStudioState {
   repoName: string;
   fileTree: RepoFileTree[];
   graphData: DataFlowGraph;
+  /** Host the repository was read from. Missing means GitHub. */
+  host?: RepoHost;
+  owner?: string;
+  /** Branch, tag or commit SHA the file tree was read at. */
+  ref?: string;
+  /** Subdirectory the analysis was scoped to, if any. */
+  subdir?: string;
 }
 
 /**
@@ -106,6 +131,14 @@ export interface RepoHistoryItem {
   is3D: boolean;
   style: string;
   date: Date;
+  /** Prompt template version(s) used to generate the image, e.g. `repo-infographic@1`. */
+  promptVersion?: string;
+  /** Host the repository was read from. Missing means GitHub. */
+  host?: RepoHost;
+  owner?: string;
+  /** Branch, tag or commit SHA the image was generated from. */
+  ref?: string;
+  subdir?: string;
 }
 
 /**
@@ -118,6 +151,8 @@ export interface ArticleHistoryItem {
     imageData: string;
     citations: Citation[];
     date: Date;
+    /** Prompt template version(s) used to generate the image. */
+    promptVersion?: string;
 }
 
 /**
@@ -132,6 +167,102 @@ export interface Task {
   createdAt: number;
 }
 
+/**
+ * A recorded AI response replayed by the offline fixture provider.
+ */
+export interface AIFixture {
+  /** Deterministic key derived from the request method, tier and inputs. */
+  key: string;
+  method: 'text' | 'json' | 'image' | 'search';
+  text?: string;
+  imageData?: string | null;
+  citations?: Citation[];
+  recordedAt: number;
+}
+
+/**
+ * A cached AI response. Keyed by a hash of provider, model tier, prompt
+ * version and inputs so identical requests are answered without a model call.
+ */
+export interface AICacheEntry {
+  key: string;
+  method: 'text' | 'json' | 'image' | 'search';
+  text?: string;
+  imageData?: string | null;
+  citations?: Citation[];
+  /** Model and token counts of the original call, used to report savings. */
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  /** Approximate payload size used for LRU eviction. */
+  bytes: number;
+  createdAt: number;
+  expiresAt: number;
+  lastAccessed: number;
+  hits: number;
+}
+
+/** What cache eviction needs of an entry, without its payload. */
+export type AICacheMeta = Pick<AICacheEntry, 'key' | 'bytes' | 'lastAccessed' | 'expiresAt'>;
+
+/**
+ * One metered AI call, stored for the usage dashboard and budget checks.
+ */
+export interface AIUsageRecord {
+  id: string;
+  timestamp: number;
+  /** Local calendar day (YYYY-MM-DD) used for per-day grouping. */
+  day: string;
+  /** Feature that issued the call, e.g. 'code-review'. */
+  feature: string;
+  provider: string;
+  model: string;
+  method: 'text' | 'json' | 'image' | 'search' | 'embed';
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number;
+  /** Estimated cost in USD based on published list prices. */
+  costUsd: number;
+  status: 'success' | 'error' | 'aborted';
+  /** True when the provider reported no usage and token counts were approximated. */
+  estimated?: boolean;
+}
+
+/**
+ * Monthly spending limits in USD. Missing values mean no limit.
+ */
+export interface AIBudget {
+  monthlyTotalUsd?: number;
+  perFeatureUsd: Record<string, number>;
+}
+
+/**
+ * One message of a Dev Studio chat thread.
+ */
+export interface ChatThreadMessage {
+  id: string;
+  role: 'user' | 'model';
+  text: string;
+  timestamp: number;
+  /** Pinned answers are listed across threads for quick reference. */
+  pinned?: boolean;
+}
+
+/**
+ * The conversation about one graph node, stored per project.
+ */
+export interface ChatThread {
+  /** `projectKey` and `nodeKey` joined by a NUL character. */
+  id: string;
+  projectKey: string;
+  /** Path of the node's file or folder, another stable node id, or '' for the whole architecture. */
+  nodeKey: string;
+  title: string;
+  messages: ChatThreadMessage[];
+  createdAt: number;
+  updatedAt: number;
+}
+
 // ==================== OmniGen Types ====================
 
 /**
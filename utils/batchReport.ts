@@ -0,0 +1,126 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { CodeReviewIssue, GapAnalysisResult, DocumentationResult } from '../services/aiSchemas';
+import type { BatchJob, BatchTool } from '../services/batchReviewService';
+
+export type IssueSeverity = CodeReviewIssue['severity'];
+export type GapEntry = GapAnalysisResult['gaps'][number];
+
+export const SEVERITY_ORDER: IssueSeverity[] = ['critical', 'warning', 'info', 'suggestion'];
+
+const GAP_SEVERITY_ORDER: GapEntry['severity'][] = ['high', 'medium', 'low'];
+
+/** A review issue together with the file it was raised on. */
+export interface ReportIssue extends CodeReviewIssue {
+  path: string;
+}
+
+export interface ReportGap extends GapEntry {
+  path: string;
+}
+
+export interface FileReviewSummary {
+  path: string;
+  score: number;
+  summary: string;
+  issueCount: number;
+}
+
+export interface BatchReport {
+  issues: ReportIssue[];
+  gaps: ReportGap[];
+  reviews: FileReviewSummary[];
+  docs: { path: string; docs: DocumentationResult }[];
+  failures: { path: string; tool: BatchTool; error: string }[];
+  severityCounts: Record<IssueSeverity, number>;
+  /** Mean review score over the reviewed files, null when none were reviewed. */
+  averageScore: number | null;
+  /** Finished items out of all items of the job. */
+  done: number;
+  total: number;
+}
+
+export type IssueGrouping = 'severity' | 'file' | 'category';
+
+export interface IssueGroup {
+  key: string;
+  issues: ReportIssue[];
+}
+
+const severityRank = (severity: IssueSeverity) => {
+  const rank = SEVERITY_ORDER.indexOf(severity);
+  return rank === -1 ? SEVERITY_ORDER.length : rank;
+};
+
+/** Collects every finished item of a job into one report. */
+export function buildBatchReport(job: BatchJob): BatchReport {
+  const issues: ReportIssue[] = [];
+  const gaps: ReportGap[] = [];
+  const reviews: FileReviewSummary[] = [];
+  const docs: BatchReport['docs'] = [];
+  const failures: BatchReport['failures'] = [];
+  const severityCounts = Object.fromEntries(SEVERITY_ORDER.map(s => [s, 0])) as Record<IssueSeverity, number>;
+  let done = 0;
+
+  Object.values(job.results).forEach(result => {
+    if (result.status === 'failed') {
+      failures.push({ path: result.path, tool: result.tool, error: result.error || 'Unknown error' });
+      return;
+    }
+    done++;
+    if (result.review) {
+      result.review.issues.forEach(issue => {
+        issues.push({ ...issue, path: result.path });
+        severityCounts[issue.severity] = (severityCounts[issue.severity] || 0) + 1;
+      });
+      reviews.push({
+        path: result.path,
+        score: result.review.overallScore,
+        summary: result.review.summary,
+        issueCount: result.review.issues.length,
+      });
+    }
+    if (result.gaps) result.gaps.gaps.forEach(gap => gaps.push({ ...gap, path: result.path }));
+    if (result.docs) docs.push({ path: result.path, docs: result.docs });
+  });
+
+  issues.sort((a, b) => severityRank(a.severity) - severityRank(b.severity) || a.path.localeCompare(b.path) || (a.line ?? 0) - (b.line ?? 0));
+  gaps.sort((a, b) => GAP_SEVERITY_ORDER.indexOf(a.severity) - GAP_SEVERITY_ORDER.indexOf(b.severity) || a.path.localeCompare(b.path));
+  reviews.sort((a, b) => a.score - b.score || a.path.localeCompare(b.path));
+  docs.sort((a, b) => a.path.localeCompare(b.path));
+
+  return {
+    issues,
+    gaps,
+    reviews,
+    docs,
+    failures,
+    severityCounts,
+    averageScore: reviews.length > 0 ? Math.round(reviews.reduce((sum, r) => sum + r.score, 0) / reviews.length) : null,
+    done,
+    total: job.files.length * job.tools.length,
+  };
+}
+
+/**
+ * Groups issues by severity (most severe first), file or category. Files and
+ * categories are ordered by their worst issue, then by issue count.
+ */
+export function groupIssues(issues: ReportIssue[], by: IssueGrouping): IssueGroup[] {
+  const groups = new Map<string, ReportIssue[]>();
+  const keyOf = (issue: ReportIssue) => (by === 'severity' ? issue.severity : by === 'file' ? issue.path : issue.category || 'uncategorized');
+  issues.forEach(issue => {
+    const key = keyOf(issue);
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(issue);
+  });
+
+  const worst = (list: ReportIssue[]) => Math.min(...list.map(issue => severityRank(issue.severity)));
+  return Array.from(groups, ([key, list]) => ({ key, issues: list })).sort((a, b) => {
+    if (by === 'severity') return severityRank(a.key as IssueSeverity) - severityRank(b.key as IssueSeverity);
+    return worst(a.issues) - worst(b.issues) || b.issues.length - a.issues.length || a.key.localeCompare(b.key);
+  });
+}
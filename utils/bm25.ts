@@ -0,0 +1,92 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/** Term frequency saturation. */
+const K1 = 1.2;
+/** Document length normalization. */
+const B = 0.75;
+
+/** Words too common in questions and code to tell chunks apart. */
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'do', 'does', 'for', 'from', 'how', 'if', 'in', 'is', 'it',
+  'of', 'on', 'or', 'the', 'this', 'that', 'to', 'what', 'when', 'where', 'which', 'who', 'why', 'with',
+  'const', 'let', 'var', 'return', 'import', 'export',
+]);
+
+/**
+ * A BM25 index over a list of documents, kept as plain arrays and objects so
+ * it can be stored in IndexedDB as is.
+ */
+export interface Bm25Index {
+  /** Token count of each document. */
+  lengths: number[];
+  averageLength: number;
+  /** Per term, flat pairs of document index and term frequency. */
+  postings: Record<string, number[]>;
+}
+
+export interface Bm25Hit {
+  doc: number;
+  score: number;
+}
+
+/**
+ * Lowercase search terms of a text. Identifiers count both whole and split at
+ * camelCase and snake_case boundaries, so `loadFileContent` also matches a
+ * question about "file content".
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  for (const [word] of text.matchAll(/[A-Za-z_$][\w$]*|\d+/g)) {
+    const parts = word
+      .replace(/([a-z\d])([A-Z])/g, '$1 $2')
+      .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+      .split(/[\s_$]+/)
+      .map(part => part.toLowerCase())
+      .filter(part => part.length > 1 && !STOP_WORDS.has(part));
+    const whole = word.toLowerCase().replace(/^[_$]+|[_$]+$/g, '');
+    if (parts.length > 1 && whole.length > 1) tokens.push(whole);
+    tokens.push(...parts);
+  }
+  return tokens;
+}
+
+export function buildBm25Index(documents: string[]): Bm25Index {
+  const lengths: number[] = [];
+  const postings: Record<string, number[]> = Object.create(null);
+  documents.forEach((text, doc) => {
+    const counts = new Map<string, number>();
+    const tokens = tokenize(text);
+    tokens.forEach(token => counts.set(token, (counts.get(token) || 0) + 1));
+    lengths.push(tokens.length);
+    counts.forEach((count, term) => {
+      (postings[term] ||= []).push(doc, count);
+    });
+  });
+  const total = lengths.reduce((sum, length) => sum + length, 0);
+  return { lengths, averageLength: lengths.length > 0 ? total / lengths.length : 0, postings: { ...postings } };
+}
+
+/** Documents matching any term of `query`, best first. */
+export function searchBm25(index: Bm25Index, query: string, limit: number = 20): Bm25Hit[] {
+  const docCount = index.lengths.length;
+  if (docCount === 0) return [];
+  const scores = new Map<number, number>();
+  new Set(tokenize(query)).forEach(term => {
+    const posting = Object.prototype.hasOwnProperty.call(index.postings, term) ? index.postings[term] : undefined;
+    if (!posting) return;
+    const docFrequency = posting.length / 2;
+    const idf = Math.log(1 + (docCount - docFrequency + 0.5) / (docFrequency + 0.5));
+    for (let i = 0; i < posting.length; i += 2) {
+      const doc = posting[i];
+      const tf = posting[i + 1];
+      const norm = tf + K1 * (1 - B + B * (index.lengths[doc] / (index.averageLength || 1)));
+      scores.set(doc, (scores.get(doc) || 0) + idf * ((tf * (K1 + 1)) / norm));
+    }
+  });
+  return Array.from(scores, ([doc, score]) => ({ doc, score }))
+    .sort((a, b) => b.score - a.score || a.doc - b.doc)
+    .slice(0, limit);
+}
@@ -0,0 +1,82 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ChatThread, ChatThreadMessage, D3Node } from '../types';
+
+/** Characters of context shown on each side of a search hit. */
+const SNIPPET_RADIUS = 60;
+
+export interface ThreadSearchHit {
+  thread: ChatThread;
+  message: ChatThreadMessage;
+  snippet: string;
+}
+
+/**
+ * Key of the thread about `node`: its path when it has one, so threads
+ * survive graph rebuilds that renumber nodes, and '' for no node.
+ */
+export function threadNodeKey(node: D3Node | null): string {
+  if (!node) return '';
+  if (node.type === 'external') return `package:${node.label}`;
+  return node.path || node.id;
+}
+
+export const threadId = (projectKey: string, nodeKey: string) => `${projectKey}\u0000${nodeKey}`;
+
+export function createThread(projectKey: string, node: D3Node | null): ChatThread {
+  const nodeKey = threadNodeKey(node);
+  const now = Date.now();
+  return {
+    id: threadId(projectKey, nodeKey),
+    projectKey,
+    nodeKey,
+    title: node ? node.path || node.label : 'Overall architecture',
+    messages: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/** Messages matching every word of `query`, newest thread first. */
+export function searchThreads(threads: ChatThread[], query: string, limit: number = 50): ThreadSearchHit[] {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return [];
+  const hits: ThreadSearchHit[] = [];
+  [...threads].sort((a, b) => b.updatedAt - a.updatedAt).forEach(thread => {
+    thread.messages.forEach(message => {
+      if (hits.length >= limit) return;
+      const text = message.text.toLowerCase();
+      // Terms may match the thread's title, but at least one must be in the message
+      const title = thread.title.toLowerCase();
+      if (!terms.every(term => text.includes(term) || title.includes(term)) || !terms.some(term => text.includes(term))) return;
+      const at = terms.map(term => text.indexOf(term)).find(i => i >= 0) ?? 0;
+      const start = Math.max(0, at - SNIPPET_RADIUS);
+      const end = Math.min(message.text.length, at + SNIPPET_RADIUS * 2);
+      const snippet = `${start > 0 ? '…' : ''}${message.text.slice(start, end).replace(/\s+/g, ' ')}${end < message.text.length ? '…' : ''}`;
+      hits.push({ thread, message, snippet });
+    });
+  });
+  return hits;
+}
+
+/** Pinned answers of all threads, most recent first. */
+export function pinnedMessages(threads: ChatThread[]): { thread: ChatThread; message: ChatThreadMessage }[] {
+  return threads
+    .flatMap(thread => thread.messages.filter(message => message.pinned).map(message => ({ thread, message })))
+    .sort((a, b) => b.message.timestamp - a.message.timestamp);
+}
+
+/** A thread as Markdown, one section per message, pinned answers marked. */
+export function threadToMarkdown(thread: ChatThread, projectName?: string): string {
+  const lines = [`# ${thread.title}`, ''];
+  if (projectName) lines.push(`Project: ${projectName}`, '');
+  lines.push(`Exported ${new Date().toISOString()}`, '');
+  thread.messages.forEach(message => {
+    const who = message.role === 'user' ? 'You' : 'Assistant';
+    lines.push(`## ${who}${message.pinned ? ' (pinned)' : ''} · ${new Date(message.timestamp).toLocaleString()}`, '', message.text.trim(), '');
+  });
+  return lines.join('\n');
+}
@@ -0,0 +1,199 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/** A span of a file indexed and retrieved as one unit. Lines are 1-based and inclusive. */
+export interface CodeChunk {
+  id: string;
+  path: string;
+  startLine: number;
+  endLine: number;
+  /** Declarations the chunk covers, e.g. "createThread" or "PersistenceService.saveTask". */
+  symbol?: string;
+  text: string;
+}
+
+/** Longest chunk; longer declarations are split at their members, then into windows. */
+export const MAX_CHUNK_LINES = 80;
+/** Declarations shorter than this are grouped with their neighbours. */
+const MIN_CHUNK_LINES = 6;
+
+interface SymbolPatterns {
+  /** Start of a top-level declaration; group 1 is its name. */
+  top: RegExp;
+  /**
+   * Start of a member inside a declaration, used to split long ones. Only
+   * lines at the declaration's first indentation level are tested.
+   */
+  member?: RegExp;
+  /** Lines belonging to the declaration below them: comments, decorators. */
+  leading?: RegExp;
+}
+
+const JS_PATTERNS: SymbolPatterns = {
+  top: /^(?:export\s+)?(?:default\s+)?(?:declare\s+)?(?:async\s+)?(?:abstract\s+)?(?:function\*?|class|interface|type|enum|const|let|var)\s+([A-Za-z_$][\w$]*)/,
+  member: /^\s+(?!(?:if|for|while|switch|catch|return|else|do|try|new|await)\b)(?:(?:public|private|protected|static|readonly|async|get|set|const|let)\s+)*\*?([A-Za-z_$][\w$]*)\s*(?:<[^>]*>)?(?:\([^)]*\)\s*(?::[^={]*)?\{\s*$|\(\s*$|[:=]\s*(?:async\s*)?(?:\([^)]*\)|[A-Za-z_$][\w$]*)\s*(?::[^=]*)?=>|:\s*(?:async\s+)?function\b)/,
+  leading: /^\s*(?:\/\/|\/\*|\*|@)/,
+};
+
+const PATTERNS: Record<string, SymbolPatterns> = {
+  ts: JS_PATTERNS,
+  tsx: JS_PATTERNS,
+  js: JS_PATTERNS,
+  jsx: JS_PATTERNS,
+  mjs: JS_PATTERNS,
+  cjs: JS_PATTERNS,
+  py: {
+    top: /^(?:async\s+)?(?:def|class)\s+([A-Za-z_]\w*)/,
+    member: /^\s+(?:async\s+)?def\s+([A-Za-z_]\w*)/,
+    leading: /^\s*(?:#|@)/,
+  },
+  go: {
+    top: /^(?:func\s+(?:\([^)]*\)\s*)?|type\s+|var\s+|const\s+)([A-Za-z_]\w*)/,
+    leading: /^\s*\/\//,
+  },
+  rs: {
+    top: /^(?:pub(?:\([^)]*\))?\s+)?(?:async\s+)?(?:unsafe\s+)?(?:fn|struct|enum|trait|impl(?:<[^>]*>)?|mod|type|const|static)\s+([A-Za-z_]\w*)/,
+    member: /^\s+(?:pub(?:\([^)]*\))?\s+)?(?:async\s+)?fn\s+([A-Za-z_]\w*)/,
+    leading: /^\s*(?:\/\/|#\[)/,
+  },
+  md: {
+    top: /^#{1,3}\s+(.+?)\s*#*\s*$/,
+  },
+};
+
+const extensionOf = (path: string) => {
+  const name = path.slice(path.lastIndexOf('/') + 1);
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? name.slice(dot + 1).toLowerCase() : '';
+};
+
+interface Section {
+  start: number;
+  end: number;
+  symbols: string[];
+}
+
+/**
+ * Index of the first line of the declaration starting at `line`, moved up over
+ * the comments and decorators directly above it.
+ */
+function withLeading(lines: string[], line: number, leading: RegExp | undefined, floor: number): number {
+  let start = line;
+  while (leading && start - 1 > floor && leading.test(lines[start - 1])) start--;
+  return start;
+}
+
+/**
+ * Splits `lines[from, to)` at declaration starts matching `pattern`. With
+ * `indent`, only lines indented by exactly that much are considered.
+ */
+function splitAt(lines: string[], from: number, to: number, pattern: RegExp, leading?: RegExp, indent?: string): Section[] {
+  const sections: Section[] = [];
+  let current: Section = { start: from, end: to, symbols: [] };
+  for (let i = from; i < to; i++) {
+    if (indent !== undefined && !(lines[i].startsWith(indent) && /\S/.test(lines[i][indent.length] || ''))) continue;
+    const match = lines[i].match(pattern);
+    if (!match) continue;
+    const start = withLeading(lines, i, leading, current.start);
+    if (start > current.start) {
+      current.end = start;
+      sections.push(current);
+      current = { start, end: to, symbols: [] };
+    }
+    current.symbols.push(match[1]);
+  }
+  current.end = to;
+  sections.push(current);
+  return sections;
+}
+
+const isBlank = (lines: string[], section: Section) =>
+  lines.slice(section.start, section.end).every(line => !line.trim());
+
+/** Joins runs of short sections so one-line constants don't each become a chunk. */
+function mergeShort(sections: Section[]): Section[] {
+  const merged: Section[] = [];
+  sections.forEach(section => {
+    const last = merged[merged.length - 1];
+    const length = section.end - section.start;
+    if (last && (last.end - last.start < MIN_CHUNK_LINES || length < MIN_CHUNK_LINES) && section.end - last.start <= MAX_CHUNK_LINES) {
+      last.end = section.end;
+      last.symbols.push(...section.symbols);
+    } else {
+      merged.push({ ...section, symbols: [...section.symbols] });
+    }
+  });
+  return merged;
+}
+
+/**
+ * Leading whitespace of the first indented line of a section, comments
+ * aside: the indentation of its members.
+ */
+function memberIndent(lines: string[], section: Section, leading?: RegExp): string | undefined {
+  for (let i = section.start + 1; i < section.end; i++) {
+    if (leading?.test(lines[i])) continue;
+    const indent = lines[i].match(/^(\s+)\S/)?.[1];
+    if (indent) return indent;
+  }
+  return undefined;
+}
+
+/** Fixed windows over a section, for text without usable declaration boundaries. */
+function windows(section: Section): Section[] {
+  const result: Section[] = [];
+  for (let start = section.start; start < section.end; start += MAX_CHUNK_LINES) {
+    result.push({ start, end: Math.min(section.end, start + MAX_CHUNK_LINES), symbols: section.symbols });
+  }
+  return result;
+}
+
+/**
+ * Splits a file into chunks along its declarations: top-level functions,
+ * classes, types and constants, each with the comments above it. Imports and
+ * other code before the first declaration form their own chunk. Declarations
+ * longer than MAX_CHUNK_LINES are split at their methods where the language
+ * has a member pattern, and into fixed windows otherwise. Files in languages
+ * without patterns are cut into windows only.
+ */
+export function chunkFile(path: string, content: string): CodeChunk[] {
+  const lines = content.replace(/\r\n?/g, '\n').split('\n');
+  const patterns = PATTERNS[extensionOf(path)];
+  const whole: Section = { start: 0, end: lines.length, symbols: [] };
+
+  let sections = patterns ? mergeShort(splitAt(lines, 0, lines.length, patterns.top, patterns.leading)) : [whole];
+  sections = sections.flatMap(section => {
+    if (section.end - section.start <= MAX_CHUNK_LINES) return [section];
+    const indent = memberIndent(lines, section, patterns?.leading);
+    if (patterns?.member && section.symbols.length === 1 && indent) {
+      const owner = section.symbols[0];
+      const parts = mergeShort(splitAt(lines, section.start, section.end, patterns.member, patterns.leading, indent))
+        .map((part, i) => {
+          const members = part.symbols.map(name => `${owner}.${name}`);
+          return { ...part, symbols: i === 0 ? [owner, ...members] : members };
+        });
+      if (parts.length > 1) return parts.flatMap(part => (part.end - part.start > MAX_CHUNK_LINES ? windows(part) : [part]));
+    }
+    return windows(section);
+  });
+
+  return sections
+    .filter(section => !isBlank(lines, section))
+    .map(section => {
+      // Blank lines at either end carry no content and would skew citations
+      let { start, end } = section;
+      while (start < end && !lines[start].trim()) start++;
+      while (end > start && !lines[end - 1].trim()) end--;
+      const symbol = Array.from(new Set(section.symbols)).join(', ') || undefined;
+      return {
+        id: `${path}:${start + 1}`,
+        path,
+        startLine: start + 1,
+        endLine: end,
+        symbol,
+        text: lines.slice(start, end).join('\n'),
+      };
+    });
+}
@@ -0,0 +1,67 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/** A `[path:line]` or `[path:start-end]` reference in an answer, resolved to a repository file. */
+export interface CodeCitation {
+  path: string;
+  line: number;
+  endLine?: number;
+}
+
+export type CitationSegment = { text: string } | { citation: CodeCitation; text: string };
+
+const CITATION_PATTERN = /\[`?([^\[\]\s`:]+):(\d+)(?:\s*[-–]\s*(\d+))?`?\]/g;
+
+/**
+ * Repository path a cited path stands for: itself when known, else the only
+ * known path ending with it, so "api.ts" still resolves to "src/api.ts".
+ */
+function resolvePath(cited: string, paths: string[]): string | null {
+  const clean = cited.replace(/^\.?\//, '');
+  if (paths.includes(clean)) return clean;
+  const matches = paths.filter(path => path.endsWith(`/${clean}`));
+  return matches.length === 1 ? matches[0] : null;
+}
+
+/**
+ * Splits an answer into plain text and citations of files in `paths`.
+ * References to unknown files stay plain text.
+ */
+export function segmentCitations(text: string, paths: string[]): CitationSegment[] {
+  const segments: CitationSegment[] = [];
+  let last = 0;
+  for (const match of text.matchAll(CITATION_PATTERN)) {
+    const path = resolvePath(match[1], paths);
+    const line = Number(match[2]);
+    if (!path || line < 1) continue;
+    if (match.index! > last) segments.push({ text: text.slice(last, match.index) });
+    const endLine = match[3] ? Number(match[3]) : undefined;
+    segments.push({
+      citation: endLine && endLine > line ? { path, line, endLine } : { path, line },
+      text: match[0],
+    });
+    last = match.index! + match[0].length;
+  }
+  if (last < text.length) segments.push({ text: text.slice(last) });
+  return segments;
+}
+
+/** Distinct citations of an answer in order of first mention. */
+export function parseCitations(text: string, paths: string[]): CodeCitation[] {
+  const seen = new Set<string>();
+  const citations: CodeCitation[] = [];
+  segmentCitations(text, paths).forEach(segment => {
+    if (!('citation' in segment)) return;
+    const { path, line, endLine } = segment.citation;
+    const key = `${path}:${line}-${endLine ?? line}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    citations.push(segment.citation);
+  });
+  return citations;
+}
+
+export const formatCitation = (citation: CodeCitation) =>
+  `${citation.path}:${citation.line}${citation.endLine ? `-${citation.endLine}` : ''}`;
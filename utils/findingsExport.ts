@@ -0,0 +1,244 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { CodeReviewIssue, CodeReviewResult, GapAnalysisResult } from '../services/aiSchemas';
+import type { BatchJob } from '../services/batchReviewService';
+import { SEVERITY_ORDER } from './batchReport';
+
+export type FindingsExportFormat = 'sarif' | 'markdown' | 'csv';
+
+export const FINDINGS_EXPORT_FORMATS: Record<FindingsExportFormat, { label: string; extension: string; mimeType: string }> = {
+  sarif: { label: 'SARIF 2.1.0', extension: 'sarif', mimeType: 'application/sarif+json' },
+  markdown: { label: 'Markdown', extension: 'md', mimeType: 'text/markdown' },
+  csv: { label: 'CSV', extension: 'csv', mimeType: 'text/csv' },
+};
+
+/** Review and gap analysis results of one or more files. */
+export interface Findings {
+  /** Report title, usually the repository name. */
+  name: string;
+  /** Git ref the files were read at, when known. */
+  ref?: string;
+  reviews: { path: string; result: CodeReviewResult }[];
+  gaps: { path: string; result: GapAnalysisResult }[];
+}
+
+type GapEntry = GapAnalysisResult['gaps'][number];
+
+const TOOL_NAME = 'Flash-n-Frame';
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+
+/** Collects the finished review and gap analysis items of a batch job. */
+export function findingsFromBatchJob(job: BatchJob, name: string, ref?: string): Findings {
+  const findings: Findings = { name, ref, reviews: [], gaps: [] };
+  Object.values(job.results).forEach(result => {
+    if (result.review) findings.reviews.push({ path: result.path, result: result.review });
+    if (result.gaps) findings.gaps.push({ path: result.path, result: result.gaps });
+  });
+  findings.reviews.sort((a, b) => a.path.localeCompare(b.path));
+  findings.gaps.sort((a, b) => a.path.localeCompare(b.path));
+  return findings;
+}
+
+/**
+ * Line numbers in a gap's free-form location, e.g. "line 42", "L10-20" or
+ * "src/api.ts:12". Null when it names no line.
+ */
+export function parseLocationLines(location?: string): { startLine: number; endLine?: number } | null {
+  if (!location) return null;
+  const match = location.match(/(?:\blines?\s*|\bL|:)(\d+)(?:\s*[-–]\s*L?(\d+))?/i);
+  if (!match) return null;
+  const startLine = Number(match[1]);
+  const endLine = match[2] ? Number(match[2]) : undefined;
+  if (startLine < 1) return null;
+  return endLine && endLine > startLine ? { startLine, endLine } : { startLine };
+}
+
+const slug = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'general';
+
+const REVIEW_LEVELS: Record<CodeReviewIssue['severity'], 'error' | 'warning' | 'note'> = {
+  critical: 'error',
+  warning: 'warning',
+  info: 'note',
+  suggestion: 'note',
+};
+
+const GAP_LEVELS: Record<GapEntry['severity'], 'error' | 'warning' | 'note'> = {
+  high: 'error',
+  medium: 'warning',
+  low: 'note',
+};
+
+const sarifLocation = (path: string, region: { startLine: number; endLine?: number } | null) => ({
+  physicalLocation: {
+    artifactLocation: { uri: path, uriBaseId: '%SRCROOT%' },
+    ...(region ? { region } : {}),
+  },
+});
+
+/**
+ * SARIF 2.1.0 log with one run. Review issues become results under
+ * `review/<category>` rules and gaps under `gap/<type>` rules; severities map
+ * to SARIF levels and known lines to regions.
+ */
+export function toSarif(findings: Findings): string {
+  const rules: { id: string; name: string; shortDescription: { text: string } }[] = [];
+  const ruleIndexes = new Map<string, number>();
+  const ruleIndex = (id: string, description: string) => {
+    if (!ruleIndexes.has(id)) {
+      ruleIndexes.set(id, rules.length);
+      rules.push({ id, name: id, shortDescription: { text: description } });
+    }
+    return ruleIndexes.get(id)!;
+  };
+
+  const results: object[] = [];
+  findings.reviews.forEach(({ path, result }) => {
+    result.issues.forEach(issue => {
+      const ruleId = `review/${slug(issue.category)}`;
+      results.push({
+        ruleId,
+        ruleIndex: ruleIndex(ruleId, `Code review: ${issue.category}`),
+        level: REVIEW_LEVELS[issue.severity] ?? 'note',
+        message: { text: [issue.title, issue.description, issue.suggestion && `Suggestion: ${issue.suggestion}`].filter(Boolean).join('\n\n') },
+        locations: [sarifLocation(path, issue.line && issue.line > 0 ? { startLine: issue.line } : null)],
+        properties: { severity: issue.severity, category: issue.category },
+      });
+    });
+  });
+  findings.gaps.forEach(({ path, result }) => {
+    result.gaps.forEach(gap => {
+      const ruleId = `gap/${slug(gap.type)}`;
+      results.push({
+        ruleId,
+        ruleIndex: ruleIndex(ruleId, `Gap analysis: ${gap.type.replace(/_/g, ' ')}`),
+        level: GAP_LEVELS[gap.severity] ?? 'note',
+        message: { text: [gap.title, gap.description, gap.location && `Location: ${gap.location}`, `Recommendation: ${gap.recommendation}`].filter(Boolean).join('\n\n') },
+        locations: [sarifLocation(path, parseLocationLines(gap.location))],
+        properties: { severity: gap.severity, type: gap.type },
+      });
+    });
+  });
+
+  const log = {
+    $schema: SARIF_SCHEMA,
+    version: '2.1.0',
+    runs: [{
+      tool: { driver: { name: TOOL_NAME, rules } },
+      automationDetails: { id: `${findings.name}${findings.ref ? `@${findings.ref}` : ''}/` },
+      results,
+    }],
+  };
+  return JSON.stringify(log, null, 2);
+}
+
+const mdEscape = (text: string) => text.replace(/\|/g, '\\|').replace(/\n+/g, ' ');
+
+const issueLocation = (path: string, line?: number) => `\`${path}${line ? `:${line}` : ''}\``;
+
+/** Markdown report: a per-file score table, issues by severity, then gaps, bottlenecks and unknowns. */
+export function toFindingsMarkdown(findings: Findings): string {
+  const lines: string[] = [`# Findings: ${findings.name}${findings.ref ? ` @ ${findings.ref}` : ''}`, ''];
+
+  if (findings.reviews.length > 0) {
+    lines.push('## Code Review', '', '| File | Score | Issues | Summary |', '| --- | --- | --- | --- |');
+    findings.reviews.forEach(({ path, result }) => {
+      lines.push(`| \`${path}\` | ${result.overallScore} | ${result.issues.length} | ${mdEscape(result.summary)} |`);
+    });
+    lines.push('');
+
+    SEVERITY_ORDER.forEach(severity => {
+      const issues = findings.reviews.flatMap(({ path, result }) =>
+        result.issues.filter(issue => issue.severity === severity).map(issue => ({ path, issue })));
+      if (issues.length === 0) return;
+      lines.push(`### ${severity[0].toUpperCase()}${severity.slice(1)} (${issues.length})`, '');
+      issues.forEach(({ path, issue }) => {
+        lines.push(`- **${issue.title}** (${issue.category}) ${issueLocation(path, issue.line)}`);
+        lines.push(`  ${issue.description.replace(/\n+/g, ' ')}`);
+        if (issue.suggestion) lines.push(`  _Suggestion:_ ${issue.suggestion.replace(/\n+/g, ' ')}`);
+      });
+      lines.push('');
+    });
+
+    // Strengths and recommendations only read well for a single file
+    if (findings.reviews.length === 1) {
+      const { result } = findings.reviews[0];
+      if (result.strengths.length > 0) lines.push('### Strengths', '', ...result.strengths.map(s => `- ${s}`), '');
+      if (result.recommendations.length > 0) lines.push('### Recommendations', '', ...result.recommendations.map(r => `- ${r}`), '');
+    }
+  }
+
+  if (findings.gaps.length > 0) {
+    lines.push('## Gap Analysis', '', '| File | Risk | Gaps | Summary |', '| --- | --- | --- | --- |');
+    findings.gaps.forEach(({ path, result }) => {
+      lines.push(`| \`${path}\` | ${result.overallRisk} | ${result.gaps.length} | ${mdEscape(result.summary)} |`);
+    });
+    lines.push('');
+
+    const gaps = findings.gaps.flatMap(({ path, result }) => result.gaps.map(gap => ({ path, gap })));
+    if (gaps.length > 0) {
+      lines.push('### Gaps', '');
+      gaps.forEach(({ path, gap }) => {
+        lines.push(`- **${gap.title}** [${gap.severity}, ${gap.type.replace(/_/g, ' ')}] \`${path}\`${gap.location ? ` at ${gap.location}` : ''}`);
+        lines.push(`  ${gap.description.replace(/\n+/g, ' ')}`);
+        lines.push(`  _Recommendation:_ ${gap.recommendation.replace(/\n+/g, ' ')}`);
+      });
+      lines.push('');
+    }
+
+    const bottlenecks = findings.gaps.flatMap(({ path, result }) => result.bottlenecks.map(item => ({ path, item })));
+    if (bottlenecks.length > 0) {
+      lines.push('### Bottlenecks', '');
+      bottlenecks.forEach(({ path, item }) => {
+        lines.push(`- **${item.title}** [${item.type}] \`${path}\`: ${item.impact} _Mitigation:_ ${item.mitigation}`);
+      });
+      lines.push('');
+    }
+
+    const unknowns = findings.gaps.flatMap(({ path, result }) => result.unknowns.map(item => ({ path, item })));
+    if (unknowns.length > 0) {
+      lines.push('### Unknowns', '');
+      unknowns.forEach(({ path, item }) => {
+        lines.push(`- **${item.area}** \`${path}\`: ${item.concern} _To investigate:_ ${item.investigationNeeded}`);
+      });
+      lines.push('');
+    }
+  }
+
+  if (findings.reviews.length === 0 && findings.gaps.length === 0) lines.push('No findings.', '');
+  return lines.join('\n');
+}
+
+const CSV_COLUMNS = ['kind', 'file', 'line', 'severity', 'category', 'title', 'description', 'recommendation'];
+
+/** Quotes a field when it holds a comma, quote or line break (RFC 4180). */
+const csvField = (value: string | number | undefined) => {
+  const text = value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/** One row per review issue and gap, for spreadsheets and ticket imports. */
+export function toFindingsCsv(findings: Findings): string {
+  const rows: (string | number | undefined)[][] = [CSV_COLUMNS];
+  findings.reviews.forEach(({ path, result }) => {
+    result.issues.forEach(issue => {
+      rows.push(['review', path, issue.line, issue.severity, issue.category, issue.title, issue.description, issue.suggestion]);
+    });
+  });
+  findings.gaps.forEach(({ path, result }) => {
+    result.gaps.forEach(gap => {
+      rows.push(['gap', path, parseLocationLines(gap.location)?.startLine, gap.severity, gap.type, gap.title, gap.description, gap.recommendation]);
+    });
+  });
+  return rows.map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+export function exportFindings(findings: Findings, format: FindingsExportFormat): string {
+  switch (format) {
+    case 'sarif': return toSarif(findings);
+    case 'markdown': return toFindingsMarkdown(findings);
+    case 'csv': return toFindingsCsv(findings);
+  }
+}
@@ -0,0 +1,118 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+interface IgnoreRule {
+  /** Directory containing the .gitignore, '' for the root. */
+  base: string;
+  pattern: RegExp;
+  negate: boolean;
+  dirOnly: boolean;
+}
+
+/**
+ * Translates a gitignore glob into a regex over paths relative to the
+ * .gitignore's directory. Handles `*`, `?`, `[...]`, `**` and anchoring.
+ * Also used for the graph path filter.
+ */
+export const globToRegex = (glob: string, anchored: boolean): RegExp => {
+  let re = '';
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i];
+    if (ch === '*') {
+      if (glob[i + 1] === '*') {
+        const atSegmentStart = i === 0 || glob[i - 1] === '/';
+        const atSegmentEnd = i + 2 === glob.length || glob[i + 2] === '/';
+        if (atSegmentStart && atSegmentEnd) {
+          // `**/` matches zero or more directories; a trailing `**` matches everything inside
+          if (i + 2 === glob.length) {
+            re += '.*';
+          } else {
+            re += '(?:.*/)?';
+            i++;
+          }
+          i++;
+          continue;
+        }
+      }
+      re += '[^/]*';
+    } else if (ch === '?') {
+      re += '[^/]';
+    } else if (ch === '[') {
+      const close = glob.indexOf(']', i + 1);
+      if (close === -1) {
+        re += '\\[';
+      } else {
+        re += `[${glob.slice(i + 1, close).replace(/^!/, '^').replace(/\\/g, '\\\\')}]`;
+        i = close;
+      }
+    } else if (ch === '\\' && i + 1 < glob.length) {
+      re += glob[++i].replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+    } else {
+      re += ch.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${anchored ? '' : '(?:.*/)?'}${re}$`);
+};
+
+/**
+ * Parses one .gitignore file into rules scoped to `base`.
+ */
+const parseRules = (base: string, content: string): IgnoreRule[] =>
+  content.split(/\r?\n/).flatMap(raw => {
+    let line = raw.replace(/(?<!\\)\s+$/, '');
+    if (!line || line.startsWith('#')) return [];
+    const negate = line.startsWith('!');
+    if (negate) line = line.slice(1);
+    if (line.startsWith('\\#') || line.startsWith('\\!')) line = line.slice(1);
+    const dirOnly = line.endsWith('/');
+    if (dirOnly) line = line.slice(0, -1);
+    // A slash anywhere but the end anchors the pattern to the .gitignore's directory
+    const anchored = line.includes('/');
+    if (line.startsWith('/')) line = line.slice(1);
+    if (!line) return [];
+    return [{ base, pattern: globToRegex(line, anchored), negate, dirOnly }];
+  });
+
+/**
+ * Matcher for a tree of .gitignore files. Rules from deeper files take
+ * precedence, later rules override earlier ones, and nothing inside an
+ * ignored directory can be re-included, as in git.
+ */
+export interface IgnoreMatcher {
+  /** Adds the rules of the .gitignore located in directory `base` ('' for the root). */
+  add(base: string, content: string): void;
+  isIgnored(path: string, isDirectory?: boolean): boolean;
+}
+
+export function createIgnoreMatcher(): IgnoreMatcher {
+  const rules: IgnoreRule[] = [];
+
+  const matchesSelf = (path: string, isDirectory: boolean): boolean => {
+    let ignored = false;
+    for (const rule of rules) {
+      if (rule.dirOnly && !isDirectory) continue;
+      if (rule.base && !path.startsWith(`${rule.base}/`)) continue;
+      const relative = rule.base ? path.slice(rule.base.length + 1) : path;
+      if (rule.pattern.test(relative)) ignored = !rule.negate;
+    }
+    return ignored;
+  };
+
+  return {
+    add(base, content) {
+      rules.push(...parseRules(base.replace(/^\/+|\/+$/g, ''), content));
+      // Shallower files first so deeper .gitignores override them
+      rules.sort((a, b) => (a.base ? a.base.split('/').length : 0) - (b.base ? b.base.split('/').length : 0));
+    },
+
+    isIgnored(path, isDirectory = false) {
+      const segments = path.split('/');
+      for (let i = 1; i < segments.length; i++) {
+        if (matchesSelf(segments.slice(0, i).join('/'), true)) return true;
+      }
+      return matchesSelf(path, isDirectory);
+    },
+  };
+}
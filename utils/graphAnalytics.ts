@@ -0,0 +1,196 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { DataFlowGraph, D3Node } from '../types';
+
+/** Per-node results of analyzeGraph. */
+export interface NodeMetrics {
+  id: string;
+  label: string;
+  path?: string;
+  /** Distinct nodes linking to this one. */
+  fanIn: number;
+  /** Distinct nodes this one links to. */
+  fanOut: number;
+  /** Share of shortest paths passing through the node, scaled so the busiest node is 1. */
+  betweenness: number;
+  /** Index into GraphAnalytics.cycles, or -1. */
+  cycle: number;
+  /** A file nothing else imports that doesn't look like an entry point, test or config. */
+  orphan: boolean;
+}
+
+export interface GraphAnalytics {
+  metrics: NodeMetrics[];
+  /** Strongly connected components with more than one member (or a self-import), largest first. */
+  cycles: string[][];
+  /** True when betweenness was estimated from a sample of source nodes. */
+  sampled: boolean;
+}
+
+export type GraphMetric = 'fanIn' | 'fanOut' | 'betweenness';
+
+/** Above this many nodes, betweenness is estimated from BETWEENNESS_SAMPLES sources. */
+const EXACT_BETWEENNESS_LIMIT = 1500;
+const BETWEENNESS_SAMPLES = 300;
+
+// Files that are expected to have no importers
+const ROOT_FILE_PATTERN = /(^|\/)(index|main|app|server|cli|__main__|__init__|lib|mod|setup|manage|conftest)\.[a-z]+$|(^|\/)(tests?|__tests__|spec|examples?|scripts?)\/|\.(test|spec|stories|config|d)\.[a-z]+$|_test\.go$|(^|\/)cmd\/[^/]+\/main\.go$/i;
+
+const linkEnd = (end: string | D3Node) => (typeof end === 'string' ? end : end.id);
+
+/**
+ * Tarjan's algorithm, iterative so deep import chains can't overflow the
+ * stack. Returns components in reverse topological order.
+ */
+function stronglyConnectedComponents(ids: string[], adjacency: Map<string, string[]>): string[][] {
+  const index = new Map<string, number>();
+  const lowlink = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const components: string[][] = [];
+  let counter = 0;
+
+  ids.forEach(root => {
+    if (index.has(root)) return;
+    const work: { id: string; next: number }[] = [{ id: root, next: 0 }];
+    index.set(root, counter);
+    lowlink.set(root, counter++);
+    stack.push(root);
+    onStack.add(root);
+
+    while (work.length > 0) {
+      const frame = work[work.length - 1];
+      const neighbors = adjacency.get(frame.id) || [];
+      if (frame.next < neighbors.length) {
+        const next = neighbors[frame.next++];
+        if (!index.has(next)) {
+          index.set(next, counter);
+          lowlink.set(next, counter++);
+          stack.push(next);
+          onStack.add(next);
+          work.push({ id: next, next: 0 });
+        } else if (onStack.has(next)) {
+          lowlink.set(frame.id, Math.min(lowlink.get(frame.id)!, index.get(next)!));
+        }
+        continue;
+      }
+
+      work.pop();
+      if (work.length > 0) {
+        const parent = work[work.length - 1].id;
+        lowlink.set(parent, Math.min(lowlink.get(parent)!, lowlink.get(frame.id)!));
+      }
+      if (lowlink.get(frame.id) === index.get(frame.id)) {
+        const component: string[] = [];
+        let member: string;
+        do {
+          member = stack.pop()!;
+          onStack.delete(member);
+          component.push(member);
+        } while (member !== frame.id);
+        components.push(component);
+      }
+    }
+  });
+  return components;
+}
+
+/**
+ * Brandes' algorithm on the unweighted directed graph. `sources` limits the
+ * BFS roots for sampled estimates.
+ */
+function betweennessCentrality(ids: string[], adjacency: Map<string, string[]>, sources: string[]): Map<string, number> {
+  const centrality = new Map(ids.map(id => [id, 0]));
+
+  sources.forEach(source => {
+    const stack: string[] = [];
+    const predecessors = new Map<string, string[]>();
+    const sigma = new Map<string, number>([[source, 1]]);
+    const distance = new Map<string, number>([[source, 0]]);
+    const queue = [source];
+
+    for (let head = 0; head < queue.length; head++) {
+      const v = queue[head];
+      stack.push(v);
+      (adjacency.get(v) || []).forEach(w => {
+        if (!distance.has(w)) {
+          distance.set(w, distance.get(v)! + 1);
+          queue.push(w);
+        }
+        if (distance.get(w) === distance.get(v)! + 1) {
+          sigma.set(w, (sigma.get(w) || 0) + sigma.get(v)!);
+          if (!predecessors.has(w)) predecessors.set(w, []);
+          predecessors.get(w)!.push(v);
+        }
+      });
+    }
+
+    const delta = new Map<string, number>();
+    while (stack.length > 0) {
+      const w = stack.pop()!;
+      (predecessors.get(w) || []).forEach(v => {
+        const share = (sigma.get(v)! / sigma.get(w)!) * (1 + (delta.get(w) || 0));
+        delta.set(v, (delta.get(v) || 0) + share);
+      });
+      if (w !== source) centrality.set(w, centrality.get(w)! + (delta.get(w) || 0));
+    }
+  });
+
+  return centrality;
+}
+
+/**
+ * Computes import cycles, fan-in/fan-out, betweenness centrality and orphan
+ * files for a graph. Links are read as importer → imported, which is how
+ * buildImportGraph emits them.
+ */
+export function analyzeGraph(graph: DataFlowGraph): GraphAnalytics {
+  const ids = graph.nodes.map(node => node.id);
+  const adjacency = new Map<string, string[]>(ids.map(id => [id, []]));
+  const incoming = new Map<string, Set<string>>(ids.map(id => [id, new Set()]));
+  const selfLoops = new Set<string>();
+
+  graph.links.forEach(link => {
+    const source = linkEnd(link.source);
+    const target = linkEnd(link.target);
+    if (!adjacency.has(source) || !adjacency.has(target)) return;
+    if (source === target) {
+      selfLoops.add(source);
+      return;
+    }
+    if (!incoming.get(target)!.has(source)) {
+      adjacency.get(source)!.push(target);
+      incoming.get(target)!.add(source);
+    }
+  });
+
+  const cycles = stronglyConnectedComponents(ids, adjacency)
+    .filter(component => component.length > 1 || selfLoops.has(component[0]))
+    .sort((a, b) => b.length - a.length);
+  const cycleOf = new Map<string, number>();
+  cycles.forEach((members, i) => members.forEach(id => cycleOf.set(id, i)));
+
+  const sampled = ids.length > EXACT_BETWEENNESS_LIMIT;
+  // An even stride over the node list keeps the sample deterministic
+  const sources = sampled
+    ? ids.filter((_, i) => i % Math.ceil(ids.length / BETWEENNESS_SAMPLES) === 0)
+    : ids;
+  const centrality = betweennessCentrality(ids, adjacency, sources);
+  const maxCentrality = Math.max(0, ...centrality.values());
+
+  const metrics = graph.nodes.map<NodeMetrics>(node => ({
+    id: node.id,
+    label: node.label,
+    path: node.path,
+    fanIn: incoming.get(node.id)!.size,
+    fanOut: adjacency.get(node.id)!.length,
+    betweenness: maxCentrality > 0 ? centrality.get(node.id)! / maxCentrality : 0,
+    cycle: cycleOf.get(node.id) ?? -1,
+    orphan: node.type === 'file' && incoming.get(node.id)!.size === 0 && !ROOT_FILE_PATTERN.test(node.path || node.label),
+  }));
+
+  return { metrics, cycles, sampled };
+}
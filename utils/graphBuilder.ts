@@ -4,6 +4,7 @@
  */
 
 import { RepoFileTree, DataFlowGraph, D3Node, D3Link } from '../types';
+import { ImportTarget } from './importParser';
 
 /**
  * Converts a RepoFileTree array into a DataFlowGraph for D3 visualization.
@@ -44,7 +45,8 @@ export function buildGraphFromFileTree(repoName: string, fileTree: RepoFileTree[
         const dirNode: D3Node = {
           id: `dir-${currentPath}`,
           label: part,
-          group: groupCounter++
+          group: groupCounter++,
+          path: currentPath
         };
         nodes.push(dirNode);
         directories.set(currentPath, dirNode);
@@ -63,7 +65,9 @@ export function buildGraphFromFileTree(repoName: string, fileTree: RepoFileTree[
     const fileNode: D3Node = {
       id: `file-${index}`,
       label: fileName,
-      group: groupCounter % 10
+      group: groupCounter % 10,
+      type: 'file',
+      path: file.path
     };
     nodes.push(fileNode);
     nodeMap.set(file.path, fileNode);
@@ -78,3 +82,66 @@ export function buildGraphFromFileTree(repoName: string, fileTree: RepoFileTree[
 
   return { nodes, links };
 }
+
+/** Group used to color external package nodes. */
+export const EXTERNAL_GROUP = 9;
+
+/**
+ * Builds a dependency graph from resolved imports. File nodes keep the
+ * `file-<index>` ids of buildGraphFromFileTree; external packages become
+ * `pkg-<name>` nodes. Each link's value is the number of import statements
+ * between the two nodes.
+ *
+ * Files that were never scanned and are never imported are left out, so
+ * configs and assets don't crowd the graph.
+ */
+export function buildImportGraph(
+  fileTree: RepoFileTree[],
+  imports: Map<string, ImportTarget[]>
+): DataFlowGraph {
+  const indexByPath = new Map(fileTree.map((file, index) => [file.path, index]));
+  const nodes = new Map<string, D3Node>();
+  const weights = new Map<string, { source: string; target: string; value: number }>();
+
+  // Color file nodes by top-level directory so packages read as regions
+  const groups = new Map<string, number>();
+  const groupFor = (path: string) => {
+    const top = path.includes('/') ? path.slice(0, path.indexOf('/')) : '';
+    if (!groups.has(top)) groups.set(top, groups.size % EXTERNAL_GROUP);
+    return groups.get(top)!;
+  };
+
+  const fileNode = (path: string): string | null => {
+    const index = indexByPath.get(path);
+    if (index === undefined) return null;
+    const id = `file-${index}`;
+    if (!nodes.has(id)) {
+      nodes.set(id, { id, label: path.slice(path.lastIndexOf('/') + 1), group: groupFor(path), type: 'file', path });
+    }
+    return id;
+  };
+
+  const externalNode = (name: string): string => {
+    const id = `pkg-${name}`;
+    if (!nodes.has(id)) nodes.set(id, { id, label: name, group: EXTERNAL_GROUP, type: 'external' });
+    return id;
+  };
+
+  imports.forEach((targets, fromPath) => {
+    const source = fileNode(fromPath);
+    if (!source) return;
+    targets.forEach(target => {
+      const targetIds = target.kind === 'external'
+        ? [externalNode(target.name)]
+        : target.paths.map(fileNode).filter((id): id is string => !!id && id !== source);
+      targetIds.forEach(targetId => {
+        const key = `${source}->${targetId}`;
+        const link = weights.get(key);
+        if (link) link.value++;
+        else weights.set(key, { source, target: targetId, value: 1 });
+      });
+    });
+  });
+
+  return { nodes: Array.from(nodes.values()), links: Array.from(weights.values()), directed: true };
+}
@@ -0,0 +1,157 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { DataFlowGraph, D3Node, D3Link } from '../types';
+
+/** Directories with at least this many files (recursively) can be collapsed into a cluster. */
+export const CLUSTER_MIN_FILES = 8;
+/** Default expansion stops before the visible graph grows past this many nodes. */
+export const CLUSTER_NODE_BUDGET = 150;
+
+const parentDir = (path: string) => (path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '');
+
+/** Directory a node lives in: a file's folder, a folder node's own path, or null for root and packages. */
+const homeDir = (node: D3Node): string | null => {
+  if (!node.path) return null;
+  return node.type === 'file' ? parentDir(node.path) : node.path;
+};
+
+/** Every directory containing `dir`, outermost first, including `dir` itself. */
+const dirChain = (dir: string): string[] => {
+  const parts = dir ? dir.split('/') : [];
+  return parts.map((_, i) => parts.slice(0, i + 1).join('/'));
+};
+
+export const clusterId = (dir: string) => `cluster-${dir}`;
+
+/**
+ * Recursive file counts for every directory that is large enough to be
+ * collapsed.
+ */
+export function findClusterableDirs(graph: DataFlowGraph): Map<string, number> {
+  const counts = new Map<string, number>();
+  graph.nodes.forEach(node => {
+    if (node.type !== 'file' || !node.path) return;
+    dirChain(parentDir(node.path)).forEach(dir => counts.set(dir, (counts.get(dir) || 0) + 1));
+  });
+  counts.forEach((count, dir) => {
+    if (count < CLUSTER_MIN_FILES) counts.delete(dir);
+  });
+  return counts;
+}
+
+/** The outermost collapsed directory hiding `node`, or null when the node is visible. */
+const collapsedAncestor = (node: D3Node, clusterable: Map<string, number>, expanded: Set<string>): string | null => {
+  const dir = homeDir(node);
+  if (dir === null) return null;
+  return dirChain(dir).find(d => clusterable.has(d) && !expanded.has(d)) ?? null;
+};
+
+/**
+ * Collapses every clusterable directory not in `expanded` into one cluster
+ * node. Links are re-pointed at the visible node standing in for each end,
+ * summed per pair, and dropped when both ends fall in the same cluster.
+ */
+export function clusterGraph(graph: DataFlowGraph, expanded: Set<string>): DataFlowGraph {
+  const clusterable = findClusterableDirs(graph);
+  if (clusterable.size === 0) return graph;
+
+  const visible = new Map<string, string>();
+  const clusters = new Map<string, D3Node>();
+  const nodes: D3Node[] = [];
+
+  graph.nodes.forEach(node => {
+    const dir = collapsedAncestor(node, clusterable, expanded);
+    if (dir === null) {
+      nodes.push(node);
+      visible.set(node.id, node.id);
+      return;
+    }
+    let cluster = clusters.get(dir);
+    if (!cluster) {
+      cluster = {
+        id: clusterId(dir),
+        label: `${dir.slice(dir.lastIndexOf('/') + 1)}/`,
+        group: node.group,
+        type: 'cluster',
+        path: dir,
+        fileCount: clusterable.get(dir),
+        childNodes: [],
+      };
+      clusters.set(dir, cluster);
+      nodes.push(cluster);
+    }
+    cluster.childNodes!.push(node);
+    visible.set(node.id, cluster.id);
+  });
+
+  if (clusters.size === 0) return graph;
+
+  const endpoint = (end: string | D3Node) => visible.get(typeof end === 'string' ? end : end.id);
+  const merged = new Map<string, D3Link>();
+  graph.links.forEach(link => {
+    const source = endpoint(link.source);
+    const target = endpoint(link.target);
+    if (!source || !target || source === target) return;
+    const key = `${source}->${target}`;
+    const existing = merged.get(key);
+    if (existing) existing.value += link.value;
+    else merged.set(key, { source, target, value: link.value });
+  });
+
+  return { ...graph, nodes, links: Array.from(merged.values()) };
+}
+
+/**
+ * Picks the directories to expand when a project has no saved state.
+ * Clusters are opened largest first while the graph stays within
+ * CLUSTER_NODE_BUDGET, so small repositories open fully expanded.
+ */
+export function defaultExpandedDirs(graph: DataFlowGraph): Set<string> {
+  const expanded = new Set<string>();
+  const initial = clusterGraph(graph, expanded);
+  let visibleCount = initial.nodes.length;
+  const queue = initial.nodes.filter(node => node.type === 'cluster');
+
+  while (queue.length > 0) {
+    queue.sort((a, b) => (b.fileCount || 0) - (a.fileCount || 0));
+    const cluster = queue.shift()!;
+    expanded.add(cluster.path!);
+    // Opening a cluster replaces it with whatever its members collapse to
+    const opened = clusterGraph({ nodes: cluster.childNodes!, links: [] }, expanded).nodes;
+    if (visibleCount - 1 + opened.length > CLUSTER_NODE_BUDGET) {
+      expanded.delete(cluster.path!);
+      continue;
+    }
+    visibleCount += opened.length - 1;
+    queue.push(...opened.filter(node => node.type === 'cluster'));
+  }
+  return expanded;
+}
+
+/**
+ * The directory a double-click on `node` toggles: a cluster expands itself;
+ * any other node collapses the innermost expanded clusterable directory
+ * around it. Returns null when there is nothing to toggle.
+ */
+export function clusterToggleTarget(graph: DataFlowGraph, node: D3Node, expanded: Set<string>): string | null {
+  if (node.type === 'cluster') return node.path ?? null;
+  const dir = homeDir(node);
+  if (dir === null) return null;
+  const clusterable = findClusterableDirs(graph);
+  return [...dirChain(dir)].reverse().find(d => clusterable.has(d) && expanded.has(d)) ?? null;
+}
+
+/**
+ * `expanded` plus every collapsed directory hiding `node`, so a search hit
+ * or path step can be shown on its own rather than as part of a cluster.
+ */
+export function revealNode(graph: DataFlowGraph, node: D3Node, expanded: Set<string>): Set<string> {
+  const dir = homeDir(node);
+  if (dir === null) return expanded;
+  const clusterable = findClusterableDirs(graph);
+  const hidden = dirChain(dir).filter(d => clusterable.has(d) && !expanded.has(d));
+  return hidden.length === 0 ? expanded : new Set([...expanded, ...hidden]);
+}
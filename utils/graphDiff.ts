@@ -0,0 +1,155 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { DataFlowGraph, D3Node, D3Link, DiffStatus } from '../types';
+
+export interface DiffEdge {
+  /** File path or package name of the importer. */
+  source: string;
+  /** File path or package name of what it imports. */
+  target: string;
+}
+
+export interface ArchitectureDiff {
+  addedFiles: string[];
+  removedFiles: string[];
+  movedFiles: { from: string; to: string }[];
+  addedEdges: DiffEdge[];
+  removedEdges: DiffEdge[];
+  /** Both graphs merged, with every node and link tagged by its `diff` status. */
+  graph: DataFlowGraph;
+}
+
+const linkEnd = (end: string | D3Node) => (typeof end === 'string' ? end : end.id);
+
+const baseName = (path: string) => path.slice(path.lastIndexOf('/') + 1);
+
+/** Identity of a node across refs: its path, or its id for packages and the root. */
+const nodeKey = (node: D3Node) => (node.type === 'external' || !node.path ? node.id : node.path);
+
+/** Edge endpoints as shown to people: paths for files, names for packages. */
+const displayKey = (node: D3Node) => (node.type === 'external' ? node.label : node.path || node.label);
+
+const isFile = (node: D3Node) => node.type === 'file' && !!node.path;
+
+/**
+ * Pairs removed files with added files that share a file name, when exactly
+ * one file of that name was removed and exactly one was added. Trees carry no
+ * content hashes, so a rename that also changes the file name shows up as a
+ * removal plus an addition.
+ */
+function detectMoves(removed: string[], added: string[]): Map<string, string> {
+  const byName = (paths: string[]) => {
+    const groups = new Map<string, string[]>();
+    paths.forEach(path => {
+      const name = baseName(path);
+      if (!groups.has(name)) groups.set(name, []);
+      groups.get(name)!.push(path);
+    });
+    return groups;
+  };
+  const removedByName = byName(removed);
+  const addedByName = byName(added);
+  const moves = new Map<string, string>();
+  removedByName.forEach((from, name) => {
+    const to = addedByName.get(name);
+    if (from.length === 1 && to?.length === 1) moves.set(from[0], to[0]);
+  });
+  return moves;
+}
+
+/**
+ * Compares the graphs of two refs. Files are matched by path, packages by
+ * name. Edges of moved files are compared under their new path, so a move
+ * alone doesn't count as changed dependencies.
+ */
+export function diffGraphs(base: DataFlowGraph, head: DataFlowGraph): ArchitectureDiff {
+  const baseNodes = new Map(base.nodes.map(node => [nodeKey(node), node]));
+  const headNodes = new Map(head.nodes.map(node => [nodeKey(node), node]));
+
+  const removedPaths = base.nodes.filter(node => isFile(node) && !headNodes.has(node.path!)).map(node => node.path!);
+  const addedPaths = head.nodes.filter(node => isFile(node) && !baseNodes.has(node.path!)).map(node => node.path!);
+  const moves = detectMoves(removedPaths, addedPaths);
+  const movedFrom = new Map(Array.from(moves, ([from, to]) => [to, from]));
+
+  // Merged nodes are keyed by their head identity; moved files by their new path
+  const merged = new Map<string, D3Node>();
+  let nextId = 0;
+  const addNode = (key: string, node: D3Node, diff: DiffStatus, previousPath?: string) => {
+    merged.set(key, {
+      id: `diff-${nextId++}`,
+      label: node.label,
+      group: node.group,
+      type: node.type,
+      path: node.path,
+      diff,
+      previousPath,
+    });
+  };
+  head.nodes.forEach(node => {
+    const key = nodeKey(node);
+    if (movedFrom.has(key)) {
+      addNode(key, node, 'moved', movedFrom.get(key));
+    } else {
+      addNode(key, node, baseNodes.has(key) ? 'unchanged' : 'added');
+    }
+  });
+  base.nodes.forEach(node => {
+    const key = nodeKey(node);
+    if (!headNodes.has(key) && !moves.has(key)) addNode(key, node, 'removed');
+  });
+
+  // Base edges are re-keyed through the moves before comparing
+  const edgeKeys = (graph: DataFlowGraph, nodes: Map<string, D3Node>, rename: (key: string) => string) => {
+    const byId = new Map(Array.from(nodes.values()).map(node => [node.id, node]));
+    const edges = new Map<string, { source: string; target: string; value: number }>();
+    graph.links.forEach(link => {
+      const source = byId.get(linkEnd(link.source));
+      const target = byId.get(linkEnd(link.target));
+      if (!source || !target) return;
+      const s = rename(nodeKey(source));
+      const t = rename(nodeKey(target));
+      edges.set(`${s}\u0000${t}`, { source: s, target: t, value: link.value });
+    });
+    return edges;
+  };
+  const baseEdges = edgeKeys(base, baseNodes, key => moves.get(key) ?? key);
+  const headEdges = edgeKeys(head, headNodes, key => key);
+
+  const links: D3Link[] = [];
+  const addedEdges: DiffEdge[] = [];
+  const removedEdges: DiffEdge[] = [];
+  const edgeLabel = (key: string) => displayKey(merged.get(key)!);
+  headEdges.forEach((edge, key) => {
+    const diff: DiffStatus = baseEdges.has(key) ? 'unchanged' : 'added';
+    links.push({ source: merged.get(edge.source)!.id, target: merged.get(edge.target)!.id, value: edge.value, diff });
+    if (diff === 'added') addedEdges.push({ source: edgeLabel(edge.source), target: edgeLabel(edge.target) });
+  });
+  baseEdges.forEach((edge, key) => {
+    if (headEdges.has(key)) return;
+    links.push({ source: merged.get(edge.source)!.id, target: merged.get(edge.target)!.id, value: edge.value, diff: 'removed' });
+    removedEdges.push({ source: edgeLabel(edge.source), target: edgeLabel(edge.target) });
+  });
+
+  return {
+    addedFiles: addedPaths.filter(path => !movedFrom.has(path)),
+    removedFiles: removedPaths.filter(path => !moves.has(path)),
+    movedFiles: Array.from(moves, ([from, to]) => ({ from, to })),
+    addedEdges,
+    removedEdges,
+    graph: { nodes: Array.from(merged.values()), links, directed: !!(base.directed || head.directed) },
+  };
+}
+
+/** Ids of nodes that changed or sit at either end of a changed edge. */
+export function changedNodeIds(diff: ArchitectureDiff): Set<string> {
+  const ids = new Set(diff.graph.nodes.filter(node => node.diff && node.diff !== 'unchanged').map(node => node.id));
+  diff.graph.links.forEach(link => {
+    if (link.diff === 'unchanged') return;
+    ids.add(linkEnd(link.source));
+    ids.add(linkEnd(link.target));
+  });
+  return ids;
+}
@@ -0,0 +1,229 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { DataFlowGraph, D3Node } from '../types';
+import { NodeMetrics } from './graphAnalytics';
+
+export type GraphExportFormat = 'mermaid' | 'dot' | 'graphml' | 'json';
+
+export interface GraphExportOptions {
+  /** Graph title, usually the repository name. */
+  name: string;
+  /** Analytics to attach to nodes; cycle members are also highlighted. Clusters aggregate their members'. */
+  metrics?: NodeMetrics[];
+}
+
+export const GRAPH_EXPORT_FORMATS: Record<GraphExportFormat, { label: string; extension: string; mimeType: string }> = {
+  mermaid: { label: 'Mermaid', extension: 'mmd', mimeType: 'text/plain' },
+  dot: { label: 'Graphviz DOT', extension: 'dot', mimeType: 'text/vnd.graphviz' },
+  graphml: { label: 'GraphML', extension: 'graphml', mimeType: 'application/xml' },
+  json: { label: 'JSON', extension: 'json', mimeType: 'application/json' },
+};
+
+/** Identifies files written by toGraphJson. Bump the version on breaking changes. */
+export const GRAPH_JSON_FORMAT = 'flash-n-frame-graph';
+export const GRAPH_JSON_VERSION = 1;
+
+export interface GraphJsonNode {
+  id: string;
+  label: string;
+  type: 'file' | 'cluster' | 'external' | 'other';
+  group: number;
+  path?: string;
+  /** Files inside a cluster, counted recursively. */
+  fileCount?: number;
+  /** Ids of the nodes a cluster stands in for. */
+  members?: string[];
+  metrics?: Omit<NodeMetrics, 'id' | 'label' | 'path'>;
+}
+
+export interface GraphJson {
+  format: typeof GRAPH_JSON_FORMAT;
+  version: number;
+  name: string;
+  directed: boolean;
+  nodes: GraphJsonNode[];
+  links: { source: string; target: string; value: number }[];
+}
+
+const linkEnd = (end: string | D3Node) => (typeof end === 'string' ? end : end.id);
+
+const displayLabel = (node: D3Node) =>
+  node.type === 'cluster' ? `${node.path || node.label}/ (${node.fileCount} files)` : node.path || node.label;
+
+/**
+ * Metrics by node id. Clusters get their members' strongest fan-in, fan-out
+ * and betweenness, the first cycle any member is in, and count as orphans
+ * only when every member is one, matching the Dev Studio overlay.
+ */
+const metricsById = (graph: DataFlowGraph, metrics?: NodeMetrics[]) => {
+  const byId = new Map((metrics || []).map(m => [m.id, m]));
+  if (byId.size === 0) return byId;
+  graph.nodes.forEach(node => {
+    if (!node.childNodes || byId.has(node.id)) return;
+    const members = node.childNodes.map(child => byId.get(child.id)).filter((m): m is NodeMetrics => !!m);
+    if (members.length === 0) return;
+    byId.set(node.id, {
+      id: node.id,
+      label: node.label,
+      path: node.path,
+      fanIn: Math.max(...members.map(m => m.fanIn)),
+      fanOut: Math.max(...members.map(m => m.fanOut)),
+      betweenness: Math.max(...members.map(m => m.betweenness)),
+      cycle: members.find(m => m.cycle >= 0)?.cycle ?? -1,
+      orphan: members.every(m => m.orphan),
+    });
+  });
+  return byId;
+};
+
+const plainLinks = (graph: DataFlowGraph) =>
+  graph.links.map(link => ({ source: linkEnd(link.source), target: linkEnd(link.target), value: link.value }));
+
+export function toGraphJson(graph: DataFlowGraph, options: GraphExportOptions): GraphJson {
+  const metrics = metricsById(graph, options.metrics);
+  return {
+    format: GRAPH_JSON_FORMAT,
+    version: GRAPH_JSON_VERSION,
+    name: options.name,
+    directed: !!graph.directed,
+    nodes: graph.nodes.map(node => {
+      const { id: _id, label: _label, path: _path, ...nodeMetrics } = metrics.get(node.id) || ({} as NodeMetrics);
+      return {
+        id: node.id,
+        label: node.label,
+        type: node.type || 'other',
+        group: node.group,
+        path: node.path,
+        fileCount: node.fileCount,
+        members: node.childNodes?.map(child => child.id),
+        metrics: metrics.has(node.id) ? nodeMetrics : undefined,
+      };
+    }),
+    links: plainLinks(graph),
+  };
+}
+
+/**
+ * Mermaid flowchart. Node ids are renumbered because Mermaid ids can't
+ * contain slashes; clusters use the subroutine shape and packages the
+ * stadium shape.
+ */
+export function toMermaid(graph: DataFlowGraph, options: GraphExportOptions): string {
+  const metrics = metricsById(graph, options.metrics);
+  const ids = new Map(graph.nodes.map((node, i) => [node.id, `n${i}`]));
+  const escape = (text: string) => text.replace(/"/g, '#quot;');
+  const lines = [`%% ${options.name}`, 'flowchart LR'];
+
+  graph.nodes.forEach(node => {
+    const label = `"${escape(displayLabel(node))}"`;
+    const shape = node.type === 'cluster' ? `[[${label}]]` : node.type === 'external' ? `([${label}])` : `[${label}]`;
+    lines.push(`  ${ids.get(node.id)}${shape}`);
+  });
+
+  const arrow = graph.directed ? '-->' : '---';
+  plainLinks(graph).forEach(link => {
+    const source = ids.get(link.source);
+    const target = ids.get(link.target);
+    if (!source || !target) return;
+    lines.push(`  ${source} ${arrow}${link.value > 1 ? `|${link.value}|` : ''} ${target}`);
+  });
+
+  const cycleIds = graph.nodes.filter(node => (metrics.get(node.id)?.cycle ?? -1) >= 0).map(node => ids.get(node.id));
+  const externalIds = graph.nodes.filter(node => node.type === 'external').map(node => ids.get(node.id));
+  if (externalIds.length > 0) {
+    lines.push('  classDef external stroke-dasharray:3 2,fill:#1e293b,color:#94a3b8');
+    lines.push(`  class ${externalIds.join(',')} external`);
+  }
+  if (cycleIds.length > 0) {
+    lines.push('  classDef cycle stroke:#f43f5e,stroke-width:2px');
+    lines.push(`  class ${cycleIds.join(',')} cycle`);
+  }
+  return lines.join('\n') + '\n';
+}
+
+/** Graphviz DOT. Metrics are written as extra node attributes, which renderers ignore. */
+export function toDot(graph: DataFlowGraph, options: GraphExportOptions): string {
+  const metrics = metricsById(graph, options.metrics);
+  const quote = (text: string) => `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+  const lines = [
+    `${graph.directed ? 'digraph' : 'graph'} ${quote(options.name)} {`,
+    '  rankdir=LR;',
+    '  node [shape=box, style=rounded, fontname="monospace", fontsize=10];',
+  ];
+
+  graph.nodes.forEach(node => {
+    const attrs: string[] = [`label=${quote(displayLabel(node))}`];
+    if (node.type === 'cluster') attrs.push('shape=folder');
+    if (node.type === 'external') attrs.push('shape=ellipse', 'style=dashed');
+    const m = metrics.get(node.id);
+    if (m) {
+      attrs.push(`fanin=${m.fanIn}`, `fanout=${m.fanOut}`, `betweenness=${m.betweenness.toFixed(4)}`);
+      if (m.cycle >= 0) attrs.push('color=red', `cycle=${m.cycle + 1}`);
+      if (m.orphan) attrs.push('orphan=true');
+    }
+    lines.push(`  ${quote(node.id)} [${attrs.join(', ')}];`);
+  });
+
+  const arrow = graph.directed ? '->' : '--';
+  plainLinks(graph).forEach(link => {
+    const attrs = link.value > 1 ? ` [weight=${link.value}, penwidth=${Math.min(1 + Math.log2(link.value), 6).toFixed(1)}, label="${link.value}"]` : '';
+    lines.push(`  ${quote(link.source)} ${arrow} ${quote(link.target)}${attrs};`);
+  });
+
+  lines.push('}');
+  return lines.join('\n') + '\n';
+}
+
+const NODE_KEYS: { id: string; type: 'string' | 'int' | 'double' | 'boolean'; value: (node: GraphJsonNode) => unknown }[] = [
+  { id: 'label', type: 'string', value: n => n.label },
+  { id: 'type', type: 'string', value: n => n.type },
+  { id: 'path', type: 'string', value: n => n.path },
+  { id: 'group', type: 'int', value: n => n.group },
+  { id: 'fileCount', type: 'int', value: n => n.fileCount },
+  { id: 'members', type: 'string', value: n => n.members?.join(' ') },
+  { id: 'fanIn', type: 'int', value: n => n.metrics?.fanIn },
+  { id: 'fanOut', type: 'int', value: n => n.metrics?.fanOut },
+  { id: 'betweenness', type: 'double', value: n => n.metrics?.betweenness },
+  { id: 'cycle', type: 'int', value: n => n.metrics && n.metrics.cycle >= 0 ? n.metrics.cycle + 1 : undefined },
+  { id: 'orphan', type: 'boolean', value: n => n.metrics?.orphan },
+];
+
+/** GraphML with node attributes declared as typed keys, readable by yEd, Gephi and NetworkX. */
+export function toGraphML(graph: DataFlowGraph, options: GraphExportOptions): string {
+  const json = toGraphJson(graph, options);
+  const xml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+    ...NODE_KEYS.map(key => `  <key id="${key.id}" for="node" attr.name="${key.id}" attr.type="${key.type}"/>`),
+    '  <key id="weight" for="edge" attr.name="weight" attr.type="int"/>',
+    `  <graph id="${xml(options.name)}" edgedefault="${json.directed ? 'directed' : 'undirected'}">`,
+  ];
+
+  json.nodes.forEach(node => {
+    lines.push(`    <node id="${xml(node.id)}">`);
+    NODE_KEYS.forEach(key => {
+      const value = key.value(node);
+      if (value !== undefined && value !== null) lines.push(`      <data key="${key.id}">${xml(String(value))}</data>`);
+    });
+    lines.push('    </node>');
+  });
+  json.links.forEach((link, i) => {
+    lines.push(`    <edge id="e${i}" source="${xml(link.source)}" target="${xml(link.target)}"><data key="weight">${link.value}</data></edge>`);
+  });
+
+  lines.push('  </graph>', '</graphml>');
+  return lines.join('\n') + '\n';
+}
+
+export function exportGraph(graph: DataFlowGraph, format: GraphExportFormat, options: GraphExportOptions): string {
+  switch (format) {
+    case 'mermaid': return toMermaid(graph, options);
+    case 'dot': return toDot(graph, options);
+    case 'graphml': return toGraphML(graph, options);
+    case 'json': return JSON.stringify(toGraphJson(graph, options), null, 2);
+  }
+}
@@ -0,0 +1,199 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { DataFlowGraph, D3Node } from '../types';
+import { globToRegex } from './gitignore';
+
+export interface NodeMatch {
+  node: D3Node;
+  score: number;
+}
+
+/**
+ * Scores `text` against a fuzzy `query`: every query character must appear
+ * in order. Consecutive runs, matches at word boundaries and matches in the
+ * file name score higher. Space-separated terms match independently.
+ * Returns null when the query doesn't match.
+ */
+export function fuzzyScore(query: string, text: string): number | null {
+  const terms = query.trim().split(/\s+/).filter(Boolean);
+  if (terms.length > 1) {
+    const scores = terms.map(term => fuzzyScore(term, text));
+    return scores.includes(null) ? null : scores.reduce((sum, score) => sum! + score!, 0);
+  }
+  const q = query.trim().toLowerCase();
+  const t = text.toLowerCase();
+  if (!q) return 0;
+  const nameStart = t.lastIndexOf('/') + 1;
+
+  let score = 0;
+  let ti = 0;
+  let run = 0;
+  for (let qi = 0; qi < q.length; qi++) {
+    const found = t.indexOf(q[qi], ti);
+    if (found === -1) return null;
+    run = found === ti && qi > 0 ? run + 1 : 0;
+    score += 1 + run * 2;
+    if (found === 0 || /[/._\-\s]/.test(t[found - 1])) score += 3;
+    if (found >= nameStart) score += 1;
+    ti = found + 1;
+  }
+  // Prefer short candidates and exact substrings
+  if (t.includes(q)) score += q.length * 2;
+  return score - (t.length - q.length) * 0.05;
+}
+
+/** Best matches for `query` by node path (or label), highest score first. */
+export function searchNodes(graph: DataFlowGraph, query: string, limit = 20): NodeMatch[] {
+  if (!query.trim()) return [];
+  return graph.nodes
+    .map(node => ({ node, score: fuzzyScore(query.trim(), node.path || node.label) }))
+    .filter((match): match is NodeMatch => match.score !== null)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+export interface GraphFilter {
+  /** File extensions to keep, without dots, e.g. `['ts', 'tsx']`. */
+  extensions?: string[];
+  /** Directory prefix files must live under. */
+  directory?: string;
+  /** Glob over file paths, e.g. `src/**\/*.ts` or `!*.test.ts` to exclude. */
+  glob?: string;
+}
+
+/** Extensions of the graph's files with how many files use each, most common first. */
+export function fileExtensions(graph: DataFlowGraph): { extension: string; count: number }[] {
+  const counts = new Map<string, number>();
+  graph.nodes.forEach(node => {
+    const name = node.type === 'file' && node.path ? node.path.slice(node.path.lastIndexOf('/') + 1) : '';
+    if (!name.includes('.')) return;
+    const extension = name.slice(name.lastIndexOf('.') + 1).toLowerCase();
+    counts.set(extension, (counts.get(extension) || 0) + 1);
+  });
+  return Array.from(counts, ([extension, count]) => ({ extension, count })).sort((a, b) => b.count - a.count);
+}
+
+export const isFilterActive = (filter: GraphFilter) =>
+  !!(filter.extensions?.length || filter.directory?.trim() || filter.glob?.trim());
+
+const linkEnd = (end: string | D3Node) => (typeof end === 'string' ? end : end.id);
+
+/** Keeps only the links whose two ends are both in `ids`. */
+export function inducedSubgraph(graph: DataFlowGraph, ids: Set<string>): DataFlowGraph {
+  return {
+    ...graph,
+    nodes: graph.nodes.filter(node => ids.has(node.id)),
+    links: graph.links
+      .filter(link => ids.has(linkEnd(link.source)) && ids.has(linkEnd(link.target)))
+      .map(link => ({ source: linkEnd(link.source), target: linkEnd(link.target), value: link.value })),
+  };
+}
+
+/**
+ * Applies extension, directory and glob filters to file nodes. Other nodes
+ * (packages, folders, the root) stay while they're still linked to a file
+ * that passed.
+ */
+export function filterGraph(graph: DataFlowGraph, filter: GraphFilter): DataFlowGraph {
+  if (!isFilterActive(filter)) return graph;
+  const extensions = new Set((filter.extensions || []).map(ext => ext.replace(/^\./, '').toLowerCase()));
+  const directory = (filter.directory || '').trim().replace(/^\/+|\/+$/g, '');
+  const glob = (filter.glob || '').trim();
+  const negate = glob.startsWith('!');
+  const pattern = glob ? globToRegex(negate ? glob.slice(1) : glob, glob.replace(/^!/, '').includes('/')) : null;
+
+  const passes = (path: string) => {
+    const name = path.slice(path.lastIndexOf('/') + 1);
+    if (extensions.size > 0 && !extensions.has(name.includes('.') ? name.slice(name.lastIndexOf('.') + 1).toLowerCase() : '')) return false;
+    if (directory && !path.startsWith(`${directory}/`)) return false;
+    if (pattern && pattern.test(path) === negate) return false;
+    return true;
+  };
+
+  const typeOf = new Map(graph.nodes.map(node => [node.id, node.type]));
+  const kept = new Set(graph.nodes.filter(node => node.type === 'file' && node.path && passes(node.path)).map(node => node.id));
+  graph.links.forEach(link => {
+    const source = linkEnd(link.source);
+    const target = linkEnd(link.target);
+    if (kept.has(source) && typeOf.get(target) !== 'file') kept.add(target);
+    if (kept.has(target) && typeOf.get(source) !== 'file') kept.add(source);
+  });
+  return inducedSubgraph(graph, kept);
+}
+
+/** Nodes within `hops` links of any of `centerIds`, following links in both directions. */
+export function neighborhood(graph: DataFlowGraph, centerIds: string[], hops: number): Set<string> {
+  const adjacent = new Map<string, string[]>();
+  graph.links.forEach(link => {
+    const source = linkEnd(link.source);
+    const target = linkEnd(link.target);
+    if (!adjacent.has(source)) adjacent.set(source, []);
+    if (!adjacent.has(target)) adjacent.set(target, []);
+    adjacent.get(source)!.push(target);
+    adjacent.get(target)!.push(source);
+  });
+
+  const seen = new Set(centerIds);
+  let frontier = [...seen];
+  for (let hop = 0; hop < hops && frontier.length > 0; hop++) {
+    frontier = frontier.flatMap(id => (adjacent.get(id) || []).filter(next => !seen.has(next)));
+    frontier.forEach(id => seen.add(id));
+  }
+  return seen;
+}
+
+export interface GraphPath {
+  /** Node ids from start to end. */
+  nodes: string[];
+  /** False when no directed path exists and the path ignores link direction. */
+  directed: boolean;
+}
+
+const bfsPath = (graph: DataFlowGraph, fromIds: string[], toIds: Set<string>, directed: boolean): string[] | null => {
+  const next = new Map<string, string[]>();
+  const add = (a: string, b: string) => {
+    if (!next.has(a)) next.set(a, []);
+    next.get(a)!.push(b);
+  };
+  graph.links.forEach(link => {
+    add(linkEnd(link.source), linkEnd(link.target));
+    if (!directed) add(linkEnd(link.target), linkEnd(link.source));
+  });
+
+  const previous = new Map<string, string | null>(fromIds.map(id => [id, null]));
+  const queue = [...previous.keys()];
+  for (let head = 0; head < queue.length; head++) {
+    const id = queue[head];
+    if (toIds.has(id)) {
+      const path: string[] = [];
+      for (let at: string | null = id; at !== null; at = previous.get(at)!) path.unshift(at);
+      return path;
+    }
+    (next.get(id) || []).forEach(n => {
+      if (!previous.has(n)) {
+        previous.set(n, id);
+        queue.push(n);
+      }
+    });
+  }
+  return null;
+};
+
+/**
+ * Shortest path from any of `fromIds` to any of `toIds`, following imports;
+ * several ids let a cluster stand for its member files. When the graph has
+ * no directed route (or isn't directed at all), the shortest route ignoring
+ * direction is returned instead.
+ */
+export function shortestPath(graph: DataFlowGraph, fromIds: string[], toIds: string[]): GraphPath | null {
+  const targets = new Set(toIds);
+  if (graph.directed) {
+    const forward = bfsPath(graph, fromIds, targets, true);
+    if (forward) return { nodes: forward, directed: true };
+  }
+  const undirected = bfsPath(graph, fromIds, targets, false);
+  return undirected ? { nodes: undirected, directed: false } : null;
+}
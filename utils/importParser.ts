@@ -0,0 +1,422 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Static import extraction for the dependency graph. Parsing is regex based:
+ * it reads the import statements of TS/JS, Python, Go and Rust without a full
+ * parser, which is enough to map how files depend on each other.
+ */
+
+export type ImportLanguage = 'typescript' | 'python' | 'go' | 'rust';
+
+/** Where one import statement points. */
+export type ImportTarget =
+  | { kind: 'file'; paths: string[] }
+  | { kind: 'external'; name: string };
+
+/** `compilerOptions.baseUrl` and `paths` from a tsconfig/jsconfig, with directories relative to the repo root. */
+export interface TsPathConfig {
+  /** Directory holding the config file. */
+  dir: string;
+  baseUrl?: string;
+  paths: Record<string, string[]>;
+}
+
+export interface ResolverContext {
+  /** Every file path in the repository tree. */
+  files: Set<string>;
+  tsConfigs?: TsPathConfig[];
+  /** Go modules declared by go.mod files. */
+  goModules?: { dir: string; module: string }[];
+  /** Directories Python absolute imports are resolved from. */
+  pythonRoots?: string[];
+}
+
+const LANGUAGE_BY_EXTENSION: Record<string, ImportLanguage> = {
+  ts: 'typescript', tsx: 'typescript', mts: 'typescript', cts: 'typescript',
+  js: 'typescript', jsx: 'typescript', mjs: 'typescript', cjs: 'typescript',
+  py: 'python',
+  go: 'go',
+  rs: 'rust',
+};
+
+export const languageOf = (path: string): ImportLanguage | null => {
+  if (path.endsWith('.d.ts')) return null;
+  return LANGUAGE_BY_EXTENSION[path.slice(path.lastIndexOf('.') + 1).toLowerCase()] || null;
+};
+
+const NODE_BUILTINS = new Set([
+  'assert', 'buffer', 'child_process', 'cluster', 'crypto', 'dgram', 'dns', 'events', 'fs', 'fs/promises',
+  'http', 'http2', 'https', 'module', 'net', 'os', 'path', 'perf_hooks', 'process', 'querystring', 'readline',
+  'stream', 'string_decoder', 'timers', 'tls', 'tty', 'url', 'util', 'v8', 'vm', 'worker_threads', 'zlib',
+]);
+
+const PYTHON_STDLIB = new Set([
+  '__future__', 'abc', 'argparse', 'ast', 'asyncio', 'base64', 'collections', 'contextlib', 'copy', 'csv',
+  'dataclasses', 'datetime', 'decimal', 'enum', 'functools', 'glob', 'hashlib', 'heapq', 'http', 'importlib',
+  'inspect', 'io', 'itertools', 'json', 'logging', 'math', 'multiprocessing', 'operator', 'os', 'pathlib',
+  'pickle', 'random', 're', 'shutil', 'signal', 'socket', 'sqlite3', 'string', 'struct', 'subprocess', 'sys',
+  'tempfile', 'threading', 'time', 'traceback', 'types', 'typing', 'unittest', 'urllib', 'uuid', 'warnings',
+  'weakref', 'xml', 'zipfile',
+]);
+
+const RUST_BUILTIN_CRATES = new Set(['std', 'core', 'alloc', 'proc_macro', 'test']);
+
+// ==================== Paths ====================
+
+const dirname = (path: string) => path.slice(0, Math.max(0, path.lastIndexOf('/')));
+
+/** Joins and normalizes `.` and `..` segments. Returns null when the path escapes the repo root. */
+const joinPath = (...parts: string[]): string | null => {
+  const out: string[] = [];
+  for (const segment of parts.join('/').split('/')) {
+    if (!segment || segment === '.') continue;
+    if (segment === '..') {
+      if (out.length === 0) return null;
+      out.pop();
+    } else {
+      out.push(segment);
+    }
+  }
+  return out.join('/');
+};
+
+/**
+ * Removes `//` and `/* *\/` comments outside string literals. String-aware so
+ * globs like `'src/**\/*.ts'` and URLs don't swallow the code after them.
+ * `quotes` lists the characters that open strings in the language.
+ */
+const stripComments = (content: string, quotes: string = `"'\``): string => {
+  let out = '';
+  for (let i = 0; i < content.length; i++) {
+    const ch = content[i];
+    if (quotes.includes(ch)) {
+      const start = i;
+      for (i++; i < content.length && content[i] !== ch && (ch === '`' || content[i] !== '\n'); i++) {
+        if (content[i] === '\\') i++;
+      }
+      out += content.slice(start, i + 1);
+    } else if (ch === '/' && content[i + 1] === '/') {
+      while (i + 1 < content.length && content[i + 1] !== '\n') i++;
+    } else if (ch === '/' && content[i + 1] === '*') {
+      const end = content.indexOf('*/', i + 2);
+      i = end === -1 ? content.length : end + 1;
+    } else {
+      out += ch;
+    }
+  }
+  return out;
+};
+
+// ==================== Parsing ====================
+
+const TS_STATIC_IMPORT = /(?:^|[;\s])(?:import|export)\s+(?:type\s+)?(?:[^'";]*?\s+from\s+)?['"]([^'"\n]+)['"]/g;
+const TS_CALL_IMPORT = /\b(?:require|import)\s*\(\s*['"]([^'"\n]+)['"]\s*\)/g;
+
+const PY_IMPORT = /^[ \t]*import[ \t]+([\w.]+(?:[ \t]+as[ \t]+\w+)?(?:[ \t]*,[ \t]*[\w.]+(?:[ \t]+as[ \t]+\w+)?)*)/gm;
+const PY_FROM_IMPORT = /^[ \t]*from[ \t]+(\.*[\w.]*)[ \t]+import[ \t]+(\([^)]*\)|[^\n#]+)/gm;
+
+const GO_SINGLE_IMPORT = /^\s*import\s+(?:[\w.]+\s+)?"([^"]+)"/gm;
+const GO_IMPORT_BLOCK = /^\s*import\s*\(([\s\S]*?)\)/gm;
+const GO_BLOCK_LINE = /(?:[\w.]+\s+)?"([^"]+)"/g;
+
+const RUST_MOD = /^\s*(?:pub(?:\([^)]*\))?\s+)?mod\s+(\w+)\s*;/gm;
+const RUST_USE = /^\s*(?:pub(?:\([^)]*\))?\s+)?use\s+([^;]+);/gm;
+const RUST_EXTERN_CRATE = /^\s*extern\s+crate\s+(\w+)/gm;
+
+const matchAll = (pattern: RegExp, text: string): RegExpExecArray[] => {
+  const matches: RegExpExecArray[] = [];
+  pattern.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) matches.push(match);
+  return matches;
+};
+
+/** Expands `a::{b, c::{d, e}}` into `a::b`, `a::c::d` and `a::c::e`. */
+const expandUseTree = (tree: string): string[] => {
+  const text = tree.replace(/\s+as\s+\w+/g, '').replace(/\s+/g, '');
+  const open = text.indexOf('{');
+  if (open === -1) return [text.replace(/::self$/, '')];
+
+  const prefix = text.slice(0, open);
+  const inner = text.slice(open + 1, text.lastIndexOf('}'));
+  const items: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < inner.length; i++) {
+    if (inner[i] === '{') depth++;
+    else if (inner[i] === '}') depth--;
+    else if (inner[i] === ',' && depth === 0) {
+      items.push(inner.slice(start, i));
+      start = i + 1;
+    }
+  }
+  items.push(inner.slice(start));
+  return items.filter(Boolean).flatMap(item => expandUseTree(`${prefix}${item}`));
+};
+
+/**
+ * Returns the import specifiers of one file, one entry per import statement
+ * (repeats count as separate imports). Python `from` imports are encoded as
+ * `module|name1,name2` so the resolver can try the names as submodules.
+ * Rust `mod x;` declarations are encoded as `mod:x`.
+ */
+export function parseImports(path: string, content: string): string[] {
+  const language = languageOf(path);
+  if (!language) return [];
+
+  switch (language) {
+    case 'typescript': {
+      const code = stripComments(content);
+      return [
+        ...matchAll(TS_STATIC_IMPORT, code).map(m => m[1]),
+        ...matchAll(TS_CALL_IMPORT, code).map(m => m[1]),
+      ];
+    }
+    case 'python': {
+      const specifiers: string[] = [];
+      matchAll(PY_IMPORT, content).forEach(m => {
+        m[1].split(',').forEach(part => specifiers.push(part.trim().split(/\s+/)[0]));
+      });
+      matchAll(PY_FROM_IMPORT, content).forEach(m => {
+        const names = m[2].replace(/[()\\]/g, '').split(',').map(n => n.trim().split(/\s+/)[0]).filter(n => n && n !== '*');
+        specifiers.push(`${m[1]}|${names.join(',')}`);
+      });
+      return specifiers;
+    }
+    case 'go': {
+      const code = stripComments(content, '"`');
+      return [
+        ...matchAll(GO_SINGLE_IMPORT, code).map(m => m[1]),
+        ...matchAll(GO_IMPORT_BLOCK, code).flatMap(block => matchAll(GO_BLOCK_LINE, block[1]).map(m => m[1])),
+      ];
+    }
+    case 'rust': {
+      // Lifetimes like 'a would read as unterminated char literals
+      const code = stripComments(content, '"');
+      return [
+        ...matchAll(RUST_MOD, code).map(m => `mod:${m[1]}`),
+        ...matchAll(RUST_USE, code).flatMap(m => expandUseTree(m[1])),
+        ...matchAll(RUST_EXTERN_CRATE, code).map(m => m[1]),
+      ];
+    }
+  }
+}
+
+// ==================== Config files ====================
+
+/**
+ * Reads `baseUrl` and `paths` from a tsconfig.json or jsconfig.json. These
+ * files allow comments and trailing commas, so both are stripped first.
+ */
+export function parseTsConfig(configPath: string, content: string): TsPathConfig | null {
+  try {
+    const json = JSON.parse(stripComments(content, '"').replace(/,(\s*[}\]])/g, '$1'));
+    const options = json.compilerOptions || {};
+    if (!options.baseUrl && !options.paths) return null;
+    const dir = dirname(configPath);
+    return {
+      dir,
+      baseUrl: options.baseUrl !== undefined ? joinPath(dir, options.baseUrl) ?? '' : undefined,
+      paths: options.paths || {},
+    };
+  } catch (e) {
+    console.warn(`Failed to parse ${configPath}:`, e);
+    return null;
+  }
+}
+
+/** Reads the module path from a go.mod file. */
+export const parseGoModule = (content: string): string | null =>
+  content.match(/^\s*module\s+(\S+)/m)?.[1] ?? null;
+
+// ==================== Resolution ====================
+
+const TS_EXTENSIONS = ['.ts', '.tsx', '.d.ts', '.js', '.jsx', '.mjs', '.cjs', '.json', '.css', '.scss'];
+
+/** Finds the file a TS/JS module path refers to, trying extensions and index files. */
+const resolveTsFile = (base: string, files: Set<string>): string | null => {
+  if (files.has(base)) return base;
+  // ESM-style TypeScript imports name the compiled `.js` file
+  const withoutJsExtension = base.replace(/\.(m|c)?jsx?$/, '');
+  const stems = withoutJsExtension !== base ? [withoutJsExtension, base] : [base];
+  for (const stem of stems) {
+    for (const ext of TS_EXTENSIONS) {
+      if (files.has(`${stem}${ext}`)) return `${stem}${ext}`;
+    }
+    for (const ext of TS_EXTENSIONS) {
+      if (files.has(`${stem}/index${ext}`)) return `${stem}/index${ext}`;
+    }
+  }
+  return null;
+};
+
+/** The config that applies to `fromPath`: the one in its nearest ancestor directory. */
+const nearestTsConfig = (fromPath: string, configs: TsPathConfig[] = []) =>
+  configs
+    .filter(c => !c.dir || fromPath.startsWith(`${c.dir}/`))
+    .sort((a, b) => b.dir.length - a.dir.length)[0];
+
+const resolveTypeScript = (fromPath: string, specifier: string, ctx: ResolverContext): ImportTarget | null => {
+  const asFile = (base: string | null): ImportTarget | null => {
+    const found = base !== null ? resolveTsFile(base, ctx.files) : null;
+    return found ? { kind: 'file', paths: [found] } : null;
+  };
+
+  if (specifier.startsWith('.')) return asFile(joinPath(dirname(fromPath), specifier));
+
+  const config = nearestTsConfig(fromPath, ctx.tsConfigs);
+  if (config) {
+    const pathsBase = config.baseUrl ?? config.dir;
+    for (const [pattern, targets] of Object.entries(config.paths)) {
+      const star = pattern.indexOf('*');
+      let captured: string | null = null;
+      if (star === -1) {
+        if (pattern === specifier) captured = '';
+      } else if (specifier.startsWith(pattern.slice(0, star)) && specifier.endsWith(pattern.slice(star + 1))) {
+        captured = specifier.slice(star, specifier.length - (pattern.length - star - 1));
+      }
+      if (captured === null) continue;
+      for (const target of targets) {
+        const resolved = asFile(joinPath(pathsBase, target.replace('*', captured)));
+        if (resolved) return resolved;
+      }
+    }
+    if (config.baseUrl !== undefined) {
+      const resolved = asFile(joinPath(config.baseUrl, specifier));
+      if (resolved) return resolved;
+    }
+  }
+
+  if (specifier.startsWith('node:') || NODE_BUILTINS.has(specifier)) return null;
+  const segments = specifier.split('/');
+  const name = specifier.startsWith('@') ? segments.slice(0, 2).join('/') : segments[0];
+  return name ? { kind: 'external', name } : null;
+};
+
+const resolvePythonModule = (base: string, ctx: ResolverContext): string | null => {
+  for (const candidate of [`${base}.py`, `${base}/__init__.py`]) {
+    if (ctx.files.has(candidate)) return candidate;
+  }
+  return null;
+};
+
+const resolvePython = (fromPath: string, specifier: string, ctx: ResolverContext): ImportTarget | null => {
+  const [module, namesPart] = specifier.split('|');
+  const names = namesPart ? namesPart.split(',').filter(Boolean) : [];
+  const dots = module.match(/^\.*/)![0].length;
+  const dotted = module.slice(dots);
+  const modulePath = dotted.replace(/\./g, '/');
+
+  // Relative imports climb from the current package; absolute ones search the roots
+  let roots: string[];
+  if (dots > 0) {
+    let dir: string | null = dirname(fromPath);
+    for (let i = 1; i < dots && dir !== null; i++) dir = joinPath(dir, '..');
+    if (dir === null) return null;
+    roots = [dir];
+  } else {
+    roots = ctx.pythonRoots?.length ? ctx.pythonRoots : [''];
+  }
+
+  for (const root of roots) {
+    const base = joinPath(root, modulePath);
+    if (base === null) continue;
+    // `from pkg import mod` may name submodules rather than attributes
+    const submodules = names
+      .map(name => resolvePythonModule(base ? `${base}/${name}` : name, ctx))
+      .filter((p): p is string => !!p);
+    if (submodules.length > 0) return { kind: 'file', paths: submodules };
+    const found = base ? resolvePythonModule(base, ctx) : null;
+    if (found) return { kind: 'file', paths: [found] };
+  }
+
+  if (dots > 0 || !dotted) return null;
+  const topLevel = dotted.split('.')[0];
+  return PYTHON_STDLIB.has(topLevel) ? null : { kind: 'external', name: topLevel };
+};
+
+const resolveGo = (specifier: string, ctx: ResolverContext): ImportTarget | null => {
+  for (const { dir, module } of ctx.goModules || []) {
+    if (specifier !== module && !specifier.startsWith(`${module}/`)) continue;
+    const packageDir = joinPath(dir, specifier.slice(module.length));
+    if (packageDir === null) continue;
+    // A Go import names a package directory; link to its non-test files
+    const paths = Array.from(ctx.files).filter(p =>
+      dirname(p) === packageDir && p.endsWith('.go') && !p.endsWith('_test.go'));
+    if (paths.length > 0) return { kind: 'file', paths };
+  }
+  // The standard library has no dot in its first path element
+  if (!specifier.split('/')[0].includes('.')) return null;
+  return { kind: 'external', name: specifier.split('/').slice(0, 3).join('/') };
+};
+
+/** Directory whose files are the submodules of `path`'s module. */
+const rustModuleDir = (path: string) => {
+  const file = path.slice(path.lastIndexOf('/') + 1);
+  return ['main.rs', 'lib.rs', 'mod.rs'].includes(file) ? dirname(path) : path.slice(0, -'.rs'.length);
+};
+
+const rustCrateRoot = (path: string) => {
+  const index = path.lastIndexOf('src/');
+  return index === -1 || (index > 0 && path[index - 1] !== '/') ? dirname(path) : path.slice(0, index + 'src'.length);
+};
+
+const resolveRustModule = (dir: string, segments: string[], files: Set<string>): string | null => {
+  // `use a::b::Item` may end in an item rather than a module, so try shorter paths too
+  for (let i = segments.length; i > 0; i--) {
+    const base = joinPath(dir, ...segments.slice(0, i));
+    if (base === null) continue;
+    for (const candidate of [`${base}.rs`, `${base}/mod.rs`]) {
+      if (files.has(candidate)) return candidate;
+    }
+  }
+  return null;
+};
+
+const resolveRust = (fromPath: string, specifier: string, ctx: ResolverContext): ImportTarget | null => {
+  const moduleDir = rustModuleDir(fromPath);
+  const asFile = (path: string | null): ImportTarget | null => (path ? { kind: 'file', paths: [path] } : null);
+
+  if (specifier.startsWith('mod:')) {
+    return asFile(resolveRustModule(moduleDir, [specifier.slice(4)], ctx.files));
+  }
+
+  const segments = specifier.replace(/^::/, '').split('::').filter(Boolean);
+  const [first, ...rest] = segments;
+  if (!first) return null;
+  if (first === 'crate') return asFile(resolveRustModule(rustCrateRoot(fromPath), rest, ctx.files));
+  if (first === 'self') return asFile(resolveRustModule(moduleDir, rest, ctx.files));
+  if (first === 'super') {
+    let dir = dirname(moduleDir);
+    let remaining = rest;
+    while (remaining[0] === 'super') {
+      dir = dirname(dir);
+      remaining = remaining.slice(1);
+    }
+    return asFile(resolveRustModule(dir, remaining, ctx.files));
+  }
+
+  // 2018-edition paths may start with a module in scope before an external crate
+  const local = resolveRustModule(moduleDir, segments, ctx.files);
+  if (local) return { kind: 'file', paths: [local] };
+  if (RUST_BUILTIN_CRATES.has(first) || first === 'Self') return null;
+  return { kind: 'external', name: first };
+};
+
+/**
+ * Resolves one specifier from parseImports to repository files or an
+ * external package. Returns null for standard library modules and for
+ * relative imports that don't match a file in the tree.
+ */
+export function resolveImport(fromPath: string, specifier: string, ctx: ResolverContext): ImportTarget | null {
+  switch (languageOf(fromPath)) {
+    case 'typescript': return resolveTypeScript(fromPath, specifier, ctx);
+    case 'python': return resolvePython(fromPath, specifier, ctx);
+    case 'go': return resolveGo(specifier, ctx);
+    case 'rust': return resolveRust(fromPath, specifier, ctx);
+    default: return null;
+  }
+}
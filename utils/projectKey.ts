@@ -0,0 +1,17 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { DevStudioState } from '../types';
+
+/**
+ * Stable identity of a Dev Studio project: host, repository, ref and
+ * subdirectory. Local folders have no owner and are keyed by name.
+ */
+export function getProjectKey(project: DevStudioState): string {
+  const repo = project.owner
+    ? `${project.host || 'github'}:${project.owner}/${project.repoName}`
+    : `local:${project.repoName}`;
+  return `${repo}@${project.ref || ''}${project.subdir ? `/${project.subdir}` : ''}`;
+}
@@ -0,0 +1,337 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type * as TS from 'typescript';
+
+export type SymbolKind = 'function' | 'class' | 'interface' | 'type' | 'enum' | 'variable' | 'method' | 'property';
+
+export type SymbolLanguage = 'typescript' | 'python' | 'go';
+
+/** A declaration in a file. Lines are 1-based and inclusive. */
+export interface SymbolInfo {
+  name: string;
+  kind: SymbolKind;
+  line: number;
+  endLine: number;
+  /** Visible to other files: exported in TS/JS, public by naming in Python and Go. */
+  exported: boolean;
+  /** Class, interface or receiver type a member belongs to. */
+  container?: string;
+}
+
+export interface FileSymbols {
+  path: string;
+  language: SymbolLanguage;
+  /** Declarations in source order, members right after their container. */
+  symbols: SymbolInfo[];
+  /** Lines each identifier is used on, declaration names aside. */
+  references: Record<string, number[]>;
+}
+
+export type TypeScriptModule = typeof TS;
+
+const LANGUAGES: Record<string, SymbolLanguage> = {
+  ts: 'typescript',
+  tsx: 'typescript',
+  mts: 'typescript',
+  cts: 'typescript',
+  js: 'typescript',
+  jsx: 'typescript',
+  mjs: 'typescript',
+  cjs: 'typescript',
+  py: 'python',
+  go: 'go',
+};
+
+/** The parser for a file, or null when its language has none. */
+export function symbolLanguage(path: string): SymbolLanguage | null {
+  const name = path.slice(path.lastIndexOf('/') + 1);
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? LANGUAGES[name.slice(dot + 1).toLowerCase()] ?? null : null;
+}
+
+const addReference = (references: Record<string, number[]>, name: string, line: number) => {
+  if (!Object.prototype.hasOwnProperty.call(references, name)) references[name] = [];
+  const lines = references[name];
+  if (lines[lines.length - 1] !== line) lines.push(line);
+};
+
+// ==================== TypeScript / JavaScript ====================
+
+const scriptKind = (ts: TypeScriptModule, path: string) => {
+  if (/\.tsx$/i.test(path)) return ts.ScriptKind.TSX;
+  if (/\.jsx$/i.test(path)) return ts.ScriptKind.JSX;
+  if (/\.[mc]?js$/i.test(path)) return ts.ScriptKind.JS;
+  return ts.ScriptKind.TS;
+};
+
+const hasModifier = (ts: TypeScriptModule, node: TS.Node, kind: TS.SyntaxKind) =>
+  !!(ts.canHaveModifiers(node) && ts.getModifiers(node)?.some(m => m.kind === kind));
+
+/**
+ * Declarations and identifier uses of a TS/JS file, read with the TypeScript
+ * parser. Top-level functions, classes, interfaces, types, enums and variables
+ * are listed with the methods and properties of classes and interfaces.
+ * Names exported through `export { a, b as c }` count as exported; the
+ * module itself is passed in so callers can load it lazily.
+ */
+export function parseTypeScriptSymbols(ts: TypeScriptModule, path: string, content: string): FileSymbols {
+  const source = ts.createSourceFile(path, content, ts.ScriptTarget.Latest, true, scriptKind(ts, path));
+  const lineOf = (position: number) => source.getLineAndCharacterOfPosition(position).line + 1;
+  const symbols: SymbolInfo[] = [];
+  const declarationNames = new Set<TS.Node>();
+  const exportedNames = new Set<string>();
+
+  const add = (nameNode: TS.Node | undefined, kind: SymbolKind, node: TS.Node, exported: boolean, container?: string) => {
+    if (!nameNode || !(ts.isIdentifier(nameNode) || ts.isPrivateIdentifier(nameNode) || ts.isStringLiteral(nameNode))) return;
+    declarationNames.add(nameNode);
+    symbols.push({
+      name: nameNode.text,
+      kind,
+      line: lineOf(node.getStart(source)),
+      endLine: lineOf(node.getEnd()),
+      exported,
+      ...(container ? { container } : {}),
+    });
+  };
+
+  const addMembers = (members: TS.NodeArray<TS.ClassElement | TS.TypeElement>, container: string, exported: boolean) => {
+    members.forEach(member => {
+      if (hasModifier(ts, member, ts.SyntaxKind.PrivateKeyword) || (member.name && ts.isPrivateIdentifier(member.name))) return;
+      const isMethod = ts.isMethodDeclaration(member) || ts.isMethodSignature(member) || ts.isGetAccessor(member) || ts.isSetAccessor(member);
+      const isProperty = ts.isPropertyDeclaration(member) || ts.isPropertySignature(member);
+      if (isMethod || isProperty) add(member.name, isMethod ? 'method' : 'property', member, exported, container);
+    });
+  };
+
+  source.statements.forEach(statement => {
+    const exported = hasModifier(ts, statement, ts.SyntaxKind.ExportKeyword);
+    if (ts.isFunctionDeclaration(statement)) {
+      add(statement.name, 'function', statement, exported);
+    } else if (ts.isClassDeclaration(statement)) {
+      add(statement.name, 'class', statement, exported);
+      if (statement.name) addMembers(statement.members, statement.name.text, exported);
+    } else if (ts.isInterfaceDeclaration(statement)) {
+      add(statement.name, 'interface', statement, exported);
+      addMembers(statement.members, statement.name.text, exported);
+    } else if (ts.isTypeAliasDeclaration(statement)) {
+      add(statement.name, 'type', statement, exported);
+    } else if (ts.isEnumDeclaration(statement)) {
+      add(statement.name, 'enum', statement, exported);
+    } else if (ts.isVariableStatement(statement)) {
+      statement.declarationList.declarations.forEach(declaration => {
+        const init = declaration.initializer;
+        const isFunction = !!init && (ts.isArrowFunction(init) || ts.isFunctionExpression(init));
+        // Components and services defined as `const X = forwardRef(...)` or object literals stay variables
+        add(declaration.name, isFunction ? 'function' : 'variable', statement.declarationList.declarations.length === 1 ? statement : declaration, exported);
+      });
+    } else if (ts.isExportDeclaration(statement) && !statement.moduleSpecifier && statement.exportClause && ts.isNamedExports(statement.exportClause)) {
+      statement.exportClause.elements.forEach(element => exportedNames.add((element.propertyName ?? element.name).text));
+    } else if (ts.isExportAssignment(statement) && ts.isIdentifier(statement.expression)) {
+      exportedNames.add(statement.expression.text);
+    }
+  });
+  symbols.forEach(symbol => {
+    if (!symbol.container && exportedNames.has(symbol.name)) symbol.exported = true;
+  });
+
+  const references: Record<string, number[]> = {};
+  const visit = (node: TS.Node) => {
+    if (ts.isIdentifier(node) && !declarationNames.has(node)) addReference(references, node.text, lineOf(node.getStart(source)));
+    ts.forEachChild(node, visit);
+  };
+  visit(source);
+
+  return { path, language: 'typescript', symbols, references };
+}
+
+// ==================== Python and Go ====================
+
+/**
+ * Blanks comments and string literals so names inside them aren't taken for
+ * uses. Line breaks are kept so line numbers stay put.
+ */
+function stripCommentsAndStrings(content: string, language: 'python' | 'go'): string {
+  const pattern = language === 'python'
+    ? /("""[\s\S]*?"""|'''[\s\S]*?'''|"(?:\\.|[^"\\\n])*"|'(?:\\.|[^'\\\n])*'|#[^\n]*)/g
+    : /(\/\*[\s\S]*?\*\/|`[^`]*`|"(?:\\.|[^"\\\n])*"|'(?:\\.|[^'\\\n])*'|\/\/[^\n]*)/g;
+  return content.replace(pattern, match => match.replace(/[^\n]/g, ' '));
+}
+
+const indentOf = (line: string) => line.match(/^\s*/)![0].length;
+
+/** Indentation of the first non-blank line after `index`: that of a block's members. */
+const innerIndent = (lines: string[], index: number): number => {
+  for (let i = index + 1; i < lines.length; i++) {
+    if (lines[i].trim()) return indentOf(lines[i]);
+  }
+  return -1;
+};
+
+/** Last line of an indented Python block starting at `index` (0-based). */
+function pythonBlockEnd(lines: string[], index: number): number {
+  const indent = indentOf(lines[index]);
+  let end = index;
+  for (let i = index + 1; i < lines.length; i++) {
+    if (!lines[i].trim()) continue;
+    if (indentOf(lines[i]) <= indent) break;
+    end = i;
+  }
+  return end + 1;
+}
+
+/** Last line of a brace-delimited Go block opening on line `index`, or that line itself. */
+function goBlockEnd(lines: string[], index: number): number {
+  let depth = 0;
+  let opened = false;
+  for (let i = index; i < lines.length; i++) {
+    for (const char of lines[i]) {
+      if (char === '{' || char === '(') { depth++; opened = true; }
+      if (char === '}' || char === ')') depth--;
+    }
+    if (opened && depth <= 0) return i + 1;
+    if (!opened && i > index) break;
+  }
+  return index + 1;
+}
+
+const IDENTIFIER = /[A-Za-z_]\w*/g;
+
+function collectReferences(lines: string[], declarationLines: Map<number, Set<string>>): Record<string, number[]> {
+  const references: Record<string, number[]> = {};
+  lines.forEach((line, i) => {
+    const declared = declarationLines.get(i + 1);
+    for (const [name] of line.matchAll(IDENTIFIER)) {
+      if (declared?.has(name)) {
+        // Only the declaring occurrence is skipped; later ones on the line are uses
+        declared.delete(name);
+        continue;
+      }
+      addReference(references, name, i + 1);
+    }
+  });
+  return references;
+}
+
+/**
+ * Declarations of a Python file, read with regexes: top-level functions,
+ * classes and UPPER_CASE constants, plus the methods of classes. Names
+ * starting with an underscore are private unless listed in `__all__`.
+ */
+export function parsePythonSymbols(path: string, content: string): FileSymbols {
+  const stripped = stripCommentsAndStrings(content, 'python');
+  const lines = stripped.split('\n');
+  const symbols: SymbolInfo[] = [];
+  const declarationLines = new Map<number, Set<string>>();
+  const allMatch = content.match(/^__all__\s*=\s*[[(]([^\])]*)[\])]/m);
+  const all = allMatch ? new Set(Array.from(allMatch[1].matchAll(/['"](\w+)['"]/g), m => m[1])) : null;
+  const isPublic = (name: string) => (all ? all.has(name) : !name.startsWith('_'));
+  let currentClass: { name: string; memberIndent: number; exported: boolean } | null = null;
+
+  const add = (symbol: SymbolInfo) => {
+    symbols.push(symbol);
+    if (!declarationLines.has(symbol.line)) declarationLines.set(symbol.line, new Set());
+    declarationLines.get(symbol.line)!.add(symbol.name);
+  };
+
+  lines.forEach((line, i) => {
+    if (!line.trim()) return;
+    const indent = indentOf(line);
+    if (currentClass && indent === 0) currentClass = null;
+
+    const def = line.match(/^(\s*)(?:async\s+)?def\s+([A-Za-z_]\w*)/);
+    const cls = line.match(/^class\s+([A-Za-z_]\w*)/);
+    if (cls) {
+      const exported = isPublic(cls[1]);
+      add({ name: cls[1], kind: 'class', line: i + 1, endLine: pythonBlockEnd(lines, i), exported });
+      currentClass = { name: cls[1], memberIndent: innerIndent(lines, i), exported };
+    } else if (def && indent === 0) {
+      add({ name: def[2], kind: 'function', line: i + 1, endLine: pythonBlockEnd(lines, i), exported: isPublic(def[2]) });
+    } else if (def && currentClass && indent === currentClass.memberIndent) {
+      const name = def[2];
+      const dunder = /^__\w+__$/.test(name);
+      add({
+        name,
+        kind: 'method',
+        line: i + 1,
+        endLine: pythonBlockEnd(lines, i),
+        exported: currentClass.exported && (dunder || !name.startsWith('_')),
+        container: currentClass.name,
+      });
+    } else if (indent === 0) {
+      const constant = line.match(/^([A-Z][A-Z0-9_]*)\s*(?::[^=]+)?=(?!=)/);
+      if (constant) add({ name: constant[1], kind: 'variable', line: i + 1, endLine: pythonBlockEnd(lines, i), exported: isPublic(constant[1]) });
+    }
+  });
+
+  return { path, language: 'python', symbols, references: collectReferences(lines, declarationLines) };
+}
+
+/**
+ * Declarations of a Go file, read with regexes: functions, methods (with
+ * their receiver type as container), types and package-level variables and
+ * constants, including grouped `type (...)`, `var (...)` and `const (...)`
+ * blocks. Capitalized names are exported.
+ */
+export function parseGoSymbols(path: string, content: string): FileSymbols {
+  const stripped = stripCommentsAndStrings(content, 'go');
+  const lines = stripped.split('\n');
+  const symbols: SymbolInfo[] = [];
+  const declarationLines = new Map<number, Set<string>>();
+  const isExported = (name: string) => /^[A-Z]/.test(name);
+  let group: { keyword: string; end: number; memberIndent: number } | null = null;
+
+  const add = (symbol: SymbolInfo) => {
+    symbols.push(symbol);
+    if (!declarationLines.has(symbol.line)) declarationLines.set(symbol.line, new Set());
+    declarationLines.get(symbol.line)!.add(symbol.name);
+  };
+  const typeKind = (rest: string): SymbolKind => (/^struct\b/.test(rest) ? 'class' : /^interface\b/.test(rest) ? 'interface' : 'type');
+
+  lines.forEach((line, i) => {
+    if (group) {
+      if (i + 1 >= group.end) {
+        group = null;
+        return;
+      }
+      const member = line.match(/^\s+([A-Za-z_]\w*)\b\s*(.*)$/);
+      if (member && indentOf(line) === group.memberIndent) {
+        const kind = group.keyword === 'type' ? typeKind(member[2]) : 'variable';
+        add({ name: member[1], kind, line: i + 1, endLine: kind === 'variable' ? i + 1 : goBlockEnd(lines, i), exported: isExported(member[1]) });
+      }
+      return;
+    }
+
+    const method = line.match(/^func\s+\(\s*(?:\w+\s+)?\*?\s*([A-Za-z_]\w*)(?:\[[^\]]*\])?\s*\)\s*([A-Za-z_]\w*)/);
+    const func = line.match(/^func\s+([A-Za-z_]\w*)/);
+    const groupStart = line.match(/^(type|var|const)\s*\(/);
+    const single = line.match(/^(type|var|const)\s+([A-Za-z_]\w*)\s*(.*)$/);
+    if (method) {
+      add({ name: method[2], kind: 'method', line: i + 1, endLine: goBlockEnd(lines, i), exported: isExported(method[2]), container: method[1] });
+    } else if (func) {
+      add({ name: func[1], kind: 'function', line: i + 1, endLine: goBlockEnd(lines, i), exported: isExported(func[1]) });
+    } else if (groupStart) {
+      group = { keyword: groupStart[1], end: goBlockEnd(lines, i), memberIndent: innerIndent(lines, i) };
+    } else if (single) {
+      const kind = single[1] === 'type' ? typeKind(single[3]) : 'variable';
+      add({ name: single[2], kind, line: i + 1, endLine: goBlockEnd(lines, i), exported: isExported(single[2]) });
+    }
+  });
+
+  return { path, language: 'go', symbols, references: collectReferences(lines, declarationLines) };
+}
+
+/**
+ * Symbols of a file in any supported language, or null for others. The
+ * TypeScript module is only needed, and only touched, for TS/JS files.
+ */
+export function parseFileSymbols(path: string, content: string, ts: TypeScriptModule | null): FileSymbols | null {
+  switch (symbolLanguage(path)) {
+    case 'typescript': return ts ? parseTypeScriptSymbols(ts, path, content) : null;
+    case 'python': return parsePythonSymbols(path, content);
+    case 'go': return parseGoSymbols(path, content);
+    default: return null;
+  }
+}
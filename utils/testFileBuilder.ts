@@ -0,0 +1,246 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import JSZip from 'jszip';
+import { TestGenerationResult, TestCase } from '../services/aiSchemas';
+
+export type TestFramework = 'vitest' | 'jest' | 'pytest' | 'go';
+
+export const TEST_FRAMEWORK_LABELS: Record<TestFramework, string> = {
+  vitest: 'Vitest',
+  jest: 'Jest',
+  pytest: 'pytest',
+  go: 'go test',
+};
+
+/** A test file ready to be written next to the file it tests. */
+export interface TestFile {
+  /** Repository path of the file under test. */
+  sourcePath: string;
+  /** Repository path of the test file. */
+  path: string;
+  framework: TestFramework;
+  content: string;
+}
+
+const extensionOf = (path: string) => {
+  const name = path.slice(path.lastIndexOf('/') + 1);
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? name.slice(dot + 1).toLowerCase() : '';
+};
+
+const dirOf = (path: string) => (path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '');
+
+const stemOf = (path: string) => {
+  const name = path.slice(path.lastIndexOf('/') + 1);
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? name.slice(0, dot) : name;
+};
+
+const indent = (code: string, prefix: string) =>
+  code.split('\n').map(line => (line.trim() ? prefix + line : line)).join('\n');
+
+const identifier = (name: string, separator: '_' | '') => {
+  const words = name.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim().split(' ').filter(Boolean);
+  if (separator === '_') return words.join('_') || 'case';
+  return words.map(w => w[0].toUpperCase() + w.slice(1)).join('') || 'Case';
+};
+
+const quote = (text: string) => `'${text.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+
+/**
+ * The framework to write a file's tests in. Python and Go files have one
+ * choice; JS/TS files use Jest when the model or the repository's config
+ * files point to it, Vitest otherwise.
+ */
+export function detectFramework(sourcePath: string, modelFramework: string, repoPaths: string[] = []): TestFramework {
+  const extension = extensionOf(sourcePath);
+  if (extension === 'py') return 'pytest';
+  if (extension === 'go') return 'go';
+  const configs = repoPaths.map(path => path.slice(path.lastIndexOf('/') + 1));
+  if (configs.some(name => name.startsWith('vitest.config'))) return 'vitest';
+  if (configs.some(name => name.startsWith('jest.config'))) return 'jest';
+  return /jest/i.test(modelFramework) && !/vitest/i.test(modelFramework) ? 'jest' : 'vitest';
+}
+
+/** Where the framework expects the tests of `sourcePath`: next to it, named by convention. */
+export function testFilePath(sourcePath: string, framework: TestFramework): string {
+  const dir = dirOf(sourcePath);
+  const prefix = dir ? `${dir}/` : '';
+  const stem = stemOf(sourcePath);
+  switch (framework) {
+    case 'pytest': return `${prefix}test_${stem}.py`;
+    case 'go': return `${prefix}${stem}_test.go`;
+    default: {
+      const extension = extensionOf(sourcePath) || 'ts';
+      return `${prefix}${stem}.test.${extension}`;
+    }
+  }
+}
+
+/**
+ * Dotted module name of a Python file. A leading `src/` is dropped since it is
+ * usually the import root, and `__init__.py` stands for its package.
+ */
+export function pythonModule(sourcePath: string): string {
+  const parts = sourcePath.replace(/\.py$/, '').split('/');
+  if (parts[0] === 'src' && parts.length > 1) parts.shift();
+  if (parts[parts.length - 1] === '__init__' && parts.length > 1) parts.pop();
+  return parts.join('.');
+}
+
+/**
+ * Named exports of a JS/TS module, read with a regex: declarations and
+ * `export { a, b as c }` lists. Default exports and re-exports are left out.
+ */
+export function exportedNames(source: string): string[] {
+  const names = new Set<string>();
+  const declaration = /^\s*export\s+(?:declare\s+)?(?:async\s+)?(?:function\*?|const|let|var|class|enum|interface|type|abstract\s+class)\s+([A-Za-z_$][\w$]*)/gm;
+  for (const match of source.matchAll(declaration)) names.add(match[1]);
+  for (const match of source.matchAll(/^\s*export\s*(?:type\s*)?\{([^}]*)\}(?!\s*from)/gm)) {
+    match[1].split(',').forEach(part => {
+      const name = part.trim().split(/\s+as\s+/).pop()?.trim();
+      if (name && name !== 'default') names.add(name);
+    });
+  }
+  return Array.from(names);
+}
+
+/** Splits import lines from the rest so they can be hoisted and de-duplicated. */
+function splitImports(code: string, framework: TestFramework): { imports: string[]; body: string } {
+  const isImport = framework === 'pytest'
+    ? (line: string) => /^(import|from)\s+\S+/.test(line)
+    : framework === 'go'
+      ? (line: string) => /^import\s+("|\()/.test(line) || /^package\s+\w+/.test(line)
+      : (line: string) => /^import\s.+from\s+['"]|^import\s+['"]/.test(line) || /^(const|let|var)\s+.+=\s*require\(/.test(line);
+  const imports: string[] = [];
+  const body: string[] = [];
+  let inGoImportBlock = false;
+  code.split('\n').forEach(line => {
+    const trimmed = line.trim();
+    if (framework === 'go' && inGoImportBlock) {
+      if (trimmed === ')') inGoImportBlock = false;
+      else if (trimmed) imports.push(`import ${trimmed}`);
+      return;
+    }
+    if (framework === 'go' && /^import\s*\($/.test(trimmed)) {
+      inGoImportBlock = true;
+      return;
+    }
+    if (isImport(trimmed)) {
+      // A package clause of a snippet is dropped; the file gets its own
+      if (!/^package\s/.test(trimmed)) imports.push(trimmed);
+      return;
+    }
+    body.push(line);
+  });
+  return { imports, body: body.join('\n').trim() };
+}
+
+const isJsTestCall = (code: string) => /^(it|test|describe)(\.\w+)?\s*\(/m.test(code);
+
+function jsCase(testCase: TestCase, code: string): string {
+  if (isJsTestCall(code)) return code;
+  const asyncPrefix = /\bawait\b/.test(code) ? 'async ' : '';
+  return `it(${quote(testCase.name)}, ${asyncPrefix}() => {\n${indent(code, '  ')}\n});`;
+}
+
+function pythonCase(testCase: TestCase, code: string): string {
+  if (/^(async\s+)?def\s+test_/m.test(code) || /^class\s+Test/m.test(code)) return code;
+  const docstring = testCase.description ? `    """${testCase.description.replace(/"""/g, "'''")}"""\n` : '';
+  return `def test_${identifier(testCase.name, '_')}():\n${docstring}${indent(code, '    ')}`;
+}
+
+function goCase(testCase: TestCase, code: string): string {
+  if (/^func\s+Test\w*\s*\(/m.test(code)) return code;
+  const comment = testCase.description ? `// ${testCase.description.replace(/\n+/g, ' ')}\n` : '';
+  return `${comment}func Test${identifier(testCase.name, '')}(t *testing.T) {\n${indent(code, '\t')}\n}`;
+}
+
+const unique = (lines: string[]) => Array.from(new Set(lines));
+
+const VITEST_GLOBALS = ['describe', 'it', 'test', 'expect', 'vi', 'beforeAll', 'beforeEach', 'afterAll', 'afterEach'];
+
+/**
+ * Assembles a runnable test file from generated test cases: framework and
+ * subject imports derived from the file path, the generated setup, and each
+ * case wrapped in the framework's test function unless it already is one.
+ * JS/TS cases are grouped in a describe block per test type.
+ */
+export function buildTestFile(
+  sourcePath: string,
+  result: TestGenerationResult,
+  options: { framework?: TestFramework; sourceContent?: string } = {}
+): TestFile {
+  const framework = options.framework ?? detectFramework(sourcePath, result.framework);
+  const path = testFilePath(sourcePath, framework);
+  const setup = splitImports(result.setup || '', framework);
+  const cases = result.testCases.map(testCase => ({ testCase, ...splitImports(testCase.code, framework) }));
+  const snippetImports = unique([...setup.imports, ...cases.flatMap(c => c.imports)]);
+  const sections: string[] = [];
+
+  if (framework === 'vitest' || framework === 'jest') {
+    const stem = stemOf(sourcePath);
+    const imports: string[] = [];
+    if (framework === 'vitest' && !snippetImports.some(line => /from\s+['"]vitest['"]/.test(line))) {
+      const code = [setup.body, ...cases.map(c => c.body)].join('\n');
+      const used = VITEST_GLOBALS.filter(name => ['describe', 'it', 'expect'].includes(name) || new RegExp(`\\b${name}\\b`).test(code));
+      imports.push(`import { ${used.join(', ')} } from 'vitest';`);
+    }
+    // Snippets often import the subject themselves. Otherwise the exports they
+    // use are imported by name, or the whole module when the source is unknown
+    if (!snippetImports.some(line => line.includes(`/${stem}'`) || line.includes(`/${stem}"`))) {
+      // String contents are blanked so words inside them aren't taken for uses
+      const code = [setup.body, ...cases.map(c => c.body)].join('\n').replace(/(['"`])(?:\\.|(?!\1)[^\\\n])*\1/g, "''");
+      const used = options.sourceContent !== undefined
+        ? exportedNames(options.sourceContent).filter(name => new RegExp(`(^|[^\\w$.])${name.replace(/\$/g, '\\$')}\\b`).test(code))
+        : null;
+      if (!used) imports.push(`import * as ${identifier(stem, '').replace(/^\d/, '_$&')} from './${stem}';`);
+      else if (used.length > 0) imports.push(`import { ${used.join(', ')} } from './${stem}';`);
+    }
+    sections.push(unique([...imports, ...snippetImports]).join('\n'));
+    if (setup.body) sections.push(setup.body);
+
+    const types = unique(cases.map(c => c.testCase.type));
+    const body = types.map(type => {
+      const blocks = cases.filter(c => c.testCase.type === type).map(c => jsCase(c.testCase, c.body));
+      if (types.length === 1) return blocks.map(block => indent(block, '  ')).join('\n\n');
+      return `  describe(${quote(type)}, () => {\n${blocks.map(block => indent(block, '    ')).join('\n\n')}\n  });`;
+    }).join('\n\n');
+    sections.push(`describe(${quote(sourcePath.slice(sourcePath.lastIndexOf('/') + 1))}, () => {\n${body}\n});`);
+  } else if (framework === 'pytest') {
+    const module = pythonModule(sourcePath);
+    const tail = module.slice(module.lastIndexOf('.') + 1);
+    const importsSubject = new RegExp(`^(from\\s+(\\S+\\.)?${tail}\\s+import\\s|import\\s+(\\S+\\.)?${tail}\\b)`);
+    const imports = ['import pytest'];
+    if (!snippetImports.some(line => importsSubject.test(line))) {
+      imports.push(`from ${module} import *  # noqa: F401,F403`);
+    }
+    sections.push(unique([...imports, ...snippetImports]).join('\n'));
+    if (setup.body) sections.push(setup.body);
+    cases.forEach(c => sections.push(pythonCase(c.testCase, c.body)));
+  } else {
+    // The source's package clause decides (cmd/foo is `package main`, v2 dirs aren't `package v2`); the directory is a guess
+    const dir = dirOf(sourcePath);
+    const pkg = options.sourceContent?.match(/^package\s+([A-Za-z_]\w*)/m)?.[1]
+      ?? (dir ? dir.slice(dir.lastIndexOf('/') + 1).replace(/[^A-Za-z0-9_]/g, '_') : 'main');
+    const goImports = unique(['"testing"', ...snippetImports.map(line => line.replace(/^import\s+/, ''))]);
+    sections.push(`package ${pkg}`);
+    sections.push(`import (\n${goImports.map(line => `\t${line}`).join('\n')}\n)`);
+    if (setup.body) sections.push(setup.body);
+    cases.forEach(c => sections.push(goCase(c.testCase, c.body)));
+  }
+
+  // PEP 8 separates top-level definitions by two blank lines
+  const separator = framework === 'pytest' ? '\n\n\n' : '\n\n';
+  return { sourcePath, path, framework, content: `${sections.filter(Boolean).join(separator)}\n` };
+}
+
+/** Zips test files under their repository paths, so the archive unpacks over a checkout. */
+export async function bundleTestFiles(files: TestFile[]): Promise<Blob> {
+  const zip = new JSZip();
+  files.forEach(file => zip.file(file.path, file.content));
+  return zip.generateAsync({ type: 'blob' });
+}